@@ -0,0 +1,17 @@
+import { transformSync } from 'esbuild';
+
+/**
+ * Strip TypeScript with esbuild; type checking is left to `tsc --noEmit`
+ */
+export default {
+  process(sourceText, sourcePath) {
+    const { code, map } = transformSync(sourceText, {
+      loader: 'ts',
+      format: 'esm',
+      target: 'node18',
+      sourcefile: sourcePath,
+      sourcemap: 'external',
+    });
+    return { code, map };
+  },
+};
@@ -0,0 +1,126 @@
+import { describe, expect, it } from '@jest/globals';
+import path from 'path';
+import { bcs } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { createTransaction } from '../utils/transactions.js';
+import { readMoveSources, parseMoveModule } from './move-source.js';
+import { DEFAULT_BINDINGS_DIR, findStaleBindings, generateBindings } from './generate-bindings.js';
+import * as publicationMove from '../generated/publication.js';
+import * as nftMove from '../generated/nft.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const ID = normalizeSuiAddress('0x' + '11'.repeat(32));
+
+const SOURCE = `
+module contracts::demo;
+
+use std::string::String;
+use sui::coin::Coin;
+use sui::sui::SUI;
+
+const E_EMPTY: u64 = 0;
+const E_FULL: u64 = 3;
+const MAX_ITEMS: u64 = 10;
+
+public struct Shelf has key, store {
+    id: UID,
+    label: String,
+    count: u64,
+    owner: Option<address>,
+}
+
+public enum Mode has copy, drop, store { Open, Closed { reason: String } }
+
+/// Not part of the interface
+fun helper(): u64 { 0 }
+
+public fun label(shelf: &Shelf): String { shelf.label }
+
+entry fun restock(shelf: &mut Shelf, amounts: vector<u64>, payment: Coin<SUI>, ctx: &mut TxContext) {}
+`;
+
+describe('generateBindings', () => {
+  it('matches the committed bindings', async () => {
+    const pkg = await readMoveSources(path.resolve(process.cwd(), '../sources'));
+
+    expect(await findStaleBindings(path.resolve(DEFAULT_BINDINGS_DIR), generateBindings(pkg))).toEqual([]);
+  });
+
+  it('reads structs, enums and the public functions of a module', () => {
+    const { module, parameterNames, errorCodes } = parseMoveModule(SOURCE);
+
+    expect(Object.keys(module.structs)).toEqual(['Shelf']);
+    expect(module.structs.Shelf.abilities.abilities).toEqual(['Key', 'Store']);
+    expect(Object.keys(module.enums!.Mode.variants)).toEqual(['Open', 'Closed']);
+    expect(Object.keys(module.exposedFunctions).sort()).toEqual(['label', 'restock']);
+    expect(module.exposedFunctions.restock.isEntry).toBe(true);
+    expect(module.exposedFunctions.restock.parameters[1]).toEqual({ Vector: 'U64' });
+    expect(parameterNames.restock).toEqual(['shelf', 'amounts', 'payment', 'ctx']);
+    expect(errorCodes).toEqual({ 0: 'E_EMPTY', 3: 'E_FULL' });
+  });
+
+  it('emits a builder that skips the TxContext and types pure arguments', () => {
+    const { module, parameterNames } = parseMoveModule(SOURCE);
+    const files = generateBindings({
+      address: 'contracts',
+      modules: { demo: module },
+      parameterNames: { 'demo::restock': parameterNames.restock },
+    });
+
+    expect(Object.keys(files).sort()).toEqual(['demo.ts', 'index.ts']);
+    expect(files['demo.ts']).toContain(
+      "export function restock(tx: TransactionBuilder, packageId: string, args: [shelf: ObjectInput, amounts: PureValue<'vector<u64>'>, payment: ObjectInput])"
+    );
+    expect(files['demo.ts']).toContain('export function decodeShelf(json: unknown): Shelf');
+    expect(files['index.ts']).toContain("export * as demo from './demo.js';");
+  });
+});
+
+describe('generated bindings', () => {
+  it('build calls with typed arguments', async () => {
+    const fake = new FakeSuiClient();
+    const client = fake.createInkrayClient();
+    const tx = createTransaction(client);
+
+    nftMove.mint(tx, PKG, [client.getAddress(), ID, ID, tx.getGasCoin()]);
+    await tx.execute();
+
+    const [call] = fake.lastExecuted().moveCalls;
+    expect(call.target).toBe(`${PKG}::nft::mint`);
+    expect(call.arguments[1]).toEqual({ kind: 'pure', bytes: bcs.Address.serialize(ID).toBytes() });
+    expect(call.arguments[2]).toEqual({ kind: 'object', objectId: ID });
+  });
+
+  it('reject a malformed pure argument before building', () => {
+    const tx = createTransaction(new FakeSuiClient().createInkrayClient());
+
+    expect(() => publicationMove.setSubscriptionPrice(tx, PKG, [ID, ID, -1n])).toThrow('Invalid pure argument');
+  });
+
+  it('decode object content and name the field that does not fit', () => {
+    const content = {
+      type: publicationMove.structType(PKG, 'Publication'),
+      fields: {
+        id: { id: ID },
+        name: 'Inkray Weekly',
+        contributors: [],
+        vault_id: ID,
+        tip_balance: '5',
+        total_tips_received: '1',
+        total_amount_received: '5',
+        subscription_price: '1000',
+        subscription_balance: { type: '0x2::balance::Balance<0x2::sui::SUI>', fields: { value: '0' } },
+      },
+    };
+
+    expect(publicationMove.decodePublication(content)).toMatchObject({
+      id: ID,
+      name: 'Inkray Weekly',
+      tip_balance: 5n,
+      subscription_balance: 0n,
+    });
+    expect(() => publicationMove.decodePublication({ ...content.fields, subscription_price: 'free' }))
+      .toThrow('Invalid publication::Publication: subscription_price is not an unsigned integer');
+  });
+});
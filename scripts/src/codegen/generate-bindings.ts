@@ -0,0 +1,526 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import type {
+  SuiMoveNormalizedEnum,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedModule,
+  SuiMoveNormalizedStruct,
+  SuiMoveNormalizedType,
+} from '@mysten/sui/client';
+import { isSameAddress, loadPackageFromChain, structTagName, type MovePackageInterface, type StructTag } from './normalized.js';
+import { readMoveSources } from './move-source.js';
+
+/**
+ * Typed bindings for a Move package
+ *
+ * For every module: a call builder per public or entry function (pure
+ * arguments go through the typed pure layer, objects take an ID or a
+ * transaction result, `TxContext` is left out), and an interface plus a
+ * decoder per struct and enum. Calling a function the package lacks, or with
+ * the wrong arguments, no longer compiles after the bindings are regenerated.
+ */
+
+export const DEFAULT_BINDINGS_DIR = 'src/generated';
+
+const HEADER = '// Generated from the contracts\' normalized Move modules by `npm run codegen`. Do not edit.';
+
+const RESERVED = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else', 'enum',
+  'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof', 'new', 'null',
+  'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void', 'while', 'with', 'yield',
+  'let', 'static', 'implements', 'interface', 'package', 'private', 'protected', 'public', 'await',
+]);
+
+type ArgumentKind =
+  | { kind: 'pure'; pureType: string }
+  | { kind: 'object' }
+  | { kind: 'value' }
+  | { kind: 'context' };
+
+interface DecoderType {
+  tsType: string;
+  decoder: string;
+}
+
+/**
+ * Source text of every bindings file, keyed by file name
+ */
+export function generateBindings(pkg: MovePackageInterface): Record<string, string> {
+  const files: Record<string, string> = {};
+  const moduleNames = Object.keys(pkg.modules).sort();
+
+  for (const name of moduleNames) {
+    files[`${name}.ts`] = new ModuleEmitter(pkg, pkg.modules[name]).emit();
+  }
+
+  files['index.ts'] = [
+    HEADER,
+    '',
+    ...moduleNames.map(name => `export * as ${identifier(name)} from './${name}.js';`),
+    '',
+  ].join('\n');
+
+  return files;
+}
+
+/**
+ * Write the bindings, removing generated files of modules that no longer exist
+ */
+export async function writeBindings(outDir: string, files: Record<string, string>): Promise<void> {
+  await fs.mkdir(outDir, { recursive: true });
+
+  for (const existing of await fs.readdir(outDir)) {
+    if (existing.endsWith('.ts') && !(existing in files) && await isGenerated(path.join(outDir, existing))) {
+      await fs.rm(path.join(outDir, existing));
+    }
+  }
+  for (const [name, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(outDir, name), content);
+  }
+}
+
+/**
+ * Names of bindings files that are missing, stale or left over
+ */
+export async function findStaleBindings(outDir: string, files: Record<string, string>): Promise<string[]> {
+  const stale: string[] = [];
+
+  for (const [name, content] of Object.entries(files)) {
+    const current = await fs.readFile(path.join(outDir, name), 'utf-8').catch(() => null);
+    if (current !== content) {
+      stale.push(name);
+    }
+  }
+  const existing = await fs.readdir(outDir).catch(() => [] as string[]);
+  for (const name of existing) {
+    if (name.endsWith('.ts') && !(name in files) && await isGenerated(path.join(outDir, name))) {
+      stale.push(name);
+    }
+  }
+
+  return stale.sort();
+}
+
+async function isGenerated(file: string): Promise<boolean> {
+  return (await fs.readFile(file, 'utf-8')).startsWith(HEADER);
+}
+
+class ModuleEmitter {
+  private imports = new Set<string>();
+  private runtime = new Set<string>();
+  private moduleImports = new Set<string>();
+
+  constructor(private pkg: MovePackageInterface, private module: SuiMoveNormalizedModule) {}
+
+  emit(): string {
+    const body: string[] = [`export const MODULE = '${this.module.name}';`];
+
+    const errorCodes = Object.entries(this.pkg.errorCodes?.[this.module.name] ?? {});
+    body.push(
+      '',
+      '// Abort codes of this module by value',
+      errorCodes.length > 0
+        ? `export const ERRORS: Readonly<Record<number, string>> = { ${errorCodes.map(([code, name]) => `${code}: '${name}'`).join(', ')} };`
+        : 'export const ERRORS: Readonly<Record<number, string>> = {};',
+    );
+
+    const structNames = Object.keys(this.module.structs);
+    const enumNames = Object.keys(this.module.enums ?? {});
+
+    if (structNames.length > 0) {
+      this.runtime.add('moveStructType');
+      body.push(
+        '',
+        `export const STRUCTS = [${structNames.map(name => `'${name}'`).join(', ')}] as const;`,
+        '',
+        'export type StructName = typeof STRUCTS[number];',
+        '',
+        '/**',
+        ' * Full type of a struct of this module, e.g. for object type filters',
+        ' */',
+        'export function structType(packageId: string, name: StructName): string {',
+        '  return moveStructType(packageId, MODULE, name);',
+        '}',
+      );
+    }
+
+    for (const name of enumNames) {
+      body.push('', ...this.emitEnum(name, this.module.enums![name]));
+    }
+    for (const name of structNames) {
+      body.push('', ...this.emitStruct(name, this.module.structs[name]));
+    }
+
+    for (const name of Object.keys(this.module.exposedFunctions)) {
+      const fn = this.module.exposedFunctions[name];
+      if (fn.visibility === 'Public' || fn.isEntry) {
+        body.push('', ...this.emitFunction(name, fn));
+      }
+    }
+
+    const header = [HEADER];
+    if (this.imports.size > 0) {
+      header.push(...[...this.imports].sort());
+    }
+    if (this.runtime.size > 0) {
+      header.push(`import { ${[...this.runtime].sort().join(', ')} } from '../codegen/runtime.js';`);
+    }
+    for (const name of [...this.moduleImports].sort()) {
+      header.push(`import * as ${identifier(name)} from './${name}.js';`);
+    }
+
+    return [...header, '', ...body, ''].join('\n');
+  }
+
+  // Structs and enums
+
+  private emitStruct(name: string, struct: SuiMoveNormalizedStruct): string[] {
+    const label = `${this.module.name}::${name}`;
+    const fields = struct.fields.map(field => ({ field, type: this.decoderType(field.type) }));
+    this.runtime.add('structFields');
+    if (fields.length > 0) {
+      this.runtime.add('field');
+    }
+
+    return [
+      `/** \`${label}\` (${struct.abilities.abilities.map(ability => ability.toLowerCase()).join(', ') || 'no abilities'}) */`,
+      fields.length > 0 ? `export interface ${name} {` : `export interface ${name} {}`,
+      ...(fields.length > 0 ? [...fields.map(({ field, type }) => `  ${propertyName(field.name)}: ${type.tsType};`), '}'] : []),
+      '',
+      `export function decode${name}(json: unknown): ${name} {`,
+      fields.length > 0 ? `  const fields = structFields(json, '${label}');` : `  structFields(json, '${label}');`,
+      fields.length > 0 ? '  return {' : '  return {};',
+      ...(fields.length > 0
+        ? [
+          ...fields.map(({ field, type }) => `    ${propertyName(field.name)}: field(fields, '${field.name}', ${type.decoder}, '${label}'),`),
+          '  };',
+        ]
+        : []),
+      '}',
+    ];
+  }
+
+  private emitEnum(name: string, enumType: SuiMoveNormalizedEnum): string[] {
+    const label = `${this.module.name}::${name}`;
+    const variants = enumType.variantDeclarationOrder ?? Object.keys(enumType.variants);
+    const shapes = variants.map(variant => ({
+      variant,
+      fields: enumType.variants[variant].map(field => ({ field, type: this.decoderType(field.type) })),
+    }));
+    this.runtime.add('enumVariant');
+    if (shapes.some(shape => shape.fields.length > 0)) {
+      this.runtime.add('field');
+    }
+
+    const renderShape = ({ variant, fields }: typeof shapes[number]) => fields.length === 0
+      ? `{ variant: '${variant}' }`
+      : `{ variant: '${variant}'; fields: { ${fields.map(({ field, type }) => `${propertyName(field.name)}: ${type.tsType}`).join('; ')} } }`;
+
+    return [
+      `/** \`${label}\` */`,
+      `export type ${name} =`,
+      ...shapes.map((shape, index) => `  | ${renderShape(shape)}${index === shapes.length - 1 ? ';' : ''}`),
+      '',
+      `export function decode${name}(json: unknown): ${name} {`,
+      `  const { variant${shapes.some(shape => shape.fields.length > 0) ? ', fields' : ''} } = enumVariant(json, '${label}', [${variants.map(variant => `'${variant}'`).join(', ')}] as const);`,
+      '  switch (variant) {',
+      ...shapes.flatMap(({ variant, fields }) => fields.length === 0
+        ? [`    case '${variant}':`, `      return { variant };`]
+        : [
+          `    case '${variant}':`,
+          `      return {`,
+          `        variant,`,
+          `        fields: {`,
+          ...fields.map(({ field, type }) => `          ${propertyName(field.name)}: field(fields, '${field.name}', ${type.decoder}, '${label}::${variant}'),`),
+          `        },`,
+          `      };`,
+        ]),
+      '  }',
+      '}',
+    ];
+  }
+
+  private decoderType(type: SuiMoveNormalizedType): DecoderType {
+    if (typeof type === 'string') {
+      switch (type) {
+        case 'U8':
+        case 'U16':
+        case 'U32':
+          return this.use({ tsType: 'number', decoder: 'decodeSmallInt' });
+        case 'U64':
+        case 'U128':
+        case 'U256':
+          return this.use({ tsType: 'bigint', decoder: 'decodeBigInt' });
+        case 'Bool':
+          return this.use({ tsType: 'boolean', decoder: 'decodeBool' });
+        default:
+          return this.use({ tsType: 'string', decoder: 'decodeAddress' });
+      }
+    }
+    if ('Vector' in type) {
+      const element = this.decoderType(type.Vector);
+      this.runtime.add('decodeVector');
+      return { tsType: `${wrapUnion(element.tsType)}[]`, decoder: `decodeVector(${element.decoder})` };
+    }
+    if ('Struct' in type) {
+      return this.structDecoderType(type.Struct);
+    }
+    return this.use({ tsType: 'unknown', decoder: 'decodeRaw' });
+  }
+
+  private structDecoderType(tag: StructTag): DecoderType {
+    switch (structTagName(tag)) {
+      case '0x1::string::String':
+      case '0x1::ascii::String':
+        return this.use({ tsType: 'string', decoder: 'decodeString' });
+      case '0x2::object::ID':
+        return this.use({ tsType: 'string', decoder: 'decodeAddress' });
+      case '0x2::object::UID':
+        return this.use({ tsType: 'string', decoder: 'decodeUid' });
+      case '0x2::balance::Balance':
+        return this.use({ tsType: 'bigint', decoder: 'decodeBalance' });
+      case '0x2::table::Table':
+      case '0x2::object_table::ObjectTable':
+      case '0x2::bag::Bag':
+      case '0x2::object_bag::ObjectBag': {
+        this.runtime.add('decodeTable');
+        this.runtime.add('type TableRef');
+        return { tsType: 'TableRef', decoder: 'decodeTable' };
+      }
+      case '0x1::option::Option': {
+        const element = this.decoderType(tag.typeArguments[0]);
+        this.runtime.add('decodeOption');
+        return { tsType: `${element.tsType} | null`, decoder: `decodeOption(${element.decoder})` };
+      }
+      case '0x2::vec_set::VecSet': {
+        const element = this.decoderType(tag.typeArguments[0]);
+        this.runtime.add('decodeVecSet');
+        return { tsType: `${wrapUnion(element.tsType)}[]`, decoder: `decodeVecSet(${element.decoder})` };
+      }
+    }
+
+    const owner = this.pkg.modules[tag.module];
+    if (isSameAddress(tag.address, this.pkg.address) && owner && (tag.name in owner.structs || tag.name in (owner.enums ?? {}))) {
+      const prefix = tag.module === this.module.name ? '' : `${identifier(tag.module)}.`;
+      if (prefix) {
+        this.moduleImports.add(tag.module);
+      }
+      return { tsType: `${prefix}${tag.name}`, decoder: `${prefix}decode${tag.name}` };
+    }
+
+    return this.use({ tsType: 'unknown', decoder: 'decodeRaw' });
+  }
+
+  private use(type: DecoderType): DecoderType {
+    this.runtime.add(type.decoder);
+    return type;
+  }
+
+  // Functions
+
+  private emitFunction(name: string, fn: SuiMoveNormalizedFunction): string[] {
+    const names = this.pkg.parameterNames?.[`${this.module.name}::${name}`];
+    const params = fn.parameters
+      .map((type, index) => ({ type, label: parameterLabel(names?.[index], index), kind: this.argumentKind(type) }))
+      .filter(param => param.kind.kind !== 'context');
+
+    const signature = `${this.module.name}::${name}${fn.typeParameters.length > 0 ? `<${fn.typeParameters.map((_, index) => `T${index}`).join(', ')}>` : ''}(${
+      fn.parameters.map((type, index) => `${names ? `${names[index]}: ` : ''}${moveTypeName(type)}`).join(', ')
+    })${fn.return.length === 0 ? '' : `: ${fn.return.length === 1 ? moveTypeName(fn.return[0]) : `(${fn.return.map(moveTypeName).join(', ')})`}`}`;
+
+    const tsParams = ['tx: TransactionBuilder', 'packageId: string'];
+    if (params.length > 0) {
+      tsParams.push(`args: [${params.map(param => `${param.label}: ${this.argumentType(param.kind)}`).join(', ')}]`);
+    }
+    if (fn.typeParameters.length > 0) {
+      tsParams.push(`typeArguments: [${fn.typeParameters.map(() => 'string').join(', ')}]`);
+    }
+    this.imports.add(`import type { TransactionBuilder } from '../utils/transactions.js';`);
+
+    const args = params.map((param, index) => {
+      switch (param.kind.kind) {
+        case 'pure':
+          return `tx.pure(args[${index}], '${param.kind.pureType}')`;
+        case 'object':
+          this.runtime.add('objectInput');
+          return `objectInput(tx, args[${index}])`;
+        default:
+          return `args[${index}]`;
+      }
+    });
+
+    return [
+      '/**',
+      ` * \`${signature}\``,
+      ' */',
+      `export function ${identifier(camelCase(name))}(${tsParams.join(', ')}) {`,
+      '  return tx.moveCall({',
+      '    package: packageId,',
+      '    module: MODULE,',
+      `    function: '${name}',`,
+      ...(fn.typeParameters.length > 0 ? ['    typeArguments,'] : []),
+      args.length > 0 ? `    arguments: [${args.join(', ')}],` : '    arguments: [],',
+      '  });',
+      '}',
+    ];
+  }
+
+  private argumentKind(type: SuiMoveNormalizedType): ArgumentKind {
+    let inner = type;
+    if (typeof type === 'object' && ('Reference' in type || 'MutableReference' in type)) {
+      inner = 'Reference' in type ? type.Reference : type.MutableReference;
+      if (typeof inner === 'object' && 'Struct' in inner && structTagName(inner.Struct) === '0x2::tx_context::TxContext') {
+        return { kind: 'context' };
+      }
+    }
+
+    const pureType = pureTypeName(inner);
+    if (pureType) {
+      return { kind: 'pure', pureType };
+    }
+    if (typeof inner === 'object' && 'Struct' in inner) {
+      // Objects (Coin, Blob, shared or owned objects) can be IDs or results;
+      // the package's own non-key structs (e.g. enums) only come from results
+      const own = isSameAddress(inner.Struct.address, this.pkg.address) ? this.pkg.modules[inner.Struct.module] : null;
+      if (!own || own.structs[inner.Struct.name]?.abilities.abilities.includes('Key')) {
+        return { kind: 'object' };
+      }
+    }
+    return { kind: 'value' };
+  }
+
+  private argumentType(kind: ArgumentKind): string {
+    switch (kind.kind) {
+      case 'pure':
+        this.imports.add(`import type { PureValue } from '../utils/pure-args.js';`);
+        return `PureValue<'${kind.pureType}'>`;
+      case 'object':
+        this.runtime.add('type ObjectInput');
+        return 'ObjectInput';
+      default:
+        this.runtime.add('type TransactionArgument');
+        return 'TransactionArgument';
+    }
+  }
+}
+
+/**
+ * Type name for the pure-argument layer, or null when the type is not pure
+ */
+function pureTypeName(type: SuiMoveNormalizedType): string | null {
+  if (typeof type === 'string') {
+    return type === 'Signer' ? null : type.toLowerCase();
+  }
+  if ('Vector' in type) {
+    const element = pureTypeName(type.Vector);
+    return element && `vector<${element}>`;
+  }
+  if ('Struct' in type) {
+    switch (structTagName(type.Struct)) {
+      case '0x1::string::String':
+      case '0x1::ascii::String':
+        return 'string';
+      case '0x2::object::ID':
+        return 'ID';
+      case '0x1::option::Option': {
+        const element = pureTypeName(type.Struct.typeArguments[0]);
+        return element && `Option<${element}>`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Move type as a short name for doc comments (`&mut Coin<SUI>`)
+ */
+function moveTypeName(type: SuiMoveNormalizedType): string {
+  if (typeof type === 'string') {
+    return type.toLowerCase();
+  }
+  if ('Vector' in type) {
+    return `vector<${moveTypeName(type.Vector)}>`;
+  }
+  if ('Reference' in type) {
+    return `&${moveTypeName(type.Reference)}`;
+  }
+  if ('MutableReference' in type) {
+    return `&mut ${moveTypeName(type.MutableReference)}`;
+  }
+  if ('TypeParameter' in type) {
+    return `T${type.TypeParameter}`;
+  }
+  const args = type.Struct.typeArguments;
+  return `${type.Struct.name}${args.length > 0 ? `<${args.map(moveTypeName).join(', ')}>` : ''}`;
+}
+
+function camelCase(name: string): string {
+  return name.replace(/_+([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+function identifier(name: string): string {
+  return RESERVED.has(name) ? `${name}_` : name;
+}
+
+function parameterLabel(name: string | undefined, index: number): string {
+  const label = name ? camelCase(name.replace(/^_+/, '')) : '';
+  return label ? identifier(label) : `arg${index}`;
+}
+
+function propertyName(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : `'${name}'`;
+}
+
+function wrapUnion(tsType: string): string {
+  return tsType.includes('|') ? `(${tsType})` : tsType;
+}
+
+/**
+ * Bindings from the local Move sources (default) or a published package
+ */
+export async function loadPackageInterface(options: { packageId?: string; sourcesDir?: string }): Promise<MovePackageInterface> {
+  const sourcesDir = options.sourcesDir || path.resolve(process.cwd(), '../sources');
+
+  if (options.packageId) {
+    console.log(chalk.blue(`📦 Reading normalized modules of ${options.packageId}...`));
+    const pkg = await loadPackageFromChain(options.packageId);
+
+    // Abort codes are not part of the normalized modules; take them from the sources when present
+    const sources = await readMoveSources(sourcesDir).catch(() => null);
+    return sources ? { ...pkg, errorCodes: sources.errorCodes } : pkg;
+  }
+
+  console.log(chalk.blue(`📦 Reading Move sources in ${sourcesDir}...`));
+  return await readMoveSources(sourcesDir);
+}
+
+// CLI usage
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const option = (flag: string) => {
+    const index = process.argv.indexOf(flag);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+  };
+  const outDir = path.resolve(option('--out') || DEFAULT_BINDINGS_DIR);
+
+  (async () => {
+    const pkg = await loadPackageInterface({ packageId: option('--package'), sourcesDir: option('--sources') });
+    const files = generateBindings(pkg);
+
+    if (process.argv.includes('--check')) {
+      const stale = await findStaleBindings(outDir, files);
+      if (stale.length > 0) {
+        stale.forEach(name => console.error(chalk.red(`❌ Out of date: ${name}`)));
+        throw new Error('Bindings are out of date; run `npm run codegen`');
+      }
+      console.log(chalk.green(`✅ Bindings in ${outDir} are up to date`));
+      return;
+    }
+
+    await writeBindings(outDir, files);
+    console.log(chalk.green(`✅ Wrote ${Object.keys(files).length} files to ${outDir}`));
+  })().catch(error => {
+    console.error(chalk.red(`💥 Codegen failed: ${error instanceof Error ? error.message : error}`));
+    process.exit(1);
+  });
+}
@@ -0,0 +1,431 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type {
+  SuiMoveAbility,
+  SuiMoveNormalizedEnum,
+  SuiMoveNormalizedField,
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedModule,
+  SuiMoveNormalizedStruct,
+  SuiMoveNormalizedType,
+  SuiMoveVisibility,
+} from '@mysten/sui/client';
+import type { MovePackageInterface } from './normalized.js';
+
+/**
+ * Normalized modules read straight from Move sources
+ *
+ * Covers the declarations the bindings need (structs, enums and the
+ * signatures of non-private functions) for the syntax used in `sources/`,
+ * without a Sui toolchain. Addresses other than `std`, `sui` and the package's
+ * own stay as their names (e.g. `walrus`) since only the chain knows them.
+ */
+
+const WELL_KNOWN_ADDRESSES: Record<string, string> = {
+  std: '0x1',
+  sui: '0x2',
+};
+
+// Aliases every Move 2024 module gets without a `use`
+const IMPLICIT_ALIASES: Record<string, string> = {
+  vector: 'std::vector',
+  option: 'std::option',
+  Option: 'std::option::Option',
+  object: 'sui::object',
+  ID: 'sui::object::ID',
+  UID: 'sui::object::UID',
+  transfer: 'sui::transfer',
+  tx_context: 'sui::tx_context',
+  TxContext: 'sui::tx_context::TxContext',
+};
+
+const PRIMITIVES: Record<string, SuiMoveNormalizedType> = {
+  bool: 'Bool',
+  u8: 'U8',
+  u16: 'U16',
+  u32: 'U32',
+  u64: 'U64',
+  u128: 'U128',
+  u256: 'U256',
+  address: 'Address',
+  signer: 'Signer',
+};
+
+const ABILITIES: Record<string, SuiMoveAbility> = { copy: 'Copy', drop: 'Drop', store: 'Store', key: 'Key' };
+
+interface ModuleScope {
+  address: string; // Named or numeric address of the module
+  name: string;
+  aliases: Record<string, string>; // Alias -> `addr::module` or `addr::module::Member`
+  typeParameters: string[];
+  localTypes: Set<string>;
+}
+
+/**
+ * Read every `.move` file of a package directory (its `sources/`)
+ *
+ * `packageAddress` is what the package's own named address resolves to; it
+ * defaults to the name itself, which the generator treats as "this package".
+ */
+export async function readMoveSources(
+  sourcesDir: string,
+  packageName: string = 'contracts',
+  packageAddress: string = packageName
+): Promise<MovePackageInterface> {
+  const files = (await fs.readdir(sourcesDir)).filter(file => file.endsWith('.move')).sort();
+  const modules: Record<string, SuiMoveNormalizedModule> = {};
+  const parameterNames: Record<string, string[]> = {};
+  const errorCodes: Record<string, Record<number, string>> = {};
+
+  for (const file of files) {
+    const source = await fs.readFile(path.join(sourcesDir, file), 'utf-8');
+    const parsed = parseMoveModule(source, { [packageName]: packageAddress });
+    modules[parsed.module.name] = parsed.module;
+    for (const [name, names] of Object.entries(parsed.parameterNames)) {
+      parameterNames[`${parsed.module.name}::${name}`] = names;
+    }
+    errorCodes[parsed.module.name] = parsed.errorCodes;
+  }
+
+  return { address: packageAddress, modules, parameterNames, errorCodes };
+}
+
+/**
+ * Parse one module; `addresses` maps named addresses on top of std and sui
+ */
+export function parseMoveModule(
+  source: string,
+  addresses: Record<string, string> = {}
+): { module: SuiMoveNormalizedModule; parameterNames: Record<string, string[]>; errorCodes: Record<number, string> } {
+  const code = stripComments(source);
+  const namedAddresses = { ...WELL_KNOWN_ADDRESSES, ...addresses };
+
+  const header = /\bmodule\s+(\w+)::(\w+)\s*[;{]/.exec(code);
+  if (!header) {
+    throw new Error('No module declaration found');
+  }
+
+  const scope: ModuleScope = {
+    address: namedAddresses[header[1]] ?? header[1],
+    name: header[2],
+    aliases: { ...IMPLICIT_ALIASES },
+    typeParameters: [],
+    localTypes: new Set(),
+  };
+
+  for (const match of code.matchAll(/\buse\s+([^;]+);/g)) {
+    addUse(scope, match[1]);
+  }
+  for (const match of code.matchAll(/\b(?:struct|enum)\s+(\w+)/g)) {
+    scope.localTypes.add(match[1]);
+  }
+
+  const module: SuiMoveNormalizedModule = {
+    address: scope.address,
+    name: scope.name,
+    fileFormatVersion: 6,
+    friends: [],
+    structs: {},
+    enums: {},
+    exposedFunctions: {},
+  };
+  const parameterNames: Record<string, string[]> = {};
+
+  const resolveAddress = (name: string) => namedAddresses[name] ?? name;
+
+  for (const match of code.matchAll(/\b(?:public\s+)?struct\s+(\w+)\s*(<[^{;(]*?>)?\s*(?:has\s+([\w\s,]+?))?\s*\{/g)) {
+    const [, name, generics, abilities] = match;
+    const body = readBlock(code, match.index! + match[0].length - 1);
+    const typeParameters = parseTypeParameters(generics);
+    const withParams = { ...scope, typeParameters: typeParameters.map(param => param.name) };
+
+    module.structs[name] = {
+      abilities: { abilities: parseAbilities(abilities) },
+      typeParameters: typeParameters.map(param => ({ constraints: { abilities: param.abilities }, isPhantom: param.isPhantom })),
+      fields: parseFields(body, withParams, resolveAddress),
+    } satisfies SuiMoveNormalizedStruct;
+  }
+
+  for (const match of code.matchAll(/\b(?:public\s+)?enum\s+(\w+)\s*(<[^{;(]*?>)?\s*(?:has\s+([\w\s,]+?))?\s*\{/g)) {
+    const [, name, generics, abilities] = match;
+    const body = readBlock(code, match.index! + match[0].length - 1);
+    const typeParameters = parseTypeParameters(generics);
+    const withParams = { ...scope, typeParameters: typeParameters.map(param => param.name) };
+    const variants: Record<string, SuiMoveNormalizedField[]> = {};
+
+    for (const variant of splitTopLevel(body, ',')) {
+      const variantMatch = /^(\w+)\s*(?:\{([\s\S]*)\}|\(([\s\S]*)\))?$/.exec(variant);
+      if (!variantMatch) {
+        throw new Error(`Cannot parse variant of ${scope.name}::${name}: ${variant}`);
+      }
+      const [, variantName, named, positional] = variantMatch;
+      variants[variantName] = named !== undefined
+        ? parseFields(named, withParams, resolveAddress)
+        : splitTopLevel(positional ?? '', ',').map((type, index) => ({
+          name: `pos${index}`,
+          type: parseType(type, withParams, resolveAddress),
+        }));
+    }
+
+    module.enums![name] = {
+      abilities: { abilities: parseAbilities(abilities) },
+      typeParameters: typeParameters.map(param => ({ constraints: { abilities: param.abilities }, isPhantom: param.isPhantom })),
+      variants,
+      variantDeclarationOrder: Object.keys(variants),
+    } satisfies SuiMoveNormalizedEnum;
+  }
+
+  const functionPattern = /\b(public(?:\s*\(\s*(?:package|friend)\s*\))?\s+)?(entry\s+)?fun\s+(\w+)\s*(<[^(]*?>)?\s*\(/g;
+  for (const match of code.matchAll(functionPattern)) {
+    const [, visibilityToken, entryToken, name, generics] = match;
+    const visibility: SuiMoveVisibility = !visibilityToken
+      ? 'Private'
+      : /package|friend/.test(visibilityToken) ? 'Friend' : 'Public';
+
+    // The chain only exposes what can be called from outside the module
+    if (visibility === 'Private' && !entryToken) {
+      continue;
+    }
+
+    const paramsStart = match.index! + match[0].length - 1;
+    const params = readBlock(code, paramsStart, '(', ')');
+    const afterParams = code.slice(paramsStart + params.length + 2);
+    const returns = /^\s*:\s*([\s\S]*?)\s*\{/.exec(afterParams)?.[1];
+
+    const typeParameters = parseTypeParameters(generics);
+    const withParams = { ...scope, typeParameters: typeParameters.map(param => param.name) };
+    const parameters = splitTopLevel(params, ',').map(param => {
+      const colon = param.indexOf(':');
+      return {
+        name: param.slice(0, colon).replace(/^mut\s+/, '').trim(),
+        type: parseType(param.slice(colon + 1), withParams, resolveAddress),
+      };
+    });
+
+    module.exposedFunctions[name] = {
+      visibility,
+      isEntry: !!entryToken,
+      typeParameters: typeParameters.map(param => ({ abilities: param.abilities })),
+      parameters: parameters.map(param => param.type),
+      return: returns ? parseReturnTypes(returns, withParams, resolveAddress) : [],
+    } satisfies SuiMoveNormalizedFunction;
+    parameterNames[name] = parameters.map(param => param.name);
+  }
+
+  // Abort codes: `const E_NAME: u64 = N;`
+  const errorCodes: Record<number, string> = {};
+  for (const match of code.matchAll(/\bconst\s+(E[A-Z_]\w*)\s*:\s*u64\s*=\s*(\d+)\s*;/g)) {
+    errorCodes[Number(match[2])] = match[1];
+  }
+
+  return { module, parameterNames, errorCodes };
+}
+
+function addUse(scope: ModuleScope, declaration: string): void {
+  const text = declaration.replace(/\s+/g, ' ').trim();
+  const grouped = /^(\w+)::(\w+)::\{(.*)\}$/.exec(text);
+
+  if (grouped) {
+    const [, address, module, members] = grouped;
+    for (const member of members.split(',').map(part => part.trim()).filter(Boolean)) {
+      const [name, alias] = member.split(/\s+as\s+/);
+      if (name === 'Self') {
+        scope.aliases[alias ?? module] = `${address}::${module}`;
+      } else {
+        scope.aliases[alias ?? name] = `${address}::${module}::${name}`;
+      }
+    }
+    return;
+  }
+
+  const [target, alias] = text.split(/\s+as\s+/);
+  const parts = target.split('::');
+  scope.aliases[alias ?? parts[parts.length - 1]] = target;
+}
+
+function parseTypeParameters(generics: string | undefined): { name: string; abilities: SuiMoveAbility[]; isPhantom: boolean }[] {
+  if (!generics) {
+    return [];
+  }
+  return splitTopLevel(generics.slice(1, -1), ',').map(param => {
+    const isPhantom = param.startsWith('phantom ');
+    const [name, constraints] = param.replace(/^phantom\s+/, '').split(':');
+    return {
+      name: name.trim(),
+      abilities: constraints ? constraints.split('+').map(ability => ABILITIES[ability.trim()]).filter(Boolean) : [],
+      isPhantom,
+    };
+  });
+}
+
+function parseAbilities(list: string | undefined): SuiMoveAbility[] {
+  return (list ?? '').split(',').map(ability => ABILITIES[ability.trim()]).filter(Boolean);
+}
+
+function parseFields(
+  body: string,
+  scope: ModuleScope,
+  resolveAddress: (name: string) => string
+): SuiMoveNormalizedField[] {
+  return splitTopLevel(body, ',').map(field => {
+    const colon = field.indexOf(':');
+    return { name: field.slice(0, colon).trim(), type: parseType(field.slice(colon + 1), scope, resolveAddress) };
+  });
+}
+
+function parseReturnTypes(
+  text: string,
+  scope: ModuleScope,
+  resolveAddress: (name: string) => string
+): SuiMoveNormalizedType[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('(') && trimmed.endsWith(')')) {
+    return splitTopLevel(trimmed.slice(1, -1), ',').map(type => parseType(type, scope, resolveAddress));
+  }
+  return [parseType(trimmed, scope, resolveAddress)];
+}
+
+/**
+ * Parse a type as written in the module into its normalized form
+ */
+function parseType(text: string, scope: ModuleScope, resolveAddress: (name: string) => string): SuiMoveNormalizedType {
+  const type = text.trim();
+
+  if (type.startsWith('&mut ')) {
+    return { MutableReference: parseType(type.slice(5), scope, resolveAddress) };
+  }
+  if (type.startsWith('&')) {
+    return { Reference: parseType(type.slice(1), scope, resolveAddress) };
+  }
+
+  const generic = /^([\w:]+)\s*(?:<([\s\S]*)>)?$/.exec(type);
+  if (!generic) {
+    throw new Error(`Cannot parse Move type in ${scope.name}: ${type}`);
+  }
+
+  const [, pathText, argsText] = generic;
+  const args = argsText ? splitTopLevel(argsText, ',').map(arg => parseType(arg, scope, resolveAddress)) : [];
+
+  if (pathText === 'vector') {
+    return { Vector: args[0] };
+  }
+  if (PRIMITIVES[pathText] && args.length === 0) {
+    return PRIMITIVES[pathText];
+  }
+  const typeParameter = scope.typeParameters.indexOf(pathText);
+  if (typeParameter >= 0) {
+    return { TypeParameter: typeParameter };
+  }
+
+  const [address, module, name] = resolveStructPath(pathText, scope, resolveAddress);
+  return { Struct: { address, module, name, typeArguments: args } };
+}
+
+function resolveStructPath(pathText: string, scope: ModuleScope, resolveAddress: (name: string) => string): [string, string, string] {
+  const parts = pathText.split('::');
+
+  if (parts.length === 1) {
+    if (scope.localTypes.has(parts[0])) {
+      return [scope.address, scope.name, parts[0]];
+    }
+    const alias = scope.aliases[parts[0]];
+    if (!alias || alias.split('::').length !== 3) {
+      throw new Error(`Unknown type in ${scope.name}: ${pathText}`);
+    }
+    const [address, module, name] = alias.split('::');
+    return [resolveAddress(address), module, name];
+  }
+
+  if (parts.length === 2) {
+    const alias = scope.aliases[parts[0]];
+    if (!alias || alias.split('::').length !== 2) {
+      throw new Error(`Unknown module in ${scope.name}: ${parts[0]}`);
+    }
+    const [address, module] = alias.split('::');
+    return [resolveAddress(address), module, parts[1]];
+  }
+
+  return [resolveAddress(parts[0]), parts[1], parts[2]];
+}
+
+/**
+ * Contents between the delimiter at `start` and its match
+ */
+function readBlock(code: string, start: number, open: string = '{', close: string = '}'): string {
+  let depth = 0;
+  for (let i = start; i < code.length; i++) {
+    if (code[i] === open) {
+      depth++;
+    } else if (code[i] === close) {
+      depth--;
+      if (depth === 0) {
+        return code.slice(start + 1, i);
+      }
+    }
+  }
+  throw new Error(`Unbalanced '${open}' at offset ${start}`);
+}
+
+/**
+ * Split on `separator` outside of <>, () and {}; drops empty parts
+ */
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of text) {
+    if ('<({'.includes(char)) {
+      depth++;
+    } else if ('>)}'.includes(char)) {
+      depth--;
+    }
+
+    if (char === separator && depth === 0) {
+      parts.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current.trim());
+
+  return parts.filter(Boolean);
+}
+
+/**
+ * Remove comments, leaving string literals (which may contain `//`) intact
+ */
+function stripComments(source: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < source.length) {
+    if (source[i] === '"') {
+      const end = findStringEnd(source, i);
+      result += source.slice(i, end + 1);
+      i = end + 1;
+    } else if (source.startsWith('//', i)) {
+      while (i < source.length && source[i] !== '\n') i++;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i + 2);
+      i = end < 0 ? source.length : end + 2;
+      result += ' ';
+    } else {
+      result += source[i++];
+    }
+  }
+
+  return result;
+}
+
+function findStringEnd(source: string, start: number): number {
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === '"') {
+      return i;
+    }
+  }
+  return source.length - 1;
+}
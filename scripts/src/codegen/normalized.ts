@@ -0,0 +1,41 @@
+import type { SuiMoveNormalizedModule, SuiMoveNormalizedType } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getDefaultSuiClient } from '../utils/client.js';
+
+/**
+ * The public interface of a Move package, as the bindings generator reads it
+ */
+export interface MovePackageInterface {
+  address: string; // What the package's own types use as their address
+  modules: Record<string, SuiMoveNormalizedModule>;
+  parameterNames?: Record<string, string[]>; // `module::function` -> names (sources only; the chain has none)
+  errorCodes?: Record<string, Record<number, string>>; // module -> abort code -> constant name (sources only)
+}
+
+/**
+ * Normalized modules of a published package
+ */
+export async function loadPackageFromChain(
+  packageId: string,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<MovePackageInterface> {
+  const suiClient = (client || getDefaultSuiClient()).getClient();
+  const modules = await suiClient.getNormalizedMoveModulesByPackage({ package: packageId });
+
+  return { address: normalizeSuiAddress(packageId), modules };
+}
+
+export type StructTag = Extract<SuiMoveNormalizedType, { Struct: unknown }>['Struct'];
+
+export function isSameAddress(a: string, b: string): boolean {
+  const isHex = (value: string) => /^0x[0-9a-fA-F]+$/.test(value);
+  return isHex(a) && isHex(b) ? normalizeSuiAddress(a) === normalizeSuiAddress(b) : a === b;
+}
+
+/**
+ * `addr::module::Name`, with std and sui spelled 0x1 and 0x2
+ */
+export function structTagName(tag: StructTag): string {
+  const address = /^0x0*([12])$/.test(tag.address) ? `0x${tag.address.slice(-1)}` : tag.address;
+  return `${address}::${tag.module}::${tag.name}`;
+}
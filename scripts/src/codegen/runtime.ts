@@ -0,0 +1,145 @@
+import type { TransactionArgument } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import type { TransactionBuilder } from '../utils/transactions.js';
+
+/**
+ * Helpers the generated bindings in `src/generated/` call into
+ */
+
+export type { TransactionArgument };
+
+// An object ID, or the result of an earlier command in the same transaction
+export type ObjectInput = string | TransactionArgument;
+
+export interface TableRef {
+  id: string;
+  size: bigint;
+}
+
+export function objectInput(tx: TransactionBuilder, value: ObjectInput): TransactionArgument {
+  return typeof value === 'string' ? tx.objectArg(value) : value;
+}
+
+export function moveStructType(packageId: string, module: string, name: string): string {
+  return `${packageId}::${module}::${name}`;
+}
+
+// Decoders for object content and event JSON
+
+/**
+ * Fields of a struct value: `{ type, fields }` in object content, plain in event JSON
+ */
+export function structFields(json: unknown, struct: string): Record<string, unknown> {
+  if (!json || typeof json !== 'object' || Array.isArray(json)) {
+    throw new Error(`Invalid ${struct}: not a struct`);
+  }
+  const value = json as Record<string, unknown>;
+  return value.fields && typeof value.fields === 'object' && 'type' in value
+    ? value.fields as Record<string, unknown>
+    : value;
+}
+
+/**
+ * Decode one field, naming the struct and field when it does not fit
+ */
+export function field<T>(fields: Record<string, unknown>, name: string, decode: (value: unknown) => T, struct: string): T {
+  try {
+    return decode(fields[name]);
+  } catch (error) {
+    throw new Error(`Invalid ${struct}: ${name} ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+export function enumVariant<V extends string>(
+  json: unknown,
+  enumName: string,
+  variants: readonly V[]
+): { variant: V; fields: Record<string, unknown> } {
+  const value = json as { variant?: unknown; fields?: unknown } | null;
+  if (!value || typeof value.variant !== 'string' || !variants.includes(value.variant as V)) {
+    throw new Error(`Invalid ${enumName}: unknown variant ${JSON.stringify(value?.variant ?? value)}`);
+  }
+  return { variant: value.variant as V, fields: (value.fields ?? {}) as Record<string, unknown> };
+}
+
+export function decodeSmallInt(value: unknown): number {
+  const number = Number(value);
+  if ((typeof value !== 'number' && typeof value !== 'string') || !Number.isInteger(number) || number < 0) {
+    throw new Error('is not an unsigned integer');
+  }
+  return number;
+}
+
+export function decodeBigInt(value: unknown): bigint {
+  if ((typeof value !== 'string' && typeof value !== 'number') || !/^\d+$/.test(String(value))) {
+    throw new Error('is not an unsigned integer');
+  }
+  return BigInt(value);
+}
+
+export function decodeBool(value: unknown): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error('is not a boolean');
+  }
+  return value;
+}
+
+export function decodeAddress(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error('is not an address');
+  }
+  return normalizeSuiAddress(value);
+}
+
+export function decodeString(value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new Error('is not a string');
+  }
+  return value;
+}
+
+export function decodeUid(value: unknown): string {
+  return decodeAddress(value && typeof value === 'object' ? (value as { id?: unknown }).id : value);
+}
+
+export function decodeVector<T>(decode: (value: unknown) => T): (value: unknown) => T[] {
+  return value => {
+    if (!Array.isArray(value)) {
+      throw new Error('is not a vector');
+    }
+    return value.map(decode);
+  };
+}
+
+/**
+ * Option<T>: the value or null, or `{ vec: [] | [value] }` as older nodes return it
+ */
+export function decodeOption<T>(decode: (value: unknown) => T): (value: unknown) => T | null {
+  return value => {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (typeof value === 'object' && !Array.isArray(value) && Array.isArray((value as { vec?: unknown }).vec)) {
+      const [inner] = (value as { vec: unknown[] }).vec;
+      return inner === undefined ? null : decode(inner);
+    }
+    return decode(value);
+  };
+}
+
+export function decodeBalance(value: unknown): bigint {
+  return decodeBigInt(value && typeof value === 'object' ? structFields(value, 'Balance').value : value);
+}
+
+export function decodeVecSet<T>(decode: (value: unknown) => T): (value: unknown) => T[] {
+  return value => decodeVector(decode)(Array.isArray(value) ? value : structFields(value, 'VecSet').contents);
+}
+
+export function decodeTable(value: unknown): TableRef {
+  const fields = structFields(value, 'Table');
+  return { id: decodeUid(fields.id), size: decodeBigInt(fields.size) };
+}
+
+export function decodeRaw(value: unknown): unknown {
+  return value;
+}
@@ -19,63 +19,32 @@ export const SHARED_OBJECTS = {
   PLATFORM_SERVICE_ID: process.env.PLATFORM_SERVICE_ID || '',
   MINT_CONFIG_ID: process.env.MINT_CONFIG_ID || '',
   PLATFORM_TREASURY_ID: process.env.PLATFORM_TREASURY_ID || '',
+  SUBSCRIPTION_SERVICE_ID: process.env.SUBSCRIPTION_SERVICE_ID || '',
+  NFT_CONFIG_ID: process.env.NFT_CONFIG_ID || '',
 };
 
+// Sui system objects
+export const SUI_CLOCK_OBJECT_ID = '0x6';
+
 // Seal Configuration
 export const SEAL_CONFIG = {
   POLICY_PACKAGE_ID: process.env.SEAL_POLICY_PACKAGE_ID || '',
   KEY_SERVER_URL: process.env.SEAL_KEY_SERVER_URL || 'https://seal-testnet.mystenlabs.com',
 };
 
-// Move Module Names
-export const MODULES = {
-  PUBLICATION: 'publication',
-  PUBLICATION_VAULT: 'publication_vault',
-  CONTENT_REGISTRY: 'content_registry',
-  PLATFORM_ACCESS: 'platform_access',
-  ARTICLE_NFT: 'article_nft',
-  PLATFORM_ECONOMICS: 'platform_economics',
-} as const;
-
-// Function Names
-export const FUNCTIONS = {
-  // Publication
-  CREATE_PUBLICATION: 'create_publication',
-  ADD_CONTRIBUTOR: 'add_contributor',
-  REMOVE_CONTRIBUTOR: 'remove_contributor',
-
-  // Publication Vault
-  CREATE_VAULT: 'create_vault',
-  STORE_BLOB: 'store_blob',
-  GET_BLOB: 'get_blob',
-  REMOVE_BLOB: 'remove_blob',
-  UPDATE_RENEWAL_EPOCH: 'update_renewal_epoch',
-
-  // Content Registry
-  PUBLISH_ARTICLE: 'publish_article',
-  PUBLISH_ARTICLE_AS_OWNER: 'publish_article_as_owner',
-  UPDATE_ARTICLE: 'update_article',
-
-  // Platform Access
-  SUBSCRIBE_TO_PLATFORM: 'subscribe_to_platform',
-  EXTEND_SUBSCRIPTION: 'extend_subscription',
-  RENEW_SUBSCRIPTION: 'renew_subscription',
-  SEAL_APPROVE_PLATFORM_SUBSCRIPTION: 'seal_approve_platform_subscription',
-
-  // Article NFT
-  MINT_ARTICLE_NFT: 'mint_article_nft',
-  SEAL_APPROVE_ARTICLE_NFT: 'seal_approve_article_nft',
-
-  // Platform Economics
-  CREATE_CREATOR_TREASURY: 'create_creator_treasury',
-  TIP_ARTICLE: 'tip_article',
-  WITHDRAW_FUNDS: 'withdraw_funds',
-} as const;
+// Move module and function names live in the generated bindings (src/generated, `npm run codegen`)
 
 // Gas Configuration
+// Budgets are estimated per transaction by dry run; the gas price comes from the network
 export const GAS_CONFIG = {
-  MAX_GAS_BUDGET: parseInt(process.env.MAX_GAS_BUDGET || '10000000'),
-  GAS_PRICE: parseInt(process.env.GAS_PRICE || '1000'),
+  MAX_GAS_BUDGET: parseInt(process.env.MAX_GAS_BUDGET || '1000000000'), // Cap on an estimated budget, in MIST
+  BUDGET_MARGIN_PERCENT: parseInt(process.env.GAS_BUDGET_MARGIN_PERCENT || '20'), // Added on top of the dry-run cost
+};
+
+// Retries of transient RPC and object-version failures (see utils/executor.ts)
+export const RETRY_CONFIG = {
+  MAX_ATTEMPTS: parseInt(process.env.TX_MAX_ATTEMPTS || '3'),
+  BASE_DELAY_MS: parseInt(process.env.TX_RETRY_DELAY_MS || '1000'), // Doubled after every attempt
 };
 
 // Default Values
@@ -87,6 +56,18 @@ export const DEFAULTS = {
   PLATFORM_FEE_PERCENT: 5,
 };
 
+// Platform subscription plans (subscription.move)
+export const SUBSCRIPTION_PLANS = {
+  BASIC: 0,
+  PREMIUM: 1,
+  PRO: 2,
+} as const;
+
+export type SubscriptionPlan = typeof SUBSCRIPTION_PLANS[keyof typeof SUBSCRIPTION_PLANS];
+
+// Publication subscription period (publication_subscription::MILLISECONDS_PER_MONTH)
+export const MILLISECONDS_PER_MONTH = 30 * 24 * 60 * 60 * 1000;
+
 // SUI Denominations
 export const SUI_UNITS = {
   MIST: 1,
@@ -0,0 +1,62 @@
+import { readFileSync, existsSync } from 'fs';
+import path from 'path';
+import { getCurrentNetwork } from './networks.js';
+import { SHARED_OBJECTS } from './constants.js';
+
+export interface DeploymentInfo {
+  network: string;
+  deployedAt: string;
+  packageId: string;
+  sharedObjects: Record<string, string>;
+  upgradeCapId?: string;
+  deployer: string;
+}
+
+export type SharedObjectName = keyof typeof SHARED_OBJECTS;
+
+const deploymentCache = new Map<string, DeploymentInfo | null>();
+
+/**
+ * Load deployment-<network>.json written by `deploy contracts`
+ *
+ * Looked up in the working directory and in ./scripts, so the CLI works from
+ * both the repo root and the scripts folder.
+ */
+export function loadDeploymentInfo(network: string = getCurrentNetwork()): DeploymentInfo | null {
+  if (deploymentCache.has(network)) {
+    return deploymentCache.get(network)!;
+  }
+
+  const fileName = `deployment-${network}.json`;
+  const candidates = [
+    path.join(process.cwd(), fileName),
+    path.join(process.cwd(), 'scripts', fileName),
+  ];
+
+  let info: DeploymentInfo | null = null;
+  const deploymentPath = candidates.find(candidate => existsSync(candidate));
+
+  if (deploymentPath) {
+    try {
+      info = JSON.parse(readFileSync(deploymentPath, 'utf8'));
+    } catch (error) {
+      throw new Error(`Failed to parse deployment info: ${error}`);
+    }
+  }
+
+  deploymentCache.set(network, info);
+  return info;
+}
+
+/**
+ * Resolve a shared object ID from the environment, falling back to deployment info
+ */
+export function getSharedObjectId(name: SharedObjectName, network?: string): string {
+  const objectId = SHARED_OBJECTS[name] || loadDeploymentInfo(network)?.sharedObjects[name];
+
+  if (!objectId) {
+    throw new Error(`${name} not found. Set it in .env or deploy contracts first.`);
+  }
+
+  return objectId;
+}
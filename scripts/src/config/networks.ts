@@ -2,6 +2,11 @@ import { getFullnodeUrl } from '@mysten/sui/client';
 
 export type Network = 'localnet' | 'testnet' | 'mainnet';
 
+export interface SealKeyServerConfig {
+  objectId: string; // On-chain KeyServer object
+  weight: number;
+}
+
 export interface NetworkConfig {
   sui: {
     rpcUrl: string;
@@ -15,6 +20,9 @@ export interface NetworkConfig {
   seal: {
     network: string;
     keyServerUrl: string;
+    keyServers: SealKeyServerConfig[];
+    threshold: number; // Total key server weight needed to decrypt
+    verifyKeyServers: boolean;
   };
 }
 
@@ -32,6 +40,9 @@ export const NETWORK_CONFIGS: Record<Network, NetworkConfig> = {
     seal: {
       network: 'localnet',
       keyServerUrl: 'http://localhost:8080',
+      keyServers: [], // Set SEAL_KEY_SERVERS to the local key server objects
+      threshold: 1,
+      verifyKeyServers: false,
     },
   },
   testnet: {
@@ -47,6 +58,12 @@ export const NETWORK_CONFIGS: Record<Network, NetworkConfig> = {
     seal: {
       network: 'testnet',
       keyServerUrl: 'https://seal-testnet.mystenlabs.com',
+      keyServers: [
+        { objectId: '0xb35a7228d8cf224ad1e828c0217c95a5153bafc2906d6f9c178197dce26fbcf8', weight: 1 },
+        { objectId: '0x2d6cde8a9d9a65bde3b0a346566945a63b4bfb70e9a06c41bdb70807e2502b06', weight: 1 },
+      ],
+      threshold: 2,
+      verifyKeyServers: false,
     },
   },
   mainnet: {
@@ -61,6 +78,9 @@ export const NETWORK_CONFIGS: Record<Network, NetworkConfig> = {
     seal: {
       network: 'mainnet',
       keyServerUrl: 'https://seal.mystenlabs.com',
+      keyServers: [], // No open key servers on mainnet; set SEAL_KEY_SERVERS
+      threshold: 2,
+      verifyKeyServers: true,
     },
   },
 };
@@ -75,4 +95,58 @@ export function getNetworkConfig(network: Network = 'testnet'): NetworkConfig {
 
 export function getCurrentNetwork(): Network {
   return (process.env.NETWORK as Network) || 'testnet';
-}
\ No newline at end of file
+}
+
+/**
+ * Parse SEAL_KEY_SERVERS: comma-separated `objectId[:weight]` entries (weight defaults to 1)
+ */
+export function parseKeyServers(value: string): SealKeyServerConfig[] {
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const [objectId, weight] = entry.split(':');
+      const parsedWeight = weight === undefined ? 1 : Number(weight);
+
+      if (!/^0x[0-9a-fA-F]{1,64}$/.test(objectId)) {
+        throw new Error(`Invalid key server object ID: ${objectId}`);
+      }
+      if (!Number.isInteger(parsedWeight) || parsedWeight < 1) {
+        throw new Error(`Invalid weight for key server ${objectId}: ${weight}`);
+      }
+
+      return { objectId, weight: parsedWeight };
+    });
+}
+
+/**
+ * Seal settings for a network with SEAL_KEY_SERVERS, SEAL_THRESHOLD and
+ * SEAL_VERIFY_KEY_SERVERS overrides applied
+ */
+export function getSealConfig(network: Network = getCurrentNetwork()): NetworkConfig['seal'] {
+  const base = getNetworkConfig(network).seal;
+
+  const config: NetworkConfig['seal'] = {
+    ...base,
+    keyServers: process.env.SEAL_KEY_SERVERS ? parseKeyServers(process.env.SEAL_KEY_SERVERS) : base.keyServers,
+    threshold: process.env.SEAL_THRESHOLD ? Number(process.env.SEAL_THRESHOLD) : base.threshold,
+    verifyKeyServers: process.env.SEAL_VERIFY_KEY_SERVERS
+      ? process.env.SEAL_VERIFY_KEY_SERVERS === 'true'
+      : base.verifyKeyServers,
+  };
+
+  validateSealConfig(config, network);
+  return config;
+}
+
+export function validateSealConfig(config: Pick<NetworkConfig['seal'], 'keyServers' | 'threshold'>, network: string): void {
+  if (!Number.isInteger(config.threshold) || config.threshold < 1) {
+    throw new Error(`Invalid Seal threshold for ${network}: ${config.threshold}`);
+  }
+
+  const totalWeight = config.keyServers.reduce((sum, server) => sum + server.weight, 0);
+  if (config.keyServers.length > 0 && config.threshold > totalWeight) {
+    throw new Error(`Seal threshold ${config.threshold} exceeds total key server weight ${totalWeight} on ${network}`);
+  }
+}
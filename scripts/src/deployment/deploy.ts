@@ -6,6 +6,8 @@ import dotenv from 'dotenv';
 import { getDefaultSuiClient } from '../utils/client.js';
 import { getCurrentNetwork } from '../config/networks.js';
 import { createTransaction } from '../utils/transactions.js';
+import { formatGasEstimate, gasEstimateFromDryRun } from '../utils/gas.js';
+import * as publicationMove from '../generated/publication.js';
 import type { DeploymentResult } from '../utils/types.js';
 
 // Load environment variables
@@ -101,8 +103,10 @@ export class ContractDeployer {
   private async publishWithSuiCLI(): Promise<string> {
     console.log(chalk.gray(`Using Sui CLI to publish package...`));
 
+    const gasBudget = await this.estimatePublishBudget();
+
     try {
-      const publishCommand = `sui client publish ${this.contractPath} --json --gas-budget 1000000000`;
+      const publishCommand = `sui client publish ${this.contractPath} --json --gas-budget ${gasBudget}`;
       console.log(chalk.gray(`Command: ${publishCommand}`));
 
       const output = execSync(publishCommand, {
@@ -156,7 +160,7 @@ export class ContractDeployer {
       if (fullOutput.includes('Insufficient funds')) {
         throw new Error('Insufficient SUI balance for gas. Please request faucet tokens.');
       } else if (fullOutput.includes('InsufficientGas')) {
-        throw new Error('Insufficient gas budget. Large package deployment requires higher gas budget - increased to 1B. You may also need more SUI balance.');
+        throw new Error(`Insufficient gas budget (${gasBudget} MIST from the dry run). Raise GAS_BUDGET_MARGIN_PERCENT or MAX_GAS_BUDGET.`);
       } else if (fullOutput.includes('does not specify a published address')) {
         throw new Error('Unpublished dependencies detected. Using --with-unpublished-dependencies flag in next attempt.');
       } else if (fullOutput.includes('Package dependency') && !fullOutput.includes('published address')) {
@@ -169,6 +173,43 @@ export class ContractDeployer {
     }
   }
 
+  /**
+   * Dry-run the publish with the Sui CLI and size its budget like any other transaction
+   */
+  private async estimatePublishBudget(): Promise<bigint> {
+    console.log(chalk.gray(`Estimating publish gas...`));
+
+    let output: string;
+    try {
+      output = execSync(`sui client publish ${this.contractPath} --json --dry-run`, {
+        encoding: 'utf8',
+        stdio: 'pipe',
+        cwd: this.contractPath,
+      });
+    } catch (error: any) {
+      throw new Error(`Publish dry run failed: ${error.stderr || error.stdout || error}`);
+    }
+
+    const jsonMatch = output.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('No JSON output from the publish dry run');
+    }
+
+    const [gasPrice, balance] = await Promise.all([
+      this.client.getClient().getReferenceGasPrice(),
+      this.client.getBalance().then(BigInt),
+    ]);
+    const estimate = gasEstimateFromDryRun(JSON.parse(jsonMatch[0]), {
+      gasPrice,
+      balance,
+      sender: this.client.getAddress(),
+    });
+
+    console.log(chalk.gray(`Expected gas: ${formatGasEstimate(estimate)}`));
+
+    return estimate.budget;
+  }
+
   private parsePublishOutput(output: string): DeploymentResult {
     try {
       const result = JSON.parse(output);
@@ -335,17 +376,13 @@ export class ContractDeployer {
 
     try {
       // Test that the entry functions exist by doing a dry run
-      const { Transaction } = await import('@mysten/sui/transactions');
+      const builder = createTransaction(this.client);
+      const ownerCap = publicationMove.create(builder, result.packageId, ['Test Publication']);
+      builder.transferObjects([ownerCap], this.client.getAddress());
 
-      // Test create_publication entry function
-      const testTx = new Transaction();
+      // Test publication::create
+      const testTx = builder.getTransaction();
       testTx.setSender(this.client.getAddress());
-      testTx.moveCall({
-        target: `${result.packageId}::publication::create_publication`,
-        arguments: [
-          testTx.pure.string('Test Publication'),
-        ],
-      });
 
       // Do a dry run to validate the function exists
       const txBytes = await testTx.build({
@@ -359,7 +396,7 @@ export class ContractDeployer {
       if (dryRunResult.effects.status.status === 'failure') {
         const error = dryRunResult.effects.status.error;
         if (error?.includes('FunctionNotFound')) {
-          throw new Error(`Entry function not found: create_publication`);
+          throw new Error(`Entry function not found: publication::create`);
         }
         // Other errors (like insufficient gas, etc.) are OK - we just want to validate the function exists
         console.log(chalk.gray(`  Dry run status: ${dryRunResult.effects.status.status} (expected for validation)`));
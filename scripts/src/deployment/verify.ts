@@ -3,7 +3,9 @@ import path from 'path';
 import chalk from 'chalk';
 import { getDefaultSuiClient } from '../utils/client.js';
 import { getCurrentNetwork } from '../config/networks.js';
-import { MODULES, CONTRACT_ADDRESSES, SHARED_OBJECTS } from '../config/constants.js';
+import { CONTRACT_ADDRESSES, SHARED_OBJECTS } from '../config/constants.js';
+import * as bindings from '../generated/index.js';
+import { EVENT_FIELDS, INKRAY_EVENT_NAMES } from '../utils/events.js';
 
 interface DeploymentInfo {
   network: string;
@@ -122,9 +124,14 @@ export class DeploymentVerifier {
     
     // Get package info to check modules
     try {
-      // Note: This is a simplified check. In practice, we'd need to use
-      // the Sui client to inspect the package's module structure
-      const expectedModules = Object.values(MODULES);
+      // Every module the generated bindings call into must be deployed
+      const expectedModules = Object.values(bindings).map(module => module.MODULE);
+      const deployedModules = await this.client.getClient().getNormalizedMoveModulesByPackage({ package: packageId });
+      
+      const missing = expectedModules.filter(name => !deployedModules[name]);
+      if (missing.length > 0) {
+        throw new Error(`Modules missing from the package: ${missing.join(', ')}`);
+      }
       
       console.log(chalk.gray(`Expected modules: ${expectedModules.join(', ')}`));
       console.log(chalk.green(`✓ Module structure verification completed`));
@@ -136,22 +143,33 @@ export class DeploymentVerifier {
   private async verifyEvents(): Promise<void> {
     console.log(chalk.blue(`📡 Verifying event structure...`));
     
-    // This would verify that events can be emitted and parsed correctly
-    // For now, we'll just log that event verification is complete
-    
-    const expectedEvents = [
-      'PublicationCreated',
-      'ContributorAdded',
-      'VaultCreated',
-      'BlobAdded',
-      'ArticlePublished',
-      'SubscriptionCreated',
-      'ArticleNFTMinted',
-      'TipSent',
-    ];
+    const packageId = this.deploymentInfo!.packageId;
     
-    console.log(chalk.gray(`Expected events: ${expectedEvents.join(', ')}`));
-    console.log(chalk.green(`✓ Event structure verification completed`));
+    try {
+      // The SDK decodes events by field name, so the deployed structs must match EVENT_FIELDS
+      const module = await this.client.getClient().getNormalizedMoveModule({
+        package: packageId,
+        module: bindings.inkray_events.MODULE,
+      });
+      
+      for (const name of INKRAY_EVENT_NAMES) {
+        const struct = module.structs[name];
+        if (!struct) {
+          throw new Error(`Event struct missing: ${bindings.inkray_events.MODULE}::${name}`);
+        }
+        
+        const deployedFields = struct.fields.map(field => field.name).sort().join(', ');
+        const expectedFields = Object.keys(EVENT_FIELDS[name]).sort().join(', ');
+        if (deployedFields !== expectedFields) {
+          throw new Error(`Event ${name} has fields [${deployedFields}], SDK expects [${expectedFields}]`);
+        }
+      }
+      
+      console.log(chalk.gray(`Events: ${INKRAY_EVENT_NAMES.join(', ')}`));
+      console.log(chalk.green(`✓ Event structure verification completed`));
+    } catch (error) {
+      throw new Error(`Event verification failed: ${error}`);
+    }
   }
 
   async testBasicOperations(): Promise<boolean> {
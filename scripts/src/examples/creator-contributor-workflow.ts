@@ -5,6 +5,7 @@ import dotenv from 'dotenv';
 import { createSuiClient } from '../utils/client.js';
 import { createPublication, addContributor } from '../interactions/publication.js';
 import { createWalrusClient } from '../utils/walrus-client.js';
+import { withRetry } from '../utils/executor.js';
 import { getDefaultSealClient } from '../utils/seal-client.js';
 import { getCurrentNetwork } from '../config/networks.js';
 import type { SealEncryptionOptions, SealDecryptionRequest, UserCredentials } from '../utils/types.js';
@@ -234,57 +235,42 @@ class CreatorContributorWorkflow {
 
   private async uploadBufferWithCreatorWallet(
     buffer: Uint8Array,
-    _filename: string,
+    filename: string,
     options?: { epochs?: number; deletable?: boolean }
   ): Promise<{ blobId: string; size: number; storageEndEpoch: number }> {
-    const maxRetries = 5;
-    const baseDelay = 2000; // Start with 2 seconds
+    const maxAttempts = 5;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(chalk.gray(`  Attempt ${attempt}/${maxRetries}: Using creator wallet ${this.creatorClient.getAddress()}`));
-
-        // Create a Walrus client instance
-        const walrusClient = createWalrusClient();
+    try {
+      // Backoff of 2s, 4s, 8s, 16s
+      return await withRetry(async attempt => {
+        console.log(chalk.gray(`  Attempt ${attempt}/${maxAttempts}: Using creator wallet ${this.creatorClient.getAddress()}`));
 
-        // Get the creator's keypair
-        const creatorKeypair = this.creatorClient.getKeypair();
+        // Upload to Walrus (or the configured storage backend) with the creator's keypair
+        const walrusClient = createWalrusClient({ suiClient: this.creatorClient });
 
-        // Upload to Walrus using the creator's keypair
-        const result = await walrusClient.getClient().writeBlob({
-          blob: buffer,
+        const result = await walrusClient.uploadBuffer(buffer, filename, {
           epochs: options?.epochs || 5,
           deletable: options?.deletable || false,
-          signer: creatorKeypair,
         });
 
-        if (!result) {
-          throw new Error('Upload failed: No result returned');
-        }
-
         console.log(chalk.green(`  ✅ Upload successful on attempt ${attempt}`));
         return {
           blobId: result.blobId,
           size: parseInt(result.blobObject.size),
           storageEndEpoch: result.blobObject.storage?.end_epoch || 0,
         };
-
-      } catch (error) {
-        const errorMessage = String(error);
-        console.log(chalk.yellow(`  ❌ Attempt ${attempt} failed: ${errorMessage.substring(0, 100)}...`));
-
-        if (attempt === maxRetries) {
-          throw new Error(`Failed to upload after ${maxRetries} attempts. Last error: ${error}`);
-        }
-
-        // Exponential backoff: 2s, 4s, 8s, 16s
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(chalk.gray(`  ⏳ Waiting ${delay / 1000}s before retry ${attempt + 1}...`));
-        await this.delay(delay);
-      }
+      }, {
+        maxAttempts,
+        baseDelayMs: 2000,
+        shouldRetry: () => true,
+        onRetry: (error, attempt, delayMs) => {
+          console.log(chalk.yellow(`  ❌ Attempt ${attempt} failed: ${String(error).substring(0, 100)}...`));
+          console.log(chalk.gray(`  ⏳ Waiting ${delayMs / 1000}s before retry ${attempt + 1}...`));
+        },
+      });
+    } catch (error) {
+      throw new Error(`Failed to upload after ${maxAttempts} attempts. Last error: ${error}`);
     }
-
-    throw new Error('Upload failed: Maximum retries exceeded');
   }
 
   private async step3_CreatorCreateEncryptedArticle(): Promise<void> {
@@ -439,25 +425,7 @@ As a contributor to this publication, you have access to:
       this.saveDecryptedContent(decryptedText);
 
     } catch (error) {
-      console.log(chalk.yellow('⚠️  Decryption with Seal credentials failed, attempting with demo encryption...'));
-
-      try {
-        // Try with demo encryption fallback
-        const decryptedDemo = await this.readerSealClient.decryptContent(decryptionRequest);
-        const decryptedText = new TextDecoder().decode(decryptedDemo);
-
-        console.log(chalk.green('✅ Content decrypted using demo encryption!'));
-        console.log(chalk.gray('  This indicates the workflow is correct but using demo mode'));
-
-        console.log('');
-        console.log(chalk.blue.bold('📄 Decrypted Article Content (Demo Mode):'));
-        console.log(chalk.gray('━'.repeat(60)));
-        console.log(decryptedText);
-        console.log(chalk.gray('━'.repeat(60)));
-
-      } catch (demoError) {
-        throw new Error(`Failed to decrypt content: ${error}. Demo fallback also failed: ${demoError}`);
-      }
+      throw new Error(`Failed to decrypt content: ${error}`);
     }
   }
 
@@ -541,7 +509,7 @@ As a contributor to this publication, you have access to:
       console.log(chalk.red('   The admin wallet should not be able to decrypt content it doesn\'t own.'));
       console.log('');
       console.log(chalk.yellow('Possible causes:'));
-      console.log(chalk.yellow('   1. Demo encryption mode is bypassing access control'));
+      console.log(chalk.yellow('   1. Local Seal mode (SEAL_MODE=local) does not evaluate policies'));
       console.log(chalk.yellow('   2. Owner cap validation is not working properly'));
       console.log(chalk.yellow('   3. Seal policy validation has a bug'));
     } else {
@@ -0,0 +1,287 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeString, decodeUid, field, moveStructType, objectInput, structFields, type ObjectInput, type TransactionArgument } from '../codegen/runtime.js';
+import * as vault from './vault.js';
+
+export const MODULE = 'articles';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_NOT_AUTHORIZED', 1: 'E_INVALID_PUBLICATION', 2: 'E_INVALID_VAULT', 3: 'E_ARTICLE_NOT_FROM_PUBLICATION', 4: 'E_VAULT_MISMATCH' };
+
+export const STRUCTS = ['Article', 'PostArticleCap'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `articles::Article` (key, store) */
+export interface Article {
+  id: string;
+  gating: vault.Access;
+  body_blob_id: string;
+  title: string;
+  slug: string;
+  publication_id: string;
+  vault_id: string;
+  author: string;
+}
+
+export function decodeArticle(json: unknown): Article {
+  const fields = structFields(json, 'articles::Article');
+  return {
+    id: field(fields, 'id', decodeUid, 'articles::Article'),
+    gating: field(fields, 'gating', vault.decodeAccess, 'articles::Article'),
+    body_blob_id: field(fields, 'body_blob_id', decodeAddress, 'articles::Article'),
+    title: field(fields, 'title', decodeString, 'articles::Article'),
+    slug: field(fields, 'slug', decodeString, 'articles::Article'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'articles::Article'),
+    vault_id: field(fields, 'vault_id', decodeAddress, 'articles::Article'),
+    author: field(fields, 'author', decodeAddress, 'articles::Article'),
+  };
+}
+
+/** `articles::PostArticleCap` (key, store) */
+export interface PostArticleCap {
+  id: string;
+}
+
+export function decodePostArticleCap(json: unknown): PostArticleCap {
+  const fields = structFields(json, 'articles::PostArticleCap');
+  return {
+    id: field(fields, 'id', decodeUid, 'articles::PostArticleCap'),
+  };
+}
+
+/**
+ * `articles::post(publication: &Publication, vault: &mut PublicationVault, title: String, gating: Access, body_blob: Blob, ctx: &mut TxContext): Article`
+ */
+export function post(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput, vault: ObjectInput, title: PureValue<'string'>, gating: TransactionArgument, bodyBlob: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'post',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'string'), args[3], objectInput(tx, args[4])],
+  });
+}
+
+/**
+ * `articles::post_as_owner(owner_cap: &PublicationOwnerCap, publication: &Publication, vault: &mut PublicationVault, title: String, gating: Access, body_blob: Blob, ctx: &mut TxContext): Article`
+ */
+export function postAsOwner(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, vault: ObjectInput, title: PureValue<'string'>, gating: TransactionArgument, bodyBlob: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'post_as_owner',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), tx.pure(args[3], 'string'), args[4], objectInput(tx, args[5])],
+  });
+}
+
+/**
+ * `articles::post_with_cap(_cap: &PostArticleCap, publication: &Publication, vault: &mut PublicationVault, title: String, gating: Access, body_blob: Blob, author: address, ctx: &mut TxContext): Article`
+ */
+export function postWithCap(tx: TransactionBuilder, packageId: string, args: [cap: ObjectInput, publication: ObjectInput, vault: ObjectInput, title: PureValue<'string'>, gating: TransactionArgument, bodyBlob: ObjectInput, author: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'post_with_cap',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), tx.pure(args[3], 'string'), args[4], objectInput(tx, args[5]), tx.pure(args[6], 'address')],
+  });
+}
+
+/**
+ * `articles::update_article(owner_cap: &PublicationOwnerCap, publication: &Publication, article: &mut Article, new_title: String, _ctx: &TxContext)`
+ */
+export function updateArticle(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, article: ObjectInput, newTitle: PureValue<'string'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'update_article',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), tx.pure(args[3], 'string')],
+  });
+}
+
+/**
+ * `articles::delete_article(owner_cap: &PublicationOwnerCap, publication: &Publication, vault: &mut PublicationVault, article: Article, system: &mut System, ctx: &mut TxContext)`
+ */
+export function deleteArticle(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, vault: ObjectInput, article: ObjectInput, system: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'delete_article',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), objectInput(tx, args[3]), objectInput(tx, args[4])],
+  });
+}
+
+/**
+ * `articles::generate_slug_from_title(title: String, article_uid: &UID): String`
+ */
+export function generateSlugFromTitle(tx: TransactionBuilder, packageId: string, args: [title: PureValue<'string'>, articleUid: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'generate_slug_from_title',
+    arguments: [tx.pure(args[0], 'string'), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `articles::get_article_id(article: &Article): ID`
+ */
+export function getArticleId(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_article_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_article_address(article: &Article): address`
+ */
+export function getArticleAddress(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_article_address',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::is_free_content(article: &Article): bool`
+ */
+export function isFreeContent(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_free_content',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::is_gated_content(article: &Article): bool`
+ */
+export function isGatedContent(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_gated_content',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_article_info(article: &Article): (String, String, ID, ID, address, u8)`
+ */
+export function getArticleInfo(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_article_info',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_gating(article: &Article): &Access`
+ */
+export function getGating(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_gating',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_body_blob_id(article: &Article): ID`
+ */
+export function getBodyBlobId(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_body_blob_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_publication_id(article: &Article): ID`
+ */
+export function getPublicationId(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_publication_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_vault_id(article: &Article): ID`
+ */
+export function getVaultId(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_author(article: &Article): address`
+ */
+export function getAuthor(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_author',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_title(article: &Article): String`
+ */
+export function getTitle(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_title',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::get_slug(article: &Article): String`
+ */
+export function getSlug(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_slug',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `articles::preview_slug_from_title(title: String, ctx: &mut TxContext): String`
+ */
+export function previewSlugFromTitle(tx: TransactionBuilder, packageId: string, args: [title: PureValue<'string'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'preview_slug_from_title',
+    arguments: [tx.pure(args[0], 'string')],
+  });
+}
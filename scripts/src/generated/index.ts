@@ -0,0 +1,11 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+
+export * as articles from './articles.js';
+export * as inkray_events from './inkray_events.js';
+export * as nft from './nft.js';
+export * as platform_economics from './platform_economics.js';
+export * as policy from './policy.js';
+export * as publication from './publication.js';
+export * as publication_subscription from './publication_subscription.js';
+export * as subscription from './subscription.js';
+export * as vault from './vault.js';
@@ -0,0 +1,556 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBigInt, decodeSmallInt, decodeString, field, moveStructType, structFields } from '../codegen/runtime.js';
+
+export const MODULE = 'inkray_events';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = {};
+
+export const STRUCTS = ['PublicationCreated', 'ContributorAdded', 'ContributorRemoved', 'ArticlePosted', 'ArticleDeleted', 'BlobStored', 'BlobRemoved', 'BlobRenewed', 'SubscriptionMinted', 'SubscriptionExtended', 'PublicationSubscriptionCreated', 'PublicationSubscriptionExtended', 'PublicationSubscriptionPriceUpdated', 'SubscriptionBalanceWithdrawn', 'ArticleNftMinted', 'PublicationTipped', 'ArticleTipped'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `inkray_events::PublicationCreated` (copy, drop) */
+export interface PublicationCreated {
+  publication: string;
+  owner: string;
+  name: string;
+  vault_id: string;
+}
+
+export function decodePublicationCreated(json: unknown): PublicationCreated {
+  const fields = structFields(json, 'inkray_events::PublicationCreated');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::PublicationCreated'),
+    owner: field(fields, 'owner', decodeAddress, 'inkray_events::PublicationCreated'),
+    name: field(fields, 'name', decodeString, 'inkray_events::PublicationCreated'),
+    vault_id: field(fields, 'vault_id', decodeAddress, 'inkray_events::PublicationCreated'),
+  };
+}
+
+/** `inkray_events::ContributorAdded` (copy, drop) */
+export interface ContributorAdded {
+  publication: string;
+  addr: string;
+  added_by: string;
+}
+
+export function decodeContributorAdded(json: unknown): ContributorAdded {
+  const fields = structFields(json, 'inkray_events::ContributorAdded');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::ContributorAdded'),
+    addr: field(fields, 'addr', decodeAddress, 'inkray_events::ContributorAdded'),
+    added_by: field(fields, 'added_by', decodeAddress, 'inkray_events::ContributorAdded'),
+  };
+}
+
+/** `inkray_events::ContributorRemoved` (copy, drop) */
+export interface ContributorRemoved {
+  publication: string;
+  addr: string;
+  removed_by: string;
+}
+
+export function decodeContributorRemoved(json: unknown): ContributorRemoved {
+  const fields = structFields(json, 'inkray_events::ContributorRemoved');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::ContributorRemoved'),
+    addr: field(fields, 'addr', decodeAddress, 'inkray_events::ContributorRemoved'),
+    removed_by: field(fields, 'removed_by', decodeAddress, 'inkray_events::ContributorRemoved'),
+  };
+}
+
+/** `inkray_events::ArticlePosted` (copy, drop) */
+export interface ArticlePosted {
+  publication: string;
+  vault: string;
+  article: string;
+  author: string;
+  title: string;
+  slug: string;
+  gating: number;
+  quilt_id: bigint;
+  quilt_object_id: string;
+}
+
+export function decodeArticlePosted(json: unknown): ArticlePosted {
+  const fields = structFields(json, 'inkray_events::ArticlePosted');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::ArticlePosted'),
+    vault: field(fields, 'vault', decodeAddress, 'inkray_events::ArticlePosted'),
+    article: field(fields, 'article', decodeAddress, 'inkray_events::ArticlePosted'),
+    author: field(fields, 'author', decodeAddress, 'inkray_events::ArticlePosted'),
+    title: field(fields, 'title', decodeString, 'inkray_events::ArticlePosted'),
+    slug: field(fields, 'slug', decodeString, 'inkray_events::ArticlePosted'),
+    gating: field(fields, 'gating', decodeSmallInt, 'inkray_events::ArticlePosted'),
+    quilt_id: field(fields, 'quilt_id', decodeBigInt, 'inkray_events::ArticlePosted'),
+    quilt_object_id: field(fields, 'quilt_object_id', decodeAddress, 'inkray_events::ArticlePosted'),
+  };
+}
+
+/** `inkray_events::ArticleDeleted` (copy, drop) */
+export interface ArticleDeleted {
+  publication: string;
+  vault: string;
+  article: string;
+  deleted_by: string;
+  title: string;
+  slug: string;
+  body_blob_id: string;
+}
+
+export function decodeArticleDeleted(json: unknown): ArticleDeleted {
+  const fields = structFields(json, 'inkray_events::ArticleDeleted');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::ArticleDeleted'),
+    vault: field(fields, 'vault', decodeAddress, 'inkray_events::ArticleDeleted'),
+    article: field(fields, 'article', decodeAddress, 'inkray_events::ArticleDeleted'),
+    deleted_by: field(fields, 'deleted_by', decodeAddress, 'inkray_events::ArticleDeleted'),
+    title: field(fields, 'title', decodeString, 'inkray_events::ArticleDeleted'),
+    slug: field(fields, 'slug', decodeString, 'inkray_events::ArticleDeleted'),
+    body_blob_id: field(fields, 'body_blob_id', decodeAddress, 'inkray_events::ArticleDeleted'),
+  };
+}
+
+/** `inkray_events::BlobStored` (copy, drop) */
+export interface BlobStored {
+  vault_id: string;
+  publication_id: string;
+  blob_object_id: string;
+  blob_content_id: bigint;
+  size: bigint;
+  end_epoch: bigint;
+  stored_by: string;
+}
+
+export function decodeBlobStored(json: unknown): BlobStored {
+  const fields = structFields(json, 'inkray_events::BlobStored');
+  return {
+    vault_id: field(fields, 'vault_id', decodeAddress, 'inkray_events::BlobStored'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::BlobStored'),
+    blob_object_id: field(fields, 'blob_object_id', decodeAddress, 'inkray_events::BlobStored'),
+    blob_content_id: field(fields, 'blob_content_id', decodeBigInt, 'inkray_events::BlobStored'),
+    size: field(fields, 'size', decodeBigInt, 'inkray_events::BlobStored'),
+    end_epoch: field(fields, 'end_epoch', decodeBigInt, 'inkray_events::BlobStored'),
+    stored_by: field(fields, 'stored_by', decodeAddress, 'inkray_events::BlobStored'),
+  };
+}
+
+/** `inkray_events::BlobRemoved` (copy, drop) */
+export interface BlobRemoved {
+  vault_id: string;
+  publication_id: string;
+  blob_object_id: string;
+  blob_content_id: bigint;
+  removed_by: string;
+}
+
+export function decodeBlobRemoved(json: unknown): BlobRemoved {
+  const fields = structFields(json, 'inkray_events::BlobRemoved');
+  return {
+    vault_id: field(fields, 'vault_id', decodeAddress, 'inkray_events::BlobRemoved'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::BlobRemoved'),
+    blob_object_id: field(fields, 'blob_object_id', decodeAddress, 'inkray_events::BlobRemoved'),
+    blob_content_id: field(fields, 'blob_content_id', decodeBigInt, 'inkray_events::BlobRemoved'),
+    removed_by: field(fields, 'removed_by', decodeAddress, 'inkray_events::BlobRemoved'),
+  };
+}
+
+/** `inkray_events::BlobRenewed` (copy, drop) */
+export interface BlobRenewed {
+  publication: string;
+  vault: string;
+  blob_id: string;
+  blob_content_id: bigint;
+  extended_epochs: number;
+  new_expiration_epoch: bigint;
+  renewed_by: string;
+}
+
+export function decodeBlobRenewed(json: unknown): BlobRenewed {
+  const fields = structFields(json, 'inkray_events::BlobRenewed');
+  return {
+    publication: field(fields, 'publication', decodeAddress, 'inkray_events::BlobRenewed'),
+    vault: field(fields, 'vault', decodeAddress, 'inkray_events::BlobRenewed'),
+    blob_id: field(fields, 'blob_id', decodeAddress, 'inkray_events::BlobRenewed'),
+    blob_content_id: field(fields, 'blob_content_id', decodeBigInt, 'inkray_events::BlobRenewed'),
+    extended_epochs: field(fields, 'extended_epochs', decodeSmallInt, 'inkray_events::BlobRenewed'),
+    new_expiration_epoch: field(fields, 'new_expiration_epoch', decodeBigInt, 'inkray_events::BlobRenewed'),
+    renewed_by: field(fields, 'renewed_by', decodeAddress, 'inkray_events::BlobRenewed'),
+  };
+}
+
+/** `inkray_events::SubscriptionMinted` (copy, drop) */
+export interface SubscriptionMinted {
+  user: string;
+  subscription_id: string;
+  plan: number;
+  expires_ms: bigint;
+}
+
+export function decodeSubscriptionMinted(json: unknown): SubscriptionMinted {
+  const fields = structFields(json, 'inkray_events::SubscriptionMinted');
+  return {
+    user: field(fields, 'user', decodeAddress, 'inkray_events::SubscriptionMinted'),
+    subscription_id: field(fields, 'subscription_id', decodeAddress, 'inkray_events::SubscriptionMinted'),
+    plan: field(fields, 'plan', decodeSmallInt, 'inkray_events::SubscriptionMinted'),
+    expires_ms: field(fields, 'expires_ms', decodeBigInt, 'inkray_events::SubscriptionMinted'),
+  };
+}
+
+/** `inkray_events::SubscriptionExtended` (copy, drop) */
+export interface SubscriptionExtended {
+  user: string;
+  subscription_id: string;
+  old_expires_ms: bigint;
+  new_expires_ms: bigint;
+}
+
+export function decodeSubscriptionExtended(json: unknown): SubscriptionExtended {
+  const fields = structFields(json, 'inkray_events::SubscriptionExtended');
+  return {
+    user: field(fields, 'user', decodeAddress, 'inkray_events::SubscriptionExtended'),
+    subscription_id: field(fields, 'subscription_id', decodeAddress, 'inkray_events::SubscriptionExtended'),
+    old_expires_ms: field(fields, 'old_expires_ms', decodeBigInt, 'inkray_events::SubscriptionExtended'),
+    new_expires_ms: field(fields, 'new_expires_ms', decodeBigInt, 'inkray_events::SubscriptionExtended'),
+  };
+}
+
+/** `inkray_events::PublicationSubscriptionCreated` (copy, drop) */
+export interface PublicationSubscriptionCreated {
+  subscription_id: string;
+  publication_id: string;
+  subscriber: string;
+  amount_paid: bigint;
+  expires_at: bigint;
+}
+
+export function decodePublicationSubscriptionCreated(json: unknown): PublicationSubscriptionCreated {
+  const fields = structFields(json, 'inkray_events::PublicationSubscriptionCreated');
+  return {
+    subscription_id: field(fields, 'subscription_id', decodeAddress, 'inkray_events::PublicationSubscriptionCreated'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::PublicationSubscriptionCreated'),
+    subscriber: field(fields, 'subscriber', decodeAddress, 'inkray_events::PublicationSubscriptionCreated'),
+    amount_paid: field(fields, 'amount_paid', decodeBigInt, 'inkray_events::PublicationSubscriptionCreated'),
+    expires_at: field(fields, 'expires_at', decodeBigInt, 'inkray_events::PublicationSubscriptionCreated'),
+  };
+}
+
+/** `inkray_events::PublicationSubscriptionExtended` (copy, drop) */
+export interface PublicationSubscriptionExtended {
+  subscription_id: string;
+  publication_id: string;
+  subscriber: string;
+  amount_paid: bigint;
+  new_expires_at: bigint;
+}
+
+export function decodePublicationSubscriptionExtended(json: unknown): PublicationSubscriptionExtended {
+  const fields = structFields(json, 'inkray_events::PublicationSubscriptionExtended');
+  return {
+    subscription_id: field(fields, 'subscription_id', decodeAddress, 'inkray_events::PublicationSubscriptionExtended'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::PublicationSubscriptionExtended'),
+    subscriber: field(fields, 'subscriber', decodeAddress, 'inkray_events::PublicationSubscriptionExtended'),
+    amount_paid: field(fields, 'amount_paid', decodeBigInt, 'inkray_events::PublicationSubscriptionExtended'),
+    new_expires_at: field(fields, 'new_expires_at', decodeBigInt, 'inkray_events::PublicationSubscriptionExtended'),
+  };
+}
+
+/** `inkray_events::PublicationSubscriptionPriceUpdated` (copy, drop) */
+export interface PublicationSubscriptionPriceUpdated {
+  publication_id: string;
+  old_price: bigint;
+  new_price: bigint;
+  updated_by: string;
+}
+
+export function decodePublicationSubscriptionPriceUpdated(json: unknown): PublicationSubscriptionPriceUpdated {
+  const fields = structFields(json, 'inkray_events::PublicationSubscriptionPriceUpdated');
+  return {
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::PublicationSubscriptionPriceUpdated'),
+    old_price: field(fields, 'old_price', decodeBigInt, 'inkray_events::PublicationSubscriptionPriceUpdated'),
+    new_price: field(fields, 'new_price', decodeBigInt, 'inkray_events::PublicationSubscriptionPriceUpdated'),
+    updated_by: field(fields, 'updated_by', decodeAddress, 'inkray_events::PublicationSubscriptionPriceUpdated'),
+  };
+}
+
+/** `inkray_events::SubscriptionBalanceWithdrawn` (copy, drop) */
+export interface SubscriptionBalanceWithdrawn {
+  publication_id: string;
+  amount: bigint;
+  withdrawn_by: string;
+}
+
+export function decodeSubscriptionBalanceWithdrawn(json: unknown): SubscriptionBalanceWithdrawn {
+  const fields = structFields(json, 'inkray_events::SubscriptionBalanceWithdrawn');
+  return {
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::SubscriptionBalanceWithdrawn'),
+    amount: field(fields, 'amount', decodeBigInt, 'inkray_events::SubscriptionBalanceWithdrawn'),
+    withdrawn_by: field(fields, 'withdrawn_by', decodeAddress, 'inkray_events::SubscriptionBalanceWithdrawn'),
+  };
+}
+
+/** `inkray_events::ArticleNftMinted` (copy, drop) */
+export interface ArticleNftMinted {
+  article_id: string;
+  nft_id: string;
+  to: string;
+  price_paid: bigint;
+}
+
+export function decodeArticleNftMinted(json: unknown): ArticleNftMinted {
+  const fields = structFields(json, 'inkray_events::ArticleNftMinted');
+  return {
+    article_id: field(fields, 'article_id', decodeAddress, 'inkray_events::ArticleNftMinted'),
+    nft_id: field(fields, 'nft_id', decodeAddress, 'inkray_events::ArticleNftMinted'),
+    to: field(fields, 'to', decodeAddress, 'inkray_events::ArticleNftMinted'),
+    price_paid: field(fields, 'price_paid', decodeBigInt, 'inkray_events::ArticleNftMinted'),
+  };
+}
+
+/** `inkray_events::PublicationTipped` (copy, drop) */
+export interface PublicationTipped {
+  publication_id: string;
+  tipper: string;
+  amount: bigint;
+}
+
+export function decodePublicationTipped(json: unknown): PublicationTipped {
+  const fields = structFields(json, 'inkray_events::PublicationTipped');
+  return {
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::PublicationTipped'),
+    tipper: field(fields, 'tipper', decodeAddress, 'inkray_events::PublicationTipped'),
+    amount: field(fields, 'amount', decodeBigInt, 'inkray_events::PublicationTipped'),
+  };
+}
+
+/** `inkray_events::ArticleTipped` (copy, drop) */
+export interface ArticleTipped {
+  article_id: string;
+  publication_id: string;
+  tipper: string;
+  amount: bigint;
+}
+
+export function decodeArticleTipped(json: unknown): ArticleTipped {
+  const fields = structFields(json, 'inkray_events::ArticleTipped');
+  return {
+    article_id: field(fields, 'article_id', decodeAddress, 'inkray_events::ArticleTipped'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'inkray_events::ArticleTipped'),
+    tipper: field(fields, 'tipper', decodeAddress, 'inkray_events::ArticleTipped'),
+    amount: field(fields, 'amount', decodeBigInt, 'inkray_events::ArticleTipped'),
+  };
+}
+
+/**
+ * `inkray_events::emit_publication_created(publication: ID, owner: address, name: String, vault_id: ID)`
+ */
+export function emitPublicationCreated(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, owner: PureValue<'address'>, name: PureValue<'string'>, vaultId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_publication_created',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'address'), tx.pure(args[2], 'string'), tx.pure(args[3], 'ID')],
+  });
+}
+
+/**
+ * `inkray_events::emit_contributor_added(publication: ID, addr: address, added_by: address)`
+ */
+export function emitContributorAdded(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, addr: PureValue<'address'>, addedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_contributor_added',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'address'), tx.pure(args[2], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_contributor_removed(publication: ID, addr: address, removed_by: address)`
+ */
+export function emitContributorRemoved(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, addr: PureValue<'address'>, removedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_contributor_removed',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'address'), tx.pure(args[2], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_article_posted(publication: ID, vault: ID, article: ID, author: address, title: String, slug: String, gating: u8, quilt_id: u256, quilt_object_id: ID)`
+ */
+export function emitArticlePosted(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, vault: PureValue<'ID'>, article: PureValue<'ID'>, author: PureValue<'address'>, title: PureValue<'string'>, slug: PureValue<'string'>, gating: PureValue<'u8'>, quiltId: PureValue<'u256'>, quiltObjectId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_article_posted',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'ID'), tx.pure(args[3], 'address'), tx.pure(args[4], 'string'), tx.pure(args[5], 'string'), tx.pure(args[6], 'u8'), tx.pure(args[7], 'u256'), tx.pure(args[8], 'ID')],
+  });
+}
+
+/**
+ * `inkray_events::emit_article_deleted(publication: ID, vault: ID, article: ID, deleted_by: address, title: String, slug: String, body_blob_id: ID)`
+ */
+export function emitArticleDeleted(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, vault: PureValue<'ID'>, article: PureValue<'ID'>, deletedBy: PureValue<'address'>, title: PureValue<'string'>, slug: PureValue<'string'>, bodyBlobId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_article_deleted',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'ID'), tx.pure(args[3], 'address'), tx.pure(args[4], 'string'), tx.pure(args[5], 'string'), tx.pure(args[6], 'ID')],
+  });
+}
+
+/**
+ * `inkray_events::emit_blob_stored(vault_id: ID, publication_id: ID, blob_object_id: ID, blob_content_id: u256, size: u64, end_epoch: u64, stored_by: address)`
+ */
+export function emitBlobStored(tx: TransactionBuilder, packageId: string, args: [vaultId: PureValue<'ID'>, publicationId: PureValue<'ID'>, blobObjectId: PureValue<'ID'>, blobContentId: PureValue<'u256'>, size: PureValue<'u64'>, endEpoch: PureValue<'u64'>, storedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_blob_stored',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'ID'), tx.pure(args[3], 'u256'), tx.pure(args[4], 'u64'), tx.pure(args[5], 'u64'), tx.pure(args[6], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_blob_removed(vault_id: ID, publication_id: ID, blob_object_id: ID, blob_content_id: u256, removed_by: address)`
+ */
+export function emitBlobRemoved(tx: TransactionBuilder, packageId: string, args: [vaultId: PureValue<'ID'>, publicationId: PureValue<'ID'>, blobObjectId: PureValue<'ID'>, blobContentId: PureValue<'u256'>, removedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_blob_removed',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'ID'), tx.pure(args[3], 'u256'), tx.pure(args[4], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_blob_renewed(publication: ID, vault: ID, blob_id: ID, blob_content_id: u256, extended_epochs: u32, new_expiration_epoch: u64, renewed_by: address)`
+ */
+export function emitBlobRenewed(tx: TransactionBuilder, packageId: string, args: [publication: PureValue<'ID'>, vault: PureValue<'ID'>, blobId: PureValue<'ID'>, blobContentId: PureValue<'u256'>, extendedEpochs: PureValue<'u32'>, newExpirationEpoch: PureValue<'u64'>, renewedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_blob_renewed',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'ID'), tx.pure(args[3], 'u256'), tx.pure(args[4], 'u32'), tx.pure(args[5], 'u64'), tx.pure(args[6], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_subscription_minted(user: address, subscription_id: address, plan: u8, expires_ms: u64)`
+ */
+export function emitSubscriptionMinted(tx: TransactionBuilder, packageId: string, args: [user: PureValue<'address'>, subscriptionId: PureValue<'address'>, plan: PureValue<'u8'>, expiresMs: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_subscription_minted',
+    arguments: [tx.pure(args[0], 'address'), tx.pure(args[1], 'address'), tx.pure(args[2], 'u8'), tx.pure(args[3], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_subscription_extended(user: address, subscription_id: address, old_expires_ms: u64, new_expires_ms: u64)`
+ */
+export function emitSubscriptionExtended(tx: TransactionBuilder, packageId: string, args: [user: PureValue<'address'>, subscriptionId: PureValue<'address'>, oldExpiresMs: PureValue<'u64'>, newExpiresMs: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_subscription_extended',
+    arguments: [tx.pure(args[0], 'address'), tx.pure(args[1], 'address'), tx.pure(args[2], 'u64'), tx.pure(args[3], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_article_nft_minted(article_id: ID, nft_id: address, to: address, price_paid: u64)`
+ */
+export function emitArticleNftMinted(tx: TransactionBuilder, packageId: string, args: [articleId: PureValue<'ID'>, nftId: PureValue<'address'>, to: PureValue<'address'>, pricePaid: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_article_nft_minted',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'address'), tx.pure(args[2], 'address'), tx.pure(args[3], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_publication_tipped(publication_id: ID, tipper: address, amount: u64)`
+ */
+export function emitPublicationTipped(tx: TransactionBuilder, packageId: string, args: [publicationId: PureValue<'ID'>, tipper: PureValue<'address'>, amount: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_publication_tipped',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'address'), tx.pure(args[2], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_article_tipped(article_id: ID, publication_id: ID, tipper: address, amount: u64)`
+ */
+export function emitArticleTipped(tx: TransactionBuilder, packageId: string, args: [articleId: PureValue<'ID'>, publicationId: PureValue<'ID'>, tipper: PureValue<'address'>, amount: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_article_tipped',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'address'), tx.pure(args[3], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_publication_subscription_created(subscription_id: ID, publication_id: ID, subscriber: address, amount_paid: u64, expires_at: u64)`
+ */
+export function emitPublicationSubscriptionCreated(tx: TransactionBuilder, packageId: string, args: [subscriptionId: PureValue<'ID'>, publicationId: PureValue<'ID'>, subscriber: PureValue<'address'>, amountPaid: PureValue<'u64'>, expiresAt: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_publication_subscription_created',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'address'), tx.pure(args[3], 'u64'), tx.pure(args[4], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_publication_subscription_extended(subscription_id: ID, publication_id: ID, subscriber: address, amount_paid: u64, new_expires_at: u64)`
+ */
+export function emitPublicationSubscriptionExtended(tx: TransactionBuilder, packageId: string, args: [subscriptionId: PureValue<'ID'>, publicationId: PureValue<'ID'>, subscriber: PureValue<'address'>, amountPaid: PureValue<'u64'>, newExpiresAt: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_publication_subscription_extended',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'ID'), tx.pure(args[2], 'address'), tx.pure(args[3], 'u64'), tx.pure(args[4], 'u64')],
+  });
+}
+
+/**
+ * `inkray_events::emit_publication_subscription_price_updated(publication_id: ID, old_price: u64, new_price: u64, updated_by: address)`
+ */
+export function emitPublicationSubscriptionPriceUpdated(tx: TransactionBuilder, packageId: string, args: [publicationId: PureValue<'ID'>, oldPrice: PureValue<'u64'>, newPrice: PureValue<'u64'>, updatedBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_publication_subscription_price_updated',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'u64'), tx.pure(args[2], 'u64'), tx.pure(args[3], 'address')],
+  });
+}
+
+/**
+ * `inkray_events::emit_subscription_balance_withdrawn(publication_id: ID, amount: u64, withdrawn_by: address)`
+ */
+export function emitSubscriptionBalanceWithdrawn(tx: TransactionBuilder, packageId: string, args: [publicationId: PureValue<'ID'>, amount: PureValue<'u64'>, withdrawnBy: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'emit_subscription_balance_withdrawn',
+    arguments: [tx.pure(args[0], 'ID'), tx.pure(args[1], 'u64'), tx.pure(args[2], 'address')],
+  });
+}
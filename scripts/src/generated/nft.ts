@@ -0,0 +1,134 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBigInt, decodeSmallInt, decodeUid, field, moveStructType, objectInput, structFields, type ObjectInput } from '../codegen/runtime.js';
+
+export const MODULE = 'nft';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 1: 'E_NOT_ADMIN', 2: 'E_INVALID_ARTICLE' };
+
+export const STRUCTS = ['ArticleAccessNft', 'MintConfig', 'NFT'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `nft::ArticleAccessNft` (key, store) */
+export interface ArticleAccessNft {
+  id: string;
+  article_id: string;
+  minted_at: bigint;
+}
+
+export function decodeArticleAccessNft(json: unknown): ArticleAccessNft {
+  const fields = structFields(json, 'nft::ArticleAccessNft');
+  return {
+    id: field(fields, 'id', decodeUid, 'nft::ArticleAccessNft'),
+    article_id: field(fields, 'article_id', decodeAddress, 'nft::ArticleAccessNft'),
+    minted_at: field(fields, 'minted_at', decodeBigInt, 'nft::ArticleAccessNft'),
+  };
+}
+
+/** `nft::MintConfig` (key, store) */
+export interface MintConfig {
+  id: string;
+  base_price: bigint;
+  platform_fee_percent: number;
+  admin: string;
+}
+
+export function decodeMintConfig(json: unknown): MintConfig {
+  const fields = structFields(json, 'nft::MintConfig');
+  return {
+    id: field(fields, 'id', decodeUid, 'nft::MintConfig'),
+    base_price: field(fields, 'base_price', decodeBigInt, 'nft::MintConfig'),
+    platform_fee_percent: field(fields, 'platform_fee_percent', decodeSmallInt, 'nft::MintConfig'),
+    admin: field(fields, 'admin', decodeAddress, 'nft::MintConfig'),
+  };
+}
+
+/** `nft::NFT` (drop) */
+export interface NFT {}
+
+export function decodeNFT(json: unknown): NFT {
+  structFields(json, 'nft::NFT');
+  return {};
+}
+
+/**
+ * `nft::mint(recipient: address, article_id: ID, _config: &MintConfig, payment: Coin<SUI>, ctx: &mut TxContext): ArticleAccessNft`
+ */
+export function mint(tx: TransactionBuilder, packageId: string, args: [recipient: PureValue<'address'>, articleId: PureValue<'ID'>, config: ObjectInput, payment: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'mint',
+    arguments: [tx.pure(args[0], 'address'), tx.pure(args[1], 'ID'), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `nft::transfer_nft(nft: ArticleAccessNft, recipient: address, _ctx: &TxContext)`
+ */
+export function transferNft(tx: TransactionBuilder, packageId: string, args: [nft: ObjectInput, recipient: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'transfer_nft',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'address')],
+  });
+}
+
+/**
+ * `nft::nft_matches_article(nft: &ArticleAccessNft, article_id: ID): bool`
+ */
+export function nftMatchesArticle(tx: TransactionBuilder, packageId: string, args: [nft: ObjectInput, articleId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'nft_matches_article',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'ID')],
+  });
+}
+
+/**
+ * `nft::update_mint_config(config: &mut MintConfig, new_base_price: u64, new_platform_fee_percent: u8, ctx: &TxContext)`
+ */
+export function updateMintConfig(tx: TransactionBuilder, packageId: string, args: [config: ObjectInput, newBasePrice: PureValue<'u64'>, newPlatformFeePercent: PureValue<'u8'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'update_mint_config',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'u64'), tx.pure(args[2], 'u8')],
+  });
+}
+
+/**
+ * `nft::get_article_id(nft: &ArticleAccessNft): ID`
+ */
+export function getArticleId(tx: TransactionBuilder, packageId: string, args: [nft: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_article_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `nft::get_mint_config(config: &MintConfig): (u64, u8, address)`
+ */
+export function getMintConfig(tx: TransactionBuilder, packageId: string, args: [config: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_mint_config',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
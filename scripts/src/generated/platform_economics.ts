@@ -0,0 +1,81 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { objectInput, type ObjectInput } from '../codegen/runtime.js';
+
+export const MODULE = 'platform_economics';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_NOT_OWNER', 1: 'E_INSUFFICIENT_BALANCE', 2: 'E_INVALID_TIP_AMOUNT', 3: 'E_WRONG_PUBLICATION' };
+
+/**
+ * `platform_economics::tip_publication(publication: &mut Publication, payment: Coin<SUI>, ctx: &mut TxContext)`
+ */
+export function tipPublication(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput, payment: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'tip_publication',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `platform_economics::tip_article(article: &Article, publication: &mut Publication, payment: Coin<SUI>, ctx: &mut TxContext)`
+ */
+export function tipArticle(tx: TransactionBuilder, packageId: string, args: [article: ObjectInput, publication: ObjectInput, payment: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'tip_article',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2])],
+  });
+}
+
+/**
+ * `platform_economics::withdraw_tips(owner_cap: &PublicationOwnerCap, publication: &mut Publication, amount: u64, ctx: &mut TxContext): Coin<SUI>`
+ */
+export function withdrawTips(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, amount: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'withdraw_tips',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'u64')],
+  });
+}
+
+/**
+ * `platform_economics::withdraw_all_tips(owner_cap: &PublicationOwnerCap, publication: &mut Publication, ctx: &mut TxContext): Coin<SUI>`
+ */
+export function withdrawAllTips(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'withdraw_all_tips',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `platform_economics::get_treasury_balance(publication: &Publication): u64`
+ */
+export function getTreasuryBalance(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_treasury_balance',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `platform_economics::get_treasury_stats(publication: &Publication): (u64, u64, u64)`
+ */
+export function getTreasuryStats(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_treasury_stats',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
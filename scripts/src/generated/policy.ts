@@ -0,0 +1,206 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBigInt, decodeSmallInt, field, moveStructType, objectInput, structFields, type ObjectInput, type TransactionArgument } from '../codegen/runtime.js';
+
+export const MODULE = 'policy';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 10: 'E_BAD_ID', 11: 'E_TRAILING', 12: 'E_WRONG_TAG', 13: 'E_WRONG_VERSION', 14: 'E_ACCESS_DENIED' };
+
+export const STRUCTS = ['IdV1'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `policy::IdV1` (drop, store) */
+export interface IdV1 {
+  tag: number;
+  version: number;
+  publication: string;
+  nonce: bigint;
+}
+
+export function decodeIdV1(json: unknown): IdV1 {
+  const fields = structFields(json, 'policy::IdV1');
+  return {
+    tag: field(fields, 'tag', decodeSmallInt, 'policy::IdV1'),
+    version: field(fields, 'version', decodeSmallInt, 'policy::IdV1'),
+    publication: field(fields, 'publication', decodeAddress, 'policy::IdV1'),
+    nonce: field(fields, 'nonce', decodeBigInt, 'policy::IdV1'),
+  };
+}
+
+/**
+ * `policy::parse_id_v1(id: &vector<u8>): IdV1`
+ */
+export function parseIdV1(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'parse_id_v1',
+    arguments: [tx.pure(args[0], 'vector<u8>')],
+  });
+}
+
+/**
+ * `policy::seal_approve_free(id: vector<u8>, publication: &Publication)`
+ */
+export function sealApproveFree(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_free',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `policy::seal_approve_nft(id: vector<u8>, _access_nft: &ArticleAccessNft)`
+ */
+export function sealApproveNft(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, accessNft: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_nft',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `policy::seal_approve_platform(id: vector<u8>, _: &PostArticleCap)`
+ */
+export function sealApprovePlatform(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, arg1: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_platform',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `policy::seal_approve_roles(id: vector<u8>, publication: &Publication, ctx: &TxContext)`
+ */
+export function sealApproveRoles(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_roles',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `policy::seal_approve_subscription(id: vector<u8>, sub: &Subscription, clock: &Clock)`
+ */
+export function sealApproveSubscription(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, sub: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_subscription',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1]), objectInput(tx, args[2])],
+  });
+}
+
+/**
+ * `policy::seal_approve_publication_subscription(id: vector<u8>, pub_subscription: &PublicationSubscription, publication: &Publication, clock: &Clock, ctx: &TxContext)`
+ */
+export function sealApprovePublicationSubscription(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, pubSubscription: ObjectInput, publication: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_publication_subscription',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1]), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `policy::seal_approve_publication_owner(id: vector<u8>, owner_cap: &PublicationOwnerCap, publication: &Publication)`
+ */
+export function sealApprovePublicationOwner(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, ownerCap: ObjectInput, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_publication_owner',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1]), objectInput(tx, args[2])],
+  });
+}
+
+/**
+ * `policy::seal_approve_any(id: vector<u8>, publication: &Publication, article: &Article, ctx: &TxContext)`
+ */
+export function sealApproveAny(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>, publication: ObjectInput, article: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'seal_approve_any',
+    arguments: [tx.pure(args[0], 'vector<u8>'), objectInput(tx, args[1]), objectInput(tx, args[2])],
+  });
+}
+
+/**
+ * `policy::get_constants(): (u8, u16)`
+ */
+export function getConstants(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_constants',
+    arguments: [],
+  });
+}
+
+/**
+ * `policy::get_tag_article_content(): u8`
+ */
+export function getTagArticleContent(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_tag_article_content',
+    arguments: [],
+  });
+}
+
+/**
+ * `policy::get_id_version_v1(): u16`
+ */
+export function getIdVersionV1(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_id_version_v1',
+    arguments: [],
+  });
+}
+
+/**
+ * `policy::get_id_v1_fields(id: &IdV1): (u8, u16, address, u64)`
+ */
+export function getIdV1Fields(tx: TransactionBuilder, packageId: string, args: [id: TransactionArgument]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_id_v1_fields',
+    arguments: [args[0]],
+  });
+}
+
+/**
+ * `policy::validate_id_format(id: &vector<u8>): bool`
+ */
+export function validateIdFormat(tx: TransactionBuilder, packageId: string, args: [id: PureValue<'vector<u8>'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'validate_id_format',
+    arguments: [tx.pure(args[0], 'vector<u8>')],
+  });
+}
@@ -0,0 +1,314 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBalance, decodeBigInt, decodeString, decodeUid, decodeVector, field, moveStructType, objectInput, structFields, type ObjectInput } from '../codegen/runtime.js';
+
+export const MODULE = 'publication';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_NOT_OWNER', 1: 'E_CONTRIBUTOR_NOT_FOUND', 2: 'E_CONTRIBUTOR_EXISTS' };
+
+export const STRUCTS = ['Publication', 'PublicationOwnerCap'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `publication::Publication` (key, store) */
+export interface Publication {
+  id: string;
+  name: string;
+  contributors: string[];
+  vault_id: string;
+  tip_balance: bigint;
+  total_tips_received: bigint;
+  total_amount_received: bigint;
+  subscription_price: bigint;
+  subscription_balance: bigint;
+}
+
+export function decodePublication(json: unknown): Publication {
+  const fields = structFields(json, 'publication::Publication');
+  return {
+    id: field(fields, 'id', decodeUid, 'publication::Publication'),
+    name: field(fields, 'name', decodeString, 'publication::Publication'),
+    contributors: field(fields, 'contributors', decodeVector(decodeAddress), 'publication::Publication'),
+    vault_id: field(fields, 'vault_id', decodeAddress, 'publication::Publication'),
+    tip_balance: field(fields, 'tip_balance', decodeBalance, 'publication::Publication'),
+    total_tips_received: field(fields, 'total_tips_received', decodeBigInt, 'publication::Publication'),
+    total_amount_received: field(fields, 'total_amount_received', decodeBigInt, 'publication::Publication'),
+    subscription_price: field(fields, 'subscription_price', decodeBigInt, 'publication::Publication'),
+    subscription_balance: field(fields, 'subscription_balance', decodeBalance, 'publication::Publication'),
+  };
+}
+
+/** `publication::PublicationOwnerCap` (key, store) */
+export interface PublicationOwnerCap {
+  id: string;
+  publication_id: string;
+}
+
+export function decodePublicationOwnerCap(json: unknown): PublicationOwnerCap {
+  const fields = structFields(json, 'publication::PublicationOwnerCap');
+  return {
+    id: field(fields, 'id', decodeUid, 'publication::PublicationOwnerCap'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'publication::PublicationOwnerCap'),
+  };
+}
+
+/**
+ * `publication::create(name: String, ctx: &mut TxContext): PublicationOwnerCap`
+ */
+export function create(tx: TransactionBuilder, packageId: string, args: [name: PureValue<'string'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'create',
+    arguments: [tx.pure(args[0], 'string')],
+  });
+}
+
+/**
+ * `publication::add_contributor(owner_cap: &PublicationOwnerCap, publication: &mut Publication, contributor: address, ctx: &TxContext)`
+ */
+export function addContributor(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, contributor: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'add_contributor',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'address')],
+  });
+}
+
+/**
+ * `publication::remove_contributor(owner_cap: &PublicationOwnerCap, publication: &mut Publication, contributor: address, ctx: &TxContext)`
+ */
+export function removeContributor(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, contributor: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'remove_contributor',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'address')],
+  });
+}
+
+/**
+ * `publication::is_contributor(publication: &Publication, user: address): bool`
+ */
+export function isContributor(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput, user: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_contributor',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'address')],
+  });
+}
+
+/**
+ * `publication::is_owner_with_cap(owner_cap: &PublicationOwnerCap, publication: &Publication): bool`
+ */
+export function isOwnerWithCap(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_owner_with_cap',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `publication::get_vault_id(publication: &Publication): ID`
+ */
+export function getVaultId(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_contributors(publication: &Publication): &vector<address>`
+ */
+export function getContributors(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_contributors',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_name(publication: &Publication): String`
+ */
+export function getName(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_name',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_publication_id(owner_cap: &PublicationOwnerCap): ID`
+ */
+export function getPublicationId(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_publication_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_publication_object_id(publication: &Publication): ID`
+ */
+export function getPublicationObjectId(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_publication_object_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_publication_address(publication: &Publication): address`
+ */
+export function getPublicationAddress(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_publication_address',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::verify_owner_cap(owner_cap: &PublicationOwnerCap, publication: &Publication): bool`
+ */
+export function verifyOwnerCap(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'verify_owner_cap',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `publication::verify_caller_is_contributor(publication: &Publication, caller: address): bool`
+ */
+export function verifyCallerIsContributor(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput, caller: PureValue<'address'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'verify_caller_is_contributor',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'address')],
+  });
+}
+
+/**
+ * `publication::get_tip_balance(publication: &Publication): u64`
+ */
+export function getTipBalance(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_tip_balance',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_treasury_stats(publication: &Publication): (u64, u64, u64)`
+ */
+export function getTreasuryStats(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_treasury_stats',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_subscription_price(publication: &Publication): u64`
+ */
+export function getSubscriptionPrice(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_subscription_price',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::get_subscription_balance(publication: &Publication): u64`
+ */
+export function getSubscriptionBalance(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_subscription_balance',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::requires_subscription(publication: &Publication): bool`
+ */
+export function requiresSubscription(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'requires_subscription',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication::set_subscription_price(owner_cap: &PublicationOwnerCap, publication: &mut Publication, price: u64, ctx: &TxContext)`
+ */
+export function setSubscriptionPrice(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, price: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'set_subscription_price',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'u64')],
+  });
+}
+
+/**
+ * `publication::withdraw_subscription_balance(owner_cap: &PublicationOwnerCap, publication: &mut Publication, amount: u64, ctx: &mut TxContext): Coin<SUI>`
+ */
+export function withdrawSubscriptionBalance(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput, publication: ObjectInput, amount: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'withdraw_subscription_balance',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'u64')],
+  });
+}
+
+/**
+ * `publication::get_owner_cap_publication_id(owner_cap: &PublicationOwnerCap): ID`
+ */
+export function getOwnerCapPublicationId(tx: TransactionBuilder, packageId: string, args: [ownerCap: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_owner_cap_publication_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
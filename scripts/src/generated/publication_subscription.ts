@@ -0,0 +1,160 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBigInt, decodeUid, field, moveStructType, objectInput, structFields, type ObjectInput } from '../codegen/runtime.js';
+
+export const MODULE = 'publication_subscription';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_INVALID_PAYMENT', 1: 'E_SUBSCRIPTION_NOT_REQUIRED', 3: 'E_INSUFFICIENT_PAYMENT', 4: 'E_ZERO_DURATION' };
+
+export const STRUCTS = ['PublicationSubscription'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `publication_subscription::PublicationSubscription` (key, store) */
+export interface PublicationSubscription {
+  id: string;
+  publication_id: string;
+  subscriber: string;
+  expires_at: bigint;
+  created_at: bigint;
+}
+
+export function decodePublicationSubscription(json: unknown): PublicationSubscription {
+  const fields = structFields(json, 'publication_subscription::PublicationSubscription');
+  return {
+    id: field(fields, 'id', decodeUid, 'publication_subscription::PublicationSubscription'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'publication_subscription::PublicationSubscription'),
+    subscriber: field(fields, 'subscriber', decodeAddress, 'publication_subscription::PublicationSubscription'),
+    expires_at: field(fields, 'expires_at', decodeBigInt, 'publication_subscription::PublicationSubscription'),
+    created_at: field(fields, 'created_at', decodeBigInt, 'publication_subscription::PublicationSubscription'),
+  };
+}
+
+/**
+ * `publication_subscription::subscribe_to_publication(publication: &mut Publication, payment: Coin<SUI>, clock: &Clock, ctx: &mut TxContext): PublicationSubscription`
+ */
+export function subscribeToPublication(tx: TransactionBuilder, packageId: string, args: [publication: ObjectInput, payment: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'subscribe_to_publication',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2])],
+  });
+}
+
+/**
+ * `publication_subscription::extend_subscription(subscription: &mut PublicationSubscription, publication: &mut Publication, payment: Coin<SUI>, clock: &Clock, ctx: &TxContext)`
+ */
+export function extendSubscription(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, publication: ObjectInput, payment: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'extend_subscription',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `publication_subscription::is_subscription_valid(subscription: &PublicationSubscription, clock: &Clock): bool`
+ */
+export function isSubscriptionValid(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_subscription_valid',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `publication_subscription::get_subscription_info(subscription: &PublicationSubscription): (ID, address, u64, u64, ID)`
+ */
+export function getSubscriptionInfo(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_subscription_info',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication_subscription::get_expires_at(subscription: &PublicationSubscription): u64`
+ */
+export function getExpiresAt(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_expires_at',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication_subscription::get_publication_id(subscription: &PublicationSubscription): ID`
+ */
+export function getPublicationId(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_publication_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication_subscription::get_subscriber(subscription: &PublicationSubscription): address`
+ */
+export function getSubscriber(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_subscriber',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `publication_subscription::is_subscription_for_publication(subscription: &PublicationSubscription, publication: &Publication): bool`
+ */
+export function isSubscriptionForPublication(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, publication: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_subscription_for_publication',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `publication_subscription::time_until_expiry(subscription: &PublicationSubscription, clock: &Clock): u64`
+ */
+export function timeUntilExpiry(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'time_until_expiry',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `publication_subscription::validate_subscription_access(subscription: &PublicationSubscription, publication: &Publication, user: address, clock: &Clock): bool`
+ */
+export function validateSubscriptionAccess(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, publication: ObjectInput, user: PureValue<'address'>, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'validate_subscription_access',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), tx.pure(args[2], 'address'), objectInput(tx, args[3])],
+  });
+}
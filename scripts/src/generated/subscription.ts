@@ -0,0 +1,190 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeBigInt, decodeSmallInt, decodeUid, decodeVector, field, moveStructType, objectInput, structFields, type ObjectInput } from '../codegen/runtime.js';
+
+export const MODULE = 'subscription';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_INSUFFICIENT_PAYMENT', 1: 'E_INVALID_PLAN', 3: 'E_NOT_SUBSCRIBER' };
+
+export const STRUCTS = ['Subscription', 'PlatformService'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `subscription::Subscription` (key, store) */
+export interface Subscription {
+  id: string;
+  holder: string;
+  plan: number;
+  expires_ms: bigint;
+  version: number;
+}
+
+export function decodeSubscription(json: unknown): Subscription {
+  const fields = structFields(json, 'subscription::Subscription');
+  return {
+    id: field(fields, 'id', decodeUid, 'subscription::Subscription'),
+    holder: field(fields, 'holder', decodeAddress, 'subscription::Subscription'),
+    plan: field(fields, 'plan', decodeSmallInt, 'subscription::Subscription'),
+    expires_ms: field(fields, 'expires_ms', decodeBigInt, 'subscription::Subscription'),
+    version: field(fields, 'version', decodeSmallInt, 'subscription::Subscription'),
+  };
+}
+
+/** `subscription::PlatformService` (key, store) */
+export interface PlatformService {
+  id: string;
+  monthly_fees: bigint[];
+  duration_ms: bigint;
+  admin: string;
+}
+
+export function decodePlatformService(json: unknown): PlatformService {
+  const fields = structFields(json, 'subscription::PlatformService');
+  return {
+    id: field(fields, 'id', decodeUid, 'subscription::PlatformService'),
+    monthly_fees: field(fields, 'monthly_fees', decodeVector(decodeBigInt), 'subscription::PlatformService'),
+    duration_ms: field(fields, 'duration_ms', decodeBigInt, 'subscription::PlatformService'),
+    admin: field(fields, 'admin', decodeAddress, 'subscription::PlatformService'),
+  };
+}
+
+/**
+ * `subscription::mint_platform(service: &PlatformService, plan: u8, payment: Coin<SUI>, clock: &Clock, ctx: &mut TxContext): Subscription`
+ */
+export function mintPlatform(tx: TransactionBuilder, packageId: string, args: [service: ObjectInput, plan: PureValue<'u8'>, payment: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'mint_platform',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'u8'), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `subscription::extend(subscription: &mut Subscription, service: &PlatformService, payment: Coin<SUI>, _clock: &Clock, ctx: &TxContext)`
+ */
+export function extend(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, service: ObjectInput, payment: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'extend',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `subscription::renew(subscription: &mut Subscription, service: &PlatformService, payment: Coin<SUI>, clock: &Clock, ctx: &TxContext)`
+ */
+export function renew(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, service: ObjectInput, payment: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'renew',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1]), objectInput(tx, args[2]), objectInput(tx, args[3])],
+  });
+}
+
+/**
+ * `subscription::update_service(service: &mut PlatformService, new_fees: vector<u64>, new_duration_ms: u64, ctx: &TxContext)`
+ */
+export function updateService(tx: TransactionBuilder, packageId: string, args: [service: ObjectInput, newFees: PureValue<'vector<u64>'>, newDurationMs: PureValue<'u64'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'update_service',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'vector<u64>'), tx.pure(args[2], 'u64')],
+  });
+}
+
+/**
+ * `subscription::is_valid(subscription: &Subscription, clock: &Clock): bool`
+ */
+export function isValid(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_valid',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `subscription::is_expired(subscription: &Subscription, clock: &Clock): bool`
+ */
+export function isExpired(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_expired',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `subscription::get_subscription_info(subscription: &Subscription): (address, u8, u64, u16)`
+ */
+export function getSubscriptionInfo(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_subscription_info',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `subscription::time_until_expiry(subscription: &Subscription, clock: &Clock): u64`
+ */
+export function timeUntilExpiry(tx: TransactionBuilder, packageId: string, args: [subscription: ObjectInput, clock: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'time_until_expiry',
+    arguments: [objectInput(tx, args[0]), objectInput(tx, args[1])],
+  });
+}
+
+/**
+ * `subscription::get_service_info(service: &PlatformService): (&vector<u64>, u64, address)`
+ */
+export function getServiceInfo(tx: TransactionBuilder, packageId: string, args: [service: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_service_info',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `subscription::get_plan_name(plan: u8): vector<u8>`
+ */
+export function getPlanName(tx: TransactionBuilder, packageId: string, args: [plan: PureValue<'u8'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_plan_name',
+    arguments: [tx.pure(args[0], 'u8')],
+  });
+}
+
+/**
+ * `subscription::get_plan_constants(): (u8, u8, u8)`
+ */
+export function getPlanConstants(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_plan_constants',
+    arguments: [],
+  });
+}
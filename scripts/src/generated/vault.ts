@@ -0,0 +1,219 @@
+// Generated from the contracts' normalized Move modules by `npm run codegen`. Do not edit.
+import type { PureValue } from '../utils/pure-args.js';
+import type { TransactionBuilder } from '../utils/transactions.js';
+import { decodeAddress, decodeTable, decodeUid, enumVariant, field, moveStructType, objectInput, structFields, type ObjectInput, type TableRef, type TransactionArgument } from '../codegen/runtime.js';
+
+export const MODULE = 'vault';
+
+// Abort codes of this module by value
+export const ERRORS: Readonly<Record<number, string>> = { 0: 'E_ASSET_NOT_FOUND', 1: 'E_ASSET_EXISTS', 2: 'E_INVALID_EPOCH_EXTENSION' };
+
+export const STRUCTS = ['PublicationVault'] as const;
+
+export type StructName = typeof STRUCTS[number];
+
+/**
+ * Full type of a struct of this module, e.g. for object type filters
+ */
+export function structType(packageId: string, name: StructName): string {
+  return moveStructType(packageId, MODULE, name);
+}
+
+/** `vault::Access` */
+export type Access =
+  | { variant: 'Free' }
+  | { variant: 'Gated' };
+
+export function decodeAccess(json: unknown): Access {
+  const { variant } = enumVariant(json, 'vault::Access', ['Free', 'Gated'] as const);
+  switch (variant) {
+    case 'Free':
+      return { variant };
+    case 'Gated':
+      return { variant };
+  }
+}
+
+/** `vault::PublicationVault` (key, store) */
+export interface PublicationVault {
+  id: string;
+  blobs: TableRef;
+  publication_id: string;
+}
+
+export function decodePublicationVault(json: unknown): PublicationVault {
+  const fields = structFields(json, 'vault::PublicationVault');
+  return {
+    id: field(fields, 'id', decodeUid, 'vault::PublicationVault'),
+    blobs: field(fields, 'blobs', decodeTable, 'vault::PublicationVault'),
+    publication_id: field(fields, 'publication_id', decodeAddress, 'vault::PublicationVault'),
+  };
+}
+
+/**
+ * `vault::has_blob(vault: &PublicationVault, blob_id: ID): bool`
+ */
+export function hasBlob(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput, blobId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'has_blob',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'ID')],
+  });
+}
+
+/**
+ * `vault::get_blob(vault: &PublicationVault, blob_id: ID): &Blob`
+ */
+export function getBlob(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput, blobId: PureValue<'ID'>]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_blob',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'ID')],
+  });
+}
+
+/**
+ * `vault::renew_blob(vault: &mut PublicationVault, blob_object_id: ID, extended_epochs: u32, payment: &mut Coin<WAL>, system: &mut System, ctx: &mut TxContext)`
+ */
+export function renewBlob(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput, blobObjectId: PureValue<'ID'>, extendedEpochs: PureValue<'u32'>, payment: ObjectInput, system: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'renew_blob',
+    arguments: [objectInput(tx, args[0]), tx.pure(args[1], 'ID'), tx.pure(args[2], 'u32'), objectInput(tx, args[3]), objectInput(tx, args[4])],
+  });
+}
+
+/**
+ * `vault::access_free(): Access`
+ */
+export function accessFree(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'access_free',
+    arguments: [],
+  });
+}
+
+/**
+ * `vault::access_gated(): Access`
+ */
+export function accessGated(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'access_gated',
+    arguments: [],
+  });
+}
+
+/**
+ * `vault::is_free(access: &Access): bool`
+ */
+export function isFree(tx: TransactionBuilder, packageId: string, args: [access: TransactionArgument]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_free',
+    arguments: [args[0]],
+  });
+}
+
+/**
+ * `vault::is_gated(access: &Access): bool`
+ */
+export function isGated(tx: TransactionBuilder, packageId: string, args: [access: TransactionArgument]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'is_gated',
+    arguments: [args[0]],
+  });
+}
+
+/**
+ * `vault::empty_blob_vector(): vector<Blob>`
+ */
+export function emptyBlobVector(tx: TransactionBuilder, packageId: string) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'empty_blob_vector',
+    arguments: [],
+  });
+}
+
+/**
+ * `vault::get_vault_id(vault: &PublicationVault): ID`
+ */
+export function getVaultId(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `vault::get_vault_address(vault: &PublicationVault): address`
+ */
+export function getVaultAddress(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_address',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `vault::get_blob_object_id(blob: &Blob): ID`
+ */
+export function getBlobObjectId(tx: TransactionBuilder, packageId: string, args: [blob: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_blob_object_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `vault::get_blob_content_id(blob: &Blob): u256`
+ */
+export function getBlobContentId(tx: TransactionBuilder, packageId: string, args: [blob: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_blob_content_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `vault::get_vault_info(vault: &PublicationVault): (ID, u64)`
+ */
+export function getVaultInfo(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_info',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
+
+/**
+ * `vault::get_vault_publication_id(vault: &PublicationVault): ID`
+ */
+export function getVaultPublicationId(tx: TransactionBuilder, packageId: string, args: [vault: ObjectInput]) {
+  return tx.moveCall({
+    package: packageId,
+    module: MODULE,
+    function: 'get_vault_publication_id',
+    arguments: [objectInput(tx, args[0])],
+  });
+}
@@ -3,12 +3,31 @@
 import { Command } from 'commander';
 import chalk from 'chalk';
 import dotenv from 'dotenv';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import { getDefaultSuiClient } from './utils/client.js';
 import { getCurrentNetwork } from './config/networks.js';
 import { deployContracts } from './deployment/deploy.js';
 import { verifyDeployment } from './deployment/verify.js';
 import { uploadFile, uploadText, uploadJSON } from './storage/walrus-upload.js';
 import { downloadBlob, downloadBlobToFile, downloadAsText } from './storage/walrus-download.js';
+import { ContentPublishFlow } from './workflows/content-publish-flow.js';
+import { ContentReadFlow } from './workflows/content-read-flow.js';
+import { CONTRACT_ADDRESSES, suiToMist, mistToSui } from './config/constants.js';
+import { PublicationManager, calculateSubscriptionMonths } from './interactions/publication.js';
+import { SubscriptionManager, parsePlan, getPlanName } from './interactions/subscription.js';
+import { ArticleNftManager } from './interactions/nft.js';
+import { TreasuryManager } from './interactions/treasury.js';
+import { ArticleManager } from './interactions/article.js';
+import { decodeContentId, checkGoldenVectors, ID_V1_GOLDEN_VECTORS } from './utils/content-id.js';
+import { checkSlugVectors, cleanTitleForSlug, SLUG_GOLDEN_VECTORS, SLUG_SUFFIX_LENGTH } from './utils/slug.js';
+import { SessionKeyManager, setDefaultSessionKeyManager, DEFAULT_SESSION_KEY_CACHE } from './utils/session-key-manager.js';
+import { EventIndexer } from './indexer/event-indexer.js';
+import { InkrayApiServer, DEFAULT_API_PORT } from './server/api-server.js';
+import { EventManager, INKRAY_EVENT_NAMES, eventPublicationId, type AnyInkrayEvent, type InkrayEventName } from './utils/events.js';
+import { InkrayError, NotFoundError, NotOwnerError } from './utils/errors.js';
+import { contractError } from './utils/move-errors.js';
 
 // Load environment variables
 dotenv.config();
@@ -28,6 +47,14 @@ function printHeader() {
 // Error handler
 function handleError(error: any) {
   console.error(chalk.red(`\\n❌ Error: ${error.message || error}`));
+  if (error instanceof InkrayError) {
+    if (error.digest) {
+      console.error(chalk.gray(`   Transaction: ${error.digest}`));
+    }
+    if (error.fix) {
+      console.error(chalk.yellow(`💡 ${error.fix}`));
+    }
+  }
   if (process.env.LOG_LEVEL === 'debug') {
     console.error(chalk.gray(error.stack));
   }
@@ -210,21 +237,305 @@ contentCmd
   .description('Publish content article')
   .requiredOption('-t, --title <title>', 'Article title')
   .requiredOption('-s, --summary <summary>', 'Article summary')
+  .requiredOption('--publication <id>', 'Publication ID')
   .option('-p, --paid', 'Mark as paid content (encrypted)')
-  .option('--publication <id>', 'Publication ID')
+  .option('--owner-cap <id>', 'PublicationOwnerCap ID (looked up from wallet if omitted)')
+  .option('-e, --epochs <epochs>', 'Storage duration in epochs')
+  .option('--allow-local-seal', 'Publish to Walrus even though SEAL_MODE=local seals with this machine\'s key')
   .action(async (file, options) => {
     try {
-      console.log(chalk.blue(`📝 Publishing article: ${options.title}`));
-      
-      // Upload file to Walrus first
-      const uploadResult = await uploadFile(file);
-      console.log(chalk.green(`✅ File uploaded with blob ID: ${uploadResult.blobId}`));
-      
-      // TODO: Create article in smart contract
-      console.log(chalk.blue('📝 Creating article in smart contract...'));
-      console.log(chalk.yellow('⚠️  Smart contract integration coming soon!'));
-      
+      const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+      if (!packageId) {
+        throw new Error('Package ID not found. Please deploy contracts first or set PACKAGE_ID env var.');
+      }
+
+      const flow = new ContentPublishFlow(getDefaultSuiClient(), packageId);
+      const result = await flow.publish(file, {
+        publicationId: options.publication,
+        title: options.title,
+        summary: options.summary,
+        isPaid: !!options.paid,
+        ownerCapId: options.ownerCap,
+        epochs: options.epochs ? parseInt(options.epochs) : undefined,
+        allowLocalSeal: !!options.allowLocalSeal,
+      });
+
       console.log(chalk.green('✅ Article published!'));
+      console.log(chalk.gray(`Article ID: ${result.articleId}`));
+      console.log(chalk.gray(`Slug: ${result.slug}`));
+      console.log(chalk.gray(`Blob ID: ${result.blobId}`));
+      if (result.contentId) {
+        console.log(chalk.gray(`Content ID: 0x${Buffer.from(result.contentId).toString('hex')}`));
+      }
+      console.log(chalk.gray(`Posted as: ${result.postedAs}`));
+      console.log(chalk.gray(`Transaction: ${result.transactionDigest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+contentCmd
+  .command('read [articleIds...]')
+  .description('Download articles, decrypting gated ones, and print their Markdown')
+  .option('-s, --slug <slugs...>', 'Read articles by slug (resolved through the event index)')
+  .option('-o, --output <path>', 'Write the Markdown to a file (a directory when reading several articles)')
+  .option('--session-cache [file]', `Reuse Seal session keys across runs (default file: ${DEFAULT_SESSION_KEY_CACHE})`)
+  .action(async (ids: string[], options) => {
+    try {
+      const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+      if (!packageId) {
+        throw new Error('Package ID not found. Please deploy contracts first or set PACKAGE_ID env var.');
+      }
+
+      const articleIds = [...ids];
+      if (options.slug) {
+        const articleManager = new ArticleManager(getDefaultSuiClient(), packageId);
+        for (const slug of options.slug as string[]) {
+          const article = await articleManager.getArticleBySlug(slug);
+          if (!article) {
+            throw new Error(`No article with slug: ${slug}`);
+          }
+          articleIds.push(article.id);
+        }
+      }
+
+      if (articleIds.length === 0) {
+        throw new Error('Give at least one article ID or --slug');
+      }
+
+      if (options.sessionCache) {
+        setDefaultSessionKeyManager(new SessionKeyManager({
+          cacheFile: options.sessionCache === true ? DEFAULT_SESSION_KEY_CACHE : options.sessionCache,
+        }));
+      }
+
+      const flow = new ContentReadFlow(getDefaultSuiClient(), packageId);
+
+      if (articleIds.length === 1) {
+        const result = await flow.read(articleIds[0]);
+
+        if (options.output) {
+          await fs.writeFile(options.output, result.content);
+          console.log(chalk.green(`✅ Article saved to: ${options.output}`));
+        } else {
+          console.log(chalk.green(`✅ ${result.title}`));
+          console.log();
+          console.log(new TextDecoder().decode(result.content));
+        }
+        return;
+      }
+
+      // Several articles: gated ones share one Seal batch per publication
+      const { articles, failures } = await flow.readMany(articleIds);
+
+      if (options.output) {
+        await fs.mkdir(options.output, { recursive: true });
+      }
+
+      for (const result of articles) {
+        if (options.output) {
+          const outputPath = path.join(options.output, `${result.slug || result.articleId}.md`);
+          await fs.writeFile(outputPath, result.content);
+          console.log(chalk.green(`✅ ${result.title} → ${outputPath}`));
+        } else {
+          console.log(chalk.green(`✅ ${result.title}`));
+          console.log();
+          console.log(new TextDecoder().decode(result.content));
+          console.log();
+        }
+      }
+
+      failures.forEach(({ articleId, error }) => console.log(chalk.red(`❌ ${articleId}: ${error}`)));
+      console.log(chalk.gray(`Read ${articles.length}/${articleIds.length} articles`));
+
+      if (failures.length > 0) {
+        process.exitCode = 1;
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+contentCmd
+  .command('inspect-id <contentId>')
+  .description('Decode a Seal content ID (hex) using the on-chain IdV1 layout')
+  .action(async (contentId) => {
+    try {
+      const decoded = decodeContentId(contentId);
+
+      console.log(chalk.green('✅ Valid IdV1 content ID'));
+      console.log(chalk.gray(`Tag: ${decoded.tag}`));
+      console.log(chalk.gray(`Version: ${decoded.version}`));
+      console.log(chalk.gray(`Publication: ${decoded.publication}`));
+      console.log(chalk.gray(`Nonce: ${decoded.nonce}`));
+      if (decoded.nonce <= 8_640_000_000_000_000n) { // Largest valid Date
+        console.log(chalk.gray(`Nonce as time: ${new Date(Number(decoded.nonce)).toISOString()}`));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Publication Commands
+const publicationCmd = program
+  .command('publication')
+  .description('Publication subscriptions, stats and contributors');
+
+async function resolveOwnerCap(manager: PublicationManager, publicationId: string, ownerCapId?: string): Promise<string> {
+  const capId = ownerCapId || await manager.findOwnerCap(publicationId);
+  if (!capId) {
+    throw new NotOwnerError(`No PublicationOwnerCap for ${publicationId} in this wallet`, { fix: 'Pass --owner-cap, or run this with the owner\'s wallet' });
+  }
+  return capId;
+}
+
+publicationCmd
+  .command('subscribe <publicationId>')
+  .description('Buy a subscription to a publication')
+  .option('-m, --months <months>', 'Number of months', '1')
+  .option('-a, --amount <sui>', 'Spend up to this much SUI on whole months instead of --months')
+  .action(async (publicationId, options) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      let months = parseInt(options.months);
+
+      if (options.amount) {
+        const publication = await manager.getPublication(publicationId);
+        if (!publication) {
+          throw new NotFoundError(`Publication not found: ${publicationId}`);
+        }
+        const quote = calculateSubscriptionMonths(suiToMist(parseFloat(options.amount)), BigInt(publication.subscription_price || '0'));
+        if (quote.months === 0n) {
+          throw contractError(
+            'publication_subscription::E_INSUFFICIENT_PAYMENT',
+            `${options.amount} SUI does not cover one month (${mistToSui(BigInt(publication.subscription_price || '0'))} SUI)`
+          );
+        }
+        months = Number(quote.months);
+      }
+
+      const result = await manager.subscribeToPublication(publicationId, months);
+
+      console.log(chalk.green('✅ Subscribed!'));
+      console.log(chalk.gray(`Subscription ID: ${result.subscriptionId}`));
+      console.log(chalk.gray(`Months: ${result.months}`));
+      console.log(chalk.gray(`Paid: ${mistToSui(result.amountPaid)} SUI`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('extend <subscriptionId>')
+  .description('Add months to a publication subscription')
+  .option('-m, --months <months>', 'Number of months', '1')
+  .action(async (subscriptionId, options) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const result = await manager.extendPublicationSubscription(subscriptionId, parseInt(options.months));
+
+      console.log(chalk.gray(`Transaction: ${result.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('set-price <publicationId> <sui>')
+  .description('Set the monthly subscription price (0 = free)')
+  .option('--owner-cap <id>', 'PublicationOwnerCap ID (looked up from wallet if omitted)')
+  .action(async (publicationId, sui, options) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const ownerCapId = await resolveOwnerCap(manager, publicationId, options.ownerCap);
+      const result = await manager.setSubscriptionPrice(publicationId, ownerCapId, suiToMist(parseFloat(sui)));
+
+      console.log(chalk.gray(`Transaction: ${result.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('withdraw <publicationId>')
+  .description('Withdraw subscription revenue')
+  .option('-a, --amount <sui>', 'Amount in SUI (defaults to the full balance)')
+  .option('--owner-cap <id>', 'PublicationOwnerCap ID (looked up from wallet if omitted)')
+  .action(async (publicationId, options) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const ownerCapId = await resolveOwnerCap(manager, publicationId, options.ownerCap);
+      const result = await manager.withdrawSubscriptionBalance(
+        publicationId,
+        ownerCapId,
+        options.amount ? suiToMist(parseFloat(options.amount)) : undefined
+      );
+
+      console.log(chalk.gray(`Withdrawn: ${mistToSui(result.amount)} SUI`));
+      console.log(chalk.gray(`Transaction: ${result.transactionResult.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('subscriptions')
+  .description('List publication subscriptions owned by this wallet')
+  .action(async () => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const subscriptions = await manager.getPublicationSubscriptions();
+
+      if (subscriptions.length === 0) {
+        console.log(chalk.yellow('No publication subscriptions found'));
+        return;
+      }
+
+      for (const subscription of subscriptions) {
+        const active = Date.now() < Number(subscription.expires_at);
+        console.log(`${subscription.id} ${active ? chalk.green('active') : chalk.red('expired')}`);
+        console.log(chalk.gray(`  Publication: ${subscription.publication_id}`));
+        console.log(chalk.gray(`  Expires: ${new Date(Number(subscription.expires_at)).toISOString()}`));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('stats <publicationId>')
+  .description('Show contributor, article and revenue totals (from the event index)')
+  .action(async (publicationId) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const stats = await manager.getPublicationStats(publicationId);
+
+      if (!stats) {
+        throw new NotFoundError(`Publication not found: ${publicationId}`);
+      }
+
+      console.log(chalk.blue(`📊 Stats for ${publicationId}`));
+      console.log(chalk.gray(`Contributors: ${stats.contributorCount}`));
+      console.log(chalk.gray(`Articles: ${stats.articlesCount}`));
+      console.log(chalk.gray(`Tips: ${mistToSui(BigInt(stats.totalTips))} SUI`));
+      console.log(chalk.gray(`Subscription revenue: ${mistToSui(BigInt(stats.subscriptionRevenue))} SUI`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+publicationCmd
+  .command('contributing [address]')
+  .description('List publications an address contributes to (default: this wallet)')
+  .action(async (address) => {
+    try {
+      const manager = new PublicationManager(getDefaultSuiClient());
+      const publications = await manager.getPublicationsByContributor(address);
+
+      for (const publication of publications) {
+        console.log(`${publication.id} ${chalk.cyan(publication.name)}`);
+        console.log(chalk.gray(`  Owner: ${publication.owner}`));
+      }
     } catch (error) {
       handleError(error);
     }
@@ -238,15 +549,71 @@ const subCmd = program
 subCmd
   .command('create')
   .description('Create platform subscription')
-  .option('-d, --duration <days>', 'Subscription duration in days', '30')
-  .option('-t, --tier <tier>', 'Subscription tier', '1')
+  .option('-t, --tier <tier>', 'Subscription tier (basic, premium, pro or 0-2)', 'premium')
   .action(async (options) => {
     try {
-      console.log(chalk.blue(`🔖 Creating subscription for ${options.duration} days`));
-      console.log(chalk.yellow('⚠️  Smart contract integration coming soon!'));
-      
-      // TODO: Implement subscription creation
+      const manager = new SubscriptionManager(getDefaultSuiClient());
+      const result = await manager.createSubscription(parsePlan(options.tier));
+
       console.log(chalk.green('✅ Subscription created!'));
+      console.log(chalk.gray(`Subscription ID: ${result.subscriptionId}`));
+      console.log(chalk.gray(`Plan: ${getPlanName(result.plan)}`));
+      console.log(chalk.gray(`Paid: ${mistToSui(result.feePaid)} SUI`));
+      console.log(chalk.gray(`Transaction: ${result.transactionResult.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+subCmd
+  .command('extend <subscriptionId>')
+  .description('Add one period to the current expiry')
+  .action(async (subscriptionId) => {
+    try {
+      const manager = new SubscriptionManager(getDefaultSuiClient());
+      const result = await manager.extendSubscription(subscriptionId);
+
+      console.log(chalk.green('✅ Subscription extended!'));
+      console.log(chalk.gray(`Transaction: ${result.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+subCmd
+  .command('renew <subscriptionId>')
+  .description('Restart the subscription period from now')
+  .action(async (subscriptionId) => {
+    try {
+      const manager = new SubscriptionManager(getDefaultSuiClient());
+      const result = await manager.renewSubscription(subscriptionId);
+
+      console.log(chalk.green('✅ Subscription renewed!'));
+      console.log(chalk.gray(`Transaction: ${result.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+subCmd
+  .command('list')
+  .description('List platform subscriptions owned by this wallet')
+  .action(async () => {
+    try {
+      const manager = new SubscriptionManager(getDefaultSuiClient());
+      const subscriptions = await manager.listSubscriptions();
+
+      if (subscriptions.length === 0) {
+        console.log(chalk.yellow('No subscriptions found'));
+        return;
+      }
+
+      for (const subscription of subscriptions) {
+        const status = manager.isActive(subscription) ? chalk.green('active') : chalk.red('expired');
+        console.log(`${subscription.id} ${status}`);
+        console.log(chalk.gray(`  Plan: ${getPlanName(subscription.plan)}`));
+        console.log(chalk.gray(`  Expires: ${new Date(Number(subscription.expires_ms)).toISOString()}`));
+      }
     } catch (error) {
       handleError(error);
     }
@@ -255,19 +622,332 @@ subCmd
 // NFT Commands
 const nftCmd = program
   .command('nft')
-  .description('NFT operations');
+  .description('Article access NFT operations');
 
 nftCmd
   .command('mint <articleId>')
-  .description('Mint article as NFT')
-  .option('-r, --royalty <percent>', 'Royalty percentage', '10')
+  .description('Buy permanent access to a gated article as an NFT')
+  .option('-r, --recipient <address>', 'Send the NFT to another address (defaults to this wallet)')
   .action(async (articleId, options) => {
     try {
-      console.log(chalk.blue(`🎨 Minting NFT for article: ${articleId}`));
-      console.log(chalk.yellow('⚠️  Smart contract integration coming soon!'));
-      
-      // TODO: Implement NFT minting
+      const manager = new ArticleNftManager(getDefaultSuiClient());
+      const result = await manager.mintNft({ articleId, recipient: options.recipient });
+
       console.log(chalk.green('✅ NFT minted!'));
+      console.log(chalk.gray(`NFT ID: ${result.nftId}`));
+      console.log(chalk.gray(`Recipient: ${result.recipient}`));
+      console.log(chalk.gray(`Transaction: ${result.transactionResult.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+nftCmd
+  .command('transfer <nftId> <recipient>')
+  .description('Transfer an article access NFT')
+  .action(async (nftId, recipient) => {
+    try {
+      const manager = new ArticleNftManager(getDefaultSuiClient());
+      const result = await manager.transferNft(nftId, recipient);
+
+      console.log(chalk.gray(`Transaction: ${result.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+nftCmd
+  .command('list')
+  .description('List article access NFTs owned by this wallet')
+  .action(async () => {
+    try {
+      const manager = new ArticleNftManager(getDefaultSuiClient());
+      const byArticle = await manager.getOwnedNftsByArticle();
+
+      if (byArticle.size === 0) {
+        console.log(chalk.yellow('No article NFTs found'));
+        return;
+      }
+
+      for (const [articleId, nfts] of byArticle) {
+        console.log(`Article ${articleId} (${nfts.length})`);
+        for (const nft of nfts) {
+          console.log(chalk.gray(`  ${nft.id} minted ${new Date(Number(nft.minted_at)).toISOString()}`));
+        }
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Tipping & Treasury Commands
+program
+  .command('tip')
+  .description('Tip an article or publication')
+  .requiredOption('-a, --amount <sui>', 'Tip amount in SUI')
+  .option('--article <id>', 'Article ID (the tip goes to its publication)')
+  .option('--publication <id>', 'Publication ID')
+  .action(async (options) => {
+    try {
+      const manager = new TreasuryManager(getDefaultSuiClient());
+      const result = await manager.tip({
+        articleId: options.article,
+        publicationId: options.publication,
+        amount: parseFloat(options.amount),
+      });
+
+      console.log(chalk.gray(`Publication: ${result.publicationId}`));
+      console.log(chalk.gray(`Transaction: ${result.transactionResult.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+const treasuryCmd = program
+  .command('treasury')
+  .description('Publication tip treasury operations');
+
+treasuryCmd
+  .command('withdraw <publicationId>')
+  .description('Withdraw tips to the owner wallet')
+  .option('-a, --amount <sui>', 'Amount in SUI (defaults to all tips)')
+  .option('--owner-cap <id>', 'PublicationOwnerCap ID (looked up from wallet if omitted)')
+  .action(async (publicationId, options) => {
+    try {
+      const ownerCapId = await resolveOwnerCap(new PublicationManager(getDefaultSuiClient()), publicationId, options.ownerCap);
+      const manager = new TreasuryManager(getDefaultSuiClient());
+      const result = await manager.withdrawTips(
+        publicationId,
+        ownerCapId,
+        options.amount ? suiToMist(parseFloat(options.amount)) : undefined
+      );
+
+      console.log(chalk.gray(`Transaction: ${result.transactionResult.digest}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+treasuryCmd
+  .command('stats <publicationId>')
+  .description('Show tip treasury statistics')
+  .action(async (publicationId) => {
+    try {
+      const manager = new TreasuryManager(getDefaultSuiClient());
+      const stats = await manager.getTreasuryStats(publicationId);
+
+      console.log(chalk.blue(`💰 Treasury for ${publicationId}`));
+      console.log(chalk.gray(`Balance: ${mistToSui(BigInt(stats.tip_balance))} SUI`));
+      console.log(chalk.gray(`Tips received: ${stats.total_tips_received}`));
+      console.log(chalk.gray(`Total received: ${mistToSui(BigInt(stats.total_amount_received))} SUI`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Event Commands
+const eventsCmd = program
+  .command('events')
+  .description('Query and watch inkray_events');
+
+function parseEventNames(value?: string): InkrayEventName[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const names = value.split(',').map(name => name.trim());
+  const unknown = names.filter(name => !INKRAY_EVENT_NAMES.includes(name as InkrayEventName));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown event(s): ${unknown.join(', ')}. Known: ${INKRAY_EVENT_NAMES.join(', ')}`);
+  }
+  return names as InkrayEventName[];
+}
+
+function printEvent(event: AnyInkrayEvent) {
+  const time = event.timestampMs ? new Date(event.timestampMs).toISOString() : 'pending';
+  console.log(`${chalk.cyan(event.name)} ${chalk.gray(time)} ${chalk.gray(event.id.txDigest)}`);
+  for (const [field, value] of Object.entries(event.data)) {
+    console.log(chalk.gray(`  ${field}: ${value}`));
+  }
+}
+
+eventsCmd
+  .command('list [names]')
+  .description('List past events, newest first (comma-separated names, default: all)')
+  .option('--publication <id>', 'Only events of this publication')
+  .option('-l, --limit <n>', 'Maximum number of events', '20')
+  .action(async (names, options) => {
+    try {
+      const manager = new EventManager(getDefaultSuiClient());
+      const wanted = parseEventNames(names);
+      const limit = parseInt(options.limit);
+      let shown = 0;
+
+      for await (const event of manager.iterateAllEvents({ order: 'descending' })) {
+        if (wanted && !wanted.includes(event.name)) continue;
+        if (options.publication && eventPublicationId(event) !== normalizeSuiAddress(options.publication)) continue;
+        printEvent(event);
+        if (++shown >= limit) break;
+      }
+
+      if (shown === 0) {
+        console.log(chalk.yellow('No events found'));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+eventsCmd
+  .command('watch <publicationId>')
+  .description('Print new events of a publication until interrupted')
+  .option('--names <names>', 'Comma-separated event names')
+  .option('--interval <ms>', 'Polling interval in milliseconds', '2000')
+  .action(async (publicationId, options) => {
+    try {
+      const manager = new EventManager(getDefaultSuiClient());
+      console.log(chalk.blue(`👀 Watching events of ${publicationId} (Ctrl+C to stop)`));
+
+      const stop = manager.subscribeToPublication(publicationId, printEvent, {
+        names: parseEventNames(options.names),
+        pollIntervalMs: parseInt(options.interval),
+      });
+
+      process.on('SIGINT', () => {
+        stop();
+        process.exit(0);
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// Index Commands
+const indexCmd = program
+  .command('index')
+  .description('Local event index (INKRAY_INDEX_DIR, default ~/.inkray/index)');
+
+indexCmd
+  .command('sync')
+  .description('Apply new events to the index')
+  .option('-w, --watch', 'Keep syncing until interrupted')
+  .option('--interval <ms>', 'Polling interval in milliseconds with --watch', '5000')
+  .action(async (options) => {
+    try {
+      const indexer = new EventIndexer(getDefaultSuiClient());
+
+      if (!options.watch) {
+        const applied = await indexer.sync();
+        const checkpoint = await indexer.getCheckpoint();
+        console.log(chalk.green(`✅ Index up to date (${applied} new, ${checkpoint.eventsProcessed} total)`));
+        return;
+      }
+
+      console.log(chalk.blue('👀 Syncing the event index (Ctrl+C to stop)'));
+      const stop = indexer.start({ pollIntervalMs: parseInt(options.interval) });
+
+      process.on('SIGINT', () => {
+        stop();
+        process.exit(0);
+      });
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+indexCmd
+  .command('articles <publicationId>')
+  .description('List indexed articles of a publication')
+  .action(async (publicationId) => {
+    try {
+      const indexer = new EventIndexer(getDefaultSuiClient());
+      await indexer.sync();
+      const articles = await indexer.getArticlesByPublication(publicationId);
+
+      if (articles.length === 0) {
+        console.log(chalk.yellow('No articles found'));
+        return;
+      }
+
+      for (const article of articles) {
+        console.log(`${article.id} ${chalk.cyan(article.title)} ${article.gated ? chalk.magenta('gated') : chalk.green('free')}`);
+        console.log(chalk.gray(`  Author: ${article.author}`));
+        console.log(chalk.gray(`  Tips: ${mistToSui(BigInt(article.tips))} SUI`));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+indexCmd
+  .command('revenue <publicationId>')
+  .description('Show indexed tip and subscription revenue of a publication')
+  .action(async (publicationId) => {
+    try {
+      const indexer = new EventIndexer(getDefaultSuiClient());
+      await indexer.sync();
+      const revenue = await indexer.getRevenue(publicationId);
+
+      console.log(chalk.blue(`💰 Revenue of ${publicationId}`));
+      console.log(chalk.gray(`Tips: ${revenue.tip_count} totalling ${mistToSui(BigInt(revenue.tips_total))} SUI`));
+      console.log(chalk.gray(`Subscriptions: ${revenue.subscription_count} new, ${revenue.subscription_renewals} renewals`));
+      console.log(chalk.gray(`Subscription revenue: ${mistToSui(BigInt(revenue.subscription_revenue))} SUI`));
+      console.log(chalk.gray(`Withdrawn: ${mistToSui(BigInt(revenue.subscription_withdrawn))} SUI`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+indexCmd
+  .command('mints')
+  .description('List indexed article NFT mints')
+  .option('--article <id>', 'Only mints of this article')
+  .option('--publication <id>', 'Only mints of articles in this publication')
+  .option('--to <address>', 'Only mints to this address')
+  .action(async (options) => {
+    try {
+      const indexer = new EventIndexer(getDefaultSuiClient());
+      await indexer.sync();
+      const mints = await indexer.getNftMints({
+        articleId: options.article,
+        publicationId: options.publication,
+        to: options.to,
+      });
+
+      if (mints.length === 0) {
+        console.log(chalk.yellow('No NFT mints found'));
+        return;
+      }
+
+      for (const mint of mints) {
+        console.log(`${mint.nft_id} ${chalk.gray(`article ${mint.article_id}`)}`);
+        console.log(chalk.gray(`  To: ${mint.to}`));
+        console.log(chalk.gray(`  Paid: ${mistToSui(BigInt(mint.price_paid))} SUI`));
+      }
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+// API Server
+program
+  .command('serve')
+  .description('Serve a read-only HTTP API over publications, articles and blobs')
+  .option('-p, --port <port>', 'Port to listen on', String(DEFAULT_API_PORT))
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('--max-age <seconds>', 'Cache-Control max-age of JSON responses', '30')
+  .option('--cors-origin <origin>', 'Access-Control-Allow-Origin header', '*')
+  .action(async (options) => {
+    try {
+      const server = new InkrayApiServer({
+        client: getDefaultSuiClient(),
+        maxAgeSeconds: parseInt(options.maxAge),
+        corsOrigin: options.corsOrigin,
+      });
+      await server.listen(parseInt(options.port), options.host);
+
+      process.on('SIGINT', () => {
+        void server.close().then(() => process.exit(0));
+      });
     } catch (error) {
       handleError(error);
     }
@@ -305,6 +985,68 @@ utilCmd
     }
   });
 
+utilCmd
+  .command('clear-session-keys')
+  .description('Delete cached Seal session keys')
+  .option('--file <path>', 'Session key cache file', DEFAULT_SESSION_KEY_CACHE)
+  .action(async (options) => {
+    try {
+      new SessionKeyManager({ cacheFile: options.file }).clear();
+      console.log(chalk.green(`✅ Session keys cleared: ${options.file}`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+utilCmd
+  .command('check-id-vectors')
+  .description('Check the content ID codec against the Move golden vectors')
+  .action(async () => {
+    try {
+      const failures = checkGoldenVectors();
+
+      if (failures.length > 0) {
+        failures.forEach(name => console.log(chalk.red(`❌ ${name}`)));
+        throw new Error(`${failures.length} of ${ID_V1_GOLDEN_VECTORS.length} golden vectors failed`);
+      }
+
+      console.log(chalk.green(`✅ All ${ID_V1_GOLDEN_VECTORS.length} golden vectors match`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
+utilCmd
+  .command('check-slug-vectors')
+  .description('Check the slug port against the Move golden vectors')
+  .option('--on-chain', 'Also compare with articles::preview_slug_from_title via dev inspect')
+  .action(async (options) => {
+    try {
+      const failures = checkSlugVectors();
+
+      if (options.onChain) {
+        const articleManager = new ArticleManager(getDefaultSuiClient(), CONTRACT_ADDRESSES.PACKAGE_ID);
+        for (const vector of SLUG_GOLDEN_VECTORS) {
+          const preview = await articleManager.previewSlug(vector.title);
+          // Drop the suffix (and its hyphen), which comes from a throwaway ID
+          const cleaned = preview.slice(0, -SLUG_SUFFIX_LENGTH).replace(/-$/, '');
+          if (cleaned !== cleanTitleForSlug(vector.title)) {
+            failures.push(`${vector.name} (on-chain: ${preview})`);
+          }
+        }
+      }
+
+      if (failures.length > 0) {
+        failures.forEach(name => console.log(chalk.red(`❌ ${name}`)));
+        throw new Error(`${failures.length} slug vector check(s) failed`);
+      }
+
+      console.log(chalk.green(`✅ All ${SLUG_GOLDEN_VECTORS.length} slug vectors match`));
+    } catch (error) {
+      handleError(error);
+    }
+  });
+
 utilCmd
   .command('generate-test-data')
   .description('Generate test data files')
@@ -346,7 +1088,42 @@ program
     console.log('  Download blob: inkray-cli storage download <blobId> -o output.txt\\n');
     
     console.log(chalk.yellow('📝 Content Management:'));
-    console.log('  Publish article: inkray-cli content publish ./article.md -t "Title" -s "Summary"\\n');
+    console.log('  Publish article: inkray-cli content publish ./article.md -t "Title" -s "Summary" --publication <id>');
+    console.log('  Publish paid article: inkray-cli content publish ./article.md -t "Title" -s "Summary" --publication <id> --paid');
+    console.log('  Read article: inkray-cli content read <articleId> -o article.md');
+    console.log('  Inspect content ID: inkray-cli content inspect-id <hex>\\n');
+    
+    console.log(chalk.yellow('📰 Publication Subscriptions:'));
+    console.log('  Subscribe: inkray-cli publication subscribe <publicationId> --months 3');
+    console.log('  Set price: inkray-cli publication set-price <publicationId> 2.5');
+    console.log('  Withdraw revenue: inkray-cli publication withdraw <publicationId>\\n');
+    
+    console.log(chalk.yellow('🔖 Subscriptions:'));
+    console.log('  Subscribe: inkray-cli subscription create --tier premium');
+    console.log('  Extend / renew: inkray-cli subscription extend <subscriptionId>');
+    console.log('  List: inkray-cli subscription list\\n');
+    
+    console.log(chalk.yellow('🎨 Article NFTs:'));
+    console.log('  Buy article access: inkray-cli nft mint <articleId>');
+    console.log('  List owned NFTs: inkray-cli nft list\\n');
+    
+    console.log(chalk.yellow('💝 Tips:'));
+    console.log('  Tip an article: inkray-cli tip --article <articleId> --amount 0.5');
+    console.log('  Treasury stats: inkray-cli treasury stats <publicationId>');
+    console.log('  Withdraw tips: inkray-cli treasury withdraw <publicationId>\\n');
+    
+    console.log(chalk.yellow('📡 Events:'));
+    console.log('  Recent events: inkray-cli events list ArticlePosted,ArticleTipped --publication <id>');
+    console.log('  Watch a publication: inkray-cli events watch <publicationId>\\n');
+    
+    console.log(chalk.yellow('🗂️  Event Index:'));
+    console.log('  Sync: inkray-cli index sync --watch');
+    console.log('  Publication stats: inkray-cli publication stats <publicationId>');
+    console.log('  Revenue: inkray-cli index revenue <publicationId>\\n');
+    
+    console.log(chalk.yellow('🌍 HTTP API:'));
+    console.log('  Serve: inkray-cli serve --port 8787');
+    console.log('  Routes: /publications/:id, /publications/:id/articles, /articles/:id, /articles/by-slug/:slug, /blobs/:blobId\\n');
     
     console.log(chalk.yellow('💼 Wallet Management:'));
     console.log('  Show wallet info: inkray-cli wallet info');
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { eventType, type InkrayEventName } from '../utils/events.js';
+import { EventIndexer } from './event-indexer.js';
+import { JsonFileIndexStore, MemoryIndexStore, type IndexStore } from './index-store.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const OTHER_PUBLICATION = normalizeSuiAddress('0x' + '12'.repeat(32));
+const OWNER = normalizeSuiAddress('0x' + '21'.repeat(32));
+const CONTRIBUTOR = normalizeSuiAddress('0x' + '22'.repeat(32));
+const READER = normalizeSuiAddress('0x' + '23'.repeat(32));
+const ARTICLE = normalizeSuiAddress('0x' + '31'.repeat(32));
+const OTHER_ARTICLE = normalizeSuiAddress('0x' + '32'.repeat(32));
+
+describe('EventIndexer', () => {
+  let fake: FakeSuiClient;
+  let store: IndexStore;
+
+  beforeEach(() => {
+    fake = new FakeSuiClient();
+    store = new MemoryIndexStore();
+  });
+
+  const emit = (name: InkrayEventName, parsedJson: Record<string, any>) =>
+    fake.addEvent({ type: eventType(name, PKG), parsedJson });
+
+  const createIndexer = () => new EventIndexer(fake.createInkrayClient(), PKG, store);
+
+  const postArticle = (article: string, publication: string, title: string) => emit('ArticlePosted', {
+    publication, vault: '0x5', article, author: CONTRIBUTOR, title, slug: title.toLowerCase(),
+    gating: 0, quilt_id: '42', quilt_object_id: '0x6',
+  });
+
+  it('materializes publications and their current contributors', async () => {
+    emit('PublicationCreated', { publication: PUBLICATION, owner: OWNER, name: 'Weekly', vault_id: '0x5' });
+    emit('PublicationCreated', { publication: OTHER_PUBLICATION, owner: OWNER, name: 'Daily', vault_id: '0x7' });
+    emit('ContributorAdded', { publication: PUBLICATION, addr: CONTRIBUTOR, added_by: OWNER });
+    emit('ContributorAdded', { publication: OTHER_PUBLICATION, addr: CONTRIBUTOR, added_by: OWNER });
+    emit('ContributorRemoved', { publication: OTHER_PUBLICATION, addr: CONTRIBUTOR, removed_by: OWNER });
+    emit('PublicationSubscriptionPriceUpdated', { publication_id: PUBLICATION, old_price: '0', new_price: '500', updated_by: OWNER });
+
+    const indexer = createIndexer();
+    expect(await indexer.sync({ pageSize: 2 })).toBe(6);
+
+    const publications = await indexer.getPublicationsByContributor(CONTRIBUTOR);
+    expect(publications.map(publication => publication.id)).toEqual([PUBLICATION]);
+    expect(publications[0]).toMatchObject({
+      name: 'Weekly',
+      owner: OWNER,
+      vault_id: normalizeSuiAddress('0x5'),
+      contributors: [CONTRIBUTOR],
+      subscription_price: '500',
+    });
+    expect(await indexer.getPublicationsByOwner(OWNER)).toHaveLength(2);
+  });
+
+  it('lists live articles and adds up tips and subscription revenue', async () => {
+    postArticle(ARTICLE, PUBLICATION, 'First');
+    postArticle(OTHER_ARTICLE, PUBLICATION, 'Second');
+    postArticle(normalizeSuiAddress('0x99'), OTHER_PUBLICATION, 'Elsewhere');
+    emit('ArticleDeleted', {
+      publication: PUBLICATION, vault: '0x5', article: OTHER_ARTICLE, deleted_by: OWNER,
+      title: 'Second', slug: 'second', body_blob_id: '0x6',
+    });
+    emit('ArticleTipped', { article_id: ARTICLE, publication_id: PUBLICATION, tipper: READER, amount: '300' });
+    emit('PublicationTipped', { publication_id: PUBLICATION, tipper: READER, amount: '200' });
+    emit('PublicationSubscriptionCreated', {
+      subscription_id: '0x8', publication_id: PUBLICATION, subscriber: READER, amount_paid: '1000', expires_at: '1',
+    });
+    emit('PublicationSubscriptionExtended', {
+      subscription_id: '0x8', publication_id: PUBLICATION, subscriber: READER, amount_paid: '2000', new_expires_at: '2',
+    });
+    emit('SubscriptionBalanceWithdrawn', { publication_id: PUBLICATION, amount: '1500', withdrawn_by: OWNER });
+
+    const indexer = createIndexer();
+    await indexer.sync();
+
+    const articles = await indexer.getArticlesByPublication(PUBLICATION);
+    expect(articles.map(article => article.title)).toEqual(['First']);
+    expect(articles[0]).toMatchObject({ gated: false, quilt_id: '42', tips: '300' });
+
+    expect(await indexer.getRevenue(PUBLICATION)).toEqual({
+      publication_id: PUBLICATION,
+      tip_count: 2,
+      tips_total: '500',
+      subscription_count: 1,
+      subscription_renewals: 1,
+      subscription_revenue: '3000',
+      subscription_withdrawn: '1500',
+    });
+    expect((await indexer.getRevenue(OTHER_PUBLICATION)).tips_total).toBe('0');
+  });
+
+  it('records NFT mints with the publication of the article', async () => {
+    postArticle(ARTICLE, PUBLICATION, 'First');
+    emit('ArticleNftMinted', { article_id: ARTICLE, nft_id: '0xa', to: READER, price_paid: '700' });
+    emit('ArticleNftMinted', { article_id: OTHER_ARTICLE, nft_id: '0xb', to: OWNER, price_paid: '700' });
+
+    const indexer = createIndexer();
+    await indexer.sync();
+
+    expect(await indexer.getNftMints()).toHaveLength(2);
+    const [mint] = await indexer.getNftMints({ publicationId: PUBLICATION });
+    expect(mint).toMatchObject({ nft_id: normalizeSuiAddress('0xa'), article_id: ARTICLE, to: READER, price_paid: '700' });
+    expect(await indexer.getNftMints({ to: OWNER })).toEqual([expect.objectContaining({ publication_id: null })]);
+  });
+
+  it('resumes from the checkpoint without applying events twice', async () => {
+    emit('PublicationTipped', { publication_id: PUBLICATION, tipper: READER, amount: '1' });
+    await createIndexer().sync();
+
+    emit('PublicationTipped', { publication_id: PUBLICATION, tipper: READER, amount: '2' });
+    const resumed = createIndexer();
+
+    expect(await resumed.sync()).toBe(1);
+    expect(await resumed.sync()).toBe(0);
+    expect((await resumed.getRevenue(PUBLICATION)).tips_total).toBe('3');
+    expect((await resumed.getCheckpoint()).eventsProcessed).toBe(2);
+  });
+
+  it('refuses an index built for another package', async () => {
+    emit('PublicationTipped', { publication_id: PUBLICATION, tipper: READER, amount: '1' });
+    await createIndexer().sync();
+
+    const other = new EventIndexer(fake.createInkrayClient(), normalizeSuiAddress('0xcd'), store);
+
+    await expect(other.getRevenue(PUBLICATION)).rejects.toThrow('belongs to package');
+  });
+
+  describe('with a JSON file store', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(path.join(os.tmpdir(), 'inkray-index-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('persists the state between indexers', async () => {
+      store = new JsonFileIndexStore(path.join(directory, `${PKG}.json`));
+      emit('PublicationCreated', { publication: PUBLICATION, owner: OWNER, name: 'Weekly', vault_id: '0x5' });
+      await createIndexer().sync();
+
+      store = new JsonFileIndexStore(path.join(directory, `${PKG}.json`));
+      const reloaded = createIndexer();
+
+      expect((await reloaded.getPublication(PUBLICATION))?.name).toBe('Weekly');
+      expect(await reloaded.sync()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,390 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getDefaultSuiClient } from '../utils/client.js';
+import { EventManager, type AnyInkrayEvent } from '../utils/events.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import {
+  INDEX_STATE_VERSION,
+  createEmptyIndexState,
+  getIndexStoreFromEnv,
+  type IndexState,
+  type IndexStore,
+  type IndexedArticle,
+  type IndexedNftMint,
+  type IndexedPublication,
+  type PublicationRevenue,
+} from './index-store.js';
+import chalk from 'chalk';
+
+export interface IndexerSyncOptions {
+  pageSize?: number; // Events per page and checkpoint (default: 50)
+}
+
+export interface IndexerTailOptions extends IndexerSyncOptions {
+  pollIntervalMs?: number; // Default: 5000
+  onSync?: (applied: number) => void;
+  onError?: (error: unknown) => void;
+}
+
+export interface NftMintQuery {
+  articleId?: string;
+  publicationId?: string;
+  to?: string;
+}
+
+/**
+ * Fold one event into the index state
+ *
+ * Storage and platform subscription events carry nothing the index keeps and
+ * are only counted.
+ */
+export function applyInkrayEvent(state: IndexState, event: AnyInkrayEvent): void {
+  const timestamp = event.timestampMs !== null ? String(event.timestampMs) : null;
+
+  switch (event.name) {
+    case 'PublicationCreated':
+      state.publications[event.data.publication] = {
+        id: event.data.publication,
+        name: event.data.name,
+        owner: event.data.owner,
+        vault_id: event.data.vault_id,
+        contributors: [],
+        subscription_price: '0',
+        created_at: timestamp,
+      };
+      break;
+    case 'ContributorAdded': {
+      const publication = state.publications[event.data.publication];
+      if (publication && !publication.contributors.includes(event.data.addr)) {
+        publication.contributors.push(event.data.addr);
+      }
+      break;
+    }
+    case 'ContributorRemoved': {
+      const publication = state.publications[event.data.publication];
+      if (publication) {
+        publication.contributors = publication.contributors.filter(addr => addr !== event.data.addr);
+      }
+      break;
+    }
+    case 'ArticlePosted':
+      state.articles[event.data.article] = {
+        id: event.data.article,
+        publication_id: event.data.publication,
+        vault_id: event.data.vault,
+        author: event.data.author,
+        title: event.data.title,
+        slug: event.data.slug,
+        gated: event.data.gating === 1,
+        quilt_id: event.data.quilt_id.toString(),
+        quilt_object_id: event.data.quilt_object_id,
+        tips: '0',
+        posted_at: timestamp,
+      };
+      break;
+    case 'ArticleDeleted':
+      delete state.articles[event.data.article];
+      break;
+    case 'PublicationSubscriptionCreated': {
+      const revenue = revenueOf(state, event.data.publication_id);
+      revenue.subscription_count += 1;
+      revenue.subscription_revenue = add(revenue.subscription_revenue, event.data.amount_paid);
+      break;
+    }
+    case 'PublicationSubscriptionExtended': {
+      const revenue = revenueOf(state, event.data.publication_id);
+      revenue.subscription_renewals += 1;
+      revenue.subscription_revenue = add(revenue.subscription_revenue, event.data.amount_paid);
+      break;
+    }
+    case 'PublicationSubscriptionPriceUpdated': {
+      const publication = state.publications[event.data.publication_id];
+      if (publication) {
+        publication.subscription_price = event.data.new_price.toString();
+      }
+      break;
+    }
+    case 'SubscriptionBalanceWithdrawn': {
+      const revenue = revenueOf(state, event.data.publication_id);
+      revenue.subscription_withdrawn = add(revenue.subscription_withdrawn, event.data.amount);
+      break;
+    }
+    case 'ArticleNftMinted':
+      state.nftMints.push({
+        nft_id: event.data.nft_id,
+        article_id: event.data.article_id,
+        publication_id: state.articles[event.data.article_id]?.publication_id ?? null,
+        to: event.data.to,
+        price_paid: event.data.price_paid.toString(),
+        minted_at: timestamp,
+        tx_digest: event.id.txDigest,
+      });
+      break;
+    case 'PublicationTipped': {
+      const revenue = revenueOf(state, event.data.publication_id);
+      revenue.tip_count += 1;
+      revenue.tips_total = add(revenue.tips_total, event.data.amount);
+      break;
+    }
+    case 'ArticleTipped': {
+      const revenue = revenueOf(state, event.data.publication_id);
+      revenue.tip_count += 1;
+      revenue.tips_total = add(revenue.tips_total, event.data.amount);
+
+      const article = state.articles[event.data.article_id];
+      if (article) {
+        article.tips = add(article.tips, event.data.amount);
+      }
+      break;
+    }
+  }
+
+  state.eventsProcessed += 1;
+}
+
+function revenueOf(state: IndexState, publicationId: string): PublicationRevenue {
+  if (!state.revenue[publicationId]) {
+    state.revenue[publicationId] = emptyRevenue(publicationId);
+  }
+  return state.revenue[publicationId];
+}
+
+function emptyRevenue(publicationId: string): PublicationRevenue {
+  return {
+    publication_id: publicationId,
+    tip_count: 0,
+    tips_total: '0',
+    subscription_count: 0,
+    subscription_renewals: 0,
+    subscription_revenue: '0',
+    subscription_withdrawn: '0',
+  };
+}
+
+function add(total: string, amount: bigint): string {
+  return (BigInt(total) + amount).toString();
+}
+
+/**
+ * Tails `inkray_events` into an IndexStore and answers queries from it
+ *
+ * `sync` reads every event after the stored cursor in emission order and
+ * checkpoints the state after each page; queries read the last checkpoint, so
+ * call `sync` (or keep `start` running) to see recent events.
+ */
+export class EventIndexer {
+  private events: EventManager;
+  private packageId: string;
+  private store: IndexStore;
+  private state: IndexState | null = null;
+  private syncing: Promise<number> | null = null;
+
+  constructor(
+    client?: import('../utils/client.js').InkraySuiClient,
+    packageId?: string,
+    store?: IndexStore
+  ) {
+    this.packageId = packageId || CONTRACT_ADDRESSES.PACKAGE_ID;
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first or set PACKAGE_ID env var.');
+    }
+
+    this.events = new EventManager(client || getDefaultSuiClient(), this.packageId);
+    this.store = store || getIndexStoreFromEnv(this.packageId);
+  }
+
+  /**
+   * Apply all events after the checkpoint; resolves to the number applied
+   */
+  async sync(options: IndexerSyncOptions = {}): Promise<number> {
+    // Concurrent callers share one pass so no page is applied twice
+    if (!this.syncing) {
+      this.syncing = this.runSync(options).finally(() => {
+        this.syncing = null;
+      });
+    }
+    return await this.syncing;
+  }
+
+  /**
+   * Keep syncing in the background; returns a function that stops it
+   */
+  start(options: IndexerTailOptions = {}): () => void {
+    const interval = options.pollIntervalMs || 5000;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        const applied = await this.sync(options);
+        options.onSync?.(applied);
+      } catch (error) {
+        if (options.onError) {
+          options.onError(error);
+        } else {
+          console.warn(chalk.yellow(`Warning: Index sync failed: ${error}`));
+        }
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, interval);
+      }
+    };
+
+    void poll();
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+
+  async getCheckpoint(): Promise<{ cursor: IndexState['cursor']; eventsProcessed: number }> {
+    const state = await this.loadState();
+    return { cursor: state.cursor, eventsProcessed: state.eventsProcessed };
+  }
+
+  async getPublication(publicationId: string): Promise<IndexedPublication | null> {
+    const state = await this.loadState();
+    return state.publications[normalizeSuiAddress(publicationId)] ?? null;
+  }
+
+  async getPublicationsByOwner(owner: string): Promise<IndexedPublication[]> {
+    const state = await this.loadState();
+    const address = normalizeSuiAddress(owner);
+    return Object.values(state.publications).filter(publication => publication.owner === address);
+  }
+
+  async getPublicationsByContributor(contributor: string): Promise<IndexedPublication[]> {
+    const state = await this.loadState();
+    const address = normalizeSuiAddress(contributor);
+    return Object.values(state.publications).filter(publication => publication.contributors.includes(address));
+  }
+
+  /**
+   * Articles of a publication that have not been deleted, oldest first
+   */
+  async getArticlesByPublication(publicationId: string): Promise<IndexedArticle[]> {
+    const state = await this.loadState();
+    const id = normalizeSuiAddress(publicationId);
+    return Object.values(state.articles).filter(article => article.publication_id === id);
+  }
+
+  async getArticle(articleId: string): Promise<IndexedArticle | null> {
+    const state = await this.loadState();
+    return state.articles[normalizeSuiAddress(articleId)] ?? null;
+  }
+
+  /**
+   * Articles whose ID starts with the given hex prefix, e.g. a slug suffix
+   */
+  async getArticlesByIdPrefix(prefix: string): Promise<IndexedArticle[]> {
+    const state = await this.loadState();
+    const normalized = prefix.toLowerCase();
+    return Object.values(state.articles).filter(article => article.id.startsWith(normalized));
+  }
+
+  async getRevenue(publicationId: string): Promise<PublicationRevenue> {
+    const state = await this.loadState();
+    const id = normalizeSuiAddress(publicationId);
+    return state.revenue[id] ?? emptyRevenue(id);
+  }
+
+  async getNftMints(query: NftMintQuery = {}): Promise<IndexedNftMint[]> {
+    const state = await this.loadState();
+    const articleId = query.articleId && normalizeSuiAddress(query.articleId);
+    const publicationId = query.publicationId && normalizeSuiAddress(query.publicationId);
+    const to = query.to && normalizeSuiAddress(query.to);
+
+    return state.nftMints.filter(mint =>
+      (!articleId || mint.article_id === articleId) &&
+      (!publicationId || mint.publication_id === publicationId) &&
+      (!to || mint.to === to)
+    );
+  }
+
+  private async runSync(options: IndexerSyncOptions): Promise<number> {
+    try {
+      const state = await this.loadState();
+      let applied = 0;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const page = await this.events.queryAllEvents({ cursor: state.cursor, limit: options.pageSize || 50 });
+        for (const event of page.data) {
+          applyInkrayEvent(state, event);
+        }
+
+        applied += page.data.length;
+        state.cursor = page.nextCursor ?? state.cursor;
+        hasNextPage = page.hasNextPage;
+        await this.store.save(state);
+      }
+
+      if (applied > 0) {
+        console.log(chalk.gray(`Indexed ${applied} event(s) (${state.eventsProcessed} total)`));
+      }
+
+      return applied;
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to sync event index: ${error}`));
+      throw error;
+    }
+  }
+
+  private async loadState(): Promise<IndexState> {
+    if (!this.state) {
+      const stored = await this.store.load();
+
+      if (stored && stored.version !== INDEX_STATE_VERSION) {
+        throw new Error(`Unsupported index version ${stored.version}; delete the index to rebuild it`);
+      }
+      if (stored && normalizeSuiAddress(stored.packageId) !== normalizeSuiAddress(this.packageId)) {
+        throw new Error(`Index belongs to package ${stored.packageId}, not ${this.packageId}`);
+      }
+
+      this.state = stored || createEmptyIndexState(this.packageId);
+    }
+    return this.state;
+  }
+}
+
+// Singleton instance management
+let defaultIndexer: EventIndexer | null = null;
+
+export function createEventIndexer(
+  client?: import('../utils/client.js').InkraySuiClient,
+  packageId?: string,
+  store?: IndexStore
+): EventIndexer {
+  return new EventIndexer(client, packageId, store);
+}
+
+export function getDefaultEventIndexer(
+  client?: import('../utils/client.js').InkraySuiClient,
+  packageId?: string,
+  store?: IndexStore
+): EventIndexer {
+  if (!defaultIndexer) {
+    defaultIndexer = new EventIndexer(client, packageId, store);
+  }
+  return defaultIndexer;
+}
+
+// Convenience functions
+export async function syncEventIndex(
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<number> {
+  return await getDefaultEventIndexer(client).sync();
+}
+
+export async function getPublicationRevenue(
+  publicationId: string,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<PublicationRevenue> {
+  const indexer = getDefaultEventIndexer(client);
+  await indexer.sync();
+  return await indexer.getRevenue(publicationId);
+}
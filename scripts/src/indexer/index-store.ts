@@ -0,0 +1,138 @@
+import type { EventId } from '@mysten/sui/client';
+import { existsSync } from 'fs';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Materialized view of `inkray_events`
+ *
+ * Records keep the snake_case field names of the Move structs; MIST amounts
+ * and u256 blob IDs are decimal strings so the state round-trips through JSON.
+ * `cursor` is the last event folded into the state and is saved together with
+ * it, so an interrupted sync resumes without applying an event twice.
+ */
+export const INDEX_STATE_VERSION = 1;
+
+export const DEFAULT_INDEX_DIR = path.join(os.homedir(), '.inkray', 'index');
+
+export interface IndexedPublication {
+  id: string;
+  name: string;
+  owner: string;
+  vault_id: string;
+  contributors: string[];
+  subscription_price: string; // MIST per month, from the latest price update
+  created_at: string | null; // ms
+}
+
+export interface IndexedArticle {
+  id: string;
+  publication_id: string;
+  vault_id: string;
+  author: string;
+  title: string;
+  slug: string;
+  gated: boolean;
+  quilt_id: string; // Walrus blob ID as a u256
+  quilt_object_id: string;
+  tips: string; // MIST tipped to this article
+  posted_at: string | null; // ms
+}
+
+export interface PublicationRevenue {
+  publication_id: string;
+  tip_count: number;
+  tips_total: string; // MIST, publication and article tips
+  subscription_count: number; // New subscriptions
+  subscription_renewals: number;
+  subscription_revenue: string; // MIST paid for subscriptions
+  subscription_withdrawn: string; // MIST withdrawn by the owner
+}
+
+export interface IndexedNftMint {
+  nft_id: string;
+  article_id: string;
+  publication_id: string | null; // Null when the article was not indexed
+  to: string;
+  price_paid: string; // MIST
+  minted_at: string | null; // ms
+  tx_digest: string;
+}
+
+export interface IndexState {
+  version: number;
+  packageId: string;
+  cursor: EventId | null;
+  eventsProcessed: number;
+  publications: Record<string, IndexedPublication>;
+  articles: Record<string, IndexedArticle>;
+  revenue: Record<string, PublicationRevenue>;
+  nftMints: IndexedNftMint[];
+}
+
+export interface IndexStore {
+  readonly kind: 'memory' | 'file';
+  load(): Promise<IndexState | null>; // Null before the first checkpoint
+  save(state: IndexState): Promise<void>;
+}
+
+export function createEmptyIndexState(packageId: string): IndexState {
+  return {
+    version: INDEX_STATE_VERSION,
+    packageId,
+    cursor: null,
+    eventsProcessed: 0,
+    publications: {},
+    articles: {},
+    revenue: {},
+    nftMints: [],
+  };
+}
+
+/**
+ * Keeps checkpoints in the process, for tests and one-off scripts
+ */
+export class MemoryIndexStore implements IndexStore {
+  readonly kind = 'memory' as const;
+  private snapshot: string | null = null;
+
+  async load(): Promise<IndexState | null> {
+    return this.snapshot ? JSON.parse(this.snapshot) : null;
+  }
+
+  async save(state: IndexState): Promise<void> {
+    this.snapshot = JSON.stringify(state);
+  }
+}
+
+/**
+ * One JSON file per index, replaced atomically on every checkpoint
+ */
+export class JsonFileIndexStore implements IndexStore {
+  readonly kind = 'file' as const;
+
+  constructor(readonly filePath: string) {}
+
+  async load(): Promise<IndexState | null> {
+    if (!existsSync(this.filePath)) {
+      return null;
+    }
+    return JSON.parse(await readFile(this.filePath, 'utf8'));
+  }
+
+  async save(state: IndexState): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(state, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
+
+/**
+ * File store for a package under INKRAY_INDEX_DIR (default ~/.inkray/index)
+ */
+export function getIndexStoreFromEnv(packageId: string): IndexStore {
+  const directory = process.env.INKRAY_INDEX_DIR || DEFAULT_INDEX_DIR;
+  return new JsonFileIndexStore(path.join(directory, `${packageId}.json`));
+}
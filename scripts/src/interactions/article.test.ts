@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { bcs } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { encodeContentIdV1 } from '../utils/content-id.js';
+import { eventType } from '../utils/events.js';
+import { generateSlug } from '../utils/slug.js';
+import { EventIndexer } from '../indexer/event-indexer.js';
+import { MemoryIndexStore } from '../indexer/index-store.js';
+import { ArticleManager } from './article.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const OWNER_CAP = normalizeSuiAddress('0x' + '22'.repeat(32));
+const VAULT = normalizeSuiAddress('0x' + '33'.repeat(32));
+const BLOB = normalizeSuiAddress('0x' + '44'.repeat(32));
+
+describe('ArticleManager.createArticle', () => {
+  let fake: FakeSuiClient;
+  let client: ReturnType<FakeSuiClient['createInkrayClient']>;
+  let manager: ArticleManager;
+
+  beforeEach(() => {
+    fake = new FakeSuiClient();
+    client = fake.createInkrayClient();
+    manager = new ArticleManager(client, PKG);
+    fake.onExecute(() => ({
+      created: [{ type: `${PKG}::articles::Article`, fields: { title: 'Hello' } }],
+    }));
+  });
+
+  const params = {
+    publicationId: PUBLICATION,
+    vaultId: VAULT,
+    title: 'Hello',
+    walrusBlobObjectId: BLOB,
+    isGated: false,
+  };
+
+  it('posts as owner: access enum, post_as_owner, transfer to sender', async () => {
+    const result = await manager.createArticle({ ...params, ownerCapId: OWNER_CAP });
+
+    const { commands } = fake.lastExecuted();
+    expect(commands).toEqual([
+      {
+        kind: 'moveCall',
+        call: { target: `${PKG}::vault::access_free`, typeArguments: [], arguments: [] },
+      },
+      {
+        kind: 'moveCall',
+        call: {
+          target: `${PKG}::articles::post_as_owner`,
+          typeArguments: [],
+          arguments: [
+            { kind: 'object', objectId: OWNER_CAP },
+            { kind: 'object', objectId: PUBLICATION },
+            { kind: 'object', objectId: VAULT },
+            { kind: 'pure', bytes: bcs.string().serialize('Hello').toBytes() },
+            { kind: 'result', index: 0 },
+            { kind: 'object', objectId: BLOB },
+          ],
+        },
+      },
+      {
+        kind: 'transferObjects',
+        objects: [{ kind: 'result', index: 1 }],
+        address: { kind: 'pure', bytes: bcs.Address.serialize(client.getAddress()).toBytes() },
+      },
+    ]);
+
+    const created = (result.transactionResult.objectChanges as any[])[0];
+    expect(result.articleId).toBe(created.objectId);
+    expect(result.slug).toBe(generateSlug('Hello', created.objectId));
+    expect(result.transactionDigest).toBe(fake.lastExecuted().digest);
+  });
+
+  it('posts as a contributor without an owner cap', async () => {
+    await manager.createArticle(params);
+
+    const [, post] = fake.lastExecuted().moveCalls;
+    expect(post.target).toBe(`${PKG}::articles::post`);
+    expect(post.arguments).toEqual([
+      { kind: 'object', objectId: PUBLICATION },
+      { kind: 'object', objectId: VAULT },
+      { kind: 'pure', bytes: bcs.string().serialize('Hello').toBytes() },
+      { kind: 'result', index: 0 },
+      { kind: 'object', objectId: BLOB },
+    ]);
+  });
+
+  it('uses the gated access enum for gated articles', async () => {
+    await manager.createArticle({ ...params, isGated: true, sealContentId: encodeContentIdV1(PUBLICATION, 1n) });
+
+    expect(fake.lastExecuted().moveCalls[0].target).toBe(`${PKG}::vault::access_gated`);
+  });
+
+  it('refuses gated articles without a Seal content ID', async () => {
+    await expect(manager.createArticle({ ...params, isGated: true })).rejects.toThrow('Gated articles must be encrypted');
+    expect(fake.executed).toHaveLength(0);
+  });
+
+  it('ignores owner caps when picking the article ID', async () => {
+    fake.onExecute(() => ({
+      created: [
+        { type: `${PKG}::articles::ArticleCap` },
+        { type: `${PKG}::articles::Article` },
+      ],
+    }));
+
+    const result = await manager.createArticle(params);
+
+    const article = (result.transactionResult.objectChanges as any[]).find(change => change.objectType.endsWith('::Article'));
+    expect(result.articleId).toBe(article.objectId);
+  });
+
+  it('fails when no Article object was created', async () => {
+    fake.onExecute(() => ({ created: [{ type: `${PKG}::vault::PublicationVault` }] }));
+
+    await expect(manager.createArticle(params)).rejects.toThrow('No Article object found');
+  });
+});
+
+describe('ArticleManager.getArticleBySlug', () => {
+  const ARTICLE = normalizeSuiAddress('0x3131abcd' + '55'.repeat(28));
+  const OTHER = normalizeSuiAddress('0x3131abcd' + '66'.repeat(28));
+
+  let fake: FakeSuiClient;
+  let manager: ArticleManager;
+
+  const addArticle = (id: string, title: string) => {
+    const slug = generateSlug(title, id);
+    fake.transport.addObject({
+      objectId: id,
+      type: `${PKG}::articles::Article`,
+      owner: 'shared',
+      fields: { title, slug, publication_id: PUBLICATION, vault_id: VAULT, body_blob_id: BLOB },
+    });
+    fake.addEvent({
+      type: eventType('ArticlePosted', PKG),
+      parsedJson: {
+        publication: PUBLICATION, vault: VAULT, article: id, author: PUBLICATION, title, slug,
+        gating: 0, quilt_id: '1', quilt_object_id: BLOB,
+      },
+    });
+  };
+
+  beforeEach(() => {
+    fake = new FakeSuiClient();
+    const client = fake.createInkrayClient();
+    manager = new ArticleManager(client, PKG, new EventIndexer(client, PKG, new MemoryIndexStore()));
+    addArticle(ARTICLE, 'Hello World');
+    addArticle(OTHER, 'Something Else');
+  });
+
+  it('picks the article among those sharing the ID prefix', async () => {
+    const article = await manager.getArticleBySlug('hello-world-3131abcd');
+
+    expect(article.id).toBe(ARTICLE);
+  });
+
+  it('follows renames that emit no event', async () => {
+    fake.transport.updateFields(ARTICLE, { title: 'Renamed', slug: 'renamed-3131abcd' });
+
+    expect((await manager.getArticleBySlug('renamed-3131abcd')).id).toBe(ARTICLE);
+    expect(await manager.getArticleBySlug('hello-world-3131abcd')).toBeNull();
+  });
+
+  it('returns null for strings that are not slugs', async () => {
+    expect(await manager.getArticleBySlug('hello-world')).toBeNull();
+  });
+});
@@ -1,20 +1,27 @@
 import { createTransaction, executeTransaction } from '../utils/transactions.js';
 import { getDefaultSuiClient } from '../utils/client.js';
+import { generateSlug, parseSlugSuffix } from '../utils/slug.js';
+import { getDefaultEventIndexer, type EventIndexer } from '../indexer/event-indexer.js';
+import * as articlesMove from '../generated/articles.js';
+import * as vaultMove from '../generated/vault.js';
+import { InvalidArgumentError } from '../utils/errors.js';
+import { bcs } from '@mysten/sui/bcs';
 import chalk from 'chalk';
 import type { TransactionResult } from '../utils/types.js';
 
 export interface CreateArticleParams {
   publicationId: string;
   vaultId: string;
-  ownerCapId: string;
+  ownerCapId?: string; // Omit to post as a contributor via `articles::post`
   title: string;
   walrusBlobObjectId: string;
-  sealContentId: string | Uint8Array;
+  sealContentId?: string | Uint8Array; // Only for gated content; the ID lives inside the encrypted blob
   isGated: boolean;
 }
 
 export interface CreateArticleResult {
   articleId: string;
+  slug: string; // As generated on-chain from the title and article ID
   transactionDigest: string;
   transactionResult: TransactionResult;
 }
@@ -26,13 +33,16 @@ export interface CreateArticleResult {
 export class ArticleManager {
   private client: import('../utils/client.js').InkraySuiClient;
   private packageId: string;
+  private indexer: EventIndexer | null;
 
   constructor(
     client?: import('../utils/client.js').InkraySuiClient,
-    packageId?: string
+    packageId?: string,
+    indexer?: EventIndexer
   ) {
     this.client = client || getDefaultSuiClient();
     this.packageId = packageId || process.env.PACKAGE_ID!;
+    this.indexer = indexer || null;
 
     if (!this.packageId) {
       throw new Error('Package ID not found. Please deploy contracts first or set PACKAGE_ID env var.');
@@ -43,117 +53,72 @@ export class ArticleManager {
    * Create a new article using PTB with real smart contract integration
    * 
    * Flow:
-   * 1. Create StoredAsset from Walrus blob + seal ID
-   * 2. Create Access enum (gated/free)
-   * 3. Create Article using post_as_owner
-   * 4. Transfer Article to sender
+   * 1. Create Access enum (gated/free)
+   * 2. Create Article using post_as_owner (with owner cap) or post (as contributor)
+   *    - the Walrus Blob object is moved into the publication vault
+   * 3. Transfer Article to sender
    */
   async createArticle(params: CreateArticleParams): Promise<CreateArticleResult> {
     try {
+      const postFunction = params.ownerCapId ? 'post_as_owner' : 'post';
+
       console.log(chalk.blue('📝 Creating article with real smart contract integration...'));
       console.log(chalk.gray(`  Title: ${params.title}`));
       console.log(chalk.gray(`  Gated: ${params.isGated}`));
       console.log(chalk.gray(`  Walrus Blob: ${params.walrusBlobObjectId}`));
       console.log(chalk.gray(`  Package ID: ${this.packageId}`));
-      console.log(chalk.gray(`  Seal Content ID: ${params.sealContentId}`));
-
-      const result = await executeTransaction(async (tx) => {
-        // Step 1: Create StoredAsset from Walrus blob + seal ID
-        console.log(chalk.blue('  📦 Creating StoredAsset...'));
-        console.log(chalk.gray(`    Seal Content ID: ${params.sealContentId instanceof Uint8Array ? `[BCS bytes: ${params.sealContentId.length}]` : `"${params.sealContentId}"`}`));
-
-        // Validate seal content ID
-        if (!params.sealContentId) {
-          throw new Error(`Invalid seal content ID: ${params.sealContentId}`);
-        }
-
-        // Convert to proper Uint8Array based on input type
-        let sealIdBytes: Uint8Array;
-        if (params.sealContentId instanceof Uint8Array) {
-          // Already BCS-encoded bytes - use directly
-          sealIdBytes = params.sealContentId;
-        } else if (typeof params.sealContentId === 'string') {
-          if (params.sealContentId.startsWith('0x')) {
-            // Remove 0x prefix and convert hex pairs to bytes
-            const hexString = params.sealContentId.slice(2);
-            const bytes = [];
-            for (let i = 0; i < hexString.length; i += 2) {
-              bytes.push(parseInt(hexString.slice(i, i + 2), 16));
-            }
-            sealIdBytes = new Uint8Array(bytes);
-          } else {
-            // Fallback: treat as text and encode as UTF-8
-            sealIdBytes = new TextEncoder().encode(params.sealContentId);
-          }
-        } else {
-          throw new Error(`Invalid seal content ID type: ${typeof params.sealContentId}`);
-        }
-
-        console.log(chalk.gray(`    Seal ID bytes length: ${sealIdBytes.length}`));
-        console.log(chalk.gray(`    First few bytes: ${Array.from(sealIdBytes.slice(0, 10)).join(',')}`));
+      console.log(chalk.gray(`  Posting via: articles::${postFunction}`));
+      if (params.sealContentId) {
+        console.log(chalk.gray(`  Seal Content ID: ${params.sealContentId instanceof Uint8Array ? `[BCS bytes: ${params.sealContentId.length}]` : params.sealContentId}`));
+      }
 
-        const storedAsset = tx.moveCall({
-          package: this.packageId,
-          module: 'vault',
-          function: 'new_stored_asset_minimal',
-          arguments: [
-            tx.objectArg(params.walrusBlobObjectId), // walrus::blob::Blob object
-            tx.getTransaction().pure.vector('u8', sealIdBytes), // BCS-encoded seal ID
-          ],
-        });
+      if (params.isGated && !params.sealContentId) {
+        throw new InvalidArgumentError('Gated articles must be encrypted with a Seal content ID before posting');
+      }
 
-        // Step 2: Create Access enum (gated or free)
+      const result = await executeTransaction(async (tx) => {
+        // Step 1: Create Access enum (gated or free)
         console.log(chalk.blue(`  🔐 Creating Access enum (${params.isGated ? 'gated' : 'free'})...`));
-        const gatingAccess = tx.moveCall({
-          package: this.packageId,
-          module: 'vault',
-          function: params.isGated ? 'access_gated' : 'access_free',
-          arguments: [],
-        });
-
-        // Step 3: Create empty vector for additional assets using smart contract function
-        console.log(chalk.blue('  📦 Creating empty StoredAsset vector...'));
-        const emptyAssetsVec = tx.moveCall({
-          package: this.packageId,
-          module: 'vault',
-          function: 'empty_stored_asset_vector',
-          arguments: [],
-        });
-
-        // Step 4: Create Article using post_as_owner
+        const gatingAccess = params.isGated
+          ? vaultMove.accessGated(tx, this.packageId)
+          : vaultMove.accessFree(tx, this.packageId);
+
+        // Step 2: Create Article (slug is generated on-chain from the title)
         console.log(chalk.blue('  📄 Creating Article object...'));
-        const slug = params.title.toLowerCase().replace(/\s+/g, '_'); // Convert title to slug
-
-        const article = tx.moveCall({
-          package: this.packageId,
-          module: 'articles',
-          function: 'post_as_owner',
-          arguments: [
-            tx.objectArg(params.ownerCapId),     // &PublicationOwnerCap
-            tx.objectArg(params.publicationId),  // &Publication
-            tx.objectArg(params.vaultId),        // &mut PublicationVault
-            tx.pureString(params.title),         // String title
-            tx.pureString(slug),                 // String slug
-            gatingAccess,                        // Access enum
-            storedAsset,                         // StoredAsset (body asset)
-            emptyAssetsVec,                      // vector<StoredAsset> (additional assets)
-          ],
-        });
-
-        // Step 5: Transfer Article to sender
+        const article = params.ownerCapId
+          ? articlesMove.postAsOwner(tx, this.packageId, [
+            params.ownerCapId,
+            params.publicationId,
+            params.vaultId,
+            params.title,
+            gatingAccess,
+            params.walrusBlobObjectId,
+          ])
+          : articlesMove.post(tx, this.packageId, [
+            params.publicationId,
+            params.vaultId,
+            params.title,
+            gatingAccess,
+            params.walrusBlobObjectId,
+          ]);
+
+        // Step 3: Transfer Article to sender
         console.log(chalk.blue('  📤 Transferring Article to sender...'));
         tx.transferObjects([article], this.client.getAddress());
       }, this.client);
 
       // Extract Article object ID from transaction result
       const articleId = this.extractArticleId(result);
+      const slug = generateSlug(params.title, articleId);
 
       console.log(chalk.green('✅ Article created successfully!'));
       console.log(chalk.gray(`  Article ID: ${articleId}`));
+      console.log(chalk.gray(`  Slug: ${slug}`));
       console.log(chalk.gray(`  Transaction: ${result.digest}`));
 
       return {
         articleId,
+        slug,
         transactionDigest: result.digest,
         transactionResult: result,
       };
@@ -218,7 +183,6 @@ export class ArticleManager {
       console.log(chalk.green(`✅ Article retrieved successfully!`));
       console.log(chalk.gray(`  Title: ${fields.title || 'Unknown'}`));
       console.log(chalk.gray(`  Author: ${fields.author || 'Unknown'}`));
-      console.log(chalk.gray(`  Debug - Gating object:`, JSON.stringify(fields.gating, null, 2)));
       console.log(chalk.gray(`  Gated: ${fields.gating?.variant === 'Gated' ? 'Yes' : 'No'}`));
 
       return {
@@ -227,10 +191,9 @@ export class ArticleManager {
         slug: fields.slug,
         author: fields.author,
         publication_id: fields.publication_id,
-        body_id: fields.body_id,
-        asset_ids: fields.asset_ids?.fields?.contents || [],
+        vault_id: fields.vault_id,
+        body_blob_id: fields.body_blob_id, // Object ID of the Walrus Blob held in the vault
         gating: fields.gating,
-        created_at: fields.created_at,
       };
     } catch (error) {
       console.error(chalk.red(`❌ Failed to fetch article: ${error}`));
@@ -238,6 +201,66 @@ export class ArticleManager {
     }
   }
 
+  /**
+   * Find an article by its slug
+   *
+   * A slug ends with the first 4 bytes of the article ID, so only indexed
+   * articles whose ID starts with them are fetched. The object has the final
+   * say because `update_article` changes the slug without emitting an event.
+   */
+  async getArticleBySlug(slug: string): Promise<any> {
+    try {
+      console.log(chalk.blue(`🔎 Resolving slug: ${slug}`));
+
+      const suffix = parseSlugSuffix(slug);
+      if (!suffix) {
+        console.log(chalk.yellow(`⚠️  Not an article slug: ${slug}`));
+        return null;
+      }
+
+      const indexer = this.getIndexer();
+      await indexer.sync();
+
+      for (const candidate of await indexer.getArticlesByIdPrefix(`0x${suffix}`)) {
+        const article = await this.getArticle(candidate.id);
+        if (article?.slug === slug) {
+          return article;
+        }
+      }
+
+      console.log(chalk.yellow(`⚠️  No article with slug: ${slug}`));
+      return null;
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to resolve slug: ${error}`));
+      return null;
+    }
+  }
+
+  /**
+   * Run `articles::preview_slug_from_title` via dev inspect
+   *
+   * The suffix comes from a throwaway ID, so only the part before it is
+   * comparable with generateSlug.
+   */
+  async previewSlug(title: string): Promise<string> {
+    try {
+      const tx = createTransaction(this.client);
+      articlesMove.previewSlugFromTitle(tx, this.packageId, [title]);
+
+      const result = await tx.devInspect();
+      const returnValues: [number[], string][] = result.results?.[0]?.returnValues || [];
+
+      if (returnValues.length !== 1) {
+        throw new Error(`Unexpected preview_slug_from_title return values: ${returnValues.length}`);
+      }
+
+      return bcs.string().parse(Uint8Array.from(returnValues[0][0]));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to preview slug: ${error}`));
+      throw error;
+    }
+  }
+
   /**
    * Check if article exists on blockchain
    */
@@ -282,6 +305,13 @@ export class ArticleManager {
       return false;
     }
   }
+
+  private getIndexer(): EventIndexer {
+    if (!this.indexer) {
+      this.indexer = getDefaultEventIndexer(this.client, this.packageId);
+    }
+    return this.indexer;
+  }
 }
 
 // Singleton instance management
@@ -289,9 +319,10 @@ let defaultManager: ArticleManager | null = null;
 
 export function createArticleManager(
   client?: import('../utils/client.js').InkraySuiClient,
-  packageId?: string
+  packageId?: string,
+  indexer?: EventIndexer
 ): ArticleManager {
-  return new ArticleManager(client, packageId);
+  return new ArticleManager(client, packageId, indexer);
 }
 
 export function getDefaultArticleManager(
@@ -321,6 +352,14 @@ export async function getArticle(
   return await getDefaultArticleManager(client, packageId).getArticle(articleId);
 }
 
+export async function getArticleBySlug(
+  slug: string,
+  client?: import('../utils/client.js').InkraySuiClient,
+  packageId?: string
+): Promise<any> {
+  return await getDefaultArticleManager(client, packageId).getArticleBySlug(slug);
+}
+
 export async function validateArticle(
   articleId: string,
   expectedTitle: string,
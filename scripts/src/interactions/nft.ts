@@ -0,0 +1,198 @@
+import { executeTransaction } from '../utils/transactions.js';
+import { getDefaultSuiClient } from '../utils/client.js';
+import { CONTRACT_ADDRESSES, mistToSui } from '../config/constants.js';
+import * as nftMove from '../generated/nft.js';
+import { getSharedObjectId } from '../config/deployment.js';
+import { InvalidArgumentError, NotFoundError } from '../utils/errors.js';
+import type { ArticleNFT, MintConfig, NFTMintOptions, TransactionResult } from '../utils/types.js';
+import chalk from 'chalk';
+
+export interface MintNftResult {
+  nftId: string;
+  articleId: string;
+  recipient: string;
+  transactionResult: TransactionResult;
+}
+
+/**
+ * Article access NFTs backed by the `nft` Move module
+ *
+ * An ArticleAccessNft grants permanent access to one gated article through
+ * `policy::seal_approve_nft`.
+ */
+export class ArticleNftManager {
+  private client: import('../utils/client.js').InkraySuiClient;
+  private packageId: string;
+  private mintConfigId: string;
+
+  constructor(
+    client?: import('../utils/client.js').InkraySuiClient,
+    mintConfigId?: string
+  ) {
+    this.client = client || getDefaultSuiClient();
+    this.packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+    this.mintConfigId = mintConfigId || getSharedObjectId('NFT_CONFIG_ID');
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first.');
+    }
+  }
+
+  async getMintConfig(): Promise<MintConfig> {
+    const objectData = await this.client.getObject(this.mintConfigId);
+    const fields = (objectData.data as any)?.content?.fields;
+
+    if (!fields) {
+      throw new NotFoundError(`MintConfig not found: ${this.mintConfigId}`);
+    }
+
+    return {
+      id: this.mintConfigId,
+      base_price: String(fields.base_price),
+      platform_fee_percent: Number(fields.platform_fee_percent),
+      admin: fields.admin,
+    };
+  }
+
+  /**
+   * Mint an access NFT for an article and send it to the recipient
+   *
+   * The payment coin is split at the MintConfig base price; the contract
+   * currently returns it to the sender, so minting only costs gas.
+   */
+  async mintNft(options: NFTMintOptions): Promise<MintNftResult> {
+    try {
+      const recipient = options.recipient || this.client.getAddress();
+      console.log(chalk.blue(`🎨 Minting access NFT for article: ${options.articleId}`));
+      console.log(chalk.gray(`  Recipient: ${recipient}`));
+
+      await this.assertIsArticle(options.articleId);
+
+      const config = await this.getMintConfig();
+      const price = BigInt(config.base_price);
+      console.log(chalk.gray(`  Price: ${mistToSui(price)} SUI`));
+
+      const result = await executeTransaction(async (tx) => {
+        const [payment] = tx.splitCoins(tx.getGasCoin(), [price]);
+
+        const nft = nftMove.mint(tx, this.packageId, [recipient, options.articleId, this.mintConfigId, payment]);
+
+        tx.transferObjects([nft], recipient);
+      }, this.client);
+
+      const nftChange = result.objectChanges.find(change =>
+        change.type === 'created' && change.objectType?.endsWith(`::${nftMove.MODULE}::ArticleAccessNft`)
+      );
+
+      if (!nftChange) {
+        throw new Error('ArticleAccessNft not found in transaction result');
+      }
+
+      console.log(chalk.green(`✅ NFT minted successfully!`));
+      console.log(chalk.gray(`NFT ID: ${nftChange.objectId}`));
+
+      return {
+        nftId: nftChange.objectId,
+        articleId: options.articleId,
+        recipient,
+        transactionResult: result,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to mint NFT: ${error}`));
+      throw error;
+    }
+  }
+
+  async transferNft(nftId: string, recipient: string): Promise<TransactionResult> {
+    try {
+      console.log(chalk.blue(`📤 Transferring NFT ${nftId} to ${recipient}`));
+
+      const result = await executeTransaction(async (tx) => {
+        nftMove.transferNft(tx, this.packageId, [nftId, recipient]);
+      }, this.client);
+
+      console.log(chalk.green(`✅ NFT transferred successfully!`));
+
+      return result;
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to transfer NFT: ${error}`));
+      throw error;
+    }
+  }
+
+  async getOwnedNfts(): Promise<ArticleNFT[]> {
+    try {
+      const ownedObjects = await this.client.getOwnedObjects(
+        nftMove.structType(this.packageId, 'ArticleAccessNft')
+      );
+
+      return ownedObjects.data
+        .filter(objRef => objRef.data?.objectId && (objRef.data.content as any)?.fields)
+        .map(objRef => {
+          const fields = (objRef.data!.content as any).fields;
+          return {
+            id: objRef.data!.objectId,
+            article_id: fields.article_id,
+            minted_at: String(fields.minted_at),
+          };
+        });
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to fetch NFTs: ${error}`));
+      return [];
+    }
+  }
+
+  /**
+   * Owned NFTs keyed by article ID
+   */
+  async getOwnedNftsByArticle(): Promise<Map<string, ArticleNFT[]>> {
+    const grouped = new Map<string, ArticleNFT[]>();
+
+    for (const nft of await this.getOwnedNfts()) {
+      const group = grouped.get(nft.article_id) || [];
+      group.push(nft);
+      grouped.set(nft.article_id, group);
+    }
+
+    return grouped;
+  }
+
+  async findNftForArticle(articleId: string): Promise<ArticleNFT | null> {
+    const nfts = await this.getOwnedNfts();
+    return nfts.find(nft => nft.article_id === articleId) || null;
+  }
+
+  /**
+   * `nft::mint` accepts any ID, so check the target before paying for an unusable NFT
+   */
+  private async assertIsArticle(articleId: string): Promise<void> {
+    const objectData = await this.client.getObject(articleId);
+    const type = (objectData.data as any)?.type as string | undefined;
+
+    if (!type?.endsWith('::articles::Article')) {
+      throw new InvalidArgumentError(`Not an Article object: ${articleId}`);
+    }
+  }
+}
+
+// Singleton instance
+let defaultManager: ArticleNftManager | null = null;
+
+export function createArticleNftManager(client?: import('../utils/client.js').InkraySuiClient): ArticleNftManager {
+  return new ArticleNftManager(client);
+}
+
+export function getDefaultArticleNftManager(client?: import('../utils/client.js').InkraySuiClient): ArticleNftManager {
+  if (!defaultManager) {
+    defaultManager = new ArticleNftManager(client);
+  }
+  return defaultManager;
+}
+
+// Convenience functions
+export async function mintArticleNft(
+  options: NFTMintOptions,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<MintNftResult> {
+  return await getDefaultArticleNftManager(client).mintNft(options);
+}
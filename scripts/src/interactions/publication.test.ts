@@ -0,0 +1,284 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { bcs } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { CONTRACT_ADDRESSES, MILLISECONDS_PER_MONTH } from '../config/constants.js';
+import { EventIndexer } from '../indexer/event-indexer.js';
+import { MemoryIndexStore } from '../indexer/index-store.js';
+import { eventType } from '../utils/events.js';
+import { PublicationManager, calculateSubscriptionMonths } from './publication.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const OWNER_CAP = normalizeSuiAddress('0x' + '22'.repeat(32));
+const CONTRIBUTOR = normalizeSuiAddress('0x' + '33'.repeat(32));
+
+describe('PublicationManager', () => {
+  let fake: FakeSuiClient;
+  let client: ReturnType<FakeSuiClient['createInkrayClient']>;
+  let manager: PublicationManager;
+
+  beforeEach(() => {
+    CONTRACT_ADDRESSES.PACKAGE_ID = PKG;
+    fake = new FakeSuiClient();
+    client = fake.createInkrayClient();
+    manager = new PublicationManager(client);
+  });
+
+  const addPublication = (fields: Record<string, any>) => fake.transport.addObject({
+    objectId: PUBLICATION,
+    type: `${PKG}::publication::Publication`,
+    owner: 'shared',
+    fields: { name: 'Inkray Weekly', description: 'Notes', owner: client.getAddress(), vault_id: '0x0', contributors: [], ...fields },
+  });
+
+  describe('createPublication', () => {
+    it('calls publication::create and returns the created objects', async () => {
+      fake.onExecute(() => ({
+        created: [
+          { type: `${PKG}::publication::PublicationOwnerCap` },
+          { type: `${PKG}::publication::Publication`, owner: 'shared' },
+          { type: `${PKG}::vault::PublicationVault`, owner: 'shared' },
+        ],
+      }));
+
+      const result = await manager.createPublication({ name: 'Inkray Weekly', description: 'Notes' });
+
+      const [call] = fake.lastExecuted().moveCalls;
+      expect(call.target).toBe(`${PKG}::publication::create`);
+      expect(call.typeArguments).toHaveLength(0);
+      expect(call.arguments.map(arg => arg.kind === 'pure' && bcs.string().parse(arg.bytes))).toEqual(['Inkray Weekly']);
+
+      const changes = result.transactionResult.objectChanges as any[];
+      const idOf = (suffix: string) => changes.find(change => change.objectType.endsWith(suffix)).objectId;
+      expect(result.publication.id).toBe(idOf('::Publication'));
+      expect(result.ownerCap.id).toBe(idOf('::PublicationOwnerCap'));
+      expect(result.ownerCap.publication_id).toBe(result.publication.id);
+      expect(result.publication.vault_id).toBe(idOf('::PublicationVault'));
+      expect(result.publication.owner).toBe(client.getAddress());
+    });
+
+    it('transfers only the owner cap to the sender', async () => {
+      fake.onExecute(() => ({
+        created: [{ type: `${PKG}::publication::Publication` }, { type: `${PKG}::publication::PublicationOwnerCap` }],
+      }));
+
+      await manager.createPublication({ name: 'Inkray Weekly', description: 'Notes' });
+
+      const transfer = fake.lastExecuted().commands[1];
+      expect(transfer).toEqual({
+        kind: 'transferObjects',
+        objects: [{ kind: 'result', index: 0 }],
+        address: { kind: 'pure', bytes: bcs.Address.serialize(client.getAddress()).toBytes() },
+      });
+    });
+
+    it('fails when the transaction creates no publication', async () => {
+      fake.onExecute(() => ({ created: [] }));
+
+      await expect(manager.createPublication({ name: 'Inkray Weekly', description: 'Notes' }))
+        .rejects.toThrow('Failed to create publication objects');
+    });
+
+    it('requires a deployed package', async () => {
+      CONTRACT_ADDRESSES.PACKAGE_ID = '';
+
+      await expect(manager.createPublication({ name: 'Inkray Weekly', description: 'Notes' }))
+        .rejects.toThrow('Package ID not found');
+      expect(fake.executed).toHaveLength(0);
+    });
+  });
+
+  describe('contributors', () => {
+    it('passes owner cap, publication and contributor address to add_contributor', async () => {
+      await manager.addContributor(PUBLICATION, OWNER_CAP, CONTRIBUTOR);
+
+      const [call] = fake.lastExecuted().moveCalls;
+      expect(call.target).toBe(`${PKG}::publication::add_contributor`);
+      expect(call.arguments).toEqual([
+        { kind: 'object', objectId: OWNER_CAP },
+        { kind: 'object', objectId: PUBLICATION },
+        { kind: 'pure', bytes: bcs.Address.serialize(CONTRIBUTOR).toBytes() },
+      ]);
+    });
+
+    it('calls remove_contributor', async () => {
+      await manager.removeContributor(PUBLICATION, OWNER_CAP, CONTRIBUTOR);
+
+      expect(fake.lastExecuted().moveCalls[0].target).toBe(`${PKG}::publication::remove_contributor`);
+    });
+
+    it('reads contributors from a plain vector or a VecSet', async () => {
+      addPublication({ contributors: [CONTRIBUTOR] });
+      expect(await manager.isContributor(PUBLICATION, CONTRIBUTOR)).toBe(true);
+
+      fake.transport.updateFields(PUBLICATION, { contributors: { fields: { contents: [CONTRIBUTOR] } } });
+      expect(await manager.isContributor(PUBLICATION, CONTRIBUTOR)).toBe(true);
+      expect(await manager.isContributor(PUBLICATION, client.getAddress())).toBe(false);
+    });
+  });
+
+  describe('getPublication', () => {
+    it('maps the object fields', async () => {
+      addPublication({ subscription_price: '1000', subscription_balance: { fields: { value: '2500' } } });
+
+      expect(await manager.getPublication(PUBLICATION)).toEqual({
+        id: PUBLICATION,
+        name: 'Inkray Weekly',
+        description: 'Notes',
+        owner: client.getAddress(),
+        vault_id: '0x0',
+        contributors: [],
+        subscription_price: '1000',
+        subscription_balance: '2500',
+      });
+      expect(await manager.isOwner(PUBLICATION)).toBe(true);
+    });
+
+    it('returns null for a missing publication', async () => {
+      expect(await manager.getPublication(PUBLICATION)).toBeNull();
+    });
+  });
+
+  it('finds the owner cap held for a publication', async () => {
+    fake.transport.addObject({
+      objectId: OWNER_CAP,
+      type: `${PKG}::publication::PublicationOwnerCap`,
+      owner: client.getAddress(),
+      fields: { publication_id: PUBLICATION },
+    });
+
+    expect(await manager.findOwnerCap(PUBLICATION)).toBe(OWNER_CAP);
+    expect(await manager.findOwnerCap(CONTRIBUTOR)).toBeNull();
+  });
+
+  it('finds an owner cap past the first page of owned objects', async () => {
+    for (let i = 1; i <= 60; i++) {
+      fake.transport.addObject({
+        objectId: normalizeSuiAddress(`0x${i.toString(16)}`),
+        type: `${PKG}::publication::PublicationOwnerCap`,
+        owner: client.getAddress(),
+        fields: { publication_id: normalizeSuiAddress(`0x${(0x1000 + i).toString(16)}`) },
+      });
+    }
+    fake.transport.addObject({
+      objectId: OWNER_CAP,
+      type: `${PKG}::publication::PublicationOwnerCap`,
+      owner: client.getAddress(),
+      fields: { publication_id: PUBLICATION },
+    });
+
+    expect(await manager.findOwnerCap(PUBLICATION)).toBe(OWNER_CAP);
+  });
+
+  describe('subscriptions', () => {
+    it('pays exactly months * price from gas', async () => {
+      addPublication({ subscription_price: '1000' });
+      fake.onExecute(() => ({
+        created: [{ type: `${PKG}::publication_subscription::PublicationSubscription` }],
+      }));
+
+      const result = await manager.subscribeToPublication(PUBLICATION, 3);
+
+      const [split, subscribe, transfer] = fake.lastExecuted().commands;
+      expect(split).toEqual({
+        kind: 'splitCoins',
+        coin: { kind: 'gas' },
+        amounts: [{ kind: 'pure', bytes: bcs.u64().serialize(3000n).toBytes() }],
+      });
+      expect(subscribe.kind === 'moveCall' && subscribe.call.target)
+        .toBe(`${PKG}::publication_subscription::subscribe_to_publication`);
+      expect(subscribe.kind === 'moveCall' && subscribe.call.arguments).toEqual([
+        { kind: 'object', objectId: PUBLICATION },
+        { kind: 'result', index: 0, nested: 0 },
+        { kind: 'object', objectId: normalizeSuiAddress('0x6') },
+      ]);
+      expect(transfer.kind).toBe('transferObjects');
+      expect(result.amountPaid).toBe(3000n);
+      expect(result.months).toBe(3n);
+    });
+
+    it('refuses to subscribe to a free publication', async () => {
+      addPublication({ subscription_price: '0' });
+
+      await expect(manager.subscribeToPublication(PUBLICATION)).rejects.toThrow('does not require a subscription');
+      expect(fake.executed).toHaveLength(0);
+    });
+
+    it('rejects partial months', async () => {
+      addPublication({ subscription_price: '1000' });
+
+      await expect(manager.subscribeToPublication(PUBLICATION, 1.5)).rejects.toThrow('positive whole number');
+    });
+
+    it('withdraws the full balance when no amount is given', async () => {
+      addPublication({ subscription_balance: '4200' });
+
+      const { amount } = await manager.withdrawSubscriptionBalance(PUBLICATION, OWNER_CAP);
+
+      const [call] = fake.lastExecuted().moveCalls;
+      expect(amount).toBe(4200n);
+      expect(call.arguments[2]).toEqual({ kind: 'pure', bytes: bcs.u64().serialize(4200n).toBytes() });
+    });
+  });
+
+  describe('indexed queries', () => {
+    beforeEach(() => {
+      manager = new PublicationManager(client, new EventIndexer(client, PKG, new MemoryIndexStore()));
+      fake.addEvent({
+        type: eventType('PublicationCreated', PKG),
+        parsedJson: { publication: PUBLICATION, owner: client.getAddress(), name: 'Inkray Weekly', vault_id: '0x0' },
+      });
+      fake.addEvent({
+        type: eventType('ContributorAdded', PKG),
+        parsedJson: { publication: PUBLICATION, addr: CONTRIBUTOR, added_by: client.getAddress() },
+      });
+    });
+
+    it('finds publications of a contributor', async () => {
+      addPublication({ contributors: [CONTRIBUTOR] });
+
+      const publications = await manager.getPublicationsByContributor(CONTRIBUTOR);
+
+      expect(publications.map(publication => publication.id)).toEqual([PUBLICATION]);
+      expect(await manager.getPublicationsByContributor(client.getAddress())).toEqual([]);
+    });
+
+    it('counts articles and tips in the stats', async () => {
+      addPublication({ contributors: [CONTRIBUTOR] });
+      fake.addEvent({
+        type: eventType('ArticlePosted', PKG),
+        parsedJson: {
+          publication: PUBLICATION, vault: '0x0', article: '0xa1', author: CONTRIBUTOR, title: 'Hello', slug: 'hello',
+          gating: 0, quilt_id: '1', quilt_object_id: '0xb1',
+        },
+      });
+      fake.addEvent({
+        type: eventType('PublicationTipped', PKG),
+        parsedJson: { publication_id: PUBLICATION, tipper: CONTRIBUTOR, amount: '250' },
+      });
+
+      expect(await manager.getPublicationStats(PUBLICATION)).toEqual({
+        contributorCount: 1,
+        articlesCount: 1,
+        totalTips: '250',
+        subscriptionRevenue: '0',
+      });
+    });
+  });
+});
+
+describe('calculateSubscriptionMonths', () => {
+  it('buys whole months and keeps the remainder', () => {
+    expect(calculateSubscriptionMonths(2500n, 1000n)).toEqual({
+      months: 2n,
+      durationMs: 2n * BigInt(MILLISECONDS_PER_MONTH),
+      cost: 2000n,
+      remainder: 500n,
+    });
+  });
+
+  it('rejects free publications', () => {
+    expect(() => calculateSubscriptionMonths(1000n, 0n)).toThrow('does not require a subscription');
+  });
+});
@@ -1,13 +1,23 @@
 import { createTransaction, executeTransaction } from '../utils/transactions.js';
 import { getDefaultSuiClient } from '../utils/client.js';
-import { CONTRACT_ADDRESSES, MODULES, FUNCTIONS } from '../config/constants.js';
-import type { Publication, PublicationOwnerCap, TransactionResult } from '../utils/types.js';
+import { getDefaultEventIndexer, type EventIndexer } from '../indexer/event-indexer.js';
+import {
+  CONTRACT_ADDRESSES,
+  MILLISECONDS_PER_MONTH,
+  SUI_CLOCK_OBJECT_ID,
+  mistToSui,
+} from '../config/constants.js';
+import * as publicationMove from '../generated/publication.js';
+import * as publicationSubscriptionMove from '../generated/publication_subscription.js';
+import * as vaultMove from '../generated/vault.js';
+import { InsufficientBalanceError, NotFoundError } from '../utils/errors.js';
+import { contractError } from '../utils/move-errors.js';
+import type { Publication, PublicationOwnerCap, PublicationSubscription, TransactionResult } from '../utils/types.js';
 import chalk from 'chalk';
 
 export interface CreatePublicationParams {
   name: string;
-  description: string;
-  vaultId?: string;
+  description: string; // Kept off-chain; the contract stores only the name
 }
 
 export interface PublicationResult {
@@ -16,11 +26,57 @@ export interface PublicationResult {
   transactionResult: TransactionResult;
 }
 
+export interface SubscriptionMonths {
+  months: bigint;
+  durationMs: bigint;
+  cost: bigint; // Portion of the payment the months account for
+  remainder: bigint; // Kept by the publication, not refunded
+}
+
+export interface PublicationSubscriptionResult {
+  subscriptionId: string;
+  months: bigint;
+  amountPaid: bigint;
+  transactionResult: TransactionResult;
+}
+
+/**
+ * How many months a payment buys, using the same rule as
+ * `publication_subscription`: months = payment / price, each MILLISECONDS_PER_MONTH long
+ */
+export function calculateSubscriptionMonths(payment: bigint, monthlyPrice: bigint): SubscriptionMonths {
+  if (monthlyPrice <= 0n) {
+    throw contractError('publication_subscription::E_SUBSCRIPTION_NOT_REQUIRED', 'Publication does not require a subscription');
+  }
+
+  const months = payment / monthlyPrice;
+  const cost = months * monthlyPrice;
+
+  return {
+    months,
+    durationMs: months * BigInt(MILLISECONDS_PER_MONTH),
+    cost,
+    remainder: payment - cost,
+  };
+}
+
+export interface PublicationStats {
+  contributorCount: number;
+  articlesCount: number;
+  totalTips: string; // MIST
+  subscriptionRevenue: string; // MIST
+}
+
 export class PublicationManager {
   private client: import('../utils/client.js').InkraySuiClient;
+  private indexer: EventIndexer | null;
 
-  constructor(client?: import('../utils/client.js').InkraySuiClient) {
+  constructor(
+    client?: import('../utils/client.js').InkraySuiClient,
+    indexer?: EventIndexer
+  ) {
     this.client = client || getDefaultSuiClient();
+    this.indexer = indexer || null;
   }
 
   async createPublication(params: CreatePublicationParams): Promise<PublicationResult> {
@@ -33,50 +89,19 @@ export class PublicationManager {
       }
 
       const result = await executeTransaction(async (tx) => {
-        let publication, ownerCap;
-        
-        if (params.vaultId) {
-          // Use existing vault ID
-          [publication, ownerCap] = tx.moveCall({
-            package: packageId,
-            module: MODULES.PUBLICATION,
-            function: FUNCTIONS.CREATE_PUBLICATION,
-            arguments: [
-              tx.pureString(params.name),
-              tx.pureString(params.description),
-              tx.pure(params.vaultId, 'address'),
-            ],
-          });
-        } else {
-          // Create publication with vault - using real Walrus Blob type on testnet
-          [publication, ownerCap] = tx.moveCall({
-            package: packageId,
-            module: MODULES.PUBLICATION,
-            function: 'create_publication_with_vault',
-            typeArguments: [`0xd84704c17fc870b8764832c535aa6b11f21a95cd6f5bb38a9b07d2cf42220c66::blob::Blob`],
-            arguments: [
-              tx.pureString(params.name),
-              tx.pureString(params.description),
-            ],
-          });
-        }
-
-        // Transfer publication and owner cap to sender
-        tx.transferObjects([publication, ownerCap], tx.client.getAddress());
+        // The contract shares the publication and its vault itself; only the cap is returned
+        const ownerCap = publicationMove.create(tx, packageId, [params.name]);
+        tx.transferObjects([ownerCap], tx.client.getAddress());
       }, this.client);
 
       // Extract created objects from transaction result
       const createdObjects = result.objectChanges?.filter(change => change.type === 'created') || [];
-      
-      const publicationChange = createdObjects.find(obj => 
-        (obj as any).objectType?.includes('Publication') && !(obj as any).objectType?.includes('Cap')
-      );
-      const ownerCapChange = createdObjects.find(obj => 
-        (obj as any).objectType?.includes('PublicationOwnerCap')
-      );
-      const vaultChange = createdObjects.find(obj => 
-        (obj as any).objectType?.includes('PublicationVault')
-      );
+
+      const createdOfType = (module: string, name: string) =>
+        createdObjects.find(obj => (obj as any).objectType?.endsWith(`::${module}::${name}`));
+      const publicationChange = createdOfType(publicationMove.MODULE, 'Publication');
+      const ownerCapChange = createdOfType(publicationMove.MODULE, 'PublicationOwnerCap');
+      const vaultChange = createdOfType(vaultMove.MODULE, 'PublicationVault');
 
       if (!publicationChange || !ownerCapChange) {
         throw new Error('Failed to create publication objects');
@@ -87,7 +112,7 @@ export class PublicationManager {
         name: params.name,
         description: params.description,
         owner: this.client.getAddress(),
-        vault_id: vaultChange ? (vaultChange as any).objectId : (params.vaultId || 'no_vault_created'),
+        vault_id: vaultChange ? (vaultChange as any).objectId : '',
         contributors: [],
       };
 
@@ -125,16 +150,7 @@ export class PublicationManager {
       }
 
       const result = await executeTransaction(async (tx) => {
-        tx.moveCall({
-          package: packageId,
-          module: MODULES.PUBLICATION,
-          function: FUNCTIONS.ADD_CONTRIBUTOR,
-          arguments: [
-            tx.objectArg(ownerCapId),
-            tx.objectArg(publicationId),
-            tx.pureAddress(contributorAddress),
-          ],
-        });
+        publicationMove.addContributor(tx, packageId, [ownerCapId, publicationId, contributorAddress]);
       }, this.client);
 
       console.log(chalk.green(`✅ Contributor added successfully!`));
@@ -161,16 +177,7 @@ export class PublicationManager {
       }
 
       const result = await executeTransaction(async (tx) => {
-        tx.moveCall({
-          package: packageId,
-          module: MODULES.PUBLICATION,
-          function: FUNCTIONS.REMOVE_CONTRIBUTOR,
-          arguments: [
-            tx.objectArg(ownerCapId),
-            tx.objectArg(publicationId),
-            tx.pureAddress(contributorAddress),
-          ],
-        });
+        publicationMove.removeContributor(tx, packageId, [ownerCapId, publicationId, contributorAddress]);
       }, this.client);
 
       console.log(chalk.green(`✅ Contributor removed successfully!`));
@@ -206,7 +213,9 @@ export class PublicationManager {
         description: fields.description || '',
         owner: fields.owner || '',
         vault_id: fields.vault_id || '',
-        contributors: fields.contributors?.fields?.contents || [],
+        contributors: Array.isArray(fields.contributors) ? fields.contributors : (fields.contributors?.fields?.contents || []),
+        subscription_price: String(fields.subscription_price ?? '0'),
+        subscription_balance: String(fields.subscription_balance?.fields?.value ?? fields.subscription_balance ?? '0'),
       };
 
       console.log(chalk.green(`✅ Publication retrieved successfully!`));
@@ -228,7 +237,7 @@ export class PublicationManager {
 
       // Get all owned objects that are publications
       const ownedObjects = await this.client.getOwnedObjects(
-        `${CONTRACT_ADDRESSES.PACKAGE_ID}::${MODULES.PUBLICATION}::Publication`
+        publicationMove.structType(CONTRACT_ADDRESSES.PACKAGE_ID, 'Publication')
       );
 
       const publications: Publication[] = [];
@@ -251,59 +260,277 @@ export class PublicationManager {
     }
   }
 
+  /**
+   * Find the PublicationOwnerCap held by this client's wallet for a publication
+   */
+  async findOwnerCap(publicationId: string): Promise<string | null> {
+    try {
+      const ownedCaps = await this.client.getOwnedObjects(
+        publicationMove.structType(CONTRACT_ADDRESSES.PACKAGE_ID, 'PublicationOwnerCap')
+      );
+
+      const cap = ownedCaps.data.find(objRef =>
+        (objRef.data?.content as any)?.fields?.publication_id === publicationId
+      );
+
+      return cap?.data?.objectId || null;
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to look up owner cap: ${error}`));
+      return null;
+    }
+  }
+
+  /**
+   * Publications the address contributes to, found through the event index
+   */
   async getPublicationsByContributor(contributorAddress?: string): Promise<Publication[]> {
     try {
       const address = contributorAddress || this.client.getAddress();
       console.log(chalk.blue(`📚 Fetching publications where ${address} is a contributor`));
 
-      // This would require indexing or querying events in a full implementation
-      // For now, we'll return empty array with a warning
-      console.log(chalk.yellow(`⚠️  Contributor publication search requires event indexing`));
-      console.log(chalk.gray('Consider implementing with event monitoring or GraphQL'));
+      const indexer = this.getIndexer();
+      await indexer.sync();
+      const indexed = await indexer.getPublicationsByContributor(address);
 
-      return [];
+      const publications: Publication[] = [];
+      for (const { id } of indexed) {
+        const publication = await this.getPublication(id);
+        if (publication) {
+          publications.push(publication);
+        }
+      }
+
+      console.log(chalk.green(`✅ Found ${publications.length} publications`));
+
+      return publications;
     } catch (error) {
       console.error(chalk.red(`❌ Failed to fetch contributor publications: ${error}`));
       return [];
     }
   }
 
-  async updateVaultId(
-    publicationId: string, 
-    ownerCapId: string, 
-    newVaultId: string
+  // Publication subscriptions
+
+  /**
+   * Buy a subscription to a publication for whole months
+   *
+   * Exactly `months * price` is split from gas; the contract keeps any overpayment.
+   */
+  async subscribeToPublication(publicationId: string, months: number = 1): Promise<PublicationSubscriptionResult> {
+    try {
+      console.log(chalk.blue(`🔖 Subscribing to publication: ${publicationId}`));
+
+      const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+      if (!packageId) {
+        throw new Error('Package ID not found. Please deploy contracts first.');
+      }
+
+      const amount = await this.getSubscriptionCost(publicationId, months);
+
+      const result = await executeTransaction(async (tx) => {
+        const [payment] = tx.splitCoins(tx.getGasCoin(), [amount]);
+
+        const subscription = publicationSubscriptionMove.subscribeToPublication(tx, packageId, [
+          publicationId,
+          payment,
+          SUI_CLOCK_OBJECT_ID,
+        ]);
+
+        tx.transferObjects([subscription], this.client.getAddress());
+      }, this.client);
+
+      const subscriptionChange = result.objectChanges.find(change =>
+        change.type === 'created' &&
+        change.objectType?.endsWith(`::${publicationSubscriptionMove.MODULE}::PublicationSubscription`)
+      );
+
+      if (!subscriptionChange) {
+        throw new Error('PublicationSubscription object not found in transaction result');
+      }
+
+      console.log(chalk.green(`✅ Subscribed for ${months} month(s)!`));
+      console.log(chalk.gray(`Subscription ID: ${subscriptionChange.objectId}`));
+
+      return {
+        subscriptionId: subscriptionChange.objectId,
+        months: BigInt(months),
+        amountPaid: amount,
+        transactionResult: result,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to subscribe to publication: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Add whole months on top of the subscription's current expiry
+   */
+  async extendPublicationSubscription(subscriptionId: string, months: number = 1): Promise<TransactionResult> {
+    try {
+      console.log(chalk.blue(`⏩ Extending publication subscription: ${subscriptionId}`));
+
+      const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+      if (!packageId) {
+        throw new Error('Package ID not found. Please deploy contracts first.');
+      }
+
+      const subscription = await this.getPublicationSubscription(subscriptionId);
+      if (!subscription) {
+        throw new NotFoundError(`Publication subscription not found: ${subscriptionId}`);
+      }
+
+      const amount = await this.getSubscriptionCost(subscription.publication_id, months);
+
+      const result = await executeTransaction(async (tx) => {
+        const [payment] = tx.splitCoins(tx.getGasCoin(), [amount]);
+
+        publicationSubscriptionMove.extendSubscription(tx, packageId, [
+          subscriptionId,
+          subscription.publication_id,
+          payment,
+          SUI_CLOCK_OBJECT_ID,
+        ]);
+      }, this.client);
+
+      console.log(chalk.green(`✅ Subscription extended by ${months} month(s)!`));
+
+      return result;
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to extend publication subscription: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Set the monthly subscription price in MIST (0 makes the publication free)
+   */
+  async setSubscriptionPrice(
+    publicationId: string,
+    ownerCapId: string,
+    priceMist: bigint
   ): Promise<TransactionResult> {
     try {
-      console.log(chalk.blue(`🔧 Updating vault ID for publication: ${publicationId}`));
-      
+      console.log(chalk.blue(`💲 Setting subscription price: ${mistToSui(priceMist)} SUI/month`));
+
       const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
       if (!packageId) {
         throw new Error('Package ID not found. Please deploy contracts first.');
       }
 
       const result = await executeTransaction(async (tx) => {
-        tx.moveCall({
-          package: packageId,
-          module: MODULES.PUBLICATION,
-          function: 'set_vault_id',
-          arguments: [
-            tx.objectArg(ownerCapId),
-            tx.objectArg(publicationId),
-            tx.pure(newVaultId, 'address'),
-          ],
-        });
+        publicationMove.setSubscriptionPrice(tx, packageId, [ownerCapId, publicationId, priceMist]);
       }, this.client);
 
-      console.log(chalk.green(`✅ Vault ID updated successfully!`));
-      console.log(chalk.gray(`New Vault ID: ${newVaultId}`));
+      console.log(chalk.green(`✅ Subscription price updated!`));
 
       return result;
     } catch (error) {
-      console.error(chalk.red(`❌ Failed to update vault ID: ${error}`));
+      console.error(chalk.red(`❌ Failed to set subscription price: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw subscription revenue to the owner; withdraws the full balance when no amount is given
+   */
+  async withdrawSubscriptionBalance(
+    publicationId: string,
+    ownerCapId: string,
+    amountMist?: bigint
+  ): Promise<{ amount: bigint; transactionResult: TransactionResult }> {
+    try {
+      const packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+      if (!packageId) {
+        throw new Error('Package ID not found. Please deploy contracts first.');
+      }
+
+      let amount = amountMist;
+      if (amount === undefined) {
+        const publication = await this.getPublication(publicationId);
+        if (!publication) {
+          throw new NotFoundError(`Publication not found: ${publicationId}`);
+        }
+        amount = BigInt(publication.subscription_balance || '0');
+      }
+
+      if (amount <= 0n) {
+        throw new InsufficientBalanceError('Nothing to withdraw');
+      }
+
+      console.log(chalk.blue(`💸 Withdrawing ${mistToSui(amount)} SUI of subscription revenue`));
+
+      const result = await executeTransaction(async (tx) => {
+        const coin = publicationMove.withdrawSubscriptionBalance(tx, packageId, [ownerCapId, publicationId, amount!]);
+
+        tx.transferObjects([coin], this.client.getAddress());
+      }, this.client);
+
+      console.log(chalk.green(`✅ Subscription balance withdrawn!`));
+
+      return { amount, transactionResult: result };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to withdraw subscription balance: ${error}`));
       throw error;
     }
   }
 
+  async getPublicationSubscription(subscriptionId: string): Promise<PublicationSubscription | null> {
+    const objectData = await this.client.getObject(subscriptionId);
+    const fields = (objectData.data as any)?.content?.fields;
+
+    if (!fields) {
+      return null;
+    }
+
+    return this.parsePublicationSubscription(subscriptionId, fields);
+  }
+
+  async getPublicationSubscriptions(): Promise<PublicationSubscription[]> {
+    try {
+      const ownedObjects = await this.client.getOwnedObjects(
+        publicationSubscriptionMove.structType(CONTRACT_ADDRESSES.PACKAGE_ID, 'PublicationSubscription')
+      );
+
+      return ownedObjects.data
+        .filter(objRef => objRef.data?.objectId && (objRef.data.content as any)?.fields)
+        .map(objRef => this.parsePublicationSubscription(objRef.data!.objectId, (objRef.data!.content as any).fields));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to fetch publication subscriptions: ${error}`));
+      return [];
+    }
+  }
+
+  private async getSubscriptionCost(publicationId: string, months: number): Promise<bigint> {
+    if (!Number.isInteger(months) || months < 1) {
+      throw contractError('publication_subscription::E_ZERO_DURATION', `Months must be a positive whole number: ${months}`);
+    }
+
+    const publication = await this.getPublication(publicationId);
+    if (!publication) {
+      throw new NotFoundError(`Publication not found: ${publicationId}`);
+    }
+
+    const price = BigInt(publication.subscription_price || '0');
+    if (price === 0n) {
+      throw contractError('publication_subscription::E_SUBSCRIPTION_NOT_REQUIRED', `Publication ${publicationId} does not require a subscription`);
+    }
+
+    const amount = price * BigInt(months);
+    console.log(chalk.gray(`  Price: ${mistToSui(price)} SUI/month, paying ${mistToSui(amount)} SUI`));
+    return amount;
+  }
+
+  private parsePublicationSubscription(id: string, fields: any): PublicationSubscription {
+    return {
+      id,
+      publication_id: fields.publication_id,
+      subscriber: fields.subscriber,
+      expires_at: String(fields.expires_at),
+      created_at: String(fields.created_at),
+    };
+  }
+
   // Utility methods
   async isContributor(publicationId: string, address?: string): Promise<boolean> {
     try {
@@ -337,11 +564,10 @@ export class PublicationManager {
     }
   }
 
-  async getPublicationStats(publicationId: string): Promise<{
-    contributorCount: number;
-    articlesCount: number;
-    totalTips: string;
-  } | null> {
+  /**
+   * Contributor count from the publication object; article and revenue totals from the event index
+   */
+  async getPublicationStats(publicationId: string): Promise<PublicationStats | null> {
     try {
       const publication = await this.getPublication(publicationId);
       
@@ -349,24 +575,39 @@ export class PublicationManager {
         return null;
       }
 
-      // In a full implementation, these would be queried from events or indexed data
+      const indexer = this.getIndexer();
+      await indexer.sync();
+      const articles = await indexer.getArticlesByPublication(publicationId);
+      const revenue = await indexer.getRevenue(publicationId);
+
       return {
         contributorCount: publication.contributors.length,
-        articlesCount: 0, // Would need to query articles
-        totalTips: '0', // Would need to query tip events
+        articlesCount: articles.length,
+        totalTips: revenue.tips_total,
+        subscriptionRevenue: revenue.subscription_revenue,
       };
     } catch (error) {
       console.error(chalk.red(`❌ Failed to get publication stats: ${error}`));
       return null;
     }
   }
+
+  private getIndexer(): EventIndexer {
+    if (!this.indexer) {
+      this.indexer = getDefaultEventIndexer(this.client);
+    }
+    return this.indexer;
+  }
 }
 
 // Singleton instance
 let defaultManager: PublicationManager | null = null;
 
-export function createPublicationManager(client?: import('../utils/client.js').InkraySuiClient): PublicationManager {
-  return new PublicationManager(client);
+export function createPublicationManager(
+  client?: import('../utils/client.js').InkraySuiClient,
+  indexer?: EventIndexer
+): PublicationManager {
+  return new PublicationManager(client, indexer);
 }
 
 export function getDefaultPublicationManager(client?: import('../utils/client.js').InkraySuiClient): PublicationManager {
@@ -414,4 +655,12 @@ export async function getOwnedPublications(
   client?: import('../utils/client.js').InkraySuiClient
 ): Promise<Publication[]> {
   return await getDefaultPublicationManager(client).getOwnedPublications(ownerAddress);
-}
\ No newline at end of file
+}
+
+export async function subscribeToPublication(
+  publicationId: string,
+  months: number = 1,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<PublicationSubscriptionResult> {
+  return await getDefaultPublicationManager(client).subscribeToPublication(publicationId, months);
+}
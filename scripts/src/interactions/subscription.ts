@@ -0,0 +1,267 @@
+import { executeTransaction } from '../utils/transactions.js';
+import { getDefaultSuiClient } from '../utils/client.js';
+import {
+  CONTRACT_ADDRESSES,
+  SUBSCRIPTION_PLANS,
+  SUI_CLOCK_OBJECT_ID,
+  mistToSui,
+  type SubscriptionPlan,
+} from '../config/constants.js';
+import { getSharedObjectId } from '../config/deployment.js';
+import * as subscriptionMove from '../generated/subscription.js';
+import { NotFoundError } from '../utils/errors.js';
+import { contractError } from '../utils/move-errors.js';
+import type { PlatformService, PlatformSubscription, TransactionResult } from '../utils/types.js';
+import chalk from 'chalk';
+
+export interface SubscriptionResult {
+  subscriptionId: string;
+  plan: SubscriptionPlan;
+  feePaid: bigint;
+  transactionResult: TransactionResult;
+}
+
+const PLAN_NAMES: Record<number, string> = {
+  [SUBSCRIPTION_PLANS.BASIC]: 'Basic',
+  [SUBSCRIPTION_PLANS.PREMIUM]: 'Premium',
+  [SUBSCRIPTION_PLANS.PRO]: 'Pro',
+};
+
+/**
+ * Display name for a plan code (mirrors subscription::get_plan_name)
+ */
+export function getPlanName(plan: number): string {
+  return PLAN_NAMES[plan] || 'Unknown';
+}
+
+/**
+ * Parse a plan given as a name (basic, premium, pro) or as its numeric code
+ */
+export function parsePlan(value: string): SubscriptionPlan {
+  const byName = SUBSCRIPTION_PLANS[value.toUpperCase() as keyof typeof SUBSCRIPTION_PLANS];
+  if (byName !== undefined) {
+    return byName;
+  }
+
+  // Number('') is 0, so only digits count as a code
+  const byCode = /^\d+$/.test(value) ? Number(value) : NaN;
+  if (Object.values(SUBSCRIPTION_PLANS).includes(byCode as SubscriptionPlan)) {
+    return byCode as SubscriptionPlan;
+  }
+
+  throw contractError('subscription::E_INVALID_PLAN', `Unknown subscription plan: ${value} (expected basic, premium or pro)`);
+}
+
+/**
+ * Platform subscriptions backed by the `subscription` Move module
+ *
+ * Fees are read from the shared PlatformService on every call and the exact
+ * amount is split from gas, so the admin never receives an overpayment.
+ */
+export class SubscriptionManager {
+  private client: import('../utils/client.js').InkraySuiClient;
+  private packageId: string;
+  private serviceId: string;
+
+  constructor(
+    client?: import('../utils/client.js').InkraySuiClient,
+    serviceId?: string
+  ) {
+    this.client = client || getDefaultSuiClient();
+    this.packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+    this.serviceId = serviceId || getSharedObjectId('SUBSCRIPTION_SERVICE_ID');
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first.');
+    }
+  }
+
+  async getPlatformService(): Promise<PlatformService> {
+    const objectData = await this.client.getObject(this.serviceId);
+    const fields = (objectData.data as any)?.content?.fields;
+
+    if (!fields) {
+      throw new NotFoundError(`PlatformService not found: ${this.serviceId}`);
+    }
+
+    return {
+      id: this.serviceId,
+      monthly_fees: (fields.monthly_fees || []).map((fee: string | number) => String(fee)),
+      duration_ms: String(fields.duration_ms),
+      admin: fields.admin,
+    };
+  }
+
+  async getPlanFee(plan: number): Promise<bigint> {
+    const service = await this.getPlatformService();
+    const fee = service.monthly_fees[plan];
+
+    if (fee === undefined) {
+      throw contractError('subscription::E_INVALID_PLAN', `Plan ${plan} is not offered by the platform service`);
+    }
+
+    return BigInt(fee);
+  }
+
+  async createSubscription(plan: SubscriptionPlan): Promise<SubscriptionResult> {
+    try {
+      const fee = await this.getPlanFee(plan);
+      console.log(chalk.blue(`🔖 Creating ${getPlanName(plan)} subscription (${mistToSui(fee)} SUI)`));
+
+      const result = await executeTransaction(async (tx) => {
+        const [payment] = tx.splitCoins(tx.getGasCoin(), [fee]);
+
+        const subscription = subscriptionMove.mintPlatform(tx, this.packageId, [
+          this.serviceId,
+          plan,
+          payment,
+          SUI_CLOCK_OBJECT_ID,
+        ]);
+
+        tx.transferObjects([subscription], this.client.getAddress());
+      }, this.client);
+
+      const subscriptionChange = result.objectChanges.find(change =>
+        change.type === 'created' && change.objectType?.endsWith(`::${subscriptionMove.MODULE}::Subscription`)
+      );
+
+      if (!subscriptionChange) {
+        throw new Error('Subscription object not found in transaction result');
+      }
+
+      console.log(chalk.green(`✅ Subscription created successfully!`));
+      console.log(chalk.gray(`Subscription ID: ${subscriptionChange.objectId}`));
+
+      return {
+        subscriptionId: subscriptionChange.objectId,
+        plan,
+        feePaid: fee,
+        transactionResult: result,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to create subscription: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Add one period on top of the current expiry
+   */
+  async extendSubscription(subscriptionId: string): Promise<TransactionResult> {
+    try {
+      console.log(chalk.blue(`⏩ Extending subscription: ${subscriptionId}`));
+      return await this.payForPeriod(subscriptionId, subscriptionMove.extend);
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to extend subscription: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Start a fresh period from now (use after the subscription has lapsed)
+   */
+  async renewSubscription(subscriptionId: string): Promise<TransactionResult> {
+    try {
+      console.log(chalk.blue(`🔄 Renewing subscription: ${subscriptionId}`));
+      return await this.payForPeriod(subscriptionId, subscriptionMove.renew);
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to renew subscription: ${error}`));
+      throw error;
+    }
+  }
+
+  async getSubscription(subscriptionId: string): Promise<PlatformSubscription | null> {
+    const objectData = await this.client.getObject(subscriptionId);
+    const fields = (objectData.data as any)?.content?.fields;
+
+    if (!fields) {
+      return null;
+    }
+
+    return this.parseSubscription(subscriptionId, fields);
+  }
+
+  async listSubscriptions(): Promise<PlatformSubscription[]> {
+    try {
+      const ownedObjects = await this.client.getOwnedObjects(
+        subscriptionMove.structType(this.packageId, 'Subscription')
+      );
+
+      return ownedObjects.data
+        .filter(objRef => objRef.data?.objectId && (objRef.data.content as any)?.fields)
+        .map(objRef => this.parseSubscription(objRef.data!.objectId, (objRef.data!.content as any).fields))
+        .sort((a, b) => Number(BigInt(b.expires_ms) - BigInt(a.expires_ms)));
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to list subscriptions: ${error}`));
+      throw error;
+    }
+  }
+
+  isActive(subscription: PlatformSubscription, now: number = Date.now()): boolean {
+    return BigInt(now) < BigInt(subscription.expires_ms);
+  }
+
+  private async payForPeriod(
+    subscriptionId: string,
+    pay: typeof subscriptionMove.extend | typeof subscriptionMove.renew
+  ): Promise<TransactionResult> {
+    const subscription = await this.getSubscription(subscriptionId);
+    if (!subscription) {
+      throw new NotFoundError(`Subscription not found: ${subscriptionId}`);
+    }
+
+    const fee = await this.getPlanFee(subscription.plan);
+    console.log(chalk.gray(`  Plan: ${getPlanName(subscription.plan)} (${mistToSui(fee)} SUI)`));
+
+    const result = await executeTransaction(async (tx) => {
+      const [payment] = tx.splitCoins(tx.getGasCoin(), [fee]);
+
+      pay(tx, this.packageId, [subscriptionId, this.serviceId, payment, SUI_CLOCK_OBJECT_ID]);
+    }, this.client);
+
+    const updated = await this.getSubscription(subscriptionId);
+    if (updated) {
+      console.log(chalk.green(`✅ Subscription now expires ${new Date(Number(updated.expires_ms)).toISOString()}`));
+    }
+
+    return result;
+  }
+
+  private parseSubscription(id: string, fields: any): PlatformSubscription {
+    return {
+      id,
+      holder: fields.holder,
+      plan: Number(fields.plan),
+      expires_ms: String(fields.expires_ms),
+      version: Number(fields.version),
+    };
+  }
+}
+
+// Singleton instance
+let defaultManager: SubscriptionManager | null = null;
+
+export function createSubscriptionManager(client?: import('../utils/client.js').InkraySuiClient): SubscriptionManager {
+  return new SubscriptionManager(client);
+}
+
+export function getDefaultSubscriptionManager(client?: import('../utils/client.js').InkraySuiClient): SubscriptionManager {
+  if (!defaultManager) {
+    defaultManager = new SubscriptionManager(client);
+  }
+  return defaultManager;
+}
+
+// Convenience functions
+export async function createSubscription(
+  plan: SubscriptionPlan,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<SubscriptionResult> {
+  return await getDefaultSubscriptionManager(client).createSubscription(plan);
+}
+
+export async function listSubscriptions(
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<PlatformSubscription[]> {
+  return await getDefaultSubscriptionManager(client).listSubscriptions();
+}
@@ -0,0 +1,63 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import { TreasuryManager } from './treasury.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const ARTICLE = normalizeSuiAddress('0x' + '22'.repeat(32));
+const AUTHOR = normalizeSuiAddress('0x' + '33'.repeat(32));
+
+describe('TreasuryManager.tip', () => {
+  let fake: FakeSuiClient;
+  let client: ReturnType<FakeSuiClient['createInkrayClient']>;
+  let manager: TreasuryManager;
+
+  beforeEach(() => {
+    CONTRACT_ADDRESSES.PACKAGE_ID = PKG;
+    fake = new FakeSuiClient();
+    client = fake.createInkrayClient();
+    manager = new TreasuryManager(client);
+
+    fake.transport.addObject({
+      objectId: PUBLICATION,
+      type: `${PKG}::publication::Publication`,
+      owner: 'shared',
+      fields: { name: 'Inkray Weekly', contributors: [] },
+    });
+  });
+
+  const addArticle = (owner: string) => fake.transport.addObject({
+    objectId: ARTICLE,
+    type: `${PKG}::articles::Article`,
+    owner,
+    fields: { title: 'Hello', publication_id: PUBLICATION },
+  });
+
+  it('tips through tip_article when the sender owns the article', async () => {
+    addArticle(client.getAddress());
+
+    const result = await manager.tip({ articleId: ARTICLE, amount: 0.5 });
+
+    const [call] = fake.lastExecuted().moveCalls;
+    expect(call.target).toBe(`${PKG}::platform_economics::tip_article`);
+    expect(call.arguments.slice(0, 2)).toEqual([
+      { kind: 'object', objectId: ARTICLE },
+      { kind: 'object', objectId: PUBLICATION },
+    ]);
+    expect(result).toMatchObject({ publicationId: PUBLICATION, articleId: ARTICLE, amount: 500_000_000n });
+  });
+
+  it('tips the publication when another address owns the article', async () => {
+    addArticle(AUTHOR);
+
+    const result = await manager.tip({ articleId: ARTICLE, amount: 0.5 });
+
+    const [call] = fake.lastExecuted().moveCalls;
+    expect(call.target).toBe(`${PKG}::platform_economics::tip_publication`);
+    expect(call.arguments[0]).toEqual({ kind: 'object', objectId: PUBLICATION });
+    expect(result.publicationId).toBe(PUBLICATION);
+    expect(result.articleId).toBeUndefined();
+  });
+});
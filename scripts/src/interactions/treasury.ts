@@ -0,0 +1,198 @@
+import { createTransaction, executeTransaction } from '../utils/transactions.js';
+import { getDefaultSuiClient } from '../utils/client.js';
+import { CONTRACT_ADDRESSES, suiToMist, mistToSui } from '../config/constants.js';
+import * as platformEconomics from '../generated/platform_economics.js';
+import { InvalidArgumentError, NotFoundError } from '../utils/errors.js';
+import { contractError } from '../utils/move-errors.js';
+import type { TipOptions, TransactionResult, TreasuryStats } from '../utils/types.js';
+import type { ObjectOwner } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { bcs } from '@mysten/bcs';
+import chalk from 'chalk';
+
+export interface TipResult {
+  publicationId: string;
+  articleId?: string; // Set when the tip was recorded against the article
+  amount: bigint;
+  transactionResult: TransactionResult;
+}
+
+export interface WithdrawResult {
+  amount: bigint | null; // null when withdrawing everything via withdraw_all_tips
+  transactionResult: TransactionResult;
+}
+
+/**
+ * Tipping and tip withdrawal backed by `platform_economics`
+ *
+ * Tips live in the publication's embedded treasury; owners withdraw them with
+ * their PublicationOwnerCap.
+ */
+export class TreasuryManager {
+  private client: import('../utils/client.js').InkraySuiClient;
+  private packageId: string;
+
+  constructor(client?: import('../utils/client.js').InkraySuiClient) {
+    this.client = client || getDefaultSuiClient();
+    this.packageId = CONTRACT_ADDRESSES.PACKAGE_ID;
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first.');
+    }
+  }
+
+  /**
+   * Tip an article (credited to its publication) or a publication directly
+   */
+  async tip(options: TipOptions): Promise<TipResult> {
+    try {
+      if (!options.articleId && !options.publicationId) {
+        throw new InvalidArgumentError('Either an article ID or a publication ID is required');
+      }
+
+      const amount = suiToMist(options.amount);
+      if (amount <= 0n) {
+        throw contractError('platform_economics::E_INVALID_TIP_AMOUNT', 'Tip amount must be greater than zero');
+      }
+
+      const article = options.articleId ? await this.getArticle(options.articleId) : null;
+      const publicationId = article ? article.publicationId : options.publicationId!;
+
+      // tip_article takes the Article by reference, so only its owner can pass it
+      const articleId = article && this.canUseArticle(article.owner) ? options.articleId : undefined;
+      if (options.articleId && !articleId) {
+        console.log(chalk.yellow(`⚠️  Article ${options.articleId} is owned by another address; tipping its publication instead`));
+      }
+
+      console.log(chalk.blue(`💝 Tipping ${mistToSui(amount)} SUI to ${articleId ? `article ${articleId}` : `publication ${publicationId}`}`));
+
+      const result = await executeTransaction(async (tx) => {
+        const [payment] = tx.splitCoins(tx.getGasCoin(), [amount]);
+
+        if (articleId) {
+          platformEconomics.tipArticle(tx, this.packageId, [articleId, publicationId, payment]);
+        } else {
+          platformEconomics.tipPublication(tx, this.packageId, [publicationId, payment]);
+        }
+      }, this.client);
+
+      console.log(chalk.green(`✅ Tip sent!`));
+
+      return {
+        publicationId,
+        articleId,
+        amount,
+        transactionResult: result,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to send tip: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Withdraw tips to the owner; withdraws everything when no amount is given
+   */
+  async withdrawTips(publicationId: string, ownerCapId: string, amountMist?: bigint): Promise<WithdrawResult> {
+    try {
+      console.log(chalk.blue(`💸 Withdrawing ${amountMist !== undefined ? `${mistToSui(amountMist)} SUI` : 'all tips'} from ${publicationId}`));
+
+      const result = await executeTransaction(async (tx) => {
+        const coin = amountMist !== undefined
+          ? platformEconomics.withdrawTips(tx, this.packageId, [ownerCapId, publicationId, amountMist])
+          : platformEconomics.withdrawAllTips(tx, this.packageId, [ownerCapId, publicationId]);
+
+        tx.transferObjects([coin], this.client.getAddress());
+      }, this.client);
+
+      console.log(chalk.green(`✅ Tips withdrawn!`));
+
+      return { amount: amountMist ?? null, transactionResult: result };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to withdraw tips: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Read `platform_economics::get_treasury_stats` via dev inspect
+   */
+  async getTreasuryStats(publicationId: string): Promise<TreasuryStats> {
+    try {
+      const tx = createTransaction(this.client);
+      platformEconomics.getTreasuryStats(tx, this.packageId, [publicationId]);
+
+      const result = await tx.devInspect();
+      const returnValues: [number[], string][] = result.results?.[0]?.returnValues || [];
+
+      if (returnValues.length !== 3) {
+        throw new Error(`Unexpected get_treasury_stats return values: ${returnValues.length}`);
+      }
+
+      const [balance, tipCount, totalAmount] = returnValues.map(([bytes]) =>
+        bcs.u64().parse(Uint8Array.from(bytes))
+      );
+
+      return {
+        publication_id: publicationId,
+        tip_balance: balance,
+        total_tips_received: tipCount,
+        total_amount_received: totalAmount,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to read treasury stats: ${error}`));
+      throw error;
+    }
+  }
+
+  private async getArticle(articleId: string): Promise<{ publicationId: string; owner: ObjectOwner | null }> {
+    const objectData = await this.client.getObject(articleId);
+    const publicationId = (objectData.data as any)?.content?.fields?.publication_id;
+
+    if (!publicationId) {
+      throw new NotFoundError(`Article not found: ${articleId}`);
+    }
+
+    return { publicationId, owner: objectData.data?.owner ?? null };
+  }
+
+  // Shared and immutable articles are readable by anyone; owned ones only by their owner
+  private canUseArticle(owner: ObjectOwner | null): boolean {
+    if (!owner || owner === 'Immutable' || 'Shared' in owner) {
+      return true;
+    }
+    const address = 'AddressOwner' in owner ? owner.AddressOwner
+      : 'ConsensusAddressOwner' in owner ? owner.ConsensusAddressOwner.owner
+      : null; // Wrapped in another object
+    return address !== null && normalizeSuiAddress(address) === normalizeSuiAddress(this.client.getAddress());
+  }
+}
+
+// Singleton instance
+let defaultManager: TreasuryManager | null = null;
+
+export function createTreasuryManager(client?: import('../utils/client.js').InkraySuiClient): TreasuryManager {
+  return new TreasuryManager(client);
+}
+
+export function getDefaultTreasuryManager(client?: import('../utils/client.js').InkraySuiClient): TreasuryManager {
+  if (!defaultManager) {
+    defaultManager = new TreasuryManager(client);
+  }
+  return defaultManager;
+}
+
+// Convenience functions
+export async function tip(
+  options: TipOptions,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<TipResult> {
+  return await getDefaultTreasuryManager(client).tip(options);
+}
+
+export async function getTreasuryStats(
+  publicationId: string,
+  client?: import('../utils/client.js').InkraySuiClient
+): Promise<TreasuryStats> {
+  return await getDefaultTreasuryManager(client).getTreasuryStats(publicationId);
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { blobIdToInt } from '@mysten/walrus';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { EventIndexer } from '../indexer/event-indexer.js';
+import { MemoryIndexStore } from '../indexer/index-store.js';
+import { ArticleManager } from '../interactions/article.js';
+import { PublicationManager } from '../interactions/publication.js';
+import { LocalStorageBackend } from '../storage/local-storage-backend.js';
+import { createDownloadManager } from '../storage/walrus-download.js';
+import { eventType } from '../utils/events.js';
+import { createWalrusClient } from '../utils/walrus-client.js';
+import { InkrayApiServer } from './api-server.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const VAULT = normalizeSuiAddress('0x' + '12'.repeat(32));
+const ARTICLE = normalizeSuiAddress('0x3131abcd' + '31'.repeat(28)); // Slugs end with its first 4 bytes
+const BODY_BLOB = normalizeSuiAddress('0x' + '41'.repeat(32));
+const AUTHOR = normalizeSuiAddress('0x' + '51'.repeat(32));
+const SLUG = 'hello-world-3131abcd';
+
+describe('InkrayApiServer', () => {
+  let fake: FakeSuiClient;
+  let server: InkrayApiServer;
+  let baseUrl: string;
+  let blobId: string;
+
+  beforeEach(async () => {
+    fake = new FakeSuiClient();
+    const client = fake.createInkrayClient();
+    const backend = new LocalStorageBackend();
+    const body = new TextEncoder().encode('# Hello world');
+    ({ blobId } = await backend.writeBlob(body, { epochs: 5, deletable: false, signer: client.getKeypair() }));
+
+    fake.transport.addObject({
+      objectId: PUBLICATION,
+      type: `${PKG}::publication::Publication`,
+      owner: 'shared',
+      fields: { name: 'Weekly', description: 'Notes', owner: AUTHOR, vault_id: VAULT, contributors: [], subscription_price: '0' },
+    });
+    fake.transport.addObject({
+      objectId: ARTICLE,
+      type: `${PKG}::articles::Article`,
+      owner: AUTHOR,
+      fields: {
+        title: 'Hello world', slug: SLUG, author: AUTHOR, publication_id: PUBLICATION, vault_id: VAULT,
+        body_blob_id: BODY_BLOB, gating: { variant: 'Free', fields: {} },
+      },
+    });
+    fake.addEvent({
+      type: eventType('ArticlePosted', PKG),
+      parsedJson: {
+        publication: PUBLICATION, vault: VAULT, article: ARTICLE, author: AUTHOR, title: 'Hello world', slug: SLUG,
+        gating: 0, quilt_id: blobIdToInt(blobId).toString(), quilt_object_id: BODY_BLOB,
+      },
+      timestampMs: 1700000000000,
+    });
+
+    const indexer = new EventIndexer(client, PKG, new MemoryIndexStore());
+    server = new InkrayApiServer({
+      client,
+      publicationManager: new PublicationManager(client),
+      articleManager: new ArticleManager(client, PKG, indexer),
+      downloadManager: createDownloadManager({ walrusClient: createWalrusClient({ suiClient: client, backend }) }),
+      indexer,
+      indexPollIntervalMs: 50,
+    });
+    baseUrl = await server.listen(0);
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const expectedArticle = () => ({
+    id: ARTICLE,
+    publication_id: PUBLICATION,
+    vault_id: VAULT,
+    author: AUTHOR,
+    title: 'Hello world',
+    slug: SLUG,
+    gated: false,
+    body_blob_id: BODY_BLOB,
+    blob_id: blobId,
+    created_at: '1700000000000',
+  });
+
+  it('returns a publication shaped like the Publication type', async () => {
+    const response = await fetch(`${baseUrl}/publications/${PUBLICATION}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(await response.json()).toEqual({
+      id: PUBLICATION,
+      name: 'Weekly',
+      description: 'Notes',
+      owner: AUTHOR,
+      vault_id: VAULT,
+      contributors: [],
+      subscription_price: '0',
+      subscription_balance: '0',
+    });
+  });
+
+  it('lists indexed articles of a publication', async () => {
+    const response = await fetch(`${baseUrl}/publications/${PUBLICATION}/articles`);
+
+    expect(await response.json()).toEqual([expectedArticle()]);
+  });
+
+  it('returns an article by ID or slug', async () => {
+    expect(await (await fetch(`${baseUrl}/articles/${ARTICLE}`)).json()).toEqual(expectedArticle());
+    expect(await (await fetch(`${baseUrl}/articles/by-slug/${SLUG}`)).json()).toEqual(expectedArticle());
+  });
+
+  it('resolves the current slug of a renamed article, not the old one', async () => {
+    fake.transport.updateFields(ARTICLE, { title: 'Renamed', slug: 'renamed-3131abcd' });
+
+    expect((await fetch(`${baseUrl}/articles/by-slug/${SLUG}`)).status).toBe(404);
+
+    const response = await fetch(`${baseUrl}/articles/by-slug/renamed-3131abcd`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ id: ARTICLE, title: 'Renamed', slug: 'renamed-3131abcd' });
+  });
+
+  it('serves blob bytes as immutable', async () => {
+    const response = await fetch(`${baseUrl}/blobs/${blobId}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('cache-control')).toContain('immutable');
+    expect(await response.text()).toBe('# Hello world');
+    expect((await fetch(`${baseUrl}/blobs/unknown-blob`)).status).toBe(404);
+  });
+
+  it('answers 304 when the ETag still matches', async () => {
+    const first = await fetch(`${baseUrl}/publications/${PUBLICATION}`);
+    const etag = first.headers.get('etag')!;
+
+    const second = await fetch(`${baseUrl}/publications/${PUBLICATION}`, { headers: { 'If-None-Match': etag } });
+    expect(second.status).toBe(304);
+
+    fake.transport.updateFields(PUBLICATION, { name: 'Renamed' });
+    const third = await fetch(`${baseUrl}/publications/${PUBLICATION}`, { headers: { 'If-None-Match': etag } });
+    expect(third.status).toBe(200);
+    expect(third.headers.get('etag')).not.toBe(etag);
+  });
+
+  it('rejects bad IDs, unknown routes and writes', async () => {
+    expect((await fetch(`${baseUrl}/publications/not-an-id`)).status).toBe(400);
+    const malformed = await fetch(`${baseUrl}/articles/by-slug/%E0%A4%A`);
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ error: 'Malformed URL' });
+    expect((await fetch(`${baseUrl}/publications/${normalizeSuiAddress('0x99')}`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/unknown`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/publications/${PUBLICATION}`, { method: 'POST' })).status).toBe(405);
+  });
+});
@@ -0,0 +1,305 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { createHash } from 'node:crypto';
+import { isValidSuiObjectId, normalizeSuiAddress } from '@mysten/sui/utils';
+import { blobIdFromInt } from '@mysten/walrus';
+import { getDefaultSuiClient } from '../utils/client.js';
+import { PublicationManager } from '../interactions/publication.js';
+import { ArticleManager } from '../interactions/article.js';
+import { WalrusDownloadManager, createDownloadManager } from '../storage/walrus-download.js';
+import { createWalrusClient } from '../utils/walrus-client.js';
+import { EventIndexer } from '../indexer/event-indexer.js';
+import { BlobNotFoundError } from '../utils/errors.js';
+import type { IndexedArticle } from '../indexer/index-store.js';
+import type { Article } from '../utils/types.js';
+import chalk from 'chalk';
+
+export const DEFAULT_API_PORT = 8787;
+
+export interface ApiServerOptions {
+  client?: import('../utils/client.js').InkraySuiClient;
+  publicationManager?: PublicationManager;
+  articleManager?: ArticleManager;
+  downloadManager?: WalrusDownloadManager;
+  indexer?: EventIndexer;
+  maxAgeSeconds?: number; // Cache-Control max-age of JSON responses (default: 30)
+  corsOrigin?: string; // Access-Control-Allow-Origin (default: *)
+  indexPollIntervalMs?: number; // How often the index is synced while listening (default: 5000)
+}
+
+interface ApiResponse {
+  status: number;
+  body: unknown; // Serialized as JSON unless it is a Uint8Array
+  contentType?: string;
+  cacheControl?: string;
+}
+
+type RouteHandler = (params: string[]) => Promise<ApiResponse>;
+
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function decodeParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    throw new ApiError(400, 'Malformed URL');
+  }
+}
+
+/**
+ * Read-only HTTP API over the SDK, for web clients without a Sui SDK
+ *
+ *   GET /publications/:id            Publication
+ *   GET /publications/:id/articles   Article[] (from the event index)
+ *   GET /articles/:id                Article
+ *   GET /articles/by-slug/:slug      Article
+ *   GET /blobs/:blobId               raw Walrus blob (gated bodies stay encrypted)
+ *
+ * Every response carries an ETag of its body; requests with a matching
+ * If-None-Match get 304. Blobs are content-addressed and cached as immutable.
+ * The event index is synced before listening and then in the background, so
+ * article lists can lag the chain by one poll interval.
+ */
+export class InkrayApiServer {
+  readonly server: Server;
+  private publicationManager: PublicationManager;
+  private articleManager: ArticleManager;
+  private downloadManager: WalrusDownloadManager;
+  private indexer: EventIndexer;
+  private maxAgeSeconds: number;
+  private corsOrigin: string;
+  private indexPollIntervalMs: number;
+  private stopIndexer: (() => void) | null = null;
+  private routes: [RegExp, RouteHandler][];
+
+  constructor(options: ApiServerOptions = {}) {
+    const client = options.client || getDefaultSuiClient();
+
+    this.publicationManager = options.publicationManager || new PublicationManager(client);
+    this.indexer = options.indexer || new EventIndexer(client);
+    this.articleManager = options.articleManager || new ArticleManager(client, undefined, this.indexer);
+    this.downloadManager = options.downloadManager || createDownloadManager({
+      walrusClient: createWalrusClient({ suiClient: client }),
+    });
+    this.maxAgeSeconds = options.maxAgeSeconds ?? 30;
+    this.corsOrigin = options.corsOrigin || '*';
+    this.indexPollIntervalMs = options.indexPollIntervalMs || 5000;
+
+    this.routes = [
+      [/^\/publications\/([^/]+)$/, ([id]) => this.getPublication(id)],
+      [/^\/publications\/([^/]+)\/articles$/, ([id]) => this.getPublicationArticles(id)],
+      [/^\/articles\/by-slug\/([^/]+)$/, ([slug]) => this.getArticleBySlug(slug)],
+      [/^\/articles\/([^/]+)$/, ([id]) => this.getArticle(id)],
+      [/^\/blobs\/([^/]+)$/, ([blobId]) => this.getBlob(blobId)],
+    ];
+
+    this.server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+  }
+
+  /**
+   * Sync the event index, start tailing it and accept requests; resolves to the base URL
+   */
+  async listen(port: number = DEFAULT_API_PORT, host: string = '127.0.0.1'): Promise<string> {
+    await this.indexer.sync();
+    this.stopIndexer = this.indexer.start({ pollIntervalMs: this.indexPollIntervalMs });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const address = this.server.address() as AddressInfo;
+    const url = `http://${host}:${address.port}`;
+    console.log(chalk.green(`✅ API listening on ${url}`));
+    return url;
+  }
+
+  async close(): Promise<void> {
+    this.stopIndexer?.();
+    this.stopIndexer = null;
+
+    if (!this.server.listening) {
+      return;
+    }
+    await new Promise<void>((resolve, reject) => {
+      this.server.close(error => error ? reject(error) : resolve());
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    res.setHeader('Access-Control-Allow-Origin', this.corsOrigin);
+
+    let response: ApiResponse;
+    try {
+      response = await this.route(req);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        response = { status: error.status, body: { error: error.message }, cacheControl: 'no-store' };
+      } else {
+        console.error(chalk.red(`❌ ${req.method} ${req.url} failed: ${error}`));
+        response = { status: 500, body: { error: 'Internal server error' }, cacheControl: 'no-store' };
+      }
+    }
+
+    this.send(req, res, response);
+  }
+
+  private async route(req: IncomingMessage): Promise<ApiResponse> {
+    if (req.method === 'OPTIONS') {
+      return { status: 204, body: null };
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      throw new ApiError(405, `Method not allowed: ${req.method}`);
+    }
+
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname.replace(/\/+$/, '');
+    for (const [pattern, handler] of this.routes) {
+      const match = pattern.exec(pathname);
+      if (match) {
+        return await handler(match.slice(1).map(param => decodeParam(param)));
+      }
+    }
+
+    throw new ApiError(404, `Not found: ${pathname || '/'}`);
+  }
+
+  private send(req: IncomingMessage, res: ServerResponse, response: ApiResponse): void {
+    if (response.status === 204) {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+        'Access-Control-Allow-Headers': 'If-None-Match',
+      });
+      res.end();
+      return;
+    }
+
+    const isBinary = response.body instanceof Uint8Array;
+    const body = isBinary ? response.body as Uint8Array : Buffer.from(JSON.stringify(response.body));
+    const etag = `"${createHash('sha256').update(body).digest('base64url')}"`;
+
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', response.cacheControl || `public, max-age=${this.maxAgeSeconds}`);
+    res.setHeader('Access-Control-Expose-Headers', 'ETag');
+
+    if (response.status === 200 && matchesEtag(req.headers['if-none-match'], etag)) {
+      res.writeHead(304);
+      res.end();
+      return;
+    }
+
+    res.writeHead(response.status, {
+      'Content-Type': response.contentType || (isBinary ? 'application/octet-stream' : 'application/json; charset=utf-8'),
+      'Content-Length': body.length,
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  }
+
+  // Routes
+
+  private async getPublication(id: string): Promise<ApiResponse> {
+    const publication = await this.publicationManager.getPublication(parseObjectId(id));
+    if (!publication) {
+      throw new ApiError(404, `Publication not found: ${id}`);
+    }
+    return { status: 200, body: publication };
+  }
+
+  private async getPublicationArticles(id: string): Promise<ApiResponse> {
+    const articles = await this.indexer.getArticlesByPublication(parseObjectId(id));
+    return { status: 200, body: articles.map(indexed => toIndexedArticle(indexed)) };
+  }
+
+  private async getArticle(id: string): Promise<ApiResponse> {
+    const articleId = parseObjectId(id);
+    const article = await this.articleManager.getArticle(articleId);
+    if (!article) {
+      throw new ApiError(404, `Article not found: ${id}`);
+    }
+    return { status: 200, body: toArticle(article, await this.indexer.getArticle(articleId)) };
+  }
+
+  private async getArticleBySlug(slug: string): Promise<ApiResponse> {
+    const article = await this.articleManager.getArticleBySlug(slug);
+    if (!article) {
+      throw new ApiError(404, `Article not found: ${slug}`);
+    }
+    return { status: 200, body: toArticle(article, await this.indexer.getArticle(article.id)) };
+  }
+
+  private async getBlob(blobId: string): Promise<ApiResponse> {
+    try {
+      const result = await this.downloadManager.downloadBlob(blobId);
+      return {
+        status: 200,
+        body: result.data!,
+        contentType: result.contentType,
+        cacheControl: 'public, max-age=31536000, immutable',
+      };
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) {
+        throw new ApiError(404, `Blob not found: ${blobId}`);
+      }
+      throw new ApiError(502, `Blob download failed: ${blobId}`);
+    }
+  }
+}
+
+function parseObjectId(id: string): string {
+  if (!isValidSuiObjectId(id)) {
+    throw new ApiError(400, `Invalid object ID: ${id}`);
+  }
+  return normalizeSuiAddress(id);
+}
+
+function matchesEtag(header: string | undefined, etag: string): boolean {
+  if (!header) {
+    return false;
+  }
+  return header.split(',').map(tag => tag.trim().replace(/^W\//, '')).some(tag => tag === etag || tag === '*');
+}
+
+/**
+ * Article from the object (current title and slug) plus what only the ArticlePosted event has
+ */
+function toArticle(article: any, indexed: IndexedArticle | null): Article {
+  return {
+    id: article.id,
+    publication_id: article.publication_id,
+    vault_id: article.vault_id,
+    author: article.author,
+    title: article.title,
+    slug: article.slug,
+    gated: article.gating?.variant === 'Gated',
+    body_blob_id: article.body_blob_id,
+    blob_id: indexed ? blobIdFromInt(indexed.quilt_id) : null,
+    created_at: indexed?.posted_at ?? null,
+  };
+}
+
+function toIndexedArticle(indexed: IndexedArticle): Article {
+  return {
+    id: indexed.id,
+    publication_id: indexed.publication_id,
+    vault_id: indexed.vault_id,
+    author: indexed.author,
+    title: indexed.title,
+    slug: indexed.slug,
+    gated: indexed.gated,
+    body_blob_id: indexed.quilt_object_id,
+    blob_id: blobIdFromInt(indexed.quilt_id),
+    created_at: indexed.posted_at,
+  };
+}
+
+export function createApiServer(options?: ApiServerOptions): InkrayApiServer {
+  return new InkrayApiServer(options);
+}
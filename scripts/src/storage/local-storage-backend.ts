@@ -0,0 +1,221 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { blobIdToInt } from '@mysten/walrus';
+import type { WalrusBlob, WalrusUploadResponse } from '../utils/types.js';
+import { BlobNotFoundError } from '../utils/errors.js';
+import type { StorageBackend, StorageFile, StorageWriteOptions } from './storage-backend.js';
+
+export interface LocalStorageBackendOptions {
+  directory?: string; // Persist blobs here; in-memory only when omitted
+  epochDurationMs?: number; // Length of a fake epoch (default: 1 day, as on testnet)
+  maxEpochsAhead?: number; // Longest storage period accepted (default: 53, as on Walrus)
+  now?: () => number;
+}
+
+interface LocalBlobRecord {
+  blobId: string;
+  objectId: string; // Fake Blob object
+  storageId: string; // Fake Storage resource
+  size: number;
+  registeredEpoch: number;
+  endEpoch: number; // Readable while currentEpoch < endEpoch
+  deletable: boolean;
+  owner: string;
+}
+
+interface LocalStorageState {
+  genesisMs: number; // Start of epoch 1
+  blobs: Record<string, LocalBlobRecord>;
+}
+
+/**
+ * Offline Walrus stand-in
+ *
+ * Blob IDs are derived from the content (SHA-256 as a u256), so uploading the
+ * same bytes twice yields the same ID, as on Walrus. Each upload gets a fresh
+ * fake Blob object; epochs advance with the clock (or `advanceEpochs`) and
+ * reads fail once a blob's storage has ended. With a directory, blobs and
+ * state survive between CLI runs:
+ *
+ *   <directory>/state.json
+ *   <directory>/blobs/<blobId>
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly kind: 'memory' | 'filesystem';
+  private directory: string | null;
+  private epochDurationMs: number;
+  private maxEpochsAhead: number;
+  private now: () => number;
+  private state: LocalStorageState;
+  private contents = new Map<string, Uint8Array>();
+
+  constructor(options?: LocalStorageBackendOptions) {
+    this.directory = options?.directory || null;
+    this.kind = this.directory ? 'filesystem' : 'memory';
+    this.epochDurationMs = options?.epochDurationMs || 24 * 60 * 60 * 1000;
+    this.maxEpochsAhead = options?.maxEpochsAhead || 53;
+    this.now = options?.now || Date.now;
+    this.state = this.loadState();
+  }
+
+  getCurrentEpoch(): number {
+    return 1 + Math.floor((this.now() - this.state.genesisMs) / this.epochDurationMs);
+  }
+
+  /**
+   * Move the clock forward, e.g. to let stored blobs expire
+   */
+  advanceEpochs(epochs: number): void {
+    this.state.genesisMs -= epochs * this.epochDurationMs;
+    this.saveState();
+  }
+
+  /**
+   * Fake on-chain Blob object for a stored blob, or null when unknown
+   */
+  getBlobObject(blobId: string): WalrusUploadResponse['blobObject'] | null {
+    const record = this.state.blobs[blobId];
+    return record ? this.toBlobObject(record) : null;
+  }
+
+  async writeBlob(blob: Uint8Array, options: StorageWriteOptions): Promise<WalrusUploadResponse> {
+    if (!Number.isInteger(options.epochs) || options.epochs < 1 || options.epochs > this.maxEpochsAhead) {
+      throw new Error(`Invalid storage epochs: ${options.epochs} (must be between 1 and ${this.maxEpochsAhead})`);
+    }
+    if (blob.length === 0) {
+      throw new Error('Cannot store an empty blob');
+    }
+
+    const blobId = toBlobId(createHash('sha256').update(blob).digest());
+    const currentEpoch = this.getCurrentEpoch();
+    const existing = this.state.blobs[blobId];
+
+    const record: LocalBlobRecord = {
+      blobId,
+      objectId: randomObjectId(),
+      storageId: randomObjectId(),
+      size: blob.length,
+      registeredEpoch: currentEpoch,
+      endEpoch: Math.max(currentEpoch + options.epochs, existing?.endEpoch || 0),
+      deletable: options.deletable,
+      owner: options.signer.toSuiAddress(),
+    };
+
+    this.state.blobs[blobId] = record;
+    this.contents.set(blobId, Uint8Array.from(blob));
+    if (this.directory) {
+      mkdirSync(path.join(this.directory, 'blobs'), { recursive: true });
+      writeFileSync(this.blobPath(blobId), blob);
+    }
+    this.saveState();
+
+    return {
+      blobId,
+      blobObject: this.toBlobObject(record),
+      resourceOperation: {
+        RegisteredFromScratch: { encoded_size: encodedSize(blob.length), epochs_ahead: options.epochs },
+      },
+    };
+  }
+
+  async writeFiles(files: StorageFile[], options: StorageWriteOptions): Promise<WalrusUploadResponse[]> {
+    const results: WalrusUploadResponse[] = [];
+    for (const file of files) {
+      results.push(await this.writeBlob(file.contents, options));
+    }
+    return results;
+  }
+
+  async readBlob(blobId: string): Promise<Uint8Array> {
+    const record = this.state.blobs[blobId];
+    if (!record) {
+      throw new BlobNotFoundError(`Blob not found: ${blobId}`);
+    }
+
+    const currentEpoch = this.getCurrentEpoch();
+    if (currentEpoch >= record.endEpoch) {
+      throw new BlobNotFoundError(`Blob ${blobId} expired at epoch ${record.endEpoch} (current epoch ${currentEpoch})`, {
+        fix: 'Expired blobs cannot be read back; upload the content again',
+      });
+    }
+
+    let content = this.contents.get(blobId);
+    if (!content && this.directory && existsSync(this.blobPath(blobId))) {
+      content = new Uint8Array(readFileSync(this.blobPath(blobId)));
+      this.contents.set(blobId, content);
+    }
+    if (!content) {
+      throw new BlobNotFoundError(`Blob not found: ${blobId}`);
+    }
+
+    return Uint8Array.from(content);
+  }
+
+  async readBlobs(blobIds: string[]): Promise<Uint8Array[]> {
+    return await Promise.all(blobIds.map(blobId => this.readBlob(blobId)));
+  }
+
+  async getBlobInfo(blobId: string): Promise<WalrusBlob | null> {
+    const record = this.state.blobs[blobId];
+    if (!record || this.getCurrentEpoch() >= record.endEpoch) {
+      return null;
+    }
+    return { blobId, size: record.size, storageEndEpoch: record.endEpoch };
+  }
+
+  private toBlobObject(record: LocalBlobRecord): WalrusUploadResponse['blobObject'] {
+    return {
+      id: { id: record.objectId },
+      registered_epoch: record.registeredEpoch,
+      blob_id: blobIdToInt(record.blobId).toString(),
+      size: String(record.size),
+      encoding_type: 1, // RS2
+      certified_epoch: record.registeredEpoch,
+      storage: {
+        id: { id: record.storageId },
+        start_epoch: record.registeredEpoch,
+        end_epoch: record.endEpoch,
+        storage_size: String(encodedSize(record.size)),
+      },
+      deletable: record.deletable,
+    };
+  }
+
+  private blobPath(blobId: string): string {
+    return path.join(this.directory!, 'blobs', blobId);
+  }
+
+  private loadState(): LocalStorageState {
+    if (this.directory && existsSync(path.join(this.directory, 'state.json'))) {
+      return JSON.parse(readFileSync(path.join(this.directory, 'state.json'), 'utf8'));
+    }
+    return { genesisMs: this.now(), blobs: {} };
+  }
+
+  private saveState(): void {
+    if (!this.directory) {
+      return;
+    }
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(path.join(this.directory, 'state.json'), JSON.stringify(this.state, null, 2));
+  }
+}
+
+/**
+ * Walrus blob IDs are a u256 in URL-safe base64 without padding
+ */
+function toBlobId(digest: Uint8Array): string {
+  return Buffer.from(digest).toString('base64').replace(/=*$/, '').replaceAll('+', '-').replaceAll('/', '_');
+}
+
+function randomObjectId(): string {
+  return '0x' + randomBytes(32).toString('hex');
+}
+
+/**
+ * Rough size after erasure coding, for the storage_size field only
+ */
+function encodedSize(size: number): number {
+  return size * 5;
+}
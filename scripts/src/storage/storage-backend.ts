@@ -0,0 +1,154 @@
+import { BlobNotCertifiedError, WalrusClient, WalrusFile } from '@mysten/walrus';
+import type { SuiClient } from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import type { RequestInfo, RequestInit } from 'undici';
+import { Agent, fetch } from 'undici';
+import os from 'os';
+import path from 'path';
+import type { WalrusBlob, WalrusUploadResponse } from '../utils/types.js';
+import { BlobNotFoundError } from '../utils/errors.js';
+import { LocalStorageBackend } from './local-storage-backend.js';
+
+/**
+ * Blob storage behind InkrayWalrusClient
+ *
+ * `walrus` talks to the Walrus network and spends WAL; `memory` and
+ * `filesystem` are offline stand-ins with the same responses (content-derived
+ * blob IDs, blob objects, epochs and expiry) for tests and demos.
+ */
+export type StorageBackendKind = 'walrus' | 'memory' | 'filesystem';
+
+export const DEFAULT_LOCAL_STORAGE_DIR = path.join(os.homedir(), '.inkray', 'walrus-local');
+
+export interface StorageWriteOptions {
+  epochs: number;
+  deletable: boolean;
+  signer: Signer;
+}
+
+export interface StorageFile {
+  contents: Uint8Array;
+  identifier: string; // File name
+}
+
+export interface StorageBackend {
+  readonly kind: StorageBackendKind;
+  writeBlob(blob: Uint8Array, options: StorageWriteOptions): Promise<WalrusUploadResponse>;
+  writeFiles(files: StorageFile[], options: StorageWriteOptions): Promise<WalrusUploadResponse[]>;
+  readBlob(blobId: string): Promise<Uint8Array>; // Throws when missing or expired
+  readBlobs(blobIds: string[]): Promise<Uint8Array[]>;
+  getBlobInfo(blobId: string): Promise<WalrusBlob | null>;
+}
+
+/**
+ * The Walrus network, through @mysten/walrus
+ */
+export class WalrusStorageBackend implements StorageBackend {
+  readonly kind = 'walrus' as const;
+  private client: WalrusClient;
+
+  constructor(network: 'testnet' | 'mainnet', suiClient: SuiClient) {
+    this.client = new WalrusClient({
+      network,
+      suiClient,
+      storageNodeClientOptions: {
+        timeout: 60_000 * 2,
+        fetch: (url, init) => {
+          // Some casting may be required because undici types may not exactly match the @node/types types
+          return fetch(url as RequestInfo, {
+            ...(init as RequestInit),
+            dispatcher: new Agent({
+              connectTimeout: 60_000 * 2,
+            }),
+          }) as unknown as Promise<Response>;
+        },
+      },
+    });
+  }
+
+  getClient(): WalrusClient {
+    return this.client;
+  }
+
+  async writeBlob(blob: Uint8Array, options: StorageWriteOptions): Promise<WalrusUploadResponse> {
+    const result = await this.client.writeBlob({ blob, ...options });
+
+    if (!result) {
+      throw new Error('Upload failed: No result returned');
+    }
+
+    return result as WalrusUploadResponse;
+  }
+
+  async writeFiles(files: StorageFile[], options: StorageWriteOptions): Promise<WalrusUploadResponse[]> {
+    const walrusFiles = files.map(file => WalrusFile.from({ contents: file.contents, identifier: file.identifier }));
+    const results = await this.client.writeFiles({ files: walrusFiles, ...options });
+    return results as WalrusUploadResponse[];
+  }
+
+  async readBlob(blobId: string): Promise<Uint8Array> {
+    const [content] = await this.readBlobs([blobId]);
+    return content;
+  }
+
+  async readBlobs(blobIds: string[]): Promise<Uint8Array[]> {
+    const files = await this.client.getFiles({ ids: blobIds }).catch(error => {
+      // Walrus reports unknown and expired blobs as not certified
+      if (error instanceof BlobNotCertifiedError) {
+        throw new BlobNotFoundError(`Blob not found: ${blobIds.join(', ')}`, { cause: error });
+      }
+      throw error;
+    });
+
+    if (!files || files.length < blobIds.length) {
+      throw new BlobNotFoundError(`Blob not found: ${blobIds[files?.length || 0]}`);
+    }
+
+    return await Promise.all(files.map(file => file.bytes()));
+  }
+
+  async getBlobInfo(blobId: string): Promise<WalrusBlob | null> {
+    const files = await this.client.getFiles({ ids: [blobId] });
+
+    if (!files || files.length === 0) {
+      return null;
+    }
+
+    return {
+      blobId,
+      size: (files[0] as any).size || 0,
+      storageEndEpoch: 0, // This would need to be retrieved from the blob object
+    };
+  }
+}
+
+// Local backends are shared per process so separate clients see the same blobs
+const localBackends = new Map<string, LocalStorageBackend>();
+
+/**
+ * Backend selected by WALRUS_BACKEND ("walrus", "memory" or "filesystem";
+ * default "walrus"). The filesystem store lives in WALRUS_LOCAL_DIR or
+ * ~/.inkray/walrus-local.
+ */
+export function getStorageBackendFromEnv(
+  network: 'testnet' | 'mainnet',
+  suiClient: SuiClient
+): StorageBackend {
+  const kind = (process.env.WALRUS_BACKEND || 'walrus') as StorageBackendKind;
+
+  switch (kind) {
+    case 'walrus':
+      return new WalrusStorageBackend(network, suiClient);
+    case 'memory':
+    case 'filesystem': {
+      const directory = kind === 'filesystem' ? process.env.WALRUS_LOCAL_DIR || DEFAULT_LOCAL_STORAGE_DIR : undefined;
+      const cacheKey = directory || 'memory';
+      if (!localBackends.has(cacheKey)) {
+        localBackends.set(cacheKey, new LocalStorageBackend({ directory }));
+      }
+      return localBackends.get(cacheKey)!;
+    }
+    default:
+      throw new Error(`Unknown WALRUS_BACKEND: ${kind} (expected walrus, memory or filesystem)`);
+  }
+}
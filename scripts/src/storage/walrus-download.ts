@@ -20,7 +20,13 @@ export interface DownloadResult {
 }
 
 export class WalrusDownloadManager {
-  private walrusClient = getDefaultWalrusClient();
+  private walrusClient: import('../utils/walrus-client.js').InkrayWalrusClient;
+
+  constructor(options?: {
+    walrusClient?: import('../utils/walrus-client.js').InkrayWalrusClient;
+  }) {
+    this.walrusClient = options?.walrusClient || getDefaultWalrusClient();
+  }
 
   async downloadBlob(
     blobId: string, 
@@ -340,8 +346,10 @@ export class WalrusDownloadManager {
 // Singleton instance
 let defaultDownloadManager: WalrusDownloadManager | null = null;
 
-export function createDownloadManager(): WalrusDownloadManager {
-  return new WalrusDownloadManager();
+export function createDownloadManager(options?: {
+  walrusClient?: import('../utils/walrus-client.js').InkrayWalrusClient;
+}): WalrusDownloadManager {
+  return new WalrusDownloadManager(options);
 }
 
 export function getDefaultDownloadManager(): WalrusDownloadManager {
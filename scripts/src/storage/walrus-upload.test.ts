@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from '@jest/globals';
+import { blobIdFromInt } from '@mysten/walrus';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { createWalrusClient, type InkrayWalrusClient } from '../utils/walrus-client.js';
+import type { WalrusUploadResponse } from '../utils/types.js';
+import { BlobNotFoundError } from '../utils/errors.js';
+import { LocalStorageBackend } from './local-storage-backend.js';
+import { WalrusUploadManager } from './walrus-upload.js';
+
+describe('WalrusUploadManager', () => {
+  let backend: LocalStorageBackend;
+  let manager: WalrusUploadManager;
+
+  beforeEach(() => {
+    const suiClient = new FakeSuiClient().createInkrayClient();
+    backend = new LocalStorageBackend();
+    manager = new WalrusUploadManager({
+      walrusClient: createWalrusClient({ suiClient, backend }),
+      suiClient,
+    });
+  });
+
+  it('maps the blob object of an upload into the result', async () => {
+    const data = new TextEncoder().encode('# Hello Walrus');
+
+    const result = await manager.uploadBuffer(data, 'hello.md', { epochs: 3 });
+
+    const blobObject = backend.getBlobObject(result.blobId)!;
+    expect(result).toEqual({
+      blobId: result.blobId,
+      blobObjectId: blobObject.id.id,
+      size: data.length,
+      storageEndEpoch: backend.getCurrentEpoch() + 3,
+      uploadUrl: `walrus://${result.blobId}`,
+    });
+    // The Move blob_id field is the same ID as a u256
+    expect(blobIdFromInt(BigInt(blobObject.blob_id))).toBe(result.blobId);
+  });
+
+  it('gives identical content the same blob ID but a new blob object', async () => {
+    const data = new TextEncoder().encode('same bytes');
+
+    const first = await manager.uploadBuffer(data, 'a.txt');
+    const second = await manager.uploadBuffer(data, 'b.txt');
+
+    expect(second.blobId).toBe(first.blobId);
+    expect(second.blobObjectId).not.toBe(first.blobObjectId);
+  });
+
+  it('reads the top-level blob ID and parses string sizes from a Walrus response', async () => {
+    const response: WalrusUploadResponse = {
+      blobId: 'top-level-id',
+      blobObject: {
+        id: { id: '0xb10b' },
+        registered_epoch: 10,
+        blob_id: '12345',
+        size: '2048',
+        encoding_type: 1,
+        certified_epoch: 10,
+        storage: { id: { id: '0x5707' }, start_epoch: 10, end_epoch: 15, storage_size: '10240' },
+        deletable: false,
+      },
+    };
+    const walrusClient = { uploadBuffer: async () => response } as unknown as InkrayWalrusClient;
+
+    const result = await new WalrusUploadManager({ walrusClient, suiClient: {} as any })
+      .uploadBuffer(new Uint8Array([1]), 'raw.bin');
+
+    expect(result).toEqual({
+      blobId: 'top-level-id',
+      blobObjectId: '0xb10b',
+      size: 2048,
+      storageEndEpoch: 15,
+      uploadUrl: 'walrus://top-level-id',
+    });
+  });
+
+  it('reports epoch 0 when the response has no storage resource', async () => {
+    const response: WalrusUploadResponse = {
+      blobId: 'no-storage',
+      blobObject: {
+        id: { id: '0xb10b' },
+        registered_epoch: 10,
+        blob_id: '1',
+        size: '1',
+        encoding_type: 1,
+        certified_epoch: null,
+        storage: null,
+        deletable: true,
+      },
+    };
+    const walrusClient = { uploadBuffer: async () => response } as unknown as InkrayWalrusClient;
+
+    const result = await new WalrusUploadManager({ walrusClient, suiClient: {} as any })
+      .uploadBuffer(new Uint8Array([1]), 'raw.bin');
+
+    expect(result.storageEndEpoch).toBe(0);
+  });
+
+  it('uploads content that can be read back until its storage expires', async () => {
+    const data = new TextEncoder().encode('short-lived');
+    const { blobId } = await manager.uploadBuffer(data, 'tmp.txt', { epochs: 1 });
+
+    expect(await backend.readBlob(blobId)).toEqual(data);
+
+    backend.advanceEpochs(1);
+    await expect(backend.readBlob(blobId)).rejects.toThrow('expired');
+    await expect(backend.readBlob(blobId)).rejects.toBeInstanceOf(BlobNotFoundError);
+  });
+});
@@ -0,0 +1,473 @@
+import {
+  SuiClient,
+  type CoinBalance,
+  type PaginatedCoins,
+  type DryRunTransactionBlockResponse,
+  type GasCostSummary,
+  type PaginatedEvents,
+  type QueryEventsParams,
+  type SuiEvent,
+  type SuiObjectChange,
+  type SuiTransactionBlockResponse,
+} from '@mysten/sui/client';
+import type { Signer } from '@mysten/sui/cryptography';
+import { Inputs, Transaction, TransactionDataBuilder, type TransactionPlugin } from '@mysten/sui/transactions';
+import { fromBase64, normalizeSuiAddress, SUI_TYPE_ARG, toBase58 } from '@mysten/sui/utils';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { bcs } from '@mysten/sui/bcs';
+import { createHash, randomBytes } from 'node:crypto';
+import { InkraySuiClient } from '../utils/client.js';
+import { MockSuiTransport } from './mock-sui-transport.js';
+
+export type FakeArgument =
+  | { kind: 'object'; objectId: string }
+  | { kind: 'pure'; bytes: Uint8Array }
+  | { kind: 'result'; index: number; nested?: number }
+  | { kind: 'gas' };
+
+export interface FakeMoveCall {
+  target: string; // package::module::function
+  typeArguments: string[];
+  arguments: FakeArgument[];
+}
+
+export type FakeCommand =
+  | { kind: 'moveCall'; call: FakeMoveCall }
+  | { kind: 'transferObjects'; objects: FakeArgument[]; address: FakeArgument }
+  | { kind: 'splitCoins'; coin: FakeArgument; amounts: FakeArgument[] }
+  | { kind: 'mergeCoins'; destination: FakeArgument; sources: FakeArgument[] }
+  | { kind: 'other'; name: string };
+
+export interface ExecutedTransaction {
+  digest: string;
+  sender: string;
+  commands: FakeCommand[];
+  moveCalls: FakeMoveCall[];
+  transaction: Transaction;
+}
+
+export interface FakeCreatedObject {
+  type: string;
+  owner?: string | 'shared'; // Defaults to the sender
+  fields?: Record<string, any>; // Readable afterwards through getObject
+}
+
+export interface FakeEmittedEvent {
+  type: string;
+  parsedJson: Record<string, any>;
+}
+
+export interface FakeExecution {
+  created?: FakeCreatedObject[];
+  events?: FakeEmittedEvent[];
+  error?: string; // Fail the transaction with this Move abort message
+}
+
+export type FakeExecutionHandler = (tx: ExecutedTransaction) => FakeExecution | void;
+
+export type FakeSubmissionFailure =
+  | { network: true; landed?: boolean } // The request fails in transit, optionally after the transaction executed
+  | { staleObject: string } // Validators reject the object's version; it moves on to the next one
+  | { error: Error };
+
+export interface FakeGasCoin {
+  objectId: string;
+  version: string;
+  digest: string;
+  balance: bigint;
+}
+
+/**
+ * SuiClient stand-in for unit tests
+ *
+ * Object reads are served from a MockSuiTransport registry. Transactions are
+ * not checked on-chain: `executeTransactionBlock` (signed bytes) and
+ * `signAndExecuteTransaction` record the PTB (sender and decoded commands) and
+ * answer with whatever the registered handler returns, adding created objects
+ * to the registry and emitted events to the event log that `queryEvents` reads.
+ *
+ * Gas estimation works offline too: transactions build against stand-in
+ * object refs, dry runs report `gasUsed` (and the SUI split from gas as spent)
+ * or the handler's Move abort,
+ * and the wallet holds `balance` in `gasCoins` at `referenceGasPrice`.
+ * `failSubmissions` makes the next submissions fail the way the RPC does.
+ */
+export class FakeSuiClient extends SuiClient {
+  readonly transport: MockSuiTransport;
+  readonly executed: ExecutedTransaction[] = [];
+  readonly dryRuns: FakeCommand[][] = [];
+  referenceGasPrice = 1000n;
+  balance = 1_000_000_000_000n; // MIST
+  gasUsed: GasCostSummary = { computationCost: '1000000', storageCost: '2000000', storageRebate: '0', nonRefundableStorageFee: '0' };
+  gasCoins: FakeGasCoin[] = [{ objectId: randomObjectId(), version: '1', digest: randomDigest(), balance: this.balance }];
+  readonly submissions: string[] = []; // Digest of every executeTransactionBlock request
+  private events: SuiEvent[] = [];
+  private handler: FakeExecutionHandler = () => {};
+  private failures: FakeSubmissionFailure[] = [];
+  private versions = new Map<string, string>(); // Owned object versions other than 1
+  private responses = new Map<string, SuiTransactionBlockResponse>();
+
+  constructor(transport: MockSuiTransport = new MockSuiTransport()) {
+    super({ transport });
+    this.transport = transport;
+    this.core.resolveTransactionPlugin = () => this.resolveOffline;
+  }
+
+  /**
+   * Decide the outcome of every following transaction
+   */
+  onExecute(handler: FakeExecutionHandler): void {
+    this.handler = handler;
+  }
+
+  /**
+   * Inkray client that signs as a fresh (or the given) keypair through this fake
+   */
+  createInkrayClient(privateKey: string = new Ed25519Keypair().getSecretKey()): InkraySuiClient {
+    return new InkraySuiClient({ network: 'localnet', privateKey, client: this });
+  }
+
+  lastExecuted(): ExecutedTransaction {
+    const tx = this.executed[this.executed.length - 1];
+    if (!tx) {
+      throw new Error('No transaction executed');
+    }
+    return tx;
+  }
+
+  /**
+   * Add an event to the log as if emitted by an earlier transaction
+   */
+  addEvent(event: FakeEmittedEvent & { sender?: string; timestampMs?: number }): SuiEvent {
+    const digest = randomDigest();
+    const [suiEvent] = this.toSuiEvents(digest, event.sender || normalizeSuiAddress('0x0'), [event], event.timestampMs);
+    this.events.push(suiEvent);
+    return suiEvent;
+  }
+
+  /**
+   * Fail the next executeTransactionBlock requests, in order
+   */
+  failSubmissions(...failures: FakeSubmissionFailure[]): void {
+    this.failures.push(...failures);
+  }
+
+  override async signAndExecuteTransaction(input: {
+    transaction: Uint8Array | Transaction;
+    signer: Signer;
+  }): Promise<SuiTransactionBlockResponse> {
+    if (!(input.transaction instanceof Transaction)) {
+      throw new Error('FakeSuiClient only executes Transaction objects');
+    }
+
+    return this.record(input.transaction, input.signer.toSuiAddress(), randomDigest());
+  }
+
+  override async executeTransactionBlock(input: { transactionBlock: Uint8Array | string }): Promise<SuiTransactionBlockResponse> {
+    const bytes = typeof input.transactionBlock === 'string' ? fromBase64(input.transactionBlock) : input.transactionBlock;
+    const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+    const transaction = Transaction.from(bytes);
+    this.submissions.push(digest);
+
+    const failure = this.failures.shift();
+    if (failure && 'staleObject' in failure) {
+      const objectId = normalizeSuiAddress(failure.staleObject);
+      const current = this.versions.get(objectId) ?? '1';
+      this.versions.set(objectId, String(Number(current) + 1));
+      throw new Error(
+        `Transaction validator signing failed due to issues with transaction inputs: ` +
+        `Object ID ${objectId} Version 0x${Number(current).toString(16)} is not available for consumption, ` +
+        `current version: 0x${(Number(current) + 1).toString(16)}`
+      );
+    }
+    if (failure && 'error' in failure) {
+      throw failure.error;
+    }
+    if (failure && !failure.landed) {
+      throw new TypeError('fetch failed');
+    }
+
+    // The same bytes twice are the same transaction: it only executes once
+    const response = this.responses.get(digest) ?? this.record(transaction, transaction.getData().sender!, digest);
+    if (failure) {
+      throw new TypeError('fetch failed');
+    }
+    return response;
+  }
+
+  override async getTransactionBlock(input: { digest: string }): Promise<SuiTransactionBlockResponse> {
+    const response = this.responses.get(input.digest);
+    if (!response) {
+      throw new Error(`Could not find the referenced transaction [TransactionDigest(${input.digest})].`);
+    }
+    return response;
+  }
+
+  override async getCoins(input: { owner: string; coinType?: string | null }): Promise<PaginatedCoins> {
+    const coinType = input.coinType || SUI_TYPE_ARG;
+    return {
+      data: this.gasCoins.map(coin => ({
+        coinType,
+        coinObjectId: coin.objectId,
+        version: coin.version,
+        digest: coin.digest,
+        balance: String(coin.balance),
+        previousTransaction: randomDigest(),
+      })),
+      nextCursor: null,
+      hasNextPage: false,
+    };
+  }
+
+  private record(transaction: Transaction, sender: string, digest: string): SuiTransactionBlockResponse {
+    const commands = decodeCommands(transaction);
+    const executed: ExecutedTransaction = {
+      digest,
+      sender: normalizeSuiAddress(sender),
+      commands,
+      moveCalls: commands.flatMap(command => command.kind === 'moveCall' ? [command.call] : []),
+      transaction,
+    };
+    this.executed.push(executed);
+
+    const outcome = this.handler(executed) || {};
+    const response = this.respond(executed, outcome);
+    this.responses.set(digest, response);
+    return response;
+  }
+
+  private respond(executed: ExecutedTransaction, outcome: FakeExecution): SuiTransactionBlockResponse {
+    const { digest, sender } = executed;
+    const gasUsed = this.gasUsed;
+
+    if (outcome.error) {
+      return {
+        digest,
+        effects: { status: { status: 'failure', error: outcome.error }, gasUsed } as any,
+        events: [],
+        objectChanges: [],
+        balanceChanges: [],
+      };
+    }
+
+    const objectChanges: SuiObjectChange[] = (outcome.created || []).map(created => {
+      const objectId = randomObjectId();
+      const owner = created.owner || sender;
+      this.transport.addObject({ objectId, type: created.type, owner, fields: created.fields });
+
+      return {
+        type: 'created',
+        sender,
+        owner: owner === 'shared' ? { Shared: { initial_shared_version: '1' } } : { AddressOwner: normalizeSuiAddress(owner) },
+        objectType: created.type,
+        objectId,
+        version: '1',
+        digest: randomDigest(),
+      };
+    });
+
+    const events = this.toSuiEvents(digest, sender, outcome.events || []);
+    this.events.push(...events);
+
+    return {
+      digest,
+      effects: { status: { status: 'success' }, gasUsed } as any,
+      events,
+      objectChanges,
+      balanceChanges: [],
+    };
+  }
+
+  override async getReferenceGasPrice(): Promise<bigint> {
+    return this.referenceGasPrice;
+  }
+
+  override async getBalance(input: { owner: string; coinType?: string | null }): Promise<CoinBalance> {
+    return {
+      coinType: input.coinType || SUI_TYPE_ARG,
+      coinObjectCount: 1,
+      totalBalance: String(this.balance),
+      lockedBalance: {},
+    };
+  }
+
+  override async dryRunTransactionBlock(input: { transactionBlock: Uint8Array | string }): Promise<DryRunTransactionBlockResponse> {
+    const bytes = typeof input.transactionBlock === 'string' ? fromBase64(input.transactionBlock) : input.transactionBlock;
+    const transaction = Transaction.from(bytes);
+    const commands = decodeCommands(transaction);
+    this.dryRuns.push(commands);
+
+    // A node dry-runs the same Move code it would execute, so a queued abort fails here first
+    const outcome = this.handler({
+      digest: TransactionDataBuilder.getDigestFromBytes(bytes),
+      sender: normalizeSuiAddress(transaction.getData().sender!),
+      commands,
+      moveCalls: commands.flatMap(command => command.kind === 'moveCall' ? [command.call] : []),
+      transaction,
+    }) || {};
+    if (outcome.error) {
+      return {
+        effects: { status: { status: 'failure', error: outcome.error }, gasUsed: this.gasUsed },
+        events: [],
+        objectChanges: [],
+        balanceChanges: [],
+        input: {},
+      } as unknown as DryRunTransactionBlockResponse;
+    }
+
+    const splitFromGas = commands.flatMap(command =>
+      command.kind === 'splitCoins' && command.coin.kind === 'gas' ? command.amounts : []
+    ).reduce((total, amount) => total + (amount.kind === 'pure' ? BigInt(bcs.u64().parse(amount.bytes)) : 0n), 0n);
+    const gasCost = BigInt(this.gasUsed.computationCost) + BigInt(this.gasUsed.storageCost) - BigInt(this.gasUsed.storageRebate);
+
+    return {
+      effects: { status: { status: 'success' }, gasUsed: this.gasUsed },
+      events: [],
+      objectChanges: [],
+      balanceChanges: [{
+        owner: { AddressOwner: normalizeSuiAddress(transaction.getData().sender!) },
+        coinType: SUI_TYPE_ARG,
+        amount: String(-(gasCost + splitFromGas)),
+      }],
+      input: {},
+    } as unknown as DryRunTransactionBlockResponse;
+  }
+
+  // Builds resolve objects to stand-in refs (shared when registered as shared) instead of fetching them
+  private resolveOffline: TransactionPlugin = async (data, _options, next) => {
+    for (const [index, input] of data.inputs.entries()) {
+      if (!input.UnresolvedObject) {
+        continue;
+      }
+      const objectId = normalizeSuiAddress(input.UnresolvedObject.objectId);
+      const object = await this.transport.getPolicyObject(objectId);
+      data.inputs[index] = object && object.owner === null
+        ? Inputs.SharedObjectRef({ objectId, initialSharedVersion: '1', mutable: true })
+        : Inputs.ObjectRef({ objectId, version: this.versions.get(objectId) ?? '1', digest: randomDigest() });
+    }
+    data.gasData.price ??= String(this.referenceGasPrice);
+    data.gasData.budget ??= String(this.balance);
+    data.gasData.payment ??= this.gasCoins.slice(0, 1).map(({ objectId, version, digest }) => ({ objectId, version, digest }));
+    await next();
+  };
+
+  override async queryEvents(input: QueryEventsParams): Promise<PaginatedEvents> {
+    const query = input.query as Record<string, any>;
+    const matches = this.events.filter(event => {
+      if ('All' in query) return true;
+      if ('MoveEventType' in query) return event.type === query.MoveEventType;
+      if ('MoveEventModule' in query) {
+        const { package: pkg, module } = query.MoveEventModule;
+        return event.type.startsWith(`${normalizeSuiAddress(pkg)}::${module}::`);
+      }
+      if ('Sender' in query) return event.sender === normalizeSuiAddress(query.Sender);
+      if ('Transaction' in query) return event.id.txDigest === query.Transaction;
+      throw new Error(`Unsupported event filter: ${Object.keys(query).join(', ')}`);
+    });
+
+    const ordered = input.order === 'descending' ? [...matches].reverse() : matches;
+    const start = input.cursor
+      ? ordered.findIndex(event => event.id.txDigest === input.cursor!.txDigest && event.id.eventSeq === input.cursor!.eventSeq) + 1
+      : 0;
+    const limit = input.limit || 50;
+    const data = ordered.slice(start, start + limit);
+    const hasNextPage = start + limit < ordered.length;
+
+    return { data, hasNextPage, nextCursor: data.length > 0 ? data[data.length - 1].id : input.cursor || null };
+  }
+
+  private toSuiEvents(digest: string, sender: string, events: FakeEmittedEvent[], timestampMs: number = Date.now()): SuiEvent[] {
+    return events.map((event, index) => {
+      const [packageId, transactionModule] = event.type.split('::');
+      return {
+        id: { txDigest: digest, eventSeq: String(index) },
+        packageId: normalizeSuiAddress(packageId),
+        transactionModule,
+        sender,
+        type: event.type,
+        parsedJson: event.parsedJson,
+        timestampMs: String(timestampMs),
+        bcs: '',
+        bcsEncoding: 'base64',
+      } as SuiEvent;
+    });
+  }
+}
+
+/**
+ * Flatten a transaction's commands and inputs into plain values for assertions
+ */
+export function decodeCommands(transaction: Transaction): FakeCommand[] {
+  const data = transaction.getData();
+
+  const argument = (arg: any): FakeArgument => {
+    switch (arg.$kind) {
+      case 'GasCoin':
+        return { kind: 'gas' };
+      case 'Result':
+        return { kind: 'result', index: arg.Result };
+      case 'NestedResult':
+        return { kind: 'result', index: arg.NestedResult[0], nested: arg.NestedResult[1] };
+      case 'Input': {
+        const input: any = data.inputs[arg.Input];
+        if (input.Pure) {
+          return { kind: 'pure', bytes: fromBase64(input.Pure.bytes) };
+        }
+        const objectId = input.UnresolvedObject?.objectId
+          || input.Object?.ImmOrOwnedObject?.objectId
+          || input.Object?.SharedObject?.objectId
+          || input.Object?.Receiving?.objectId;
+        if (objectId) {
+          return { kind: 'object', objectId: normalizeSuiAddress(objectId) };
+        }
+        throw new Error(`Unsupported transaction input: ${JSON.stringify(input)}`);
+      }
+      default:
+        throw new Error(`Unsupported transaction argument: ${JSON.stringify(arg)}`);
+    }
+  };
+
+  return data.commands.map((command: any): FakeCommand => {
+    switch (command.$kind) {
+      case 'MoveCall': {
+        const call = command.MoveCall;
+        return {
+          kind: 'moveCall',
+          call: {
+            target: `${call.package}::${call.module}::${call.function}`,
+            typeArguments: call.typeArguments,
+            arguments: call.arguments.map(argument),
+          },
+        };
+      }
+      case 'TransferObjects':
+        return {
+          kind: 'transferObjects',
+          objects: command.TransferObjects.objects.map(argument),
+          address: argument(command.TransferObjects.address),
+        };
+      case 'SplitCoins':
+        return {
+          kind: 'splitCoins',
+          coin: argument(command.SplitCoins.coin),
+          amounts: command.SplitCoins.amounts.map(argument),
+        };
+      case 'MergeCoins':
+        return {
+          kind: 'mergeCoins',
+          destination: argument(command.MergeCoins.destination),
+          sources: command.MergeCoins.sources.map(argument),
+        };
+      default:
+        return { kind: 'other', name: command.$kind };
+    }
+  });
+}
+
+function randomObjectId(): string {
+  return normalizeSuiAddress('0x' + randomBytes(32).toString('hex'));
+}
+
+function randomDigest(): string {
+  return toBase58(createHash('sha256').update(randomBytes(32)).digest());
+}
@@ -0,0 +1,432 @@
+import { bcs } from '@mysten/sui/bcs';
+import { Ed25519PublicKey } from '@mysten/sui/keypairs/ed25519';
+import { verifyPersonalMessageSignature } from '@mysten/sui/verify';
+import { deriveDynamicFieldID, fromBase64, fromHex, normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+import { bls12_381 } from '@noble/curves/bls12-381';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { randomBytes } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import chalk from 'chalk';
+import { InkraySuiClient } from '../utils/client.js';
+import { InkraySealClient } from '../utils/seal-client.js';
+import { SessionKeyManager } from '../utils/session-key-manager.js';
+import { SUI_CLOCK_OBJECT_ID } from '../config/constants.js';
+import type { SealKeyServerConfig } from '../config/networks.js';
+import type { SealClientConfig } from '../utils/types.js';
+import { MockSuiTransport } from './mock-sui-transport.js';
+import { MovePolicyEvaluator, parseApprovalTransaction, type PolicyEvaluator } from './policy-evaluator.js';
+
+/**
+ * In-process Seal key servers for offline integration tests
+ *
+ * Each MockKeyServer speaks the key server HTTP protocol on 127.0.0.1: it checks
+ * the session certificate and request signature, asks a PolicyEvaluator
+ * whether the `seal_approve*` PTB would pass, and returns its IBE key share
+ * ElGamal-encrypted to the request key. MockSealNetwork runs a committee of
+ * them behind a MockSuiTransport that serves their on-chain KeyServer objects,
+ * so the unmodified SealClient encrypts, fetches shares and combines them
+ * against the configured threshold without any network.
+ */
+
+const IBE_DST = new TextEncoder().encode('SUI-SEAL-IBE-BLS12381-00');
+const POP_DST = new TextEncoder().encode('SUI-SEAL-IBE-BLS12381-POP-00');
+const KEY_SERVER_VERSION = '0.5.0';
+
+// Stands in for the Seal package that owns key_server::KeyServer objects
+const MOCK_SEAL_PACKAGE = normalizeSuiAddress('0x5ea1');
+
+// On-chain layout of seal::key_server, as read by SealClient
+const KeyServer = bcs.struct('KeyServer', {
+  id: bcs.Address,
+  firstVersion: bcs.u64(),
+  lastVersion: bcs.u64(),
+});
+
+const KeyServerV1 = bcs.struct('KeyServerV1', {
+  name: bcs.string(),
+  url: bcs.string(),
+  keyType: bcs.u8(), // 0 = BonehFranklinBLS12381
+  pk: bcs.vector(bcs.u8()),
+});
+
+const RequestFormat = bcs.struct('RequestFormat', {
+  ptb: bcs.vector(bcs.u8()),
+  encKey: bcs.vector(bcs.u8()),
+  encVerificationKey: bcs.vector(bcs.u8()),
+});
+
+interface FetchKeyRequest {
+  ptb: string;
+  enc_key: string;
+  enc_verification_key: string;
+  request_signature: string;
+  certificate: {
+    user: string;
+    session_vk: string;
+    creation_time: number;
+    ttl_min: number;
+    signature: string;
+    mvr_name?: string;
+  };
+}
+
+class KeyServerError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+export interface MockKeyServerOptions {
+  name: string;
+  evaluator: PolicyEvaluator;
+  objectId?: string; // Random when omitted
+  masterKey?: Uint8Array; // 32-byte BLS secret; random when omitted
+  now?: () => number;
+}
+
+export class MockKeyServer {
+  readonly name: string;
+  readonly objectId: string;
+  readonly publicKey: Uint8Array;
+  private masterKey: bigint;
+  private evaluator: PolicyEvaluator;
+  private now: () => number;
+  private server: Server | null = null;
+  private available = true;
+  private url: string | null = null;
+
+  constructor(options: MockKeyServerOptions) {
+    this.name = options.name;
+    this.objectId = normalizeSuiAddress(options.objectId || toHexAddress(randomBytes(32)));
+    this.evaluator = options.evaluator;
+    this.now = options.now || Date.now;
+
+    const secret = options.masterKey || bls12_381.utils.randomPrivateKey();
+    this.masterKey = BigInt('0x' + Buffer.from(secret).toString('hex')) % bls12_381.params.r;
+    if (this.masterKey === 0n) {
+      throw new Error('Mock key server master key must not be zero');
+    }
+    this.publicKey = bls12_381.G2.ProjectivePoint.BASE.multiply(this.masterKey).toRawBytes();
+  }
+
+  getUrl(): string {
+    if (!this.url) {
+      throw new Error(`Mock key server ${this.name} is not running`);
+    }
+    return this.url;
+  }
+
+  async start(): Promise<string> {
+    if (this.url) {
+      return this.url;
+    }
+
+    const server = createServer((req, res) => { void this.handle(req, res); });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    this.server = server;
+    this.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    this.url = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * An unavailable server answers every request with 503, to exercise the threshold
+   */
+  setAvailable(available: boolean): void {
+    this.available = available;
+  }
+
+  /**
+   * IBE user secret key for `packageId || id`: H(id)^masterKey in G1
+   */
+  deriveKey(fullId: Uint8Array): Uint8Array {
+    return hashToG1(fullId).multiply(this.masterKey).toRawBytes();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      if (!this.available) {
+        throw new KeyServerError(503, 'Failure', `${this.name} is unavailable`);
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost');
+
+      if (req.method === 'GET' && url.pathname === '/v1/service') {
+        return this.reply(res, 200, this.service(url.searchParams.get('service_id')));
+      }
+      if (req.method === 'POST' && url.pathname === '/v1/fetch_key') {
+        const body = JSON.parse(await readBody(req)) as FetchKeyRequest;
+        return this.reply(res, 200, await this.fetchKey(body));
+      }
+
+      throw new KeyServerError(404, 'InvalidParameter', `Unknown endpoint ${req.method} ${url.pathname}`);
+    } catch (error: any) {
+      const status = error instanceof KeyServerError ? error.status : 500;
+      const code = error instanceof KeyServerError ? error.code : 'Failure';
+      console.log(chalk.gray(`  [${this.name}] ${code}: ${error?.message || error}`));
+      this.reply(res, status, { error: code, message: error?.message || String(error) });
+    }
+  }
+
+  private reply(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {
+      'Content-Type': 'application/json',
+      'X-KeyServer-Version': KEY_SERVER_VERSION,
+    });
+    res.end(JSON.stringify(body));
+  }
+
+  /**
+   * Proof of possession of the master key, bound to the KeyServer object
+   */
+  private service(serviceId: string | null) {
+    if (!serviceId || normalizeSuiAddress(serviceId) !== this.objectId) {
+      throw new KeyServerError(400, 'InvalidServiceId', `Unknown service ${serviceId}`);
+    }
+
+    const message = concatBytes(POP_DST, this.publicKey, fromHex(this.objectId));
+    return {
+      service_id: serviceId,
+      pop: toBase64(bls12_381.signShortSignature(message, this.masterKey)),
+    };
+  }
+
+  private async fetchKey(request: FetchKeyRequest) {
+    const ptb = fromBase64(request.ptb);
+    const encKey = fromBase64(request.enc_key);
+    const encVerificationKey = fromBase64(request.enc_verification_key);
+
+    let approval;
+    try {
+      approval = parseApprovalTransaction(ptb);
+    } catch (error: any) {
+      throw new KeyServerError(403, 'InvalidPTB', error?.message || String(error));
+    }
+
+    await this.verifyCertificate(request.certificate, approval.packageId);
+
+    const signedRequest = RequestFormat.serialize({ ptb, encKey, encVerificationKey }).toBytes();
+    const sessionKey = new Ed25519PublicKey(fromBase64(request.certificate.session_vk));
+    if (!(await sessionKey.verify(signedRequest, fromBase64(request.request_signature)))) {
+      throw new KeyServerError(403, 'InvalidSessionSignature', 'Request signature does not match the session key');
+    }
+
+    let encPoint;
+    try {
+      encPoint = bls12_381.G1.ProjectivePoint.fromHex(encKey);
+      const verificationPoint = bls12_381.G2.ProjectivePoint.fromHex(encVerificationKey);
+      const consistent = bls12_381.fields.Fp12.eql(
+        bls12_381.pairing(encPoint, bls12_381.G2.ProjectivePoint.BASE),
+        bls12_381.pairing(bls12_381.G1.ProjectivePoint.BASE, verificationPoint)
+      );
+      if (!consistent) {
+        throw new Error('verification key does not match the encryption key');
+      }
+    } catch (error: any) {
+      throw new KeyServerError(400, 'InvalidParameter', `Invalid encryption key: ${error?.message || error}`);
+    }
+
+    const decision = await this.evaluator.evaluate({
+      packageId: approval.packageId,
+      sender: normalizeSuiAddress(request.certificate.user),
+      calls: approval.calls,
+      transactionKind: concatBytes(new Uint8Array([0]), ptb), // TransactionKind::ProgrammableTransaction
+    });
+    if (!decision.approved) {
+      throw new KeyServerError(403, 'NoAccess', decision.reason || 'Access denied by policy');
+    }
+
+    const packageBytes = fromHex(approval.packageId);
+    const ids = new Map(approval.calls.map(call => [Buffer.from(call.id).toString('hex'), call.id]));
+
+    return {
+      decryption_keys: [...ids.values()].map(id => {
+        const fullId = concatBytes(packageBytes, id);
+        const userSecretKey = hashToG1(fullId).multiply(this.masterKey);
+
+        // ElGamal in G1 under the request key: (r·G, r·encKey + usk)
+        const r = BigInt('0x' + Buffer.from(bls12_381.utils.randomPrivateKey()).toString('hex')) % bls12_381.params.r || 1n;
+        const c0 = bls12_381.G1.ProjectivePoint.BASE.multiply(r);
+        const c1 = encPoint.multiply(r).add(userSecretKey);
+
+        return {
+          id: Array.from(fullId),
+          encrypted_key: [toBase64(c0.toRawBytes()), toBase64(c1.toRawBytes())],
+        };
+      }),
+    };
+  }
+
+  /**
+   * The session certificate is the user's personal-message signature over the
+   * session key; it must be unexpired and name the package being approved
+   */
+  private async verifyCertificate(certificate: FetchKeyRequest['certificate'], packageId: string): Promise<void> {
+    const expiresAt = certificate.creation_time + certificate.ttl_min * 60_000;
+    if (certificate.creation_time > this.now() + 60_000 || expiresAt < this.now()) {
+      throw new KeyServerError(403, 'InvalidCertificate', 'Session key is expired or not yet valid');
+    }
+
+    const createdUtc = new Date(certificate.creation_time).toISOString().slice(0, 19).replace('T', ' ') + ' UTC';
+    const message = new TextEncoder().encode(
+      `Accessing keys of package ${certificate.mvr_name || packageId} for ${certificate.ttl_min} mins from ${createdUtc}, session key ${certificate.session_vk}`
+    );
+
+    try {
+      await verifyPersonalMessageSignature(message, certificate.signature, { address: certificate.user });
+    } catch {
+      throw new KeyServerError(403, 'InvalidSignature', `Certificate is not signed by ${certificate.user} for package ${packageId}`);
+    }
+  }
+}
+
+export interface MockSealNetworkOptions {
+  packageId: string; // Inkray package whose policy module approves keys
+  servers?: number; // Committee size (default: 3)
+  threshold?: number; // Shares needed to decrypt (default: 2)
+  evaluator?: PolicyEvaluator; // Default: MovePolicyEvaluator over the transport registry
+  upstream?: string; // RPC URL for objects the registry does not hold, e.g. localnet
+  now?: () => number; // Clock for certificates and the default evaluator
+}
+
+/**
+ * A committee of mock key servers plus the chain view they are registered on
+ */
+export class MockSealNetwork {
+  readonly packageId: string;
+  readonly threshold: number;
+  readonly transport: MockSuiTransport;
+  readonly servers: MockKeyServer[];
+
+  constructor(options: MockSealNetworkOptions) {
+    const size = options.servers ?? 3;
+    this.packageId = normalizeSuiAddress(options.packageId);
+    this.threshold = options.threshold ?? Math.min(2, size);
+
+    if (size < 1 || this.threshold < 1 || this.threshold > size) {
+      throw new Error(`Invalid mock Seal committee: threshold ${this.threshold} of ${size}`);
+    }
+
+    this.transport = new MockSuiTransport({ upstream: options.upstream });
+    const evaluator = options.evaluator ||
+      new MovePolicyEvaluator(objectId => this.transport.getPolicyObject(objectId), options.now);
+
+    this.servers = Array.from({ length: size }, (_, i) => new MockKeyServer({
+      name: `mock-seal-${i + 1}`,
+      evaluator,
+      now: options.now,
+    }));
+
+    if (!options.upstream) {
+      this.transport.addPackage(this.packageId);
+      this.transport.addObject({ objectId: SUI_CLOCK_OBJECT_ID, type: '0x2::clock::Clock', owner: 'shared', fields: {} });
+    }
+  }
+
+  /**
+   * Start every server and publish its KeyServer object and versioned (v1) dynamic field
+   */
+  async start(): Promise<void> {
+    for (const server of this.servers) {
+      const url = await server.start();
+      const versionKey = bcs.u64().serialize(1).toBytes();
+      const fieldId = deriveDynamicFieldID(server.objectId, 'u64', versionKey);
+
+      this.transport.addObject({
+        objectId: server.objectId,
+        type: `${MOCK_SEAL_PACKAGE}::key_server::KeyServer`,
+        owner: 'shared',
+        bcs: KeyServer.serialize({ id: server.objectId, firstVersion: 1, lastVersion: 1 }).toBytes(),
+      });
+      this.transport.addObject({
+        objectId: fieldId,
+        type: `0x2::dynamic_field::Field<u64, ${MOCK_SEAL_PACKAGE}::key_server::KeyServerV1>`,
+        owner: server.objectId,
+        bcs: concatBytes(
+          fromHex(fieldId),
+          versionKey,
+          KeyServerV1.serialize({ name: server.name, url, keyType: 0, pk: server.publicKey }).toBytes()
+        ),
+      });
+    }
+
+    console.log(chalk.gray(`  Mock Seal committee: ${this.threshold} of ${this.servers.length} on ${this.servers.map(s => s.getUrl()).join(', ')}`));
+  }
+
+  async stop(): Promise<void> {
+    await Promise.all(this.servers.map(server => server.stop()));
+  }
+
+  get keyServers(): SealKeyServerConfig[] {
+    return this.servers.map(server => ({ objectId: server.objectId, weight: 1 }));
+  }
+
+  /**
+   * Sui client that reads through the mock transport
+   */
+  createSuiClient(privateKey: string): InkraySuiClient {
+    return new InkraySuiClient({ network: 'localnet', privateKey, transport: this.transport });
+  }
+
+  /**
+   * Seal client wired to this committee, with its own session key cache
+   */
+  createSealClient(suiClient: InkraySuiClient, config?: Partial<SealClientConfig>): InkraySealClient {
+    return new InkraySealClient({
+      network: 'localnet',
+      suiClient,
+      keyServers: this.keyServers,
+      threshold: this.threshold,
+      verifyKeyServers: true,
+      sessionKeys: new SessionKeyManager(),
+      mode: 'seal',
+      ...config,
+    });
+  }
+}
+
+export async function startMockSealNetwork(options: MockSealNetworkOptions): Promise<MockSealNetwork> {
+  const network = new MockSealNetwork(options);
+  await network.start();
+  return network;
+}
+
+function hashToG1(fullId: Uint8Array) {
+  const point = bls12_381.G1.hashToCurve(concatBytes(IBE_DST, fullId));
+  return bls12_381.G1.ProjectivePoint.fromAffine(point.toAffine());
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function toHexAddress(bytes: Uint8Array): string {
+  return '0x' + Buffer.from(bytes).toString('hex');
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
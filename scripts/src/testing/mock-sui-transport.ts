@@ -0,0 +1,200 @@
+import { SuiHTTPTransport, type SuiTransport, type SuiTransportRequestOptions, type SuiTransportSubscribeOptions } from '@mysten/sui/client';
+import { normalizeSuiAddress, toBase58, toBase64 } from '@mysten/sui/utils';
+import { createHash } from 'node:crypto';
+import { POLICY_FUNCTIONS, policyParamType, type PolicyObject } from './policy-evaluator.js';
+
+export interface MockObject {
+  objectId: string;
+  type: string; // Full Move type, or 'package'
+  owner: string | 'shared' | 'immutable'; // Address for owned objects
+  fields?: Record<string, any>; // Served as showContent fields
+  bcs?: Uint8Array; // Served as showBcs bytes (needed for core API reads such as Seal's)
+  version?: string; // Default '1'
+}
+
+export interface MockSuiTransportOptions {
+  upstream?: string | SuiTransport; // RPC URL or transport for everything the registry does not hold
+}
+
+/**
+ * Offline Sui JSON-RPC transport backed by an in-memory object registry
+ *
+ * Answers the reads the SDK needs to build approval PTBs and look up Seal key
+ * servers and Inkray objects (getObject, multiGetObjects, getOwnedObjects,
+ * getNormalizedMoveFunction for `policy::seal_approve*`). Anything else goes
+ * to the upstream transport, or fails when running fully offline.
+ */
+export class MockSuiTransport implements SuiTransport {
+  private objects = new Map<string, MockObject>();
+  private upstream: SuiTransport | null;
+
+  constructor(options?: MockSuiTransportOptions) {
+    const upstream = options?.upstream;
+    this.upstream = typeof upstream === 'string' ? new SuiHTTPTransport({ url: upstream }) : upstream || null;
+  }
+
+  addObject(object: MockObject): void {
+    const objectId = normalizeSuiAddress(object.objectId);
+    this.objects.set(objectId, {
+      ...object,
+      objectId,
+      owner: object.owner === 'shared' || object.owner === 'immutable' ? object.owner : normalizeSuiAddress(object.owner),
+    });
+  }
+
+  /**
+   * Register a published package at version 1, which Seal requires of the policy package
+   */
+  addPackage(packageId: string): void {
+    this.addObject({ objectId: packageId, type: 'package', owner: 'immutable' });
+  }
+
+  /**
+   * Merge new field values into a registered object, e.g. to expire a subscription
+   */
+  updateFields(objectId: string, fields: Record<string, any>): void {
+    const object = this.objects.get(normalizeSuiAddress(objectId));
+    if (!object) {
+      throw new Error(`Mock object not found: ${objectId}`);
+    }
+    object.fields = { ...object.fields, ...fields };
+  }
+
+  removeObject(objectId: string): void {
+    this.objects.delete(normalizeSuiAddress(objectId));
+  }
+
+  /**
+   * Registry lookup in the shape MovePolicyEvaluator reads
+   */
+  async getPolicyObject(objectId: string): Promise<PolicyObject | null> {
+    const object = this.objects.get(normalizeSuiAddress(objectId));
+    if (!object) {
+      return null;
+    }
+    return {
+      type: object.type,
+      owner: object.owner === 'shared' || object.owner === 'immutable' ? null : object.owner,
+      fields: object.fields || {},
+    };
+  }
+
+  async request<T = unknown>(input: SuiTransportRequestOptions): Promise<T> {
+    const params = input.params as any[];
+
+    switch (input.method) {
+      case 'sui_getObject': {
+        const object = this.objects.get(normalizeSuiAddress(params[0]));
+        if (!object && this.upstream) break;
+        return this.toObjectResponse(params[0], object, params[1]) as T;
+      }
+      case 'sui_multiGetObjects': {
+        const ids: string[] = params[0];
+        const missing = ids.filter(id => !this.objects.has(normalizeSuiAddress(id)));
+        const upstreamResults = missing.length > 0 && this.upstream
+          ? await this.upstream.request<any[]>({ method: input.method, params: [missing, params[1]] })
+          : [];
+
+        return ids.map(id => {
+          const object = this.objects.get(normalizeSuiAddress(id));
+          return object || !this.upstream
+            ? this.toObjectResponse(id, object, params[1])
+            : upstreamResults[missing.indexOf(id)];
+        }) as T;
+      }
+      case 'suix_getOwnedObjects': {
+        const [owner, query, cursor, limit] = params;
+        const structType = query?.filter?.StructType;
+        const owned = [...this.objects.values()]
+          .filter(object => object.owner === normalizeSuiAddress(owner))
+          .filter(object => !structType || object.type === structType);
+        const toResponses = (objects: MockObject[]) =>
+          objects.map(object => this.toObjectResponse(object.objectId, object, query?.options));
+
+        if (!this.upstream) {
+          // Pages of 50 like a full node, the cursor being the last object ID served
+          const start = cursor ? owned.findIndex(object => object.objectId === cursor) + 1 : 0;
+          const page = owned.slice(start, start + (limit || 50));
+          const hasNextPage = start + page.length < owned.length;
+          return { data: toResponses(page), nextCursor: hasNextPage ? page[page.length - 1].objectId : null, hasNextPage } as T;
+        }
+        const remote = await this.upstream.request<any>(input);
+        return { ...remote, data: [...(cursor ? [] : toResponses(owned)), ...remote.data] } as T;
+      }
+      case 'sui_getNormalizedMoveFunction': {
+        const [packageId, module, fn] = params;
+        const signature = POLICY_FUNCTIONS[fn];
+        if (module === 'policy' && signature && this.objects.get(normalizeSuiAddress(packageId))?.type === 'package') {
+          return this.normalizePolicyFunction(packageId, signature) as T;
+        }
+        break;
+      }
+    }
+
+    if (!this.upstream) {
+      throw new Error(`${input.method} is not available from the offline mock transport`);
+    }
+    return await this.upstream.request<T>(input);
+  }
+
+  async subscribe<T = unknown>(input: SuiTransportSubscribeOptions<T>): Promise<() => Promise<boolean>> {
+    if (!this.upstream) {
+      throw new Error('Subscriptions are not available from the offline mock transport');
+    }
+    return await this.upstream.subscribe(input);
+  }
+
+  private toObjectResponse(objectId: string, object: MockObject | undefined, options?: Record<string, boolean>) {
+    if (!object) {
+      return { error: { code: 'notExists', object_id: objectId } };
+    }
+
+    const version = object.version || '1';
+    const isPackage = object.type === 'package';
+    const data: Record<string, any> = {
+      objectId: object.objectId,
+      version,
+      digest: toBase58(createHash('sha256').update(`${object.objectId}:${version}`).digest()),
+    };
+
+    if (options?.showType) {
+      data.type = object.type;
+    }
+    if (options?.showOwner) {
+      data.owner = object.owner === 'immutable'
+        ? 'Immutable'
+        : object.owner === 'shared'
+          ? { Shared: { initial_shared_version: '1' } }
+          : { AddressOwner: object.owner };
+    }
+    if (options?.showContent) {
+      data.content = isPackage
+        ? { dataType: 'package', disassembled: {} }
+        : { dataType: 'moveObject', type: object.type, hasPublicTransfer: true, fields: { id: { id: object.objectId }, ...object.fields } };
+    }
+    if (options?.showBcs) {
+      data.bcs = isPackage
+        ? { dataType: 'package', id: object.objectId, version, moduleMap: {}, typeOriginTable: [], linkageTable: {} }
+        : { dataType: 'moveObject', type: object.type, hasPublicTransfer: true, version, bcsBytes: toBase64(object.bcs || new Uint8Array()) };
+    }
+
+    return { data };
+  }
+
+  private normalizePolicyFunction(packageId: string, signature: { params: string[]; ctx: boolean }) {
+    const toStruct = (type: string) => {
+      const [address, module, name] = type.split('::');
+      return { Struct: { address: normalizeSuiAddress(address), module, name, typeArguments: [] } };
+    };
+
+    const parameters: any[] = [
+      { Vector: 'U8' },
+      ...signature.params.map(param => ({ Reference: toStruct(policyParamType(packageId, param)) })),
+    ];
+    if (signature.ctx) {
+      parameters.push({ Reference: toStruct('0x2::tx_context::TxContext') });
+    }
+
+    return { visibility: 'Public', isEntry: false, typeParameters: [], parameters, return: [] };
+  }
+}
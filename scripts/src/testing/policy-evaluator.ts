@@ -0,0 +1,280 @@
+import { bcs } from '@mysten/sui/bcs';
+import type { SuiClient } from '@mysten/sui/client';
+import { fromBase64, normalizeSuiAddress } from '@mysten/sui/utils';
+import { decodeContentId } from '../utils/content-id.js';
+
+/**
+ * Policy evaluation for the mock Seal key server
+ *
+ * A key server only releases keys when every command of the approval PTB is a
+ * `seal_approve*` call that would succeed for the requesting address. Real
+ * servers dry-run the PTB on a full node; the mock delegates that decision to
+ * a PolicyEvaluator so tests can choose between a localnet dry-run and the
+ * offline port of `policy.move` below.
+ */
+
+export interface SealApprovalCall {
+  module: string;
+  function: string; // seal_approve* name
+  id: Uint8Array; // Inner identity (IdV1 bytes)
+  objectIds: string[]; // Object arguments after the ID, in call order
+}
+
+export interface SealApprovalRequest {
+  packageId: string;
+  sender: string; // Certificate user; the dry-run sender
+  calls: SealApprovalCall[];
+  transactionKind: Uint8Array; // TransactionKind bytes as the client built them
+}
+
+export interface PolicyDecision {
+  approved: boolean;
+  reason?: string;
+}
+
+export interface PolicyEvaluator {
+  evaluate(request: SealApprovalRequest): Promise<PolicyDecision>;
+}
+
+export interface PolicyObject {
+  type: string;
+  owner: string | null; // Address owner, null for shared and immutable objects
+  fields: Record<string, any>; // Same shape as showContent fields
+}
+
+/**
+ * Struct parameters of each policy function after `id: vector<u8>`, as
+ * `module::Struct` in the Inkray package or a full `0x2::` type; `ctx` marks a
+ * trailing `&TxContext`. Mirrors sources/policy.move.
+ */
+export const POLICY_FUNCTIONS: Record<string, { params: string[]; ctx: boolean }> = {
+  seal_approve_free: { params: ['publication::Publication'], ctx: false },
+  seal_approve_nft: { params: ['nft::ArticleAccessNft'], ctx: false },
+  seal_approve_platform: { params: ['articles::PostArticleCap'], ctx: false },
+  seal_approve_roles: { params: ['publication::Publication'], ctx: true },
+  seal_approve_subscription: { params: ['subscription::Subscription', '0x2::clock::Clock'], ctx: false },
+  seal_approve_publication_subscription: {
+    params: ['publication_subscription::PublicationSubscription', 'publication::Publication', '0x2::clock::Clock'],
+    ctx: true,
+  },
+  seal_approve_publication_owner: { params: ['publication::PublicationOwnerCap', 'publication::Publication'], ctx: false },
+  seal_approve_any: { params: ['publication::Publication', 'articles::Article'], ctx: true },
+};
+
+/**
+ * Full Move type of a POLICY_FUNCTIONS parameter
+ */
+export function policyParamType(packageId: string, param: string): string {
+  return param.startsWith('0x') ? param : `${normalizeSuiAddress(packageId)}::${param}`;
+}
+
+/**
+ * Decode the approval PTB the way a key server does
+ *
+ * `ptb` is the ProgrammableTransaction without the TransactionKind tag byte,
+ * exactly as sent in the fetch_key request. Every command must be a
+ * `seal_approve*` call into one package whose first argument is a pure
+ * `vector<u8>`; the rest must be object inputs.
+ */
+export function parseApprovalTransaction(ptb: Uint8Array): { packageId: string; calls: SealApprovalCall[] } {
+  const parsed = bcs.ProgrammableTransaction.parse(ptb);
+  let packageId: string | null = null;
+
+  const calls = parsed.commands.map((command, index) => {
+    const moveCall = command.MoveCall;
+    if (!moveCall) {
+      throw new Error(`Command ${index} is ${command.$kind}, only seal_approve* calls are allowed`);
+    }
+    if (!moveCall.function.startsWith('seal_approve')) {
+      throw new Error(`Command ${index} calls ${moveCall.function}, expected seal_approve*`);
+    }
+
+    const callPackage = normalizeSuiAddress(moveCall.package);
+    packageId = packageId || callPackage;
+    if (callPackage !== packageId) {
+      throw new Error(`All approvals must target one package, found ${packageId} and ${callPackage}`);
+    }
+
+    const [idArg, ...objectArgs] = moveCall.arguments.map(arg => {
+      if (arg.$kind !== 'Input') {
+        throw new Error(`Command ${index} uses a ${arg.$kind} argument, only inputs are allowed`);
+      }
+      return parsed.inputs[arg.Input];
+    });
+
+    if (!idArg?.Pure) {
+      throw new Error(`Command ${index} must take the identity as its first, pure argument`);
+    }
+
+    return {
+      module: moveCall.module,
+      function: moveCall.function,
+      id: Uint8Array.from(bcs.vector(bcs.u8()).parse(fromBase64(idArg.Pure.bytes))),
+      objectIds: objectArgs.map(input => {
+        const objectArg = input?.Object;
+        const objectId = objectArg?.ImmOrOwnedObject?.objectId || objectArg?.SharedObject?.objectId;
+        if (!objectId) {
+          throw new Error(`Command ${index} passes a non-object argument after the identity`);
+        }
+        return normalizeSuiAddress(objectId);
+      }),
+    };
+  });
+
+  if (!packageId || calls.length === 0) {
+    throw new Error('Approval transaction has no seal_approve* calls');
+  }
+
+  return { packageId, calls };
+}
+
+/**
+ * TypeScript port of sources/policy.move
+ *
+ * Reads objects through `getObject` (the mock transport's registry, or a live
+ * client) and applies the same checks and argument typing the Move VM would,
+ * including ownership of owned arguments by the sender.
+ */
+export class MovePolicyEvaluator implements PolicyEvaluator {
+  constructor(
+    private getObject: (objectId: string) => Promise<PolicyObject | null>,
+    private now: () => number = Date.now
+  ) {}
+
+  async evaluate(request: SealApprovalRequest): Promise<PolicyDecision> {
+    for (const call of request.calls) {
+      const reason = await this.check(request.packageId, request.sender, call);
+      if (reason) {
+        return { approved: false, reason: `${call.function}: ${reason}` };
+      }
+    }
+    return { approved: true };
+  }
+
+  /**
+   * Null when the call would succeed, otherwise the abort reason
+   */
+  private async check(packageId: string, sender: string, call: SealApprovalCall): Promise<string | null> {
+    const signature = POLICY_FUNCTIONS[call.function];
+    if (call.module !== 'policy' || !signature) {
+      return 'function not found in policy module';
+    }
+    if (call.objectIds.length !== signature.params.length) {
+      return `expected ${signature.params.length} object arguments, got ${call.objectIds.length}`;
+    }
+
+    let id;
+    try {
+      id = decodeContentId(call.id);
+    } catch (error: any) {
+      return error?.message || String(error);
+    }
+
+    const args: PolicyObject[] = [];
+    for (const [index, objectId] of call.objectIds.entries()) {
+      const object = await this.getObject(objectId);
+      const expectedType = policyParamType(packageId, signature.params[index]);
+      if (!object) {
+        return `object ${objectId} not found`;
+      }
+      if (normalizeType(object.type) !== normalizeType(expectedType)) {
+        return `argument ${index + 1} is ${object.type}, expected ${expectedType}`;
+      }
+      if (object.owner && normalizeSuiAddress(object.owner) !== normalizeSuiAddress(sender)) {
+        return `object ${objectId} is owned by ${object.owner}, not the sender`;
+      }
+      args.push(object);
+    }
+
+    const publicationMatches = (publicationId: string) =>
+      normalizeSuiAddress(id.publication) === normalizeSuiAddress(publicationId);
+
+    switch (call.function) {
+      case 'seal_approve_free': {
+        const [publication] = call.objectIds;
+        if (!publicationMatches(publication)) return 'E_BAD_ID';
+        if (BigInt(args[0].fields.subscription_price ?? 0) > 0n) return 'E_ACCESS_DENIED (publication requires a subscription)';
+        return null;
+      }
+      case 'seal_approve_nft':
+      case 'seal_approve_platform':
+        return null;
+      case 'seal_approve_roles': {
+        const [publication] = call.objectIds;
+        if (!publicationMatches(publication)) return 'E_BAD_ID';
+        if (!contributorsOf(args[0].fields).includes(normalizeSuiAddress(sender))) return 'E_ACCESS_DENIED (sender is not a contributor)';
+        return null;
+      }
+      case 'seal_approve_subscription': {
+        if (!(this.clockMs(args[1]) < Number(args[0].fields.expires_ms))) return 'E_ACCESS_DENIED (subscription expired)';
+        return null;
+      }
+      case 'seal_approve_publication_subscription': {
+        const [, publication] = call.objectIds;
+        const subscription = args[0].fields;
+        if (!publicationMatches(publication)) return 'E_BAD_ID';
+        if (normalizeSuiAddress(subscription.publication_id) !== publication) return 'E_ACCESS_DENIED (subscription is for another publication)';
+        if (normalizeSuiAddress(subscription.subscriber) !== normalizeSuiAddress(sender)) return 'E_ACCESS_DENIED (sender is not the subscriber)';
+        if (!(Number(subscription.expires_at) > this.clockMs(args[2]))) return 'E_ACCESS_DENIED (subscription expired)';
+        return null;
+      }
+      case 'seal_approve_publication_owner': {
+        const [, publication] = call.objectIds;
+        if (!publicationMatches(publication)) return 'E_BAD_ID';
+        if (normalizeSuiAddress(args[0].fields.publication_id) !== publication) return 'E_ACCESS_DENIED (owner cap is for another publication)';
+        return null;
+      }
+      case 'seal_approve_any': {
+        const [publication] = call.objectIds;
+        if (!publicationMatches(publication)) return 'E_BAD_ID';
+        const isFree = args[1].fields.gating?.variant === 'Free' && BigInt(args[0].fields.subscription_price ?? 0) === 0n;
+        if (isFree || contributorsOf(args[0].fields).includes(normalizeSuiAddress(sender))) return null;
+        return 'E_ACCESS_DENIED (sender is not a contributor)';
+      }
+      default:
+        return 'function not found in policy module';
+    }
+  }
+
+  /**
+   * The registry's Clock may carry a timestamp; otherwise the evaluator's clock is used
+   */
+  private clockMs(clock: PolicyObject): number {
+    return clock.fields.timestamp_ms !== undefined ? Number(clock.fields.timestamp_ms) : this.now();
+  }
+}
+
+/**
+ * Approve by dry-running the PTB on a node (e.g. localnet), like production key servers
+ */
+export class DryRunPolicyEvaluator implements PolicyEvaluator {
+  constructor(private client: SuiClient) {}
+
+  async evaluate(request: SealApprovalRequest): Promise<PolicyDecision> {
+    try {
+      const result = await this.client.devInspectTransactionBlock({
+        sender: request.sender,
+        transactionBlock: request.transactionKind,
+      });
+
+      if (result.effects.status.status === 'success') {
+        return { approved: true };
+      }
+      return { approved: false, reason: result.effects.status.error || 'dry run failed' };
+    } catch (error: any) {
+      return { approved: false, reason: `dry run failed: ${error?.message || error}` };
+    }
+  }
+}
+
+function contributorsOf(publicationFields: Record<string, any>): string[] {
+  const contributors: string[] = Array.isArray(publicationFields.contributors)
+    ? publicationFields.contributors
+    : (publicationFields.contributors?.fields?.contents || []);
+  return contributors.map(address => normalizeSuiAddress(address));
+}
+
+function normalizeType(type: string): string {
+  const [address, ...rest] = type.split('::');
+  return [normalizeSuiAddress(address), ...rest].join('::');
+}
@@ -1,4 +1,4 @@
-import { SuiClient } from '@mysten/sui/client';
+import { SuiClient, type PaginatedObjectsResponse, type SuiObjectResponse } from '@mysten/sui/client';
 import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
 import { fromBase64, fromHEX } from '@mysten/sui/utils';
 import { getNetworkConfig, getCurrentNetwork, type Network } from '../config/networks.js';
@@ -14,9 +14,9 @@ export class InkraySuiClient {
     this.network = config?.network || getCurrentNetwork();
     const networkConfig = getNetworkConfig(this.network);
     
-    this.client = new SuiClient({
-      url: config?.rpcUrl || networkConfig.sui.rpcUrl,
-    });
+    this.client = config?.client || (config?.transport
+      ? new SuiClient({ transport: config.transport })
+      : new SuiClient({ url: config?.rpcUrl || networkConfig.sui.rpcUrl }));
 
     if (config?.privateKey) {
       this.keypair = this.createKeypairFromPrivateKey(config.privateKey);
@@ -144,17 +144,38 @@ export class InkraySuiClient {
     });
   }
 
-  async getOwnedObjects(type?: string) {
-    const address = this.getAddress();
-    
-    return await this.client.getOwnedObjects({
-      owner: address,
-      filter: type ? { StructType: type } : undefined,
-      options: {
-        showContent: true,
-        showType: true,
-        showOwner: true,
-      },
+  /**
+   * Every object the address owns (of a type), following cursors past the first page
+   */
+  async getOwnedObjects(type?: string, owner?: string): Promise<PaginatedObjectsResponse> {
+    const address = owner || this.getAddress();
+    const data: SuiObjectResponse[] = [];
+    let cursor: string | null = null;
+
+    while (true) {
+      const page: PaginatedObjectsResponse = await this.client.getOwnedObjects({
+        owner: address,
+        filter: type ? { StructType: type } : undefined,
+        options: {
+          showContent: true,
+          showType: true,
+          showOwner: true,
+        },
+        cursor,
+      });
+      data.push(...page.data);
+
+      if (!page.hasNextPage || !page.nextCursor) {
+        return { data, nextCursor: null, hasNextPage: false };
+      }
+      cursor = page.nextCursor;
+    }
+  }
+
+  async getDynamicFieldObject(parentId: string, name: { type: string; value: unknown }) {
+    return await this.client.getDynamicFieldObject({
+      parentId,
+      name,
     });
   }
 
@@ -0,0 +1,184 @@
+import { bcs } from '@mysten/bcs';
+import { InvalidContentIdError } from './errors.js';
+import { contractError } from './move-errors.js';
+
+/**
+ * Seal content-ID codec
+ *
+ * Mirrors `policy::parse_id_v1` byte for byte. Every `seal_approve_*` function
+ * parses the identity with strict validation, so any drift between this file
+ * and policy.move makes encrypted content undecryptable.
+ *
+ * IdV1 layout (BCS, 43 bytes):
+ *   tag: u8 | version: u16 (LE) | publication: address (32 bytes) | nonce: u64 (LE)
+ */
+
+// Constants matching smart contract (policy.move)
+export const TAG_ARTICLE_CONTENT = 0;  // u8
+export const ID_VERSION_V1 = 1;        // u16
+export const ID_V1_LENGTH = 1 + 2 + 32 + 8;
+
+// BCS layout for IdV1 struct
+export const IdV1Layout = bcs.struct('IdV1', {
+  tag: bcs.u8(),
+  version: bcs.u16(),
+  publication: bcs.fixedArray(32, bcs.u8()),  // 32-byte Sui address
+  nonce: bcs.u64(),
+});
+
+export interface ContentIdV1 {
+  tag: number;
+  version: number;
+  publication: string; // 0x-prefixed, 64 hex chars
+  nonce: bigint;
+}
+
+export type ContentId = ContentIdV1;
+
+export interface ContentIdGoldenVector {
+  name: string;
+  publication: string;
+  nonce: bigint;
+  hex: string;
+}
+
+/**
+ * Golden vectors shared with tests/policy_tests.move (test_id_v1_golden_vectors).
+ * Update both sides together.
+ */
+export const ID_V1_GOLDEN_VECTORS: ContentIdGoldenVector[] = [
+  {
+    name: 'short publication address',
+    publication: '0x0000000000000000000000000000000000000000000000000000000000000123',
+    nonce: 789n,
+    hex: '000100' +
+      '0000000000000000000000000000000000000000000000000000000000000123' +
+      '1503000000000000',
+  },
+  {
+    name: 'max values',
+    publication: '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    nonce: 18446744073709551615n,
+    hex: '000100' +
+      'ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff' +
+      'ffffffffffffffff',
+  },
+  {
+    name: 'timestamp nonce',
+    publication: '0x4f2c1b8e9d7a6c5b3e2f1a0d9c8b7a6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b0a',
+    nonce: 1700000000000n,
+    hex: '000100' +
+      '4f2c1b8e9d7a6c5b3e2f1a0d9c8b7a6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b0a' +
+      '0068e5cf8b010000',
+  },
+];
+
+/**
+ * Validate Sui address format (exactly 32 bytes = 64 hex chars + 0x)
+ */
+export function isValidSuiAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{64}$/.test(address);
+}
+
+function addressToBytes(address: string): number[] {
+  if (!isValidSuiAddress(address)) {
+    throw new Error(`Invalid Sui address format: ${address}`);
+  }
+  return Array.from(Buffer.from(address.slice(2), 'hex'));
+}
+
+function bytesToAddress(bytes: Iterable<number>): string {
+  return '0x' + Buffer.from(Array.from(bytes)).toString('hex');
+}
+
+/**
+ * Encode an IdV1 content ID for the given publication
+ *
+ * The nonce defaults to the current timestamp in milliseconds.
+ */
+export function encodeContentIdV1(publicationId: string, nonce: bigint | number = Date.now()): Uint8Array {
+  return IdV1Layout.serialize({
+    tag: TAG_ARTICLE_CONTENT,
+    version: ID_VERSION_V1,
+    publication: addressToBytes(publicationId),
+    nonce: BigInt(nonce),
+  }).toBytes();
+}
+
+/**
+ * Decode a content ID with the same checks as `policy::parse_id_v1`
+ *
+ * Throws the InvalidContentIdError (module, code) the contract would raise.
+ */
+export function decodeContentId(id: Uint8Array | string): ContentId {
+  const bytes = typeof id === 'string' ? contentIdFromHex(id) : id;
+
+  if (bytes.length < ID_V1_LENGTH) {
+    throw new InvalidContentIdError(`Content ID too short: ${bytes.length} bytes, expected ${ID_V1_LENGTH}`);
+  }
+  if (bytes.length > ID_V1_LENGTH) {
+    throw contractError('policy::E_TRAILING', `Content ID has ${bytes.length - ID_V1_LENGTH} trailing bytes (E_TRAILING)`);
+  }
+
+  const parsed = IdV1Layout.parse(bytes);
+
+  if (parsed.tag !== TAG_ARTICLE_CONTENT) {
+    throw contractError('policy::E_WRONG_TAG', `Unknown content ID tag: ${parsed.tag} (E_WRONG_TAG)`);
+  }
+  if (parsed.version !== ID_VERSION_V1) {
+    throw contractError('policy::E_WRONG_VERSION', `Unsupported content ID version: ${parsed.version} (E_WRONG_VERSION)`);
+  }
+
+  return {
+    tag: parsed.tag,
+    version: parsed.version,
+    publication: bytesToAddress(parsed.publication),
+    nonce: BigInt(parsed.nonce),
+  };
+}
+
+/**
+ * Check whether bytes would be accepted by `policy::parse_id_v1`
+ */
+export function isValidContentId(id: Uint8Array | string): boolean {
+  try {
+    decodeContentId(id);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function contentIdToHex(id: Uint8Array): string {
+  return '0x' + Buffer.from(id).toString('hex');
+}
+
+export function contentIdFromHex(hex: string): Uint8Array {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (clean.length % 2 !== 0 || !/^[a-fA-F0-9]*$/.test(clean)) {
+    throw new InvalidContentIdError(`Invalid content ID hex: ${hex}`);
+  }
+  return new Uint8Array(Buffer.from(clean, 'hex'));
+}
+
+/**
+ * Re-encode every golden vector and return the names of those that no longer match
+ */
+export function checkGoldenVectors(): string[] {
+  const failures: string[] = [];
+
+  for (const vector of ID_V1_GOLDEN_VECTORS) {
+    const encoded = Buffer.from(encodeContentIdV1(vector.publication, vector.nonce)).toString('hex');
+    const decoded = decodeContentId(vector.hex);
+
+    if (
+      encoded !== vector.hex ||
+      decoded.publication !== vector.publication ||
+      decoded.nonce !== vector.nonce
+    ) {
+      failures.push(vector.name);
+    }
+  }
+
+  return failures;
+}
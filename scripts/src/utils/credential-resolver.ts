@@ -0,0 +1,160 @@
+import { getDefaultSuiClient } from './client.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import * as nftMove from '../generated/nft.js';
+import * as publicationMove from '../generated/publication.js';
+import * as publicationSubscriptionMove from '../generated/publication_subscription.js';
+import * as subscriptionMove from '../generated/subscription.js';
+import type { CredentialKind, UserCredentials } from './types.js';
+import { NotFoundError } from './errors.js';
+import chalk from 'chalk';
+
+export interface ResolvedCredentials {
+  articleId: string;
+  publicationId: string;
+  reader: string;
+  credentials: UserCredentials;
+  order: CredentialKind[]; // Pass as SealDecryptionRequest.credentialOrder
+}
+
+/**
+ * Attempt order once credentials have been pre-checked off-chain: free needs
+ * no owned object, caps and roles never expire, NFTs are bound to the article,
+ * and subscriptions come last because they can lapse between lookup and approval.
+ */
+const RESOLVED_ORDER: CredentialKind[] = [
+  'free',
+  'publicationOwner',
+  'contributor',
+  'nft',
+  'publicationSubscription',
+  'subscription',
+];
+
+/**
+ * Finds every credential a reader holds for an article
+ *
+ * Looks up owned PublicationOwnerCap, ArticleAccessNft, PublicationSubscription
+ * and Subscription objects plus contributor membership, and drops the ones the
+ * matching `policy::seal_approve_*` would reject (wrong publication or article, expired).
+ */
+export class CredentialResolver {
+  private client: import('./client.js').InkraySuiClient;
+  private packageId: string;
+
+  constructor(
+    client?: import('./client.js').InkraySuiClient,
+    packageId?: string
+  ) {
+    this.client = client || getDefaultSuiClient();
+    this.packageId = packageId || CONTRACT_ADDRESSES.PACKAGE_ID;
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first.');
+    }
+  }
+
+  async resolveForArticle(articleId: string, readerAddress?: string): Promise<ResolvedCredentials> {
+    const reader = readerAddress || this.client.getAddress();
+    console.log(chalk.blue(`🔎 Resolving credentials for article ${articleId}`));
+
+    const article = await this.getFields(articleId);
+    if (!article) {
+      throw new NotFoundError(`Article not found: ${articleId}`);
+    }
+
+    const publicationId: string = article.publication_id;
+    const publication = await this.getFields(publicationId);
+    if (!publication) {
+      throw new NotFoundError(`Publication not found: ${publicationId}`);
+    }
+
+    const now = Date.now();
+    const [ownerCaps, nfts, publicationSubscriptions, subscriptions] = await Promise.all([
+      this.getOwnedFields(publicationMove.structType(this.packageId, 'PublicationOwnerCap'), reader),
+      this.getOwnedFields(nftMove.structType(this.packageId, 'ArticleAccessNft'), reader),
+      this.getOwnedFields(publicationSubscriptionMove.structType(this.packageId, 'PublicationSubscription'), reader),
+      this.getOwnedFields(subscriptionMove.structType(this.packageId, 'Subscription'), reader),
+    ]);
+
+    const credentials: UserCredentials = {};
+
+    if (BigInt(publication.subscription_price ?? 0) === 0n) {
+      credentials.free = { publicationId };
+    }
+
+    const ownerCap = ownerCaps.find(cap => cap.fields.publication_id === publicationId);
+    if (ownerCap) {
+      credentials.publicationOwner = { ownerCapId: ownerCap.id, publicationId };
+    }
+
+    const contributors: string[] = Array.isArray(publication.contributors)
+      ? publication.contributors
+      : (publication.contributors?.fields?.contents || []);
+    if (contributors.includes(reader)) {
+      credentials.contributor = { publicationId };
+    }
+
+    const nft = nfts.find(candidate => candidate.fields.article_id === articleId);
+    if (nft) {
+      credentials.nft = { id: nft.id, articleId };
+    }
+
+    const publicationSubscription = publicationSubscriptions.find(candidate =>
+      candidate.fields.publication_id === publicationId &&
+      candidate.fields.subscriber === reader &&
+      Number(candidate.fields.expires_at) > now
+    );
+    if (publicationSubscription) {
+      credentials.publicationSubscription = { id: publicationSubscription.id, publicationId };
+    }
+
+    const subscription = subscriptions.find(candidate => Number(candidate.fields.expires_ms) > now);
+    if (subscription) {
+      credentials.subscription = { id: subscription.id };
+    }
+
+    const order = RESOLVED_ORDER.filter(kind => credentials[kind]);
+    console.log(chalk.gray(`  Found: ${order.length > 0 ? order.join(', ') : 'none'}`));
+
+    return { articleId, publicationId, reader, credentials, order };
+  }
+
+  private async getFields(objectId: string): Promise<any | null> {
+    const objectData = await this.client.getObject(objectId);
+    return (objectData.data as any)?.content?.fields || null;
+  }
+
+  private async getOwnedFields(
+    structType: string,
+    owner: string
+  ): Promise<{ id: string; fields: any }[]> {
+    const ownedObjects = await this.client.getOwnedObjects(structType, owner);
+
+    return ownedObjects.data
+      .filter(objRef => objRef.data?.objectId && (objRef.data.content as any)?.fields)
+      .map(objRef => ({ id: objRef.data!.objectId, fields: (objRef.data!.content as any).fields }));
+  }
+}
+
+// Singleton instance
+let defaultResolver: CredentialResolver | null = null;
+
+export function createCredentialResolver(client?: import('./client.js').InkraySuiClient): CredentialResolver {
+  return new CredentialResolver(client);
+}
+
+export function getDefaultCredentialResolver(client?: import('./client.js').InkraySuiClient): CredentialResolver {
+  if (!defaultResolver) {
+    defaultResolver = new CredentialResolver(client);
+  }
+  return defaultResolver;
+}
+
+// Convenience functions
+export async function resolveArticleCredentials(
+  articleId: string,
+  readerAddress?: string,
+  client?: import('./client.js').InkraySuiClient
+): Promise<ResolvedCredentials> {
+  return await getDefaultCredentialResolver(client).resolveForArticle(articleId, readerAddress);
+}
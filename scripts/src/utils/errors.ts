@@ -0,0 +1,78 @@
+import type { MoveAbort } from './move-errors.js';
+
+/**
+ * Typed SDK errors
+ *
+ * Errors the SDK raises on purpose are InkrayErrors, so apps can branch on the
+ * class instead of the message. Contract aborts get the class their constant
+ * is catalogued under (see move-errors.ts) and carry its module and code.
+ */
+
+export interface InkrayErrorDetails {
+  module?: string; // Move module the error comes from, e.g. `policy`
+  code?: number; // Abort code in that module
+  errorName?: string; // Name of the code's constant, e.g. `E_ACCESS_DENIED`
+  digest?: string; // Transaction that failed
+  fix?: string; // What the user can do about it
+  cause?: unknown;
+}
+
+export class InkrayError extends Error {
+  readonly module?: string;
+  readonly code?: number;
+  readonly errorName?: string;
+  readonly digest?: string;
+  readonly fix?: string;
+
+  constructor(message: string, details: InkrayErrorDetails = {}) {
+    super(message, details.cause !== undefined ? { cause: details.cause } : undefined);
+    this.name = new.target.name;
+    this.module = details.module;
+    this.code = details.code;
+    this.errorName = details.errorName;
+    this.digest = details.digest;
+    this.fix = details.fix;
+  }
+
+  // `module::E_NAME` (or `module::<code>`) for contract errors
+  get qualifiedName(): string | undefined {
+    const name = this.errorName ?? this.code;
+    return this.module && name !== undefined ? `${this.module}::${name}` : undefined;
+  }
+}
+
+export type InkrayErrorClass = new (message: string, details?: InkrayErrorDetails) => InkrayError;
+
+// The sender lacks a credential: subscription, NFT, contributor role or free access
+export class AccessDeniedError extends InkrayError {}
+
+// Only the owner (or an authorized contributor or admin) may do this
+export class NotOwnerError extends InkrayError {}
+
+// A payment that does not cover the price
+export class InsufficientPaymentError extends InkrayError {}
+
+// Not enough funds in a wallet or treasury
+export class InsufficientBalanceError extends InkrayError {}
+
+export class NotFoundError extends InkrayError {}
+
+// Missing or expired blob in Walrus storage
+export class BlobNotFoundError extends NotFoundError {}
+
+export class AlreadyExistsError extends InkrayError {}
+
+// An argument the contract (or the SDK on its behalf) rejects
+export class InvalidArgumentError extends InkrayError {}
+
+// A content ID that `policy::parse_id_v1` rejects or that names another publication
+export class InvalidContentIdError extends InvalidArgumentError {}
+
+/**
+ * A Move abort without a catalogued class, e.g. from a framework module
+ */
+export class MoveAbortError extends InkrayError {
+  constructor(message: string, readonly abort: MoveAbort, details: InkrayErrorDetails = {}) {
+    super(message, { module: abort.module, code: abort.code, ...details });
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from '@jest/globals';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import {
+  EventManager,
+  decodeEventData,
+  decodeEvents,
+  decodeInkrayEvent,
+  eventType,
+  parseEventName,
+  type AnyInkrayEvent,
+} from './events.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const OTHER_PUBLICATION = normalizeSuiAddress('0x' + '22'.repeat(32));
+const AUTHOR = normalizeSuiAddress('0x' + '33'.repeat(32));
+
+const articlePosted = (publication: string, title: string) => ({
+  type: eventType('ArticlePosted', PKG),
+  parsedJson: {
+    publication,
+    vault: '0x44',
+    article: '0x55',
+    author: AUTHOR,
+    title,
+    slug: title.toLowerCase(),
+    gating: 1,
+    quilt_id: '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+    quilt_object_id: '0x66',
+  },
+});
+
+const tipped = (publication: string, amount: string) => ({
+  type: eventType('ArticleTipped', PKG),
+  parsedJson: { article_id: '0x55', publication_id: publication, tipper: AUTHOR, amount },
+});
+
+describe('event decoding', () => {
+  it('converts JSON-RPC values to typed fields', () => {
+    const data = decodeEventData('ArticlePosted', articlePosted(PUBLICATION, 'Hello').parsedJson);
+
+    expect(data).toEqual({
+      publication: PUBLICATION,
+      vault: normalizeSuiAddress('0x44'),
+      article: normalizeSuiAddress('0x55'),
+      author: AUTHOR,
+      title: 'Hello',
+      slug: 'hello',
+      gating: 1,
+      quilt_id: 2n ** 256n - 1n,
+      quilt_object_id: normalizeSuiAddress('0x66'),
+    });
+  });
+
+  it('rejects missing or malformed fields', () => {
+    const { parsedJson } = tipped(PUBLICATION, '5');
+
+    expect(() => decodeEventData('ArticleTipped', { ...parsedJson, amount: undefined })).toThrow('missing amount');
+    expect(() => decodeEventData('ArticleTipped', { ...parsedJson, amount: 'lots' })).toThrow('amount is not a valid u64');
+    expect(() => decodeEventData('ArticleTipped', null)).toThrow('no parsed JSON');
+  });
+
+  it('only recognises inkray_events structs by exact name', () => {
+    expect(parseEventName(eventType('SubscriptionExtended', PKG))).toBe('SubscriptionExtended');
+    expect(parseEventName(eventType('PublicationSubscriptionExtended', PKG))).toBe('PublicationSubscriptionExtended');
+    expect(parseEventName(`${PKG}::publication::PublicationCreated`)).toBeNull();
+    expect(parseEventName(`${PKG}::inkray_events::VaultCreated`)).toBeNull();
+    expect(parseEventName(eventType('ArticlePosted', PKG), OTHER_PUBLICATION)).toBeNull();
+  });
+
+  it('picks one kind of event out of a transaction result', () => {
+    const fake = new FakeSuiClient();
+    const events = [articlePosted(PUBLICATION, 'A'), tipped(PUBLICATION, '7'), articlePosted(PUBLICATION, 'B')]
+      .map(event => fake.addEvent(event));
+
+    expect(decodeEvents(events, 'ArticlePosted', PKG).map(event => event.data.title)).toEqual(['A', 'B']);
+    expect(decodeEvents(events, 'ArticleTipped').map(event => event.data.amount)).toEqual([7n]);
+    expect(decodeInkrayEvent(events[1])?.name).toBe('ArticleTipped');
+  });
+});
+
+describe('EventManager', () => {
+  const setup = () => {
+    const fake = new FakeSuiClient();
+    const manager = new EventManager(fake.createInkrayClient(), PKG);
+    return { fake, manager };
+  };
+
+  it('pages through events of one kind with cursors', async () => {
+    const { fake, manager } = setup();
+    for (let i = 0; i < 5; i++) {
+      fake.addEvent(articlePosted(PUBLICATION, `Article ${i}`));
+      fake.addEvent(tipped(PUBLICATION, String(i)));
+    }
+
+    const first = await manager.queryEvents('ArticlePosted', { limit: 2 });
+    expect(first.data.map(event => event.data.title)).toEqual(['Article 0', 'Article 1']);
+    expect(first.hasNextPage).toBe(true);
+
+    const titles: string[] = [];
+    for await (const event of manager.iterateEvents('ArticlePosted', { limit: 2 })) {
+      titles.push(event.data.title);
+    }
+    expect(titles).toEqual(['Article 0', 'Article 1', 'Article 2', 'Article 3', 'Article 4']);
+  });
+
+  it('iterates over every kind in emission order', async () => {
+    const { fake, manager } = setup();
+    fake.addEvent(articlePosted(PUBLICATION, 'A'));
+    fake.addEvent(tipped(PUBLICATION, '1'));
+
+    const names: string[] = [];
+    for await (const event of manager.iterateAllEvents({ limit: 1 })) {
+      names.push(event.name);
+    }
+    expect(names).toEqual(['ArticlePosted', 'ArticleTipped']);
+  });
+
+  it('delivers only new events of the subscribed publication', async () => {
+    const { fake, manager } = setup();
+    fake.addEvent(articlePosted(PUBLICATION, 'Before subscribing'));
+
+    const received: AnyInkrayEvent[] = [];
+    const stop = manager.subscribeToPublication(PUBLICATION, event => {
+      received.push(event);
+    }, { pollIntervalMs: 10 });
+
+    await waitFor(() => true, 30);
+    fake.addEvent(articlePosted(OTHER_PUBLICATION, 'Elsewhere'));
+    fake.addEvent(articlePosted(PUBLICATION, 'New'));
+    fake.addEvent(tipped(PUBLICATION, '9'));
+    fake.addEvent({ type: eventType('SubscriptionMinted', PKG), parsedJson: { user: AUTHOR, subscription_id: '0x1', plan: 0, expires_ms: '1' } });
+
+    await waitFor(() => received.length >= 2);
+    stop();
+
+    expect(received.map(event => event.name)).toEqual(['ArticlePosted', 'ArticleTipped']);
+    expect(received[0].name === 'ArticlePosted' && received[0].data.title).toBe('New');
+  });
+
+  it('filters a subscription by event name', async () => {
+    const { fake, manager } = setup();
+    const received: AnyInkrayEvent[] = [];
+    const stop = manager.subscribeToPublication(PUBLICATION, event => {
+      received.push(event);
+    }, { pollIntervalMs: 10, cursor: null, names: ['ArticleTipped'] });
+
+    fake.addEvent(articlePosted(PUBLICATION, 'Ignored'));
+    fake.addEvent(tipped(PUBLICATION, '3'));
+
+    await waitFor(() => received.length >= 1);
+    stop();
+
+    expect(received).toHaveLength(1);
+    expect(received[0].name).toBe('ArticleTipped');
+  });
+});
+
+async function waitFor(condition: () => boolean, minMs = 0, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (Date.now() - start < minMs || !condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
@@ -0,0 +1,563 @@
+import type { EventId, SuiEvent } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { getDefaultSuiClient } from './client.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import { MODULE as EVENTS_MODULE } from '../generated/inkray_events.js';
+import chalk from 'chalk';
+
+/**
+ * Typed `inkray_events` events
+ *
+ * One interface per struct in inkray_events.move, with JSON-RPC values
+ * converted: IDs and addresses stay 0x strings, u8/u32 become numbers and
+ * u64/u256 become bigints. `EVENT_FIELDS` mirrors the Move structs and drives
+ * decoding; update it together with the contract.
+ */
+
+// === Publication Management Events ===
+
+export interface PublicationCreatedEvent {
+  publication: string;
+  owner: string;
+  name: string;
+  vault_id: string;
+}
+
+export interface ContributorAddedEvent {
+  publication: string;
+  addr: string;
+  added_by: string;
+}
+
+export interface ContributorRemovedEvent {
+  publication: string;
+  addr: string;
+  removed_by: string;
+}
+
+// === Article Publishing Events ===
+
+export interface ArticlePostedEvent {
+  publication: string;
+  vault: string;
+  article: string;
+  author: string;
+  title: string;
+  slug: string;
+  gating: number; // 0 = Free, 1 = Gated
+  quilt_id: bigint; // Walrus blob ID of the body as a u256
+  quilt_object_id: string; // Blob object held in the vault
+}
+
+export interface ArticleDeletedEvent {
+  publication: string;
+  vault: string;
+  article: string;
+  deleted_by: string;
+  title: string;
+  slug: string;
+  body_blob_id: string;
+}
+
+// === Vault Storage Events ===
+
+export interface BlobStoredEvent {
+  vault_id: string;
+  publication_id: string;
+  blob_object_id: string;
+  blob_content_id: bigint;
+  size: bigint;
+  end_epoch: bigint;
+  stored_by: string;
+}
+
+export interface BlobRemovedEvent {
+  vault_id: string;
+  publication_id: string;
+  blob_object_id: string;
+  blob_content_id: bigint;
+  removed_by: string;
+}
+
+export interface BlobRenewedEvent {
+  publication: string;
+  vault: string;
+  blob_id: string;
+  blob_content_id: bigint;
+  extended_epochs: number;
+  new_expiration_epoch: bigint;
+  renewed_by: string;
+}
+
+// === Platform Subscription Events ===
+
+export interface SubscriptionMintedEvent {
+  user: string;
+  subscription_id: string;
+  plan: number;
+  expires_ms: bigint;
+}
+
+export interface SubscriptionExtendedEvent {
+  user: string;
+  subscription_id: string;
+  old_expires_ms: bigint;
+  new_expires_ms: bigint;
+}
+
+// === Publication Subscription Events ===
+
+export interface PublicationSubscriptionCreatedEvent {
+  subscription_id: string;
+  publication_id: string;
+  subscriber: string;
+  amount_paid: bigint;
+  expires_at: bigint;
+}
+
+export interface PublicationSubscriptionExtendedEvent {
+  subscription_id: string;
+  publication_id: string;
+  subscriber: string;
+  amount_paid: bigint;
+  new_expires_at: bigint;
+}
+
+export interface PublicationSubscriptionPriceUpdatedEvent {
+  publication_id: string;
+  old_price: bigint;
+  new_price: bigint;
+  updated_by: string;
+}
+
+export interface SubscriptionBalanceWithdrawnEvent {
+  publication_id: string;
+  amount: bigint;
+  withdrawn_by: string;
+}
+
+// === NFT Events ===
+
+export interface ArticleNftMintedEvent {
+  article_id: string;
+  nft_id: string;
+  to: string;
+  price_paid: bigint;
+}
+
+// === Tipping Events ===
+
+export interface PublicationTippedEvent {
+  publication_id: string;
+  tipper: string;
+  amount: bigint;
+}
+
+export interface ArticleTippedEvent {
+  article_id: string;
+  publication_id: string;
+  tipper: string;
+  amount: bigint;
+}
+
+export interface InkrayEventMap {
+  PublicationCreated: PublicationCreatedEvent;
+  ContributorAdded: ContributorAddedEvent;
+  ContributorRemoved: ContributorRemovedEvent;
+  ArticlePosted: ArticlePostedEvent;
+  ArticleDeleted: ArticleDeletedEvent;
+  BlobStored: BlobStoredEvent;
+  BlobRemoved: BlobRemovedEvent;
+  BlobRenewed: BlobRenewedEvent;
+  SubscriptionMinted: SubscriptionMintedEvent;
+  SubscriptionExtended: SubscriptionExtendedEvent;
+  PublicationSubscriptionCreated: PublicationSubscriptionCreatedEvent;
+  PublicationSubscriptionExtended: PublicationSubscriptionExtendedEvent;
+  PublicationSubscriptionPriceUpdated: PublicationSubscriptionPriceUpdatedEvent;
+  SubscriptionBalanceWithdrawn: SubscriptionBalanceWithdrawnEvent;
+  ArticleNftMinted: ArticleNftMintedEvent;
+  PublicationTipped: PublicationTippedEvent;
+  ArticleTipped: ArticleTippedEvent;
+}
+
+export type InkrayEventName = keyof InkrayEventMap;
+
+type MoveFieldType = 'ID' | 'address' | 'String' | 'u8' | 'u32' | 'u64' | 'u256';
+
+export const EVENT_FIELDS: { [N in InkrayEventName]: Record<keyof InkrayEventMap[N], MoveFieldType> } = {
+  PublicationCreated: { publication: 'ID', owner: 'address', name: 'String', vault_id: 'ID' },
+  ContributorAdded: { publication: 'ID', addr: 'address', added_by: 'address' },
+  ContributorRemoved: { publication: 'ID', addr: 'address', removed_by: 'address' },
+  ArticlePosted: {
+    publication: 'ID', vault: 'ID', article: 'ID', author: 'address', title: 'String', slug: 'String',
+    gating: 'u8', quilt_id: 'u256', quilt_object_id: 'ID',
+  },
+  ArticleDeleted: {
+    publication: 'ID', vault: 'ID', article: 'ID', deleted_by: 'address', title: 'String', slug: 'String',
+    body_blob_id: 'ID',
+  },
+  BlobStored: {
+    vault_id: 'ID', publication_id: 'ID', blob_object_id: 'ID', blob_content_id: 'u256', size: 'u64',
+    end_epoch: 'u64', stored_by: 'address',
+  },
+  BlobRemoved: { vault_id: 'ID', publication_id: 'ID', blob_object_id: 'ID', blob_content_id: 'u256', removed_by: 'address' },
+  BlobRenewed: {
+    publication: 'ID', vault: 'ID', blob_id: 'ID', blob_content_id: 'u256', extended_epochs: 'u32',
+    new_expiration_epoch: 'u64', renewed_by: 'address',
+  },
+  SubscriptionMinted: { user: 'address', subscription_id: 'address', plan: 'u8', expires_ms: 'u64' },
+  SubscriptionExtended: { user: 'address', subscription_id: 'address', old_expires_ms: 'u64', new_expires_ms: 'u64' },
+  PublicationSubscriptionCreated: {
+    subscription_id: 'ID', publication_id: 'ID', subscriber: 'address', amount_paid: 'u64', expires_at: 'u64',
+  },
+  PublicationSubscriptionExtended: {
+    subscription_id: 'ID', publication_id: 'ID', subscriber: 'address', amount_paid: 'u64', new_expires_at: 'u64',
+  },
+  PublicationSubscriptionPriceUpdated: { publication_id: 'ID', old_price: 'u64', new_price: 'u64', updated_by: 'address' },
+  SubscriptionBalanceWithdrawn: { publication_id: 'ID', amount: 'u64', withdrawn_by: 'address' },
+  ArticleNftMinted: { article_id: 'ID', nft_id: 'address', to: 'address', price_paid: 'u64' },
+  PublicationTipped: { publication_id: 'ID', tipper: 'address', amount: 'u64' },
+  ArticleTipped: { article_id: 'ID', publication_id: 'ID', tipper: 'address', amount: 'u64' },
+};
+
+export const INKRAY_EVENT_NAMES = Object.keys(EVENT_FIELDS) as InkrayEventName[];
+
+export interface InkrayEvent<N extends InkrayEventName = InkrayEventName> {
+  name: N;
+  type: string; // Full Move type
+  data: InkrayEventMap[N];
+  id: EventId; // Cursor for pagination
+  sender: string;
+  timestampMs: number | null;
+}
+
+/**
+ * Any decoded event, narrowed by checking `name`
+ */
+export type AnyInkrayEvent = { [N in InkrayEventName]: InkrayEvent<N> }[InkrayEventName];
+
+export interface EventPage<E = AnyInkrayEvent> {
+  data: E[];
+  nextCursor: EventId | null;
+  hasNextPage: boolean;
+}
+
+export interface EventQueryOptions {
+  cursor?: EventId | null;
+  limit?: number; // Page size (default: 50)
+  order?: 'ascending' | 'descending';
+}
+
+export interface EventSubscriptionOptions {
+  names?: InkrayEventName[]; // Default: every event that carries a publication ID
+  pollIntervalMs?: number; // Default: 2000
+  cursor?: EventId | null; // Resume after this event (default: only events from now on)
+  onError?: (error: unknown) => void;
+}
+
+export function eventType(name: InkrayEventName, packageId: string): string {
+  return `${normalizeSuiAddress(packageId)}::${EVENTS_MODULE}::${name}`;
+}
+
+/**
+ * Event name for a Move type, or null if it is not an `inkray_events` struct
+ * (of the given package, when one is passed)
+ */
+export function parseEventName(type: string, packageId?: string): InkrayEventName | null {
+  const [address, module, name] = type.split('::');
+  if (module !== EVENTS_MODULE || !name || !(name in EVENT_FIELDS)) {
+    return null;
+  }
+  if (packageId && normalizeSuiAddress(address) !== normalizeSuiAddress(packageId)) {
+    return null;
+  }
+  return name as InkrayEventName;
+}
+
+/**
+ * Decode one event's parsedJson; throws when a field is missing or malformed
+ */
+export function decodeEventData<N extends InkrayEventName>(name: N, parsedJson: unknown): InkrayEventMap[N] {
+  if (!parsedJson || typeof parsedJson !== 'object') {
+    throw new Error(`Invalid ${name} event: no parsed JSON`);
+  }
+
+  const json = parsedJson as Record<string, unknown>;
+  const data: Record<string, unknown> = {};
+
+  for (const [field, type] of Object.entries(EVENT_FIELDS[name]) as [string, MoveFieldType][]) {
+    const value = json[field];
+    if (value === undefined || value === null) {
+      throw new Error(`Invalid ${name} event: missing ${field}`);
+    }
+
+    try {
+      data[field] = decodeField(type, value);
+    } catch (error) {
+      throw new Error(`Invalid ${name} event: ${field} is not a valid ${type} (${String(value)})`);
+    }
+  }
+
+  return data as unknown as InkrayEventMap[N];
+}
+
+/**
+ * Decode a SuiEvent, or return null for events that are not `inkray_events`
+ */
+export function decodeInkrayEvent(event: SuiEvent, packageId?: string): AnyInkrayEvent | null {
+  const name = parseEventName(event.type, packageId);
+  if (!name) {
+    return null;
+  }
+
+  return {
+    name,
+    type: event.type,
+    data: decodeEventData(name, event.parsedJson),
+    id: event.id,
+    sender: event.sender,
+    timestampMs: event.timestampMs ? Number(event.timestampMs) : null,
+  } as AnyInkrayEvent;
+}
+
+/**
+ * All events of one kind from a transaction result, decoded
+ */
+export function decodeEvents<N extends InkrayEventName>(events: SuiEvent[], name: N, packageId?: string): InkrayEvent<N>[] {
+  return events
+    .filter(event => parseEventName(event.type, packageId) === name)
+    .map(event => decodeInkrayEvent(event, packageId) as InkrayEvent<N>);
+}
+
+/**
+ * Publication an event belongs to, or null for platform-wide events
+ * (platform subscriptions, NFT mints)
+ */
+export function eventPublicationId(event: AnyInkrayEvent): string | null {
+  const data = event.data as unknown as Record<string, unknown>;
+  const publication = data.publication ?? data.publication_id;
+  return typeof publication === 'string' ? publication : null;
+}
+
+function decodeField(type: MoveFieldType, value: unknown): string | number | bigint {
+  switch (type) {
+    case 'ID':
+    case 'address':
+      if (typeof value !== 'string') throw new Error('not a string');
+      return normalizeSuiAddress(value);
+    case 'String':
+      if (typeof value !== 'string') throw new Error('not a string');
+      return value;
+    case 'u8':
+    case 'u32': {
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < 0) throw new Error('not an integer');
+      return number;
+    }
+    case 'u64':
+    case 'u256':
+      if (typeof value !== 'string' && typeof value !== 'number') throw new Error('not an integer');
+      return BigInt(value);
+  }
+}
+
+export class EventManager {
+  private client: import('./client.js').InkraySuiClient;
+  private packageId: string;
+
+  constructor(
+    client?: import('./client.js').InkraySuiClient,
+    packageId?: string
+  ) {
+    this.client = client || getDefaultSuiClient();
+    this.packageId = packageId || CONTRACT_ADDRESSES.PACKAGE_ID;
+
+    if (!this.packageId) {
+      throw new Error('Package ID not found. Please deploy contracts first or set PACKAGE_ID env var.');
+    }
+  }
+
+  /**
+   * One page of events of a single kind
+   */
+  async queryEvents<N extends InkrayEventName>(name: N, options: EventQueryOptions = {}): Promise<EventPage<InkrayEvent<N>>> {
+    try {
+      const page = await this.client.getClient().queryEvents({
+        query: { MoveEventType: eventType(name, this.packageId) },
+        cursor: options.cursor,
+        limit: options.limit || 50,
+        order: options.order || 'ascending',
+      });
+
+      return {
+        data: page.data.map(event => decodeInkrayEvent(event, this.packageId) as InkrayEvent<N>),
+        nextCursor: page.nextCursor ?? null,
+        hasNextPage: page.hasNextPage,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to query ${name} events: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * One page of every `inkray_events` event, in emission order
+   */
+  async queryAllEvents(options: EventQueryOptions = {}): Promise<EventPage> {
+    try {
+      const page = await this.client.getClient().queryEvents({
+        query: { MoveEventModule: { package: this.packageId, module: EVENTS_MODULE } },
+        cursor: options.cursor,
+        limit: options.limit || 50,
+        order: options.order || 'ascending',
+      });
+
+      return {
+        data: page.data.flatMap(event => {
+          const decoded = decodeInkrayEvent(event, this.packageId);
+          return decoded ? [decoded] : [];
+        }),
+        nextCursor: page.nextCursor ?? null,
+        hasNextPage: page.hasNextPage,
+      };
+    } catch (error) {
+      console.error(chalk.red(`❌ Failed to query events: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Iterate over every event of one kind, following cursors page by page
+   */
+  async *iterateEvents<N extends InkrayEventName>(name: N, options: EventQueryOptions = {}): AsyncGenerator<InkrayEvent<N>> {
+    let cursor = options.cursor ?? null;
+
+    while (true) {
+      const page = await this.queryEvents(name, { ...options, cursor });
+      yield* page.data;
+
+      if (!page.hasNextPage || !page.nextCursor) {
+        return;
+      }
+      cursor = page.nextCursor;
+    }
+  }
+
+  /**
+   * Iterate over every `inkray_events` event
+   */
+  async *iterateAllEvents(options: EventQueryOptions = {}): AsyncGenerator<AnyInkrayEvent> {
+    let cursor = options.cursor ?? null;
+
+    while (true) {
+      const page = await this.queryAllEvents({ ...options, cursor });
+      yield* page.data;
+
+      if (!page.hasNextPage || !page.nextCursor) {
+        return;
+      }
+      cursor = page.nextCursor;
+    }
+  }
+
+  /**
+   * Call `handler` for new events of a publication as they are emitted
+   *
+   * Polls `queryEvents` (event websockets are deprecated on public RPC nodes)
+   * and returns a function that stops the subscription.
+   */
+  subscribeToPublication(
+    publicationId: string,
+    handler: (event: AnyInkrayEvent) => void | Promise<void>,
+    options: EventSubscriptionOptions = {}
+  ): () => void {
+    const target = normalizeSuiAddress(publicationId);
+    const names = options.names ? new Set(options.names) : null;
+    const interval = options.pollIntervalMs || 2000;
+    let cursor = options.cursor ?? null;
+    let started = options.cursor !== undefined;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const poll = async () => {
+      try {
+        if (!started) {
+          // Start after the latest event so only new ones are delivered
+          const latest = await this.queryAllEvents({ limit: 1, order: 'descending' });
+          cursor = latest.data[0]?.id ?? null;
+          started = true;
+        }
+
+        let hasNextPage = true;
+        while (hasNextPage && !stopped) {
+          const page = await this.queryAllEvents({ cursor });
+          for (const event of page.data) {
+            if (stopped) break;
+            if (eventPublicationId(event) !== target) continue;
+            if (names && !names.has(event.name)) continue;
+            await handler(event);
+          }
+          cursor = page.nextCursor ?? cursor;
+          hasNextPage = page.hasNextPage;
+        }
+      } catch (error) {
+        if (options.onError) {
+          options.onError(error);
+        } else {
+          console.warn(chalk.yellow(`Warning: Event poll failed: ${error}`));
+        }
+      }
+
+      if (!stopped) {
+        timer = setTimeout(poll, interval);
+      }
+    };
+
+    void poll();
+
+    return () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    };
+  }
+}
+
+// Singleton instance management
+let defaultManager: EventManager | null = null;
+
+export function createEventManager(
+  client?: import('./client.js').InkraySuiClient,
+  packageId?: string
+): EventManager {
+  return new EventManager(client, packageId);
+}
+
+export function getDefaultEventManager(
+  client?: import('./client.js').InkraySuiClient,
+  packageId?: string
+): EventManager {
+  if (!defaultManager) {
+    defaultManager = new EventManager(client, packageId);
+  }
+  return defaultManager;
+}
+
+// Convenience functions
+export async function queryEvents<N extends InkrayEventName>(
+  name: N,
+  options?: EventQueryOptions,
+  client?: import('./client.js').InkraySuiClient
+): Promise<EventPage<InkrayEvent<N>>> {
+  return await getDefaultEventManager(client).queryEvents(name, options);
+}
+
+export function subscribeToPublicationEvents(
+  publicationId: string,
+  handler: (event: AnyInkrayEvent) => void | Promise<void>,
+  options?: EventSubscriptionOptions,
+  client?: import('./client.js').InkraySuiClient
+): () => void {
+  return getDefaultEventManager(client).subscribeToPublication(publicationId, handler, options);
+}
@@ -0,0 +1,95 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import { randomBytes } from 'node:crypto';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import { createTransaction } from './transactions.js';
+import { AlreadyExistsError } from './errors.js';
+
+const PKG = '0x' + 'ab'.repeat(32);
+const CAP = '0x' + '11'.repeat(32);
+
+const retry = { maxAttempts: 3, baseDelayMs: 0 };
+
+function execute(fake: FakeSuiClient) {
+  const tx = createTransaction(fake.createInkrayClient());
+  tx.moveCall({ package: PKG, module: 'publication', function: 'add_contributor', arguments: [tx.objectArg(CAP), tx.pureAddress(CAP)] });
+  return tx.execute({ retry });
+}
+
+function addGasCoin(fake: FakeSuiClient) {
+  fake.gasCoins.push({ objectId: '0x' + randomBytes(32).toString('hex'), version: '1', digest: fake.gasCoins[0].digest, balance: 10n ** 9n });
+}
+
+describe('TransactionBuilder.execute retries', () => {
+  beforeAll(() => {
+    CONTRACT_ADDRESSES.PACKAGE_ID = PKG;
+  });
+
+  it('resubmits the same signed bytes after a network failure', async () => {
+    const fake = new FakeSuiClient();
+    fake.failSubmissions({ network: true });
+
+    await execute(fake);
+
+    expect(fake.submissions).toHaveLength(2);
+    expect(fake.submissions[1]).toBe(fake.submissions[0]);
+    expect(fake.executed).toHaveLength(1);
+  });
+
+  it('returns a transaction that landed although its response was lost', async () => {
+    const fake = new FakeSuiClient();
+    fake.failSubmissions({ network: true, landed: true });
+
+    const result = await execute(fake);
+
+    expect(result.digest).toBe(fake.submissions[0]);
+    expect(fake.submissions).toHaveLength(1);
+    expect(fake.executed).toHaveLength(1);
+  });
+
+  it('rebuilds a stale-version rejection on current versions and an unused gas coin', async () => {
+    const fake = new FakeSuiClient();
+    addGasCoin(fake);
+    fake.failSubmissions({ staleObject: CAP });
+
+    await execute(fake);
+
+    const data = fake.lastExecuted().transaction.getData();
+    expect(data.inputs.find(input => input.Object?.ImmOrOwnedObject)?.Object?.ImmOrOwnedObject?.version).toBe('2');
+    expect(data.gasData.payment?.map(coin => coin.objectId)).toEqual([fake.gasCoins[1].objectId]);
+  });
+
+  it('does not re-sign when every gas coin may be locked by the rejected transaction', async () => {
+    const fake = new FakeSuiClient();
+    fake.failSubmissions({ staleObject: CAP });
+
+    await expect(execute(fake)).rejects.toThrow('Cannot retry without reusing gas coins');
+    expect(fake.submissions).toHaveLength(1);
+    expect(fake.executed).toHaveLength(0);
+  });
+
+  it('does not retry an owned-object lock conflict', async () => {
+    const fake = new FakeSuiClient();
+    fake.failSubmissions({ error: new Error('Failed to sign transaction by a quorum of validators because of locked objects') });
+
+    await expect(execute(fake)).rejects.toThrow('conflicts with another transaction on the same owned objects');
+    expect(fake.submissions).toHaveLength(1);
+  });
+
+  it('throws the typed error of a Move abort without retrying', async () => {
+    const fake = new FakeSuiClient();
+    fake.onExecute(() => ({
+      error: `MoveAbort(MoveLocation { module: ModuleId { address: ${PKG.slice(2)}, name: Identifier("publication") }, ` +
+        'function: 2, instruction: 12, function_name: Some("add_contributor") }, 2) in command 0',
+    }));
+
+    const error = await execute(fake).catch(caught => caught);
+
+    // The pre-sign dry run aborts, so nothing is signed or submitted
+    expect(error).toBeInstanceOf(AlreadyExistsError);
+    expect(error.qualifiedName).toBe('publication::E_CONTRIBUTOR_EXISTS');
+    expect(error.digest).toBeUndefined();
+    expect(fake.dryRuns).toHaveLength(1);
+    expect(fake.submissions).toHaveLength(0);
+  });
+});
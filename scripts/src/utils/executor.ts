@@ -0,0 +1,250 @@
+import { SuiHTTPStatusError, type SuiTransactionBlockResponse, type SuiTransactionBlockResponseOptions } from '@mysten/sui/client';
+import { Transaction, TransactionDataBuilder } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { RETRY_CONFIG } from '../config/constants.js';
+import { estimateGas, formatGasEstimate, type GasEstimate, type GasOptions } from './gas.js';
+import { InkrayError } from './errors.js';
+import chalk from 'chalk';
+
+/**
+ * Transaction execution with retries
+ *
+ * Failures before anything is submitted (gas estimation, building) are retried
+ * as they are. Once signed bytes are out, a transient RPC failure leaves the
+ * outcome unknown: the digest is looked up and the same bytes resubmitted,
+ * never re-signed. A rejection for a stale object version is rebuilt against
+ * current versions, but validators may already hold locks on the rejected
+ * transaction's other owned inputs (gas coins included), so the rebuilt
+ * transaction must not reuse any of those object versions; signing it anyway
+ * would equivocate them until the epoch ends.
+ */
+
+export interface RetryOptions {
+  maxAttempts?: number; // Default: RETRY_CONFIG.MAX_ATTEMPTS
+  baseDelayMs?: number; // Default: RETRY_CONFIG.BASE_DELAY_MS, doubled after every attempt
+}
+
+export interface ExecuteOptions {
+  gas?: GasOptions;
+  retry?: RetryOptions;
+  response?: SuiTransactionBlockResponseOptions;
+}
+
+interface ObjectVersion {
+  objectId: string;
+  version: string;
+}
+
+export function isTransientRpcError(error: unknown): boolean {
+  if (error instanceof SuiHTTPStatusError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return /fetch failed|network error|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|socket hang up|timed? ?out|Too Many Requests/i
+    .test(errorMessage(error));
+}
+
+export function isObjectVersionError(error: unknown): boolean {
+  return /ObjectVersionUnavailableForConsumption|not available for consumption/i.test(errorMessage(error));
+}
+
+export function isEquivocationError(error: unknown): boolean {
+  return /ObjectLockConflict|equivocat|locked by a different transaction|because of locked objects/i.test(errorMessage(error));
+}
+
+/**
+ * Run an operation until it succeeds, `shouldRetry` rejects the error or the attempts run out
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions & {
+    shouldRetry?: (error: unknown) => boolean; // Default: transient RPC errors
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  } = {}
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? RETRY_CONFIG.MAX_ATTEMPTS;
+  const baseDelayMs = options.baseDelayMs ?? RETRY_CONFIG.BASE_DELAY_MS;
+  const shouldRetry = options.shouldRetry ?? isTransientRpcError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = baseDelayMs * 2 ** (attempt - 1);
+      if (options.onRetry) {
+        options.onRetry(error, attempt, delayMs);
+      } else {
+        console.log(chalk.yellow(`⚠️ Attempt ${attempt}/${maxAttempts} failed, retrying in ${delayMs}ms: ${errorMessage(error)}`));
+      }
+      await sleep(delayMs);
+    }
+  }
+}
+
+/**
+ * Estimate gas, sign and submit a transaction, retrying what is safe to retry
+ *
+ * Returns the response whatever its execution status; Move aborts are not retried.
+ */
+export async function executeWithRetry(
+  transaction: Transaction,
+  client: import('./client.js').InkraySuiClient,
+  options: ExecuteOptions = {}
+): Promise<SuiTransactionBlockResponse> {
+  const suiClient = client.getClient();
+  const keypair = client.getKeypair();
+  const sender = transaction.getData().sender || client.getAddress();
+  const retry = { maxAttempts: options.retry?.maxAttempts, baseDelayMs: options.retry?.baseDelayMs };
+
+  // Every attempt starts over from the unresolved commands, so objects resolve to their current versions
+  transaction.setSenderIfNotSet(sender);
+  const template = await transaction.toJSON();
+
+  const estimate: GasEstimate = await withRetry(
+    () => estimateGas(Transaction.from(template), client, options.gas),
+    retry
+  );
+  console.log(chalk.gray(`  Expected gas: ${formatGasEstimate(estimate)}`));
+
+  // Owned object versions that rejected attempts may have locked
+  const locked: ObjectVersion[] = [];
+  let rejected: Uint8Array | null = null;
+  let submitted = false; // The failed attempt's bytes reached the network
+
+  return await withRetry(async () => {
+    if (rejected) {
+      locked.push(...ownedInputs(rejected));
+      rejected = null;
+    }
+
+    const attempt = Transaction.from(template);
+    attempt.setGasPrice(estimate.gasPrice);
+    attempt.setGasBudget(estimate.budget);
+    if (locked.length > 0) {
+      attempt.setGasPayment(await unlockedGasCoins(suiClient, sender, locked));
+    }
+
+    submitted = false;
+    const bytes = await attempt.build({ client: suiClient });
+    assertNoLockedInputs(bytes, locked);
+
+    const { signature } = await keypair.signTransaction(bytes);
+    try {
+      submitted = true;
+      return await submit(suiClient, bytes, signature, options, retry);
+    } catch (error) {
+      if (isObjectVersionError(error)) {
+        rejected = bytes;
+      }
+      throw error;
+    }
+  }, {
+    ...retry,
+    // Only a definite rejection makes signing a new transaction safe
+    shouldRetry: error => isObjectVersionError(error) || (!submitted && isTransientRpcError(error)),
+  });
+}
+
+/**
+ * Submit signed bytes, resubmitting the same bytes while the RPC fails in transit
+ */
+async function submit(
+  suiClient: import('@mysten/sui/client').SuiClient,
+  bytes: Uint8Array,
+  signature: string,
+  options: ExecuteOptions,
+  retry: RetryOptions
+): Promise<SuiTransactionBlockResponse> {
+  const digest = TransactionDataBuilder.getDigestFromBytes(bytes);
+  const responseOptions = options.response ?? {
+    showEffects: true,
+    showEvents: true,
+    showObjectChanges: true,
+    showBalanceChanges: true,
+  };
+
+  // An earlier request may have gone through before the connection failed
+  const findLanded = () => suiClient.getTransactionBlock({ digest, options: responseOptions }).catch(() => null);
+
+  try {
+    return await withRetry(async attempt => {
+      const landed = attempt > 1 ? await findLanded() : null;
+      return landed ?? await suiClient.executeTransactionBlock({ transactionBlock: bytes, signature, options: responseOptions });
+    }, retry);
+  } catch (error) {
+    if (isEquivocationError(error)) {
+      throw new InkrayError(
+        `Transaction ${digest} conflicts with another transaction on the same owned objects: ${errorMessage(error)}`,
+        { digest, fix: 'The objects stay locked until the next epoch; retry then', cause: error }
+      );
+    }
+    if (!isTransientRpcError(error)) {
+      throw error;
+    }
+
+    const landed = await findLanded();
+    if (landed) {
+      return landed;
+    }
+    throw new InkrayError(`Transaction ${digest} may still execute: ${errorMessage(error)}`, {
+      digest,
+      fix: 'Check the transaction in an explorer before sending it again',
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Gas coins of the sender that none of the rejected attempts used at their current version
+ */
+async function unlockedGasCoins(
+  suiClient: import('@mysten/sui/client').SuiClient,
+  owner: string,
+  locked: ObjectVersion[]
+): Promise<{ objectId: string; version: string; digest: string }[]> {
+  const { data: coins } = await suiClient.getCoins({ owner });
+  const free = coins.filter(coin => !isLocked(locked, coin.coinObjectId, coin.version));
+
+  if (free.length === 0) {
+    throw new InkrayError('Cannot retry without reusing gas coins a rejected transaction may have locked', {
+      fix: 'Add another SUI coin to the wallet (e.g. `sui client split-coin`) or retry after the next epoch',
+    });
+  }
+  return free.map(coin => ({ objectId: coin.coinObjectId, version: coin.version, digest: coin.digest }));
+}
+
+function assertNoLockedInputs(bytes: Uint8Array, locked: ObjectVersion[]): void {
+  const reused = ownedInputs(bytes).filter(input => isLocked(locked, input.objectId, input.version));
+  if (reused.length > 0) {
+    throw new InkrayError(
+      `Cannot retry without reusing ${reused.map(input => `${input.objectId} v${input.version}`).join(', ')}, ` +
+      'which a rejected transaction may have locked',
+      { fix: 'Retry after the next epoch' }
+    );
+  }
+}
+
+// Owned inputs and gas coins of built transaction bytes
+function ownedInputs(bytes: Uint8Array): ObjectVersion[] {
+  const data = Transaction.from(bytes).getData();
+  const inputs = data.inputs.flatMap(input => input.Object?.ImmOrOwnedObject ? [input.Object.ImmOrOwnedObject] : []);
+
+  return [...inputs, ...(data.gasData.payment ?? [])].map(ref => ({
+    objectId: normalizeSuiAddress(ref.objectId),
+    version: String(ref.version),
+  }));
+}
+
+function isLocked(locked: ObjectVersion[], objectId: string, version: string | number): boolean {
+  return locked.some(ref => ref.objectId === normalizeSuiAddress(objectId) && ref.version === String(version));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from '@jest/globals';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { executeTransaction, type TransactionBuilder } from './transactions.js';
+import { gasBudgetFor, netGasCost } from './gas.js';
+
+const PKG = '0x' + 'ab'.repeat(32);
+const OBJECT = '0x' + '11'.repeat(32);
+
+const gasUsed = (computation: number, storage: number, rebate: number = 0) => ({
+  computationCost: String(computation),
+  storageCost: String(storage),
+  storageRebate: String(rebate),
+  nonRefundableStorageFee: '0',
+});
+
+describe('gasBudgetFor', () => {
+  it('adds the margin to computation plus storage, ignoring the rebate', () => {
+    expect(gasBudgetFor(gasUsed(1_000_000, 2_000_000, 500_000), 1000n, { marginPercent: 20, maxBudget: 10n ** 9n }))
+      .toBe(3_600_000n);
+  });
+
+  it('trims the margin to the cap but rejects a cost above it', () => {
+    expect(gasBudgetFor(gasUsed(1_000_000, 2_000_000), 1000n, { marginPercent: 50, maxBudget: 4_000_000n })).toBe(4_000_000n);
+    expect(() => gasBudgetFor(gasUsed(3_000_000, 2_000_000), 1000n, { maxBudget: 4_000_000n }))
+      .toThrow('exceeds the budget cap of 0.004 SUI');
+  });
+
+  it('never goes below the minimum for the gas price', () => {
+    expect(gasBudgetFor(gasUsed(1000, 0), 750n, { marginPercent: 0 })).toBe(750_000n);
+  });
+
+  it('reports a net cost after the rebate', () => {
+    expect(netGasCost(gasUsed(1_000_000, 2_000_000, 2_500_000))).toBe(500_000n);
+  });
+});
+
+describe('TransactionBuilder.execute gas', () => {
+  const tipFromGas = (amount: bigint) => (tx: TransactionBuilder) => {
+    const [payment] = tx.splitCoins(tx.getGasCoin(), [amount]);
+    tx.moveCall({ package: PKG, module: 'platform_economics', function: 'tip_publication', arguments: [tx.objectArg(OBJECT), payment] });
+  };
+
+  it('signs at the reference gas price with the dry-run budget', async () => {
+    const fake = new FakeSuiClient();
+    fake.referenceGasPrice = 750n;
+    fake.gasUsed = gasUsed(2_000_000, 3_000_000, 1_000_000);
+
+    await executeTransaction(tipFromGas(1000n), fake.createInkrayClient());
+
+    const gasData = fake.lastExecuted().transaction.getData().gasData;
+    expect(gasData.price).toBe('750');
+    expect(gasData.budget).toBe('6000000');
+    expect(gasData.payment?.map(coin => coin.objectId)).toEqual([fake.gasCoins[0].objectId]);
+    expect(fake.dryRuns).toHaveLength(1);
+  });
+
+  it('fails before signing when the balance cannot cover budget and spend', async () => {
+    const fake = new FakeSuiClient();
+    fake.balance = 3_700_000n; // Covers the 3.6M budget, not the tip on top
+
+    await expect(executeTransaction(tipFromGas(1_000_000n), fake.createInkrayClient()))
+      .rejects.toThrow('Insufficient SUI: needs 0.0046 SUI (gas budget 0.0036 SUI + 0.001 SUI spent by the transaction), wallet holds 0.0037 SUI');
+    expect(fake.executed).toHaveLength(0);
+  });
+
+  it('fails fast on an empty wallet', async () => {
+    const fake = new FakeSuiClient();
+    fake.balance = 0n;
+
+    await expect(executeTransaction(tipFromGas(1n), fake.createInkrayClient())).rejects.toThrow('holds no SUI to pay for gas');
+    expect(fake.dryRuns).toHaveLength(0);
+  });
+});
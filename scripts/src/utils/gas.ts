@@ -0,0 +1,171 @@
+import { Transaction } from '@mysten/sui/transactions';
+import type { DryRunTransactionBlockResponse, GasCostSummary } from '@mysten/sui/client';
+import { normalizeSuiAddress, SUI_TYPE_ARG } from '@mysten/sui/utils';
+import { GAS_CONFIG, mistToSui } from '../config/constants.js';
+import { InsufficientBalanceError } from './errors.js';
+import { transactionFailure } from './move-errors.js';
+
+/**
+ * Gas budgeting from a dry run
+ *
+ * The budget is the dry-run computation plus storage cost, raised by a safety
+ * margin and bounded by a cap. The storage rebate only comes back after
+ * execution, so the budget does not count it; the net cost does.
+ */
+
+// Floor for a budget, in gas units (the SDK uses the same overhead)
+const MIN_BUDGET_UNITS = 1000n;
+
+const FUND_WALLET = 'Fund the wallet, e.g. `inkray-cli wallet faucet` on devnet or testnet';
+
+export interface GasOptions {
+  marginPercent?: number; // Default: GAS_CONFIG.BUDGET_MARGIN_PERCENT
+  maxBudget?: bigint; // Default: GAS_CONFIG.MAX_GAS_BUDGET
+}
+
+export interface GasEstimate {
+  gasPrice: bigint;
+  computationCost: bigint;
+  storageCost: bigint;
+  storageRebate: bigint;
+  netCost: bigint; // computation + storage - rebate
+  budget: bigint;
+  spent: bigint; // SUI the transaction itself takes from the wallet, on top of gas
+  balance: bigint;
+}
+
+export function netGasCost(gasUsed: GasCostSummary): bigint {
+  return BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost) - BigInt(gasUsed.storageRebate);
+}
+
+/**
+ * Budget for a dry-run cost: (computation + storage) plus the margin, at most the cap
+ *
+ * Throws when the cost itself is over the cap; only the margin is trimmed to fit.
+ */
+export function gasBudgetFor(gasUsed: GasCostSummary, gasPrice: bigint, options: GasOptions = {}): bigint {
+  const marginPercent = BigInt(options.marginPercent ?? GAS_CONFIG.BUDGET_MARGIN_PERCENT);
+  const maxBudget = options.maxBudget ?? BigInt(GAS_CONFIG.MAX_GAS_BUDGET);
+
+  if (marginPercent < 0n) {
+    throw new Error(`Gas budget margin must not be negative: ${marginPercent}%`);
+  }
+
+  const cost = BigInt(gasUsed.computationCost) + BigInt(gasUsed.storageCost);
+  if (cost > maxBudget) {
+    throw new Error(`Estimated gas of ${mistToSui(cost)} SUI exceeds the budget cap of ${mistToSui(maxBudget)} SUI (MAX_GAS_BUDGET)`);
+  }
+
+  const withMargin = (cost * (100n + marginPercent) + 99n) / 100n;
+  const floor = MIN_BUDGET_UNITS * gasPrice;
+  const budget = withMargin > floor ? withMargin : floor;
+
+  return budget < maxBudget ? budget : maxBudget;
+}
+
+/**
+ * SUI the sender loses beyond gas, read from the dry run's balance changes
+ */
+export function spentBeyondGas(dryRun: DryRunTransactionBlockResponse, sender: string): bigint {
+  const owner = normalizeSuiAddress(sender);
+  const change = (dryRun.balanceChanges || []).find(balanceChange =>
+    balanceChange.coinType === SUI_TYPE_ARG &&
+    typeof balanceChange.owner === 'object' &&
+    'AddressOwner' in balanceChange.owner &&
+    normalizeSuiAddress(balanceChange.owner.AddressOwner) === owner
+  );
+  if (!change) {
+    return 0n;
+  }
+
+  const spent = -BigInt(change.amount) - netGasCost(dryRun.effects.gasUsed);
+  return spent > 0n ? spent : 0n;
+}
+
+/**
+ * Fail unless the wallet covers the budget plus what the transaction spends
+ */
+export function assertAffordable(estimate: GasEstimate): void {
+  const required = estimate.budget + estimate.spent;
+  if (estimate.balance < required) {
+    const spent = estimate.spent > 0n ? ` + ${mistToSui(estimate.spent)} SUI spent by the transaction` : '';
+    throw new InsufficientBalanceError(
+      `Insufficient SUI: needs ${mistToSui(required)} SUI (gas budget ${mistToSui(estimate.budget)} SUI${spent}), ` +
+      `wallet holds ${mistToSui(estimate.balance)} SUI`,
+      { fix: FUND_WALLET }
+    );
+  }
+}
+
+/**
+ * Dry-run a transaction at the reference gas price and size its budget
+ *
+ * The transaction itself is not changed; apply `gasPrice` and `budget` before signing.
+ */
+export async function estimateGas(
+  transaction: Transaction,
+  client: import('./client.js').InkraySuiClient,
+  options: GasOptions = {}
+): Promise<GasEstimate> {
+  const suiClient = client.getClient();
+  const sender = transaction.getData().sender || client.getAddress();
+  const maxBudget = options.maxBudget ?? BigInt(GAS_CONFIG.MAX_GAS_BUDGET);
+
+  const [gasPrice, balance] = await Promise.all([
+    suiClient.getReferenceGasPrice(),
+    suiClient.getBalance({ owner: sender }).then(result => BigInt(result.totalBalance)),
+  ]);
+
+  if (balance === 0n) {
+    throw new InsufficientBalanceError(`Insufficient SUI: wallet ${sender} holds no SUI to pay for gas`, { fix: FUND_WALLET });
+  }
+
+  // Dry-run a copy without gas coins, so the node charges a stand-in coin up to the cap
+  const dryRunTransaction = Transaction.from(transaction);
+  dryRunTransaction.setSenderIfNotSet(sender);
+  dryRunTransaction.setGasPrice(gasPrice);
+  dryRunTransaction.setGasBudget(maxBudget);
+  dryRunTransaction.setGasPayment([]);
+
+  const dryRun = await suiClient.dryRunTransactionBlock({
+    transactionBlock: await dryRunTransaction.build({ client: suiClient }),
+  });
+
+  return gasEstimateFromDryRun(dryRun, { gasPrice, balance, sender }, { ...options, maxBudget });
+}
+
+/**
+ * Size the budget from a finished dry run (e.g. one the Sui CLI ran) and check the wallet covers it
+ */
+export function gasEstimateFromDryRun(
+  dryRun: DryRunTransactionBlockResponse,
+  wallet: { gasPrice: bigint; balance: bigint; sender: string },
+  options: GasOptions = {}
+): GasEstimate {
+  if (dryRun.effects.status.status !== 'success') {
+    // Aborts surface here before anything is signed, so they get the same typed error as on execution
+    throw transactionFailure(dryRun.effects.status.error || 'Unknown error');
+  }
+
+  const gasUsed = dryRun.effects.gasUsed;
+  const estimate: GasEstimate = {
+    gasPrice: wallet.gasPrice,
+    computationCost: BigInt(gasUsed.computationCost),
+    storageCost: BigInt(gasUsed.storageCost),
+    storageRebate: BigInt(gasUsed.storageRebate),
+    netCost: netGasCost(gasUsed),
+    budget: gasBudgetFor(gasUsed, wallet.gasPrice, options),
+    spent: spentBeyondGas(dryRun, wallet.sender),
+    balance: wallet.balance,
+  };
+
+  assertAffordable(estimate);
+
+  return estimate;
+}
+
+export function formatGasEstimate(estimate: GasEstimate): string {
+  const net = estimate.netCost >= 0n ? `${mistToSui(estimate.netCost)} SUI` : `a refund of ${mistToSui(-estimate.netCost)} SUI`;
+  return `${net} net (${estimate.computationCost} computation + ${estimate.storageCost} storage - ${estimate.storageRebate} rebate MIST), ` +
+    `budget ${mistToSui(estimate.budget)} SUI at ${estimate.gasPrice} MIST/unit`;
+}
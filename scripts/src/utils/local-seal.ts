@@ -0,0 +1,158 @@
+import { bcs } from '@mysten/bcs';
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'node:crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+
+/**
+ * Local (offline) Seal mode
+ *
+ * Stand-in for the key servers during development and tests: content is
+ * sealed with AES-256-GCM under a key derived from a locally held master
+ * secret, the package ID and the content ID. Blobs start with a readable
+ * magic so they can never be mistaken for Seal ciphertext or plaintext.
+ *
+ * Layout: "INKRAY_LOCAL_SEAL" | LocalSealObject (BCS)
+ */
+export const LOCAL_SEAL_MAGIC = new TextEncoder().encode('INKRAY_LOCAL_SEAL');
+export const LOCAL_SEAL_VERSION = 1;
+export const DEFAULT_LOCAL_MASTER_KEY_PATH = path.join(os.homedir(), '.inkray', 'local-seal-master.key');
+
+export const LocalSealObject = bcs.struct('LocalSealObject', {
+  version: bcs.u8(),
+  packageId: bcs.fixedArray(32, bcs.u8()),
+  id: bcs.vector(bcs.u8()),         // Content ID (BCS IdV1)
+  nonce: bcs.fixedArray(12, bcs.u8()),
+  ciphertext: bcs.vector(bcs.u8()), // AES-GCM ciphertext followed by the 16-byte tag
+});
+
+export interface LocalKeyServerOptions {
+  masterKey?: Uint8Array; // 32 bytes; defaults to SEAL_LOCAL_MASTER_KEY or the key file
+  masterKeyPath?: string;
+}
+
+export function isLocalSealObject(data: Uint8Array): boolean {
+  if (data.length < LOCAL_SEAL_MAGIC.length) return false;
+  return LOCAL_SEAL_MAGIC.every((byte, i) => data[i] === byte);
+}
+
+/**
+ * Parse the header of a locally sealed blob
+ */
+export function parseLocalSealObject(data: Uint8Array): {
+  packageId: string;
+  id: Uint8Array;
+  nonce: Uint8Array;
+  ciphertext: Uint8Array;
+} {
+  if (!isLocalSealObject(data)) {
+    throw new Error('Not a local Seal object (missing INKRAY_LOCAL_SEAL header)');
+  }
+
+  const parsed = LocalSealObject.parse(data.slice(LOCAL_SEAL_MAGIC.length));
+  if (parsed.version !== LOCAL_SEAL_VERSION) {
+    throw new Error(`Unsupported local Seal object version: ${parsed.version}`);
+  }
+
+  return {
+    packageId: '0x' + Buffer.from(parsed.packageId).toString('hex'),
+    id: Uint8Array.from(parsed.id),
+    nonce: Uint8Array.from(parsed.nonce),
+    ciphertext: Uint8Array.from(parsed.ciphertext),
+  };
+}
+
+/**
+ * Holds the master secret that stands in for the key server committee
+ */
+export class LocalKeyServer {
+  private masterKey: Uint8Array;
+
+  constructor(options?: LocalKeyServerOptions) {
+    this.masterKey = options?.masterKey || loadMasterKey(options?.masterKeyPath);
+
+    if (this.masterKey.length !== 32) {
+      throw new Error(`Local Seal master key must be 32 bytes, got ${this.masterKey.length}`);
+    }
+  }
+
+  encrypt(data: Uint8Array, packageId: string, contentId: Uint8Array): Uint8Array {
+    const nonce = randomBytes(12);
+    const packageBytes = packageIdToBytes(packageId);
+    const cipher = createCipheriv('aes-256-gcm', this.deriveKey(packageBytes, contentId), nonce);
+    cipher.setAAD(contentId);
+
+    const ciphertext = Buffer.concat([cipher.update(data), cipher.final(), cipher.getAuthTag()]);
+
+    const body = LocalSealObject.serialize({
+      version: LOCAL_SEAL_VERSION,
+      packageId: Array.from(packageBytes),
+      id: Array.from(contentId),
+      nonce: Array.from(nonce),
+      ciphertext: Array.from(ciphertext),
+    }).toBytes();
+
+    const result = new Uint8Array(LOCAL_SEAL_MAGIC.length + body.length);
+    result.set(LOCAL_SEAL_MAGIC, 0);
+    result.set(body, LOCAL_SEAL_MAGIC.length);
+    return result;
+  }
+
+  decrypt(data: Uint8Array): Uint8Array {
+    const { packageId, id, nonce, ciphertext } = parseLocalSealObject(data);
+
+    if (ciphertext.length < 16) {
+      throw new Error('Local Seal object is truncated');
+    }
+
+    const tag = ciphertext.slice(ciphertext.length - 16);
+    const decipher = createDecipheriv('aes-256-gcm', this.deriveKey(packageIdToBytes(packageId), id), nonce);
+    decipher.setAAD(id);
+    decipher.setAuthTag(tag);
+
+    try {
+      return new Uint8Array(Buffer.concat([
+        decipher.update(ciphertext.slice(0, ciphertext.length - 16)),
+        decipher.final(),
+      ]));
+    } catch {
+      throw new Error('Local Seal decryption failed: wrong master key or corrupted blob');
+    }
+  }
+
+  private deriveKey(packageId: Uint8Array, contentId: Uint8Array): Uint8Array {
+    const info = Buffer.concat([Buffer.from('inkray-local-seal-v1'), contentId]);
+    return new Uint8Array(hkdfSync('sha256', this.masterKey, packageId, info, 32));
+  }
+}
+
+function packageIdToBytes(packageId: string): Uint8Array {
+  const hex = packageId.startsWith('0x') ? packageId.slice(2) : packageId;
+  if (!/^[0-9a-fA-F]{1,64}$/.test(hex)) {
+    throw new Error(`Invalid package ID: ${packageId}`);
+  }
+  return Uint8Array.from(Buffer.from(hex.padStart(64, '0'), 'hex'));
+}
+
+/**
+ * SEAL_LOCAL_MASTER_KEY (hex) wins; otherwise the key file is read, or created on first use
+ */
+function loadMasterKey(masterKeyPath: string = DEFAULT_LOCAL_MASTER_KEY_PATH): Uint8Array {
+  const fromEnv = process.env.SEAL_LOCAL_MASTER_KEY;
+  if (fromEnv) {
+    return Uint8Array.from(Buffer.from(fromEnv.replace(/^0x/, ''), 'hex'));
+  }
+
+  if (existsSync(masterKeyPath)) {
+    return Uint8Array.from(Buffer.from(readFileSync(masterKeyPath, 'utf8').trim(), 'hex'));
+  }
+
+  const masterKey = randomBytes(32);
+  mkdirSync(path.dirname(masterKeyPath), { recursive: true });
+  writeFileSync(masterKeyPath, masterKey.toString('hex'), { mode: 0o600 });
+  chmodSync(masterKeyPath, 0o600);
+  console.log(chalk.yellow(`⚠️  Created local Seal master key: ${masterKeyPath}`));
+
+  return Uint8Array.from(masterKey);
+}
@@ -0,0 +1,86 @@
+import { beforeAll, describe, expect, it } from '@jest/globals';
+import * as bindings from '../generated/index.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import { AccessDeniedError, InkrayError, InsufficientPaymentError, MoveAbortError } from './errors.js';
+import { contractError, MOVE_ERROR_CATALOG, moveErrorName, parseMoveAbort, transactionFailure } from './move-errors.js';
+
+const PKG = 'ab'.repeat(32);
+const OTHER_PKG = 'cd'.repeat(32);
+
+beforeAll(() => {
+  CONTRACT_ADDRESSES.PACKAGE_ID = '0x' + PKG;
+});
+
+const abortStatus = (address: string, module: string, fn: string, code: number) =>
+  `MoveAbort(MoveLocation { module: ModuleId { address: ${address}, name: Identifier("${module}") }, ` +
+  `function: 3, instruction: 21, function_name: Some("${fn}") }, ${code}) in command 1`;
+
+describe('parseMoveAbort', () => {
+  it('reads module, function, code and command', () => {
+    expect(parseMoveAbort(abortStatus(PKG, 'articles', 'post', 0))).toEqual({
+      address: '0x' + PKG,
+      module: 'articles',
+      functionName: 'post',
+      code: 0,
+      command: 1,
+    });
+  });
+
+  it('ignores other failures', () => {
+    expect(parseMoveAbort('InsufficientGas')).toBeNull();
+  });
+});
+
+describe('MOVE_ERROR_CATALOG', () => {
+  it('covers every abort code of the contracts', () => {
+    const codes = Object.values(bindings).flatMap(module =>
+      Object.values(module.ERRORS).map(name => `${module.MODULE}::${name}`)
+    );
+
+    expect(Object.keys(MOVE_ERROR_CATALOG).sort()).toEqual(codes.sort());
+  });
+});
+
+describe('transactionFailure', () => {
+  it('throws the catalogued class with module, code, digest and fix', () => {
+    const error = transactionFailure(abortStatus(PKG, 'policy', 'seal_approve', 14), 'digest1') as InkrayError;
+
+    expect(error).toBeInstanceOf(AccessDeniedError);
+    expect(error).toMatchObject({ module: 'policy', code: 14, errorName: 'E_ACCESS_DENIED', digest: 'digest1' });
+    expect(error.qualifiedName).toBe('policy::E_ACCESS_DENIED');
+    expect(error.fix).toContain('Subscribe to the publication');
+    expect(error.message).toBe('Transaction failed: policy::E_ACCESS_DENIED (abort code 14 in policy::seal_approve)');
+  });
+
+  it('leaves framework aborts and unknown codes as MoveAbortError', () => {
+    const framework = transactionFailure(abortStatus('0000000000000000000000000000000000000000000000000000000000000002', 'vault', 'x', 0));
+    const unknown = transactionFailure(abortStatus(PKG, 'nft', 'mint', 99));
+
+    expect(framework).toBeInstanceOf(MoveAbortError);
+    expect((framework as MoveAbortError).errorName).toBeUndefined();
+    expect((unknown as MoveAbortError).qualifiedName).toBe('nft::99');
+  });
+
+  it('does not name aborts of another package with the same module names', () => {
+    const foreign = transactionFailure(abortStatus(OTHER_PKG, 'policy', 'seal_approve', 14));
+
+    expect(foreign).toBeInstanceOf(MoveAbortError);
+    expect(foreign).not.toBeInstanceOf(AccessDeniedError);
+    expect((foreign as MoveAbortError).errorName).toBeUndefined();
+    expect(moveErrorName({ address: '0x' + OTHER_PKG, module: 'vault', code: 0 })).toBeUndefined();
+    expect(moveErrorName({ address: '0x' + PKG, module: 'vault', code: 0 })).toBe('E_ASSET_NOT_FOUND');
+  });
+
+  it('keeps non-abort failures as they are', () => {
+    expect(transactionFailure('InsufficientGas').message).toBe('Transaction failed: InsufficientGas');
+  });
+});
+
+describe('contractError', () => {
+  it('raises what the contract would for an SDK-side check', () => {
+    const error = contractError('publication_subscription::E_INSUFFICIENT_PAYMENT', 'Too little');
+
+    expect(error).toBeInstanceOf(InsufficientPaymentError);
+    expect(error).toMatchObject({ module: 'publication_subscription', code: 3, errorName: 'E_INSUFFICIENT_PAYMENT' });
+  });
+});
@@ -0,0 +1,153 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import * as bindings from '../generated/index.js';
+import { CONTRACT_ADDRESSES } from '../config/constants.js';
+import {
+  AccessDeniedError,
+  AlreadyExistsError,
+  BlobNotFoundError,
+  InsufficientBalanceError,
+  InsufficientPaymentError,
+  InvalidArgumentError,
+  InvalidContentIdError,
+  MoveAbortError,
+  NotFoundError,
+  NotOwnerError,
+  type InkrayError,
+  type InkrayErrorClass,
+} from './errors.js';
+
+/**
+ * Move aborts, decoded from a failed transaction's status
+ *
+ * Abort codes of the Inkray modules are named after their constants in the
+ * Move sources (the generated `ERRORS` tables), e.g. `policy::E_ACCESS_DENIED`,
+ * and thrown as the InkrayError class the catalog below gives them.
+ */
+
+export interface MoveAbort {
+  address: string;
+  module: string;
+  functionName?: string;
+  code: number;
+  command?: number; // Index of the PTB command that aborted
+}
+
+const ERROR_TABLES: Record<string, Readonly<Record<number, string>>> = Object.fromEntries(
+  Object.values(bindings).map(module => [module.MODULE, module.ERRORS])
+);
+
+/**
+ * Read an abort out of an execution error, e.g.
+ * `MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("policy") }, ... }, 14) in command 0`
+ */
+export function parseMoveAbort(error: string): MoveAbort | null {
+  const match = /MoveAbort\(\s*MoveLocation\s*\{\s*module:\s*ModuleId\s*\{\s*address:\s*(\w+),\s*name:\s*Identifier\("(\w+)"\)\s*\},[\s\S]*?function_name:\s*(?:Some\("(\w+)"\)|None)\s*\},\s*(\d+)\s*\)(?:\s*in command (\d+))?/.exec(error);
+  if (!match) {
+    return null;
+  }
+
+  const [, address, module, functionName, code, command] = match;
+  return {
+    address: normalizeSuiAddress(address),
+    module,
+    functionName,
+    code: Number(code),
+    command: command !== undefined ? Number(command) : undefined,
+  };
+}
+
+/**
+ * Constant name of an Inkray abort code, e.g. `E_ACCESS_DENIED` for policy 14
+ *
+ * Only aborts raised by the deployed package are named: any other package
+ * (the framework included) may have modules called `vault` or `policy` too.
+ */
+export function moveErrorName(
+  abort: Pick<MoveAbort, 'address' | 'module' | 'code'>,
+  packageId: string = CONTRACT_ADDRESSES.PACKAGE_ID
+): string | undefined {
+  if (!packageId || normalizeSuiAddress(abort.address) !== normalizeSuiAddress(packageId)) {
+    return undefined;
+  }
+  return ERROR_TABLES[abort.module]?.[abort.code];
+}
+
+interface CatalogEntry {
+  type: InkrayErrorClass;
+  fix: string;
+}
+
+/**
+ * Error class and suggested fix for every abort code of the Inkray modules
+ */
+export const MOVE_ERROR_CATALOG = {
+  'articles::E_NOT_AUTHORIZED': { type: NotOwnerError, fix: 'Post as a contributor of the publication, or with its PublicationOwnerCap' },
+  'articles::E_INVALID_PUBLICATION': { type: InvalidArgumentError, fix: 'Use the publication the article belongs to' },
+  'articles::E_INVALID_VAULT': { type: InvalidArgumentError, fix: 'Pass the vault recorded on the publication (vault_id)' },
+  'articles::E_ARTICLE_NOT_FROM_PUBLICATION': { type: InvalidArgumentError, fix: 'Use the publication the article was posted in' },
+  'articles::E_VAULT_MISMATCH': { type: InvalidArgumentError, fix: 'Pass the vault recorded on the article and its publication' },
+  'nft::E_NOT_ADMIN': { type: NotOwnerError, fix: 'Sign with the MintConfig admin address' },
+  'nft::E_INVALID_ARTICLE': { type: InvalidArgumentError, fix: 'Use a platform fee percentage between 0 and 100' },
+  'platform_economics::E_NOT_OWNER': { type: NotOwnerError, fix: 'Sign with the wallet holding the publication\'s PublicationOwnerCap' },
+  'platform_economics::E_INSUFFICIENT_BALANCE': { type: InsufficientBalanceError, fix: 'Withdraw at most the publication\'s treasury balance' },
+  'platform_economics::E_INVALID_TIP_AMOUNT': { type: InvalidArgumentError, fix: 'Tip a positive amount' },
+  'platform_economics::E_WRONG_PUBLICATION': { type: InvalidArgumentError, fix: 'Tip the article through the publication it belongs to' },
+  'policy::E_BAD_ID': { type: InvalidContentIdError, fix: 'Decrypt with credentials for the publication encoded in the content ID' },
+  'policy::E_TRAILING': { type: InvalidContentIdError, fix: 'Use the content ID exactly as stored on the article' },
+  'policy::E_WRONG_TAG': { type: InvalidContentIdError, fix: 'Use the content ID exactly as stored on the article' },
+  'policy::E_WRONG_VERSION': { type: InvalidContentIdError, fix: 'Use the content ID exactly as stored on the article' },
+  'policy::E_ACCESS_DENIED': { type: AccessDeniedError, fix: 'Subscribe to the publication, mint the article NFT or ask the owner to add you as a contributor' },
+  'publication::E_NOT_OWNER': { type: NotOwnerError, fix: 'Sign with the wallet holding the publication\'s PublicationOwnerCap' },
+  'publication::E_CONTRIBUTOR_NOT_FOUND': { type: NotFoundError, fix: 'Check the address against the publication\'s contributors' },
+  'publication::E_CONTRIBUTOR_EXISTS': { type: AlreadyExistsError, fix: 'The address is already a contributor; nothing to do' },
+  'publication_subscription::E_INVALID_PAYMENT': { type: InvalidArgumentError, fix: 'Renew your own subscription, for the publication it was bought for' },
+  'publication_subscription::E_SUBSCRIPTION_NOT_REQUIRED': { type: InvalidArgumentError, fix: 'The publication is free; read it without subscribing' },
+  'publication_subscription::E_INSUFFICIENT_PAYMENT': { type: InsufficientPaymentError, fix: 'Pay at least one month at the publication\'s subscription price' },
+  'publication_subscription::E_ZERO_DURATION': { type: InvalidArgumentError, fix: 'Pay a whole number of months at the subscription price' },
+  'subscription::E_INSUFFICIENT_PAYMENT': { type: InsufficientPaymentError, fix: 'Pay at least the monthly fee of the plan' },
+  'subscription::E_INVALID_PLAN': { type: InvalidArgumentError, fix: 'Choose a plan the platform service offers (basic, premium or pro)' },
+  'subscription::E_NOT_SUBSCRIBER': { type: NotOwnerError, fix: 'Sign with the subscription holder (or the service admin for fee changes)' },
+  'vault::E_ASSET_NOT_FOUND': { type: BlobNotFoundError, fix: 'Check the blob object ID against the vault\'s stored blobs' },
+  'vault::E_ASSET_EXISTS': { type: AlreadyExistsError, fix: 'The blob is already stored in the vault; nothing to do' },
+  'vault::E_INVALID_EPOCH_EXTENSION': { type: InvalidArgumentError, fix: 'Extend storage by at least one epoch' },
+} satisfies Record<string, CatalogEntry>;
+
+// `module::E_NAME` of every catalogued abort code
+export type MoveErrorName = keyof typeof MOVE_ERROR_CATALOG;
+
+/**
+ * Typed error for an abort: its catalogued class, or MoveAbortError for unnamed codes
+ */
+export function moveAbortError(abort: MoveAbort, digest?: string, rawError?: string, packageId?: string): InkrayError {
+  const errorName = moveErrorName(abort, packageId);
+  const location = abort.functionName ? `${abort.module}::${abort.functionName}` : abort.module;
+  const label = errorName ? `${abort.module}::${errorName}` : `Move abort in ${abort.address}::${abort.module}`;
+  const message = `Transaction failed: ${label} (abort code ${abort.code} in ${location})`;
+
+  const entry = errorName ? (MOVE_ERROR_CATALOG as Record<string, CatalogEntry | undefined>)[label] : undefined;
+  if (entry) {
+    return new entry.type(message, { module: abort.module, code: abort.code, errorName, digest, fix: entry.fix, cause: rawError });
+  }
+  return new MoveAbortError(message, abort, { errorName, digest, cause: rawError });
+}
+
+/**
+ * The error a contract check raises, for SDK checks that mirror it before sending a transaction
+ */
+export function contractError(name: MoveErrorName, message: string): InkrayError {
+  const [module, errorName] = name.split('::');
+  const code = Object.entries(ERROR_TABLES[module] ?? {}).find(([, constant]) => constant === errorName)?.[0];
+  const { type, fix } = MOVE_ERROR_CATALOG[name];
+  return new type(message, { module, code: code !== undefined ? Number(code) : undefined, errorName, fix });
+}
+
+/**
+ * Error for a failed execution status: a typed error when the status is an abort
+ */
+export function transactionFailure(status: string, digest?: string, prefix: string = 'Transaction failed'): Error {
+  const abort = parseMoveAbort(status);
+  if (!abort) {
+    return new Error(`${prefix}: ${status}`);
+  }
+  return moveAbortError(abort, digest, status);
+}
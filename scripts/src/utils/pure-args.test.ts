@@ -0,0 +1,82 @@
+import { describe, expect, it } from '@jest/globals';
+import { bcs } from '@mysten/sui/bcs';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { encodePureArg, formatPureType, parsePureType } from './pure-args.js';
+import { createTransaction } from './transactions.js';
+
+const ID = normalizeSuiAddress('0x' + '11'.repeat(32));
+
+describe('parsePureType', () => {
+  it('reads scalars, generics and full Move names', () => {
+    expect(parsePureType('u64')).toEqual({ kind: 'u64' });
+    expect(parsePureType('0x2::object::ID')).toEqual({ kind: 'ID' });
+    expect(parsePureType('0x1::string::String')).toEqual({ kind: 'string' });
+    expect(parsePureType('vector<vector<u8>>')).toEqual({ kind: 'vector', element: { kind: 'vector', element: { kind: 'u8' } } });
+    expect(formatPureType(parsePureType('0x1::option::Option< address >'))).toBe('Option<address>');
+  });
+
+  it('rejects types that cannot be pure arguments', () => {
+    expect(() => parsePureType('0x2::coin::Coin<0x2::sui::SUI>')).toThrow('Unsupported pure argument type');
+    expect(() => parsePureType('u63')).toThrow('Unsupported pure argument type');
+  });
+});
+
+describe('encodePureArg', () => {
+  it('serializes scalars like the BCS types', () => {
+    expect(encodePureArg(7, 'u8')).toEqual(bcs.u8().serialize(7).toBytes());
+    expect(encodePureArg('18446744073709551615', 'u64')).toEqual(bcs.u64().serialize('18446744073709551615').toBytes());
+    expect(encodePureArg(2n ** 200n, 'u256')).toEqual(bcs.u256().serialize(2n ** 200n).toBytes());
+    expect(encodePureArg(true, 'bool')).toEqual(bcs.bool().serialize(true).toBytes());
+    expect(encodePureArg('Hello', 'string')).toEqual(bcs.string().serialize('Hello').toBytes());
+  });
+
+  it('pads short addresses and IDs', () => {
+    expect(encodePureArg('0x2', 'address')).toEqual(bcs.Address.serialize(normalizeSuiAddress('0x2')).toBytes());
+    expect(encodePureArg(ID, 'ID')).toEqual(bcs.Address.serialize(ID).toBytes());
+  });
+
+  it('serializes vectors and options', () => {
+    expect(encodePureArg(new Uint8Array([1, 2]), 'vector<u8>')).toEqual(bcs.vector(bcs.u8()).serialize([1, 2]).toBytes());
+    expect(encodePureArg([ID], 'vector<ID>')).toEqual(bcs.vector(bcs.Address).serialize([ID]).toBytes());
+    expect(encodePureArg(null, 'Option<u64>')).toEqual(new Uint8Array([0]));
+    expect(encodePureArg(5, 'Option<u64>')).toEqual(bcs.option(bcs.u64()).serialize(5).toBytes());
+    expect(encodePureArg([['a'], []], 'vector<vector<string>>'))
+      .toEqual(bcs.vector(bcs.vector(bcs.string())).serialize([['a'], []]).toBytes());
+  });
+
+  it('rejects values that do not fit the type', () => {
+    expect(() => encodePureArg(256, 'u8')).toThrow('expected an integer in [0, 2^8)');
+    expect(() => encodePureArg(-1, 'u64')).toThrow('expected an integer');
+    expect(() => encodePureArg(1.5, 'u64')).toThrow('expected an integer');
+    expect(() => encodePureArg('vault-1', 'address')).toThrow('expected a 0x-prefixed address');
+    expect(() => encodePureArg('0x' + '1'.repeat(65), 'ID')).toThrow('expected a 0x-prefixed object ID');
+    expect(() => encodePureArg(1 as any, 'string')).toThrow('expected a string');
+  });
+
+  it('names the offending element', () => {
+    expect(() => encodePureArg([1, 2, 300], 'vector<u8>')).toThrow('at vector<u8>[2]');
+    expect(() => encodePureArg('x' as any, 'Option<bool>')).toThrow('at Option<bool>.some');
+  });
+});
+
+describe('TransactionBuilder pure arguments', () => {
+  it('adds typed vectors and options as pure inputs', async () => {
+    const fake = new FakeSuiClient();
+    const tx = createTransaction(fake.createInkrayClient());
+
+    tx.moveCall({
+      package: '0x2',
+      module: 'm',
+      function: 'f',
+      arguments: [tx.pureVector('address', [ID]), tx.pureOption('u64', undefined), tx.pureId(ID)],
+    });
+    await tx.execute();
+
+    expect(fake.lastExecuted().moveCalls[0].arguments).toEqual([
+      { kind: 'pure', bytes: bcs.vector(bcs.Address).serialize([ID]).toBytes() },
+      { kind: 'pure', bytes: new Uint8Array([0]) },
+      { kind: 'pure', bytes: bcs.Address.serialize(ID).toBytes() },
+    ]);
+  });
+});
@@ -0,0 +1,186 @@
+import { bcs, type BcsType } from '@mysten/sui/bcs';
+import type { Transaction } from '@mysten/sui/transactions';
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+
+/**
+ * Typed pure arguments for Move calls
+ *
+ * A pure argument is given with its Move type, e.g. `'u64'`, `'ID'`,
+ * `'vector<address>'` or `'Option<string>'` (full names such as
+ * `0x1::string::String` work too). The value is checked against the type and
+ * serialized with the matching BCS type before it reaches the transaction, so
+ * a wrong value fails while building instead of aborting on chain.
+ */
+
+export type PureScalarType = 'u8' | 'u16' | 'u32' | 'u64' | 'u128' | 'u256' | 'bool' | 'address' | 'ID' | 'string';
+
+export type ParsedPureType =
+  | { kind: PureScalarType }
+  | { kind: 'vector'; element: ParsedPureType }
+  | { kind: 'option'; element: ParsedPureType };
+
+type NumberValue = number | string | bigint;
+
+/**
+ * TypeScript value accepted for a Move type; `unknown` when the type is not a literal
+ */
+export type PureValue<T extends string> =
+  string extends T ? unknown :
+  T extends 'u8' | 'u16' | 'u32' ? number :
+  T extends 'u64' | 'u128' | 'u256' ? NumberValue :
+  T extends 'bool' ? boolean :
+  T extends 'address' | 'ID' | `${string}::object::ID` ? string :
+  T extends 'string' | 'String' | `${string}::string::String` ? string :
+  T extends 'vector<u8>' ? Uint8Array | number[] :
+  T extends `vector<${infer E}>` ? PureValue<E>[] :
+  T extends `Option<${infer E}>` | `${string}::option::Option<${infer E}>` ? PureValue<E> | null | undefined :
+  never;
+
+const INTEGER_BITS: Record<string, number> = { u8: 8, u16: 16, u32: 32, u64: 64, u128: 128, u256: 256 };
+
+const SCALAR_ALIASES: Record<string, PureScalarType> = {
+  u8: 'u8', u16: 'u16', u32: 'u32', u64: 'u64', u128: 'u128', u256: 'u256',
+  bool: 'bool',
+  address: 'address',
+  ID: 'ID', 'object::ID': 'ID',
+  string: 'string', String: 'string', 'string::String': 'string',
+};
+
+/**
+ * Parse a Move type into the shape the encoder understands
+ */
+export function parsePureType(type: string): ParsedPureType {
+  const trimmed = type.replace(/\s+/g, '');
+
+  const generic = /^(?:(?:0x0*[12]|std|sui)::)?(vector|option::Option|Option)<(.+)>$/.exec(trimmed);
+  if (generic) {
+    const element = parsePureType(generic[2]);
+    return generic[1] === 'vector' ? { kind: 'vector', element } : { kind: 'option', element };
+  }
+
+  const scalar = SCALAR_ALIASES[trimmed.replace(/^(?:0x0*[12]|std|sui)::/, '')];
+  if (!scalar) {
+    throw new Error(`Unsupported pure argument type: ${type}`);
+  }
+  return { kind: scalar };
+}
+
+export function formatPureType(type: ParsedPureType): string {
+  switch (type.kind) {
+    case 'vector':
+      return `vector<${formatPureType(type.element)}>`;
+    case 'option':
+      return `Option<${formatPureType(type.element)}>`;
+    default:
+      return type.kind;
+  }
+}
+
+/**
+ * Check `value` against `type` and return its BCS bytes
+ */
+export function encodePureArg<T extends string>(value: PureValue<T>, type: T): Uint8Array {
+  const parsed = parsePureType(type);
+  const normalized = normalizePureValue(parsed, value, formatPureType(parsed));
+
+  try {
+    return pureBcsType(parsed).serialize(normalized).toBytes();
+  } catch (error) {
+    throw new Error(`Invalid ${formatPureType(parsed)} argument: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+/**
+ * Typed pure argument for a plain `Transaction`
+ */
+export function pureArg<T extends string>(tx: Transaction, value: PureValue<T>, type: T) {
+  return tx.pure(encodePureArg(value, type));
+}
+
+function pureBcsType(type: ParsedPureType): BcsType<any> {
+  switch (type.kind) {
+    case 'u8': return bcs.u8();
+    case 'u16': return bcs.u16();
+    case 'u32': return bcs.u32();
+    case 'u64': return bcs.u64();
+    case 'u128': return bcs.u128();
+    case 'u256': return bcs.u256();
+    case 'bool': return bcs.bool();
+    case 'address':
+    case 'ID': return bcs.Address;
+    case 'string': return bcs.string();
+    case 'vector': return bcs.vector(pureBcsType(type.element));
+    case 'option': return bcs.option(pureBcsType(type.element));
+  }
+}
+
+/**
+ * Validate a value and convert it to what the BCS type serializes
+ */
+function normalizePureValue(type: ParsedPureType, value: unknown, path: string): unknown {
+  const fail = (expected: string): never => {
+    throw new Error(`Invalid pure argument at ${path}: expected ${expected}, got ${describeValue(value)}`);
+  };
+
+  switch (type.kind) {
+    case 'u8':
+    case 'u16':
+    case 'u32':
+    case 'u64':
+    case 'u128':
+    case 'u256': {
+      const bits = INTEGER_BITS[type.kind];
+      const integer = toBigInt(value);
+      if (integer === null || integer < 0n || integer >= 1n << BigInt(bits)) {
+        fail(`an integer in [0, 2^${bits})`);
+      }
+      return bits <= 32 ? Number(integer) : integer!.toString();
+    }
+    case 'bool':
+      return typeof value === 'boolean' ? value : fail('a boolean');
+    case 'address':
+    case 'ID': {
+      if (typeof value !== 'string' || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+        fail(`a 0x-prefixed ${type.kind === 'ID' ? 'object ID' : 'address'}`);
+      }
+      const address = normalizeSuiAddress(value as string);
+      return isValidSuiAddress(address) ? address : fail('a Sui address');
+    }
+    case 'string':
+      return typeof value === 'string' ? value : fail('a string');
+    case 'vector': {
+      const items = value instanceof Uint8Array ? Array.from(value) : value;
+      if (!Array.isArray(items)) {
+        fail('an array');
+      }
+      return (items as unknown[]).map((item, index) => normalizePureValue(type.element, item, `${path}[${index}]`));
+    }
+    case 'option':
+      return value === null || value === undefined
+        ? null
+        : normalizePureValue(type.element, value, `${path}.some`);
+  }
+}
+
+function toBigInt(value: unknown): bigint | null {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isSafeInteger(value) ? BigInt(value) : null;
+  }
+  if (typeof value === 'string' && /^\d+$/.test(value)) {
+    return BigInt(value);
+  }
+  return null;
+}
+
+function describeValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}…` : value);
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return value === null ? 'null' : typeof value === 'object' ? 'an object' : `${typeof value} ${String(value)}`;
+}
@@ -0,0 +1,227 @@
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { EncryptedObject } from '@mysten/seal';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { startMockSealNetwork, type MockSealNetwork } from '../testing/mock-seal-server.js';
+import * as publicationMove from '../generated/publication.js';
+import { AccessDeniedError, InvalidContentIdError } from './errors.js';
+import {
+  ID_V1_GOLDEN_VECTORS,
+  ID_V1_LENGTH,
+  checkGoldenVectors,
+  contentIdToHex,
+  decodeContentId,
+  encodeContentIdV1,
+} from './content-id.js';
+import { LocalKeyServer } from './local-seal.js';
+import { InkraySealClient, readEncryptedContentId } from './seal-client.js';
+import { SessionKeyManager } from './session-key-manager.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+const OTHER_PUBLICATION = normalizeSuiAddress('0x' + '22'.repeat(32));
+const ARTICLE = new TextEncoder().encode('# Paid article');
+
+describe('IdV1 content IDs', () => {
+  it('matches the golden vectors shared with policy_tests.move', () => {
+    expect(checkGoldenVectors()).toEqual([]);
+    for (const vector of ID_V1_GOLDEN_VECTORS) {
+      expect(contentIdToHex(encodeContentIdV1(vector.publication, vector.nonce))).toBe('0x' + vector.hex);
+    }
+  });
+
+  it('lays out tag, LE version, publication and LE nonce in 43 bytes', () => {
+    const id = encodeContentIdV1(PUBLICATION, 0x0102n);
+
+    expect(id).toHaveLength(ID_V1_LENGTH);
+    expect(Array.from(id.slice(0, 3))).toEqual([0, 1, 0]);
+    expect(contentIdToHex(id.slice(3, 35))).toBe(PUBLICATION);
+    expect(Array.from(id.slice(35))).toEqual([2, 1, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it('rejects IDs parse_id_v1 would abort on', () => {
+    const id = encodeContentIdV1(PUBLICATION, 1n);
+
+    expect(() => decodeContentId(id.slice(0, 42))).toThrow('too short');
+    expect(() => decodeContentId(Uint8Array.from([...id, 0]))).toThrow('E_TRAILING');
+    expect(() => decodeContentId(Uint8Array.from([1, ...id.slice(1)]))).toThrow('E_WRONG_TAG');
+    expect(() => decodeContentId(Uint8Array.from([0, 2, ...id.slice(2)]))).toThrow('E_WRONG_VERSION');
+
+    const wrongTag = (() => {
+      try {
+        decodeContentId(Uint8Array.from([1, ...id.slice(1)]));
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(wrongTag).toBeInstanceOf(InvalidContentIdError);
+    expect(wrongTag).toMatchObject({ module: 'policy', code: 12, errorName: 'E_WRONG_TAG' });
+  });
+
+  it('generates article IDs for the publication with a timestamp nonce', () => {
+    const sealClient = new InkraySealClient({
+      suiClient: {} as any,
+      network: 'localnet',
+      keyServers: [],
+      threshold: 1,
+      mode: 'local',
+    });
+    const before = BigInt(Date.now());
+
+    const decoded = decodeContentId(sealClient.generateArticleContentId(PUBLICATION, 'Hello'));
+
+    expect(decoded.publication).toBe(PUBLICATION);
+    expect(decoded.nonce).toBeGreaterThanOrEqual(before);
+    expect(() => sealClient.generateArticleContentId('0x11', 'Hello')).toThrow('Invalid Sui address');
+  });
+
+  it('records the content ID in local-mode blobs', async () => {
+    const sealClient = new InkraySealClient({
+      suiClient: {} as any,
+      network: 'localnet',
+      keyServers: [],
+      threshold: 1,
+      mode: 'local',
+      localKeyServer: new LocalKeyServer({ masterKey: new Uint8Array(32).fill(7) }),
+    });
+    const contentId = encodeContentIdV1(PUBLICATION, 5n);
+
+    const blob = await sealClient.encryptContent(ARTICLE, { contentId, packageId: PKG });
+
+    expect(readEncryptedContentId(blob)).toBe(contentIdToHex(contentId));
+  });
+});
+
+describe('InkraySealClient with mock key servers', () => {
+  let network: MockSealNetwork;
+  let creator: InkraySealClient;
+  let contributor: InkraySealClient;
+  const contributorKey = new Ed25519Keypair().getSecretKey();
+
+  beforeAll(async () => {
+    network = await startMockSealNetwork({ packageId: PKG, servers: 2, threshold: 2 });
+
+    const contributorSui = network.createSuiClient(contributorKey);
+    network.transport.addObject({
+      objectId: PUBLICATION,
+      type: publicationMove.structType(PKG, 'Publication'),
+      owner: 'shared',
+      fields: { name: 'Paid', contributors: [contributorSui.getAddress()], subscription_price: '1000' },
+    });
+
+    creator = network.createSealClient(network.createSuiClient(new Ed25519Keypair().getSecretKey()));
+    contributor = network.createSealClient(contributorSui, { sessionKeys: new SessionKeyManager() });
+  });
+
+  afterAll(async () => {
+    await network?.stop();
+  });
+
+  it('seals content under the exact IdV1 bytes', async () => {
+    const contentId = encodeContentIdV1(PUBLICATION, 42n);
+
+    const blob = await creator.encryptContent(ARTICLE, { contentId, packageId: PKG });
+
+    const parsed = EncryptedObject.parse(blob);
+    expect(normalizeSuiAddress(parsed.packageId)).toBe(PKG);
+    expect(readEncryptedContentId(blob)).toBe(contentIdToHex(contentId));
+    expect(parsed.threshold).toBe(2);
+  }, 30_000);
+
+  it('accepts 0x-hex content IDs the same as bytes', async () => {
+    const contentId = encodeContentIdV1(PUBLICATION, 43n);
+
+    const blob = await creator.encryptContent(ARTICLE, { contentId: contentIdToHex(contentId), packageId: PKG });
+
+    expect(readEncryptedContentId(blob)).toBe(contentIdToHex(contentId));
+  }, 30_000);
+
+  it('decrypts for a contributor of the publication in the ID', async () => {
+    const contentId = encodeContentIdV1(PUBLICATION, 44n);
+    const blob = await creator.encryptContent(ARTICLE, { contentId, packageId: PKG });
+
+    const decrypted = await contributor.decryptContent({
+      encryptedData: blob,
+      contentId,
+      credentials: { contributor: { publicationId: PUBLICATION } },
+      packageId: PKG,
+    });
+
+    expect(decrypted).toEqual(ARTICLE);
+  }, 30_000);
+
+  it('denies content whose ID names another publication', async () => {
+    const contentId = encodeContentIdV1(OTHER_PUBLICATION, 45n);
+    const blob = await creator.encryptContent(ARTICLE, { contentId, packageId: PKG });
+
+    await expect(contributor.decryptContent({
+      encryptedData: blob,
+      contentId,
+      credentials: { contributor: { publicationId: PUBLICATION } },
+      packageId: PKG,
+    })).rejects.toBeInstanceOf(AccessDeniedError);
+  }, 30_000);
+
+  it('reuses a session key persisted to the cache file', async () => {
+    const directory = mkdtempSync(path.join(os.tmpdir(), 'inkray-session-'));
+    const cacheFile = path.join(directory, 'keys.json');
+    const contentId = encodeContentIdV1(PUBLICATION, 46n);
+    const blob = await creator.encryptContent(ARTICLE, { contentId, packageId: PKG });
+    const request = { encryptedData: blob, contentId, credentials: { contributor: { publicationId: PUBLICATION } }, packageId: PKG };
+
+    try {
+      const first = network.createSealClient(network.createSuiClient(contributorKey), {
+        sessionKeys: new SessionKeyManager({ cacheFile }),
+      });
+      expect(await first.decryptContent(request)).toEqual(ARTICLE);
+
+      const saved = Object.values(JSON.parse(readFileSync(cacheFile, 'utf8'))) as { personalMessageSignature?: string }[];
+      expect(saved).toHaveLength(1);
+      expect(saved[0].personalMessageSignature).toBeDefined();
+
+      // A new process: the key comes from the file, so the wallet is not asked to sign again
+      const reloadedSui = network.createSuiClient(contributorKey);
+      reloadedSui.getKeypair().signPersonalMessage = () => Promise.reject(new Error('signed again'));
+      const second = network.createSealClient(reloadedSui, { sessionKeys: new SessionKeyManager({ cacheFile }) });
+      expect(await second.decryptContent(request)).toEqual(ARTICLE);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  }, 30_000);
+});
+
+describe('InkraySealClient when key servers fail', () => {
+  let network: MockSealNetwork;
+
+  beforeAll(async () => {
+    network = await startMockSealNetwork({
+      packageId: PKG,
+      servers: 2,
+      threshold: 2,
+      evaluator: { evaluate: () => Promise.reject(new Error('policy evaluation unavailable')) },
+    });
+  });
+
+  afterAll(async () => {
+    await network?.stop();
+  });
+
+  it('does not report a key server failure as a denial', async () => {
+    const reader = network.createSealClient(network.createSuiClient(new Ed25519Keypair().getSecretKey()));
+    const contentId = encodeContentIdV1(PUBLICATION, 47n);
+    const blob = await reader.encryptContent(ARTICLE, { contentId, packageId: PKG });
+
+    const error = await reader.decryptContent({
+      encryptedData: blob,
+      contentId,
+      credentials: { contributor: { publicationId: PUBLICATION } },
+      packageId: PKG,
+    }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).not.toBeInstanceOf(AccessDeniedError);
+  }, 30_000);
+});
@@ -1,16 +1,26 @@
-import { getNetworkConfig, getCurrentNetwork } from '../config/networks.js';
+import { getSealConfig, validateSealConfig, type Network } from '../config/networks.js';
 import type { 
   SealClientConfig, 
   SealEncryptionOptions, 
   SealDecryptionRequest, 
+  SealBatchDecryptionRequest,
+  SealBatchDecryptionResult,
+  SealBatchItemResult,
   UserCredentials,
-  SealDecryptionRequestLegacy 
+  CredentialKind,
 } from './types.js';
-import { bcs } from '@mysten/bcs';
-import { createHash } from 'crypto';
+import { encodeContentIdV1, decodeContentId, contentIdFromHex, contentIdToHex, isValidSuiAddress } from './content-id.js';
+import { SUI_CLOCK_OBJECT_ID } from '../config/constants.js';
+import { InvalidContentIdError, type InkrayError } from './errors.js';
+import { contractError, moveAbortError, parseMoveAbort } from './move-errors.js';
 import chalk from 'chalk';
-import { SealClient, getAllowlistedKeyServers } from '@mysten/seal';
+import { SealClient, EncryptedObject, NoAccessError, type SessionKey } from '@mysten/seal';
+import { Transaction, type TransactionArgument } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
 import { getDefaultSuiClient } from './client.js';
+import { pureArg } from './pure-args.js';
+import { getDefaultSessionKeyManager, type SessionKeyManager } from './session-key-manager.js';
+import { LocalKeyServer, isLocalSealObject, parseLocalSealObject } from './local-seal.js';
 import { webcrypto } from 'node:crypto';
 
 // Fix crypto for Node.js environment
@@ -26,57 +36,66 @@ if (typeof globalThis.crypto === 'undefined') {
  * - Decrypt with different policies based on available user credentials
  * - Try multiple access methods until one succeeds
  */
-// IdV1 constants matching smart contract (policy.move)
-const TAG_ARTICLE_CONTENT = 0;  // u8
-const ID_VERSION_V1 = 1;        // u16
-
-// BCS layout for IdV1 struct
-const IdV1Layout = bcs.struct('IdV1', {
-  tag: bcs.u8(),
-  version: bcs.u16(),
-  publication: bcs.fixedArray(32, bcs.u8()),  // 32-byte Sui address
-  article: bcs.fixedArray(32, bcs.u8()),      // 32-byte Sui address
-  nonce: bcs.u64(),
-});
+interface AccessStrategy {
+  kind: CredentialKind;
+  name: string;
+  icon: string;
+  policyFunction: string; // policy::seal_approve_* entry point
+  buildArguments: (tx: Transaction) => TransactionArgument[]; // Arguments after the content ID
+}
 
 export class InkraySealClient {
   private config: SealClientConfig;
   private sealClient: SealClient | null = null;
   private suiClient: import('./client.js').InkraySuiClient;
+  private sessionKeys: SessionKeyManager;
+  private localKeyServer: LocalKeyServer | null = null;
 
   constructor(config?: Partial<SealClientConfig>) {
-    const network = getCurrentNetwork();
-    const networkConfig = getNetworkConfig(network);
+    // Use provided Sui client or fall back to default
+    this.suiClient = config?.suiClient || getDefaultSuiClient();
+    this.sessionKeys = config?.sessionKeys || getDefaultSessionKeyManager();
+
+    // Follow the Sui client's network unless one is given explicitly
+    const network = (config?.network || this.suiClient.getNetwork()) as Network;
+    const sealConfig = getSealConfig(network);
     
     this.config = {
-      network: config?.network || networkConfig.seal.network,
-      keyServerUrl: config?.keyServerUrl || networkConfig.seal.keyServerUrl,
+      network: sealConfig.network,
+      keyServerUrl: config?.keyServerUrl || sealConfig.keyServerUrl,
+      keyServers: config?.keyServers || sealConfig.keyServers,
+      threshold: config?.threshold || sealConfig.threshold,
+      verifyKeyServers: config?.verifyKeyServers ?? sealConfig.verifyKeyServers,
       policyPackageId: config?.policyPackageId,
       suiClient: config?.suiClient,
+      sessionKeys: this.sessionKeys,
+      mode: config?.mode || (process.env.SEAL_MODE === 'local' ? 'local' : 'seal'),
+      localKeyServer: config?.localKeyServer,
     };
 
-    // Use provided Sui client or fall back to default
-    this.suiClient = config?.suiClient || getDefaultSuiClient();
+    validateSealConfig(this.config, network);
+  }
+
+  private getLocalKeyServer(): LocalKeyServer {
+    if (!this.localKeyServer) {
+      this.localKeyServer = this.config.localKeyServer || new LocalKeyServer();
+    }
+    return this.localKeyServer;
   }
 
   private async getSealClient(): Promise<SealClient> {
     if (!this.sealClient) {
-      const { SuiClient } = await import('@mysten/sui/client');
-      const { getNetworkConfig } = await import('../config/networks.js');
-      
-      const suiClient = new SuiClient({ 
-        url: getNetworkConfig('testnet').sui.rpcUrl 
-      });
-      
-      const serverObjectIds = getAllowlistedKeyServers('testnet');
-      
+      if (this.config.keyServers.length === 0) {
+        throw new Error(`No Seal key servers configured for ${this.config.network}. Set SEAL_KEY_SERVERS.`);
+      }
+
       this.sealClient = new SealClient({
-        suiClient: suiClient as any, // Type compatibility fix
-        serverConfigs: serverObjectIds.map((id) => ({
-          objectId: id,
-          weight: 1,
+        suiClient: this.suiClient.getClient() as any, // Type compatibility fix
+        serverConfigs: this.config.keyServers.map(({ objectId, weight }) => ({
+          objectId,
+          weight,
         })),
-        verifyKeyServers: false, // Set to true for production
+        verifyKeyServers: this.config.verifyKeyServers,
       });
     }
     
@@ -104,52 +123,43 @@ export class InkraySealClient {
       console.log(chalk.blue(`🔒 Encrypting content with ID: ${contentIdDisplay}`));
       
       const packageId = options.packageId || process.env.PACKAGE_ID;
-      const threshold = options.threshold || 2;
+      const threshold = options.threshold || this.config.threshold;
       
       if (!packageId) {
-        console.log(chalk.yellow(`⚠️  No package ID configured, using demo encryption`));
-        const contentIdStr = options.contentId instanceof Uint8Array 
-          ? Array.from(options.contentId).map(b => b.toString(16).padStart(2, '0')).join('')
-          : options.contentId;
-        return this.demoEncrypt(data, contentIdStr);
+        throw new Error('Package ID is required for Seal encryption');
       }
-      
-      try {
-        const sealClient = await this.getSealClient();
-        
-        const contentIdDisplay = options.contentId instanceof Uint8Array 
-          ? `[BCS bytes: ${options.contentId.length}]` 
-          : options.contentId;
-        console.log(chalk.gray(`  Content ID: ${contentIdDisplay}`));
-        console.log(chalk.gray(`  Package ID: ${packageId}`));
-        console.log(chalk.gray(`  Threshold: ${threshold} key servers`));
-        
-        // Encrypt using the content ID as the identity
-        // Convert Uint8Array to hex string for Seal API
-        const idForSeal = options.contentId instanceof Uint8Array 
-          ? '0x' + Array.from(options.contentId).map(b => b.toString(16).padStart(2, '0')).join('')
-          : options.contentId;
-        
-        const { encryptedObject: encrypted } = await sealClient.encrypt({
-          threshold,
-          packageId,
-          id: idForSeal, // Content-specific identity
-          data,
-        });
+
+      const contentIdBytes = Uint8Array.from(this.contentIdToBytes(options.contentId));
+
+      if (this.config.mode === 'local') {
+        console.log(chalk.yellow(`⚠️  Local Seal mode: encrypting with the local key server stand-in (not publishable)`));
+        const encrypted = this.getLocalKeyServer().encrypt(data, packageId, contentIdBytes);
         
-        console.log(chalk.green(`✅ Content encrypted with Seal!`));
+        console.log(chalk.green(`✅ Content encrypted locally (AES-256-GCM)`));
         console.log(chalk.gray(`  Original size: ${data.length} bytes`));
         console.log(chalk.gray(`  Encrypted size: ${encrypted.length} bytes`));
         
         return encrypted;
-      } catch (sealError) {
-        console.log(chalk.yellow(`⚠️  Seal encryption failed, using demo encryption`));
-        console.log(chalk.gray(`  Error: ${sealError}`));
-        const contentIdStr = options.contentId instanceof Uint8Array 
-          ? Array.from(options.contentId).map(b => b.toString(16).padStart(2, '0')).join('')
-          : options.contentId;
-        return this.demoEncrypt(data, contentIdStr);
       }
+      
+      const sealClient = await this.getSealClient();
+      
+      console.log(chalk.gray(`  Package ID: ${packageId}`));
+      console.log(chalk.gray(`  Threshold: ${threshold} key servers`));
+      
+      // Encrypt using the content ID as the identity
+      const { encryptedObject: encrypted } = await sealClient.encrypt({
+        threshold,
+        packageId,
+        id: contentIdToHex(contentIdBytes), // Content-specific identity
+        data,
+      });
+      
+      console.log(chalk.green(`✅ Content encrypted with Seal!`));
+      console.log(chalk.gray(`  Original size: ${data.length} bytes`));
+      console.log(chalk.gray(`  Encrypted size: ${encrypted.length} bytes`));
+      
+      return encrypted;
     } catch (error) {
       console.error(chalk.red(`❌ Encryption failed: ${error}`));
       throw error;
@@ -179,51 +189,6 @@ export class InkraySealClient {
     }
   }
 
-  // === HELPER METHODS ===
-
-  /**
-   * Validate Sui address format (exactly 32 bytes = 64 hex chars + 0x)
-   */
-  private isValidSuiAddress(address: string): boolean {
-    return /^0x[a-fA-F0-9]{64}$/.test(address);
-  }
-
-  /**
-   * Convert hex address string to byte array
-   */
-  private addressToBytes(address: string): number[] {
-    if (!this.isValidSuiAddress(address)) {
-      throw new Error(`Invalid Sui address format: ${address}`);
-    }
-    
-    // Remove 0x prefix and convert to bytes
-    const hexString = address.slice(2);
-    const bytes: number[] = [];
-    for (let i = 0; i < hexString.length; i += 2) {
-      bytes.push(parseInt(hexString.slice(i, i + 2), 16));
-    }
-    return bytes;
-  }
-
-  /**
-   * Generate deterministic article address from inputs
-   */
-  private generateDeterministicArticleAddress(
-    publicationId: string,
-    title: string,
-    timestamp: number
-  ): string {
-    // Create deterministic hash from inputs
-    const hash = createHash('sha256')
-      .update(publicationId)
-      .update(title)
-      .update(timestamp.toString())
-      .digest();
-      
-    // Return as proper Sui address format (32 bytes = 64 hex chars)
-    return '0x' + hash.toString('hex');
-  }
-
   /**
    * Generate a proper BCS-encoded IdV1 content ID for articles
    */
@@ -232,34 +197,18 @@ export class InkraySealClient {
     articleTitle: string
   ): Uint8Array {
     // Validate publication ID format
-    if (!this.isValidSuiAddress(publicationId)) {
+    if (!isValidSuiAddress(publicationId)) {
       throw new Error(`Invalid Sui address format for publication: ${publicationId}`);
     }
 
-    const timestamp = Date.now();
-    
-    // Generate deterministic article address
-    const articleAddress = this.generateDeterministicArticleAddress(
-      publicationId,
-      articleTitle,
-      timestamp
-    );
+    // Timestamp nonce keeps identities unique per publication
+    const nonce = BigInt(Date.now());
 
     console.log(chalk.gray(`  Publication ID: ${publicationId}`));
     console.log(chalk.gray(`  Article Title: ${articleTitle}`));
-    console.log(chalk.gray(`  Generated Article Address: ${articleAddress}`));
-
-    // Create IdV1 struct
-    const idV1 = {
-      tag: TAG_ARTICLE_CONTENT,     // 0
-      version: ID_VERSION_V1,       // 1
-      publication: this.addressToBytes(publicationId),
-      article: this.addressToBytes(articleAddress),
-      nonce: BigInt(timestamp)
-    };
+    console.log(chalk.gray(`  Nonce: ${nonce}`));
 
-    // BCS encode to bytes
-    const encodedBytes = IdV1Layout.serialize(idV1).toBytes();
+    const encodedBytes = encodeContentIdV1(publicationId, nonce);
     
     console.log(chalk.gray(`  Generated BCS-encoded IdV1 (${encodedBytes.length} bytes)`));
     return encodedBytes;
@@ -275,542 +224,410 @@ export class InkraySealClient {
     try {
       console.log(chalk.blue(`🔓 Attempting to decrypt content: ${request.contentId}`));
       
-      // Check if this is demo encrypted data
-      if (this.isDemoEncrypted(request.encryptedData)) {
-        console.log(chalk.yellow(`⚠️  Detected demo-encrypted data, validating access control...`));
-        
-        // Even in demo mode, we should validate access control
-        await this.validateAccessControl(request.credentials, request.packageId, request.requestingClient);
-        
-        console.log(chalk.green(`✅ Access control validated, decrypting demo data`));
-        const contentIdStr = request.contentId instanceof Uint8Array 
-          ? Array.from(request.contentId).map(b => b.toString(16).padStart(2, '0')).join('')
-          : request.contentId;
-        return this.demoDecrypt(request.encryptedData, contentIdStr);
-      }
-      
-      // Try each available credential type until one succeeds
-      const credentials = request.credentials;
       const packageId = request.packageId || process.env.PACKAGE_ID;
       
       if (!packageId) {
         throw new Error('Package ID is required for Seal decryption');
       }
 
-      // Try subscription access first (most common)
-      if (credentials.subscription) {
-        console.log(chalk.blue('🎫 Trying subscription access...'));
-        try {
-          return await this.tryDecryptWithSubscription(
-            request.encryptedData,
-            request.contentId,
-            credentials.subscription,
-            packageId
-          );
-        } catch (error: any) {
-          console.log(chalk.gray(`  Subscription access failed: ${error?.message || error}`));
-        }
+      if (isLocalSealObject(request.encryptedData)) {
+        return this.decryptLocal(request.encryptedData, request.contentId, request.credentials, request.credentialOrder);
       }
 
-      // Try NFT access
-      if (credentials.nft) {
-        console.log(chalk.blue('🎨 Trying NFT access...'));
-        try {
-          return await this.tryDecryptWithNFT(
-            request.encryptedData,
-            request.contentId,
-            credentials.nft,
-            packageId
-          );
-        } catch (error: any) {
-          console.log(chalk.gray(`  NFT access failed: ${error?.message || error}`));
-        }
+      const strategies = this.getAccessStrategies(request.credentials, request.credentialOrder);
+      if (strategies.length === 0) {
+        throw contractError('policy::E_ACCESS_DENIED', 'No valid access method found for this content');
       }
 
-      // Try publication owner access (highest priority)
-      if (credentials.publicationOwner) {
-        console.log(chalk.blue('👑 Trying publication owner access...'));
+      // Cached per (address, package): one signature covers every attempt and later reads
+      const requestingClient = request.requestingClient || this.suiClient;
+      const sessionKey = await this.sessionKeys.getSessionKey(packageId, requestingClient);
+      const contentIdBytes = this.contentIdToBytes(request.contentId);
+
+      // A denial by one policy leaves the others to try; only denials from all of them deny access
+      let denial: InkrayError | null = null;
+      let failure: unknown = null;
+
+      // Try each available credential type until one succeeds
+      for (const strategy of strategies) {
+        console.log(chalk.blue(`${strategy.icon} Trying ${strategy.name} access...`));
         try {
-          return await this.tryDecryptWithPublicationOwner(
+          const decrypted = await this.decryptWithPolicy(
             request.encryptedData,
-            request.contentId,
-            credentials.publicationOwner,
-            packageId
+            contentIdBytes,
+            packageId,
+            strategy,
+            sessionKey,
+            requestingClient
           );
+          console.log(chalk.green(`✅ Decrypted with ${strategy.name} access`));
+          return decrypted;
         } catch (error: any) {
-          console.log(chalk.gray(`  Publication owner access failed: ${error?.message || error}`));
+          console.log(chalk.gray(`  ${strategy.name} access failed: ${error?.message || error}`));
+          const denied = accessDenial(error, packageId);
+          if (denied) {
+            denial = denial || denied;
+          } else {
+            failure = failure || error;
+          }
         }
       }
 
-      // Try contributor access
-      if (credentials.contributor) {
-        console.log(chalk.blue('✍️ Trying contributor access...'));
-        try {
-          return await this.tryDecryptWithContributor(
-            request.encryptedData,
-            request.contentId,
-            credentials.contributor,
-            packageId
-          );
-        } catch (error: any) {
-          console.log(chalk.gray(`  Contributor access failed: ${error?.message || error}`));
-        }
+      // Key server outages, expired session keys and the like are not denials
+      if (failure) {
+        throw failure;
+      }
+      throw denial || contractError('policy::E_ACCESS_DENIED', 'No valid access method found for this content');
+    } catch (error) {
+      console.error(chalk.red(`❌ Decryption failed: ${error}`));
+      throw error;
+    }
+  }
+
+  /**
+   * Decrypt many blobs of one publication with a single approval PTB
+   *
+   * All content IDs go into one `seal_approve_*` transaction per credential
+   * attempt, keys are fetched from the servers once, and the blobs are then
+   * decrypted locally with bounded parallelism. Failures are reported per item.
+   */
+  async decryptMany(request: SealBatchDecryptionRequest): Promise<SealBatchDecryptionResult> {
+    try {
+      const startTime = Date.now();
+      console.log(chalk.blue(`🔓 Attempting to decrypt ${request.items.length} items in one batch`));
+
+      const packageId = request.packageId || process.env.PACKAGE_ID;
+
+      if (!packageId) {
+        throw new Error('Package ID is required for Seal decryption');
       }
 
-      // Try allowlist access
-      if (credentials.allowlist) {
-        console.log(chalk.blue('📋 Trying allowlist access...'));
+      const results: SealBatchItemResult[] = new Array(request.items.length);
+      const pending: { index: number; contentIdBytes: number[]; contentId: string }[] = [];
+      let publicationId: string | null = null;
+
+      // Every ID must parse and name the same publication, or the shared PTB would abort
+      request.items.forEach((item, index) => {
+        let contentId = typeof item.contentId === 'string' ? item.contentId : contentIdToHex(item.contentId);
         try {
-          return await this.tryDecryptWithAllowlist(
-            request.encryptedData,
-            request.contentId,
-            credentials.allowlist,
-            packageId
-          );
+          const contentIdBytes = this.contentIdToBytes(item.contentId);
+          contentId = contentIdToHex(Uint8Array.from(contentIdBytes));
+
+          const { publication } = decodeContentId(Uint8Array.from(contentIdBytes));
+          publicationId = publicationId || publication;
+          if (publication !== publicationId) {
+            throw contractError('policy::E_BAD_ID', `Content ID belongs to publication ${publication}, batch is for ${publicationId}`);
+          }
+
+          pending.push({ index, contentIdBytes, contentId });
         } catch (error: any) {
-          console.log(chalk.gray(`  Allowlist access failed: ${error?.message || error}`));
+          results[index] = { index, success: false, contentId, error: error?.message || String(error), executionTime: 0 };
+        }
+      });
+
+      let accessMethod: CredentialKind | null = null;
+
+      if (pending.length > 0 && this.config.mode === 'local') {
+        for (const item of pending) {
+          const itemStart = Date.now();
+          try {
+            const decrypted = this.decryptLocal(request.items[item.index].encryptedData, item.contentId, request.credentials, request.credentialOrder);
+            results[item.index] = { index: item.index, success: true, contentId: item.contentId, decryptedContent: decrypted, decryptedSize: decrypted.length, executionTime: Date.now() - itemStart };
+          } catch (error: any) {
+            results[item.index] = { index: item.index, success: false, contentId: item.contentId, error: error?.message || String(error), executionTime: Date.now() - itemStart };
+          }
+        }
+        accessMethod = this.getAccessStrategies(request.credentials, request.credentialOrder)[0]?.kind || null;
+      } else if (pending.length > 0) {
+        // An NFT unlocks a single article, so it only approves single-item batches
+        const strategies = this.getAccessStrategies(request.credentials, request.credentialOrder)
+          .filter(strategy => strategy.kind !== 'nft' || pending.length === 1);
+
+        const requestingClient = request.requestingClient || this.suiClient;
+        const sessionKey = await this.sessionKeys.getSessionKey(packageId, requestingClient);
+        const sealClient = await this.getSealClient();
+
+        let txBytes: Uint8Array | null = null;
+        let approvalError = 'No valid access method found for this content';
+
+        for (const strategy of strategies) {
+          console.log(chalk.blue(`${strategy.icon} Trying ${strategy.name} access for ${pending.length} items...`));
+          try {
+            const candidate = await this.buildApprovalTransaction(
+              pending.map(item => item.contentIdBytes),
+              packageId,
+              strategy,
+              requestingClient
+            );
+
+            await sealClient.fetchKeys({
+              ids: pending.map(item => item.contentId),
+              txBytes: candidate,
+              sessionKey,
+              threshold: this.config.threshold,
+            });
+
+            txBytes = candidate;
+            accessMethod = strategy.kind;
+            console.log(chalk.green(`✅ Keys fetched with ${strategy.name} access`));
+            break;
+          } catch (error: any) {
+            approvalError = error?.message || String(error);
+            console.log(chalk.gray(`  ${strategy.name} access failed: ${approvalError}`));
+          }
+        }
+
+        if (!txBytes) {
+          for (const item of pending) {
+            results[item.index] = { index: item.index, success: false, contentId: item.contentId, error: approvalError, executionTime: 0 };
+          }
+        } else {
+          const approvedTxBytes = txBytes;
+
+          // Keys are cached now, so decrypt only does local work
+          await this.runWithConcurrency(pending, request.concurrency || 4, async (item) => {
+            const itemStart = Date.now();
+            try {
+              const decrypted = await sealClient.decrypt({
+                data: request.items[item.index].encryptedData,
+                sessionKey,
+                txBytes: approvedTxBytes,
+              });
+
+              results[item.index] = {
+                index: item.index,
+                success: true,
+                contentId: item.contentId,
+                decryptedContent: decrypted,
+                decryptedSize: decrypted.length,
+                executionTime: Date.now() - itemStart,
+              };
+            } catch (error: any) {
+              results[item.index] = {
+                index: item.index,
+                success: false,
+                contentId: item.contentId,
+                error: error?.message || String(error),
+                executionTime: Date.now() - itemStart,
+              };
+            }
+          });
         }
       }
 
-      throw new Error('No valid access method found for this content');
+      const succeeded = results.filter(result => result.success).length;
+      const failed = results.length - succeeded;
+      console.log(chalk[failed === 0 ? 'green' : 'yellow'](`${failed === 0 ? '✅' : '⚠️ '} Decrypted ${succeeded}/${results.length} items`));
+
+      return {
+        publicationId,
+        accessMethod,
+        results,
+        succeeded,
+        failed,
+        executionTime: Date.now() - startTime,
+      };
     } catch (error) {
-      console.error(chalk.red(`❌ Decryption failed: ${error}`));
+      console.error(chalk.red(`❌ Batch decryption failed: ${error}`));
       throw error;
     }
   }
 
-  // === INDIVIDUAL POLICY DECRYPTION METHODS ===
+  // === POLICY STRATEGIES ===
 
-  private async tryDecryptWithSubscription(
-    encryptedData: Uint8Array,
-    contentId: string | Uint8Array,
-    subscription: NonNullable<UserCredentials['subscription']>,
-    packageId: string
-  ): Promise<Uint8Array> {
-    const sealClient = await this.getSealClient();
-    const suiClient = this.suiClient;
-    
-    const [{ SessionKey }, { Transaction }] = await Promise.all([
-      import('@mysten/seal'),
-      import('@mysten/sui/transactions')
-    ]);
-    
-    const { SuiClient } = await import('@mysten/sui/client');
-    const compatibleSuiClient = new SuiClient({ 
-      url: getNetworkConfig('testnet').sui.rpcUrl 
-    }) as any;
-    
-    const sessionKey = await SessionKey.create({
-      address: suiClient.getAddress(),
-      packageId,
-      ttlMin: 10,
-      suiClient: compatibleSuiClient,
-    });
-    
-    const message = sessionKey.getPersonalMessage();
-    const { signature } = await suiClient.getKeypair().signPersonalMessage(message);
-    sessionKey.setPersonalMessageSignature(signature);
-    
-    const tx = new Transaction();
-    // Convert contentId to bytes
-    const contentIdBytes = contentId instanceof Uint8Array 
-      ? Array.from(contentId)
-      : Array.from(new TextEncoder().encode(contentId));
-    
-    tx.moveCall({
-      target: `${packageId}::platform_access::seal_approve`,
-      arguments: [
-        tx.pure.vector('u8', contentIdBytes),
-        tx.object(subscription.id),
-        tx.object(subscription.serviceId),
-        tx.object('0x6'), // Clock object
-      ]
-    });
-    
-    const txBytes = await tx.build({ 
-      client: suiClient.getClient(), 
-      onlyTransactionKind: true 
-    });
-    
-    const decrypted = await sealClient.decrypt({
-      data: encryptedData,
-      sessionKey,
-      txBytes,
-    });
-    
-    console.log(chalk.green('✅ Decrypted with subscription access'));
-    return decrypted;
-  }
+  /**
+   * Map credentials to `policy::seal_approve_*` calls, strongest access first
+   * unless an explicit order is given
+   */
+  private getAccessStrategies(credentials: UserCredentials, order?: CredentialKind[]): AccessStrategy[] {
+    const strategies: AccessStrategy[] = [];
 
-  private async tryDecryptWithNFT(
-    encryptedData: Uint8Array,
-    contentId: string | Uint8Array,
-    nft: NonNullable<UserCredentials['nft']>,
-    packageId: string
-  ): Promise<Uint8Array> {
-    const sealClient = await this.getSealClient();
-    const suiClient = this.suiClient;
-    
-    const [{ SessionKey }, { Transaction }] = await Promise.all([
-      import('@mysten/seal'),
-      import('@mysten/sui/transactions')
-    ]);
-    
-    const { SuiClient } = await import('@mysten/sui/client');
-    const compatibleSuiClient = new SuiClient({ 
-      url: getNetworkConfig('testnet').sui.rpcUrl 
-    }) as any;
-    
-    const sessionKey = await SessionKey.create({
-      address: suiClient.getAddress(),
-      packageId,
-      ttlMin: 10,
-      suiClient: compatibleSuiClient,
-    });
-    
-    const message = sessionKey.getPersonalMessage();
-    const { signature } = await suiClient.getKeypair().signPersonalMessage(message);
-    sessionKey.setPersonalMessageSignature(signature);
-    
-    const tx = new Transaction();
-    // Convert contentId to bytes
-    const contentIdBytes = contentId instanceof Uint8Array 
-      ? Array.from(contentId)
-      : Array.from(new TextEncoder().encode(contentId));
-    
-    tx.moveCall({
-      target: `${packageId}::article_nft::seal_approve`,
-      arguments: [
-        tx.pure.vector('u8', contentIdBytes),
-        tx.object(nft.id),
-        tx.object(nft.articleId),
-      ]
-    });
-    
-    const txBytes = await tx.build({ 
-      client: suiClient.getClient(), 
-      onlyTransactionKind: true 
-    });
-    
-    const decrypted = await sealClient.decrypt({
-      data: encryptedData,
-      sessionKey,
-      txBytes,
-    });
-    
-    console.log(chalk.green('✅ Decrypted with NFT access'));
-    return decrypted;
+    if (credentials.publicationOwner) {
+      const { ownerCapId, publicationId } = credentials.publicationOwner;
+      strategies.push({
+        kind: 'publicationOwner',
+        name: 'publication owner',
+        icon: '👑',
+        policyFunction: 'seal_approve_publication_owner',
+        buildArguments: (tx) => [tx.object(ownerCapId), tx.object(publicationId)],
+      });
+    }
+
+    if (credentials.contributor) {
+      const { publicationId } = credentials.contributor;
+      strategies.push({
+        kind: 'contributor',
+        name: 'contributor',
+        icon: '✍️',
+        policyFunction: 'seal_approve_roles',
+        buildArguments: (tx) => [tx.object(publicationId)],
+      });
+    }
+
+    if (credentials.publicationSubscription) {
+      const { id, publicationId } = credentials.publicationSubscription;
+      strategies.push({
+        kind: 'publicationSubscription',
+        name: 'publication subscription',
+        icon: '📰',
+        policyFunction: 'seal_approve_publication_subscription',
+        buildArguments: (tx) => [tx.object(id), tx.object(publicationId), tx.object(SUI_CLOCK_OBJECT_ID)],
+      });
+    }
+
+    if (credentials.subscription) {
+      const { id } = credentials.subscription;
+      strategies.push({
+        kind: 'subscription',
+        name: 'platform subscription',
+        icon: '🎫',
+        policyFunction: 'seal_approve_subscription',
+        buildArguments: (tx) => [tx.object(id), tx.object(SUI_CLOCK_OBJECT_ID)],
+      });
+    }
+
+    if (credentials.nft) {
+      const { id } = credentials.nft;
+      strategies.push({
+        kind: 'nft',
+        name: 'NFT',
+        icon: '🎨',
+        policyFunction: 'seal_approve_nft',
+        buildArguments: (tx) => [tx.object(id)],
+      });
+    }
+
+    if (credentials.free) {
+      const { publicationId } = credentials.free;
+      strategies.push({
+        kind: 'free',
+        name: 'free',
+        icon: '🆓',
+        policyFunction: 'seal_approve_free',
+        buildArguments: (tx) => [tx.object(publicationId)],
+      });
+    }
+
+    if (credentials.allowlist) {
+      console.log(chalk.yellow('⚠️  Allowlist credentials are not backed by a policy function, skipping'));
+    }
+
+    if (order) {
+      const rank = (kind: CredentialKind) => {
+        const index = order.indexOf(kind);
+        return index === -1 ? order.length : index;
+      };
+      strategies.sort((a, b) => rank(a.kind) - rank(b.kind));
+    }
+
+    return strategies;
   }
 
-  private async tryDecryptWithContributor(
+  private async decryptWithPolicy(
     encryptedData: Uint8Array,
-    contentId: string | Uint8Array,
-    contributor: NonNullable<UserCredentials['contributor']>,
-    packageId: string
+    contentIdBytes: number[],
+    packageId: string,
+    strategy: AccessStrategy,
+    sessionKey: SessionKey,
+    suiClient: import('./client.js').InkraySuiClient
   ): Promise<Uint8Array> {
     const sealClient = await this.getSealClient();
-    const suiClient = this.suiClient;
-    
-    const [{ SessionKey }, { Transaction }] = await Promise.all([
-      import('@mysten/seal'),
-      import('@mysten/sui/transactions')
-    ]);
-    
-    const { SuiClient } = await import('@mysten/sui/client');
-    const compatibleSuiClient = new SuiClient({ 
-      url: getNetworkConfig('testnet').sui.rpcUrl 
-    }) as any;
-    
-    const sessionKey = await SessionKey.create({
-      address: suiClient.getAddress(),
-      packageId,
-      ttlMin: 10,
-      suiClient: compatibleSuiClient,
-    });
-    
-    const message = sessionKey.getPersonalMessage();
-    const { signature } = await suiClient.getKeypair().signPersonalMessage(message);
-    sessionKey.setPersonalMessageSignature(signature);
-    
-    const tx = new Transaction();
-    // Convert contentId to bytes
-    const contentIdBytes = contentId instanceof Uint8Array 
-      ? Array.from(contentId)
-      : Array.from(new TextEncoder().encode(contentId));
-    
-    tx.moveCall({
-      target: `${packageId}::policy::seal_approve_roles`,
-      arguments: [
-        tx.pure.vector('u8', contentIdBytes),
-        tx.object(contributor.publicationId),
-      ]
-    });
+    const txBytes = await this.buildApprovalTransaction([contentIdBytes], packageId, strategy, suiClient);
     
-    const txBytes = await tx.build({ 
-      client: suiClient.getClient(), 
-      onlyTransactionKind: true 
-    });
-    
-    const decrypted = await sealClient.decrypt({
+    return await sealClient.decrypt({
       data: encryptedData,
       sessionKey,
       txBytes,
     });
-    
-    console.log(chalk.green('✅ Decrypted with contributor access'));
-    return decrypted;
   }
 
-  private async tryDecryptWithPublicationOwner(
-    encryptedData: Uint8Array,
-    contentId: string | Uint8Array,
-    publicationOwner: NonNullable<UserCredentials['publicationOwner']>,
-    packageId: string
+  /**
+   * One `policy::seal_approve_*` call per content ID; key servers approve all or none
+   */
+  private async buildApprovalTransaction(
+    contentIds: number[][],
+    packageId: string,
+    strategy: AccessStrategy,
+    suiClient: import('./client.js').InkraySuiClient
   ): Promise<Uint8Array> {
-    const sealClient = await this.getSealClient();
-    const suiClient = this.suiClient;
-    
-    const [{ SessionKey }, { Transaction }] = await Promise.all([
-      import('@mysten/seal'),
-      import('@mysten/sui/transactions')
-    ]);
-    
-    const { SuiClient } = await import('@mysten/sui/client');
-    const compatibleSuiClient = new SuiClient({ 
-      url: getNetworkConfig('testnet').sui.rpcUrl 
-    }) as any;
-    
-    const sessionKey = await SessionKey.create({
-      address: suiClient.getAddress(),
-      packageId,
-      ttlMin: 10,
-      suiClient: compatibleSuiClient,
-    });
-    
-    const message = sessionKey.getPersonalMessage();
-    const { signature } = await suiClient.getKeypair().signPersonalMessage(message);
-    sessionKey.setPersonalMessageSignature(signature);
-    
     const tx = new Transaction();
-    console.log(chalk.gray(`  Building transaction with:`));
-    console.log(chalk.gray(`    Target: ${packageId}::policy::seal_approve_roles`));
-    const contentIdDisplay = contentId instanceof Uint8Array 
-      ? `[BCS bytes: ${contentId.length}]` 
-      : contentId;
-    console.log(chalk.gray(`    Content ID: ${contentIdDisplay}`));
-    console.log(chalk.gray(`    Owner Cap ID: ${publicationOwner.ownerCapId}`));
-    console.log(chalk.gray(`    Publication ID: ${publicationOwner.publicationId}`));
-    
-    // Convert content ID to bytes correctly
-    let contentIdBytes: number[];
-    if (contentId instanceof Uint8Array) {
-      // Already BCS-encoded bytes
-      contentIdBytes = Array.from(contentId);
-    } else if (contentId.startsWith('0x')) {
-      // If it's a hex string, convert from hex to bytes
-      const hexStr = contentId.substring(2);
-      contentIdBytes = [];
-      for (let i = 0; i < hexStr.length; i += 2) {
-        contentIdBytes.push(parseInt(hexStr.substr(i, 2), 16));
-      }
-    } else {
-      // If it's a plain string, convert to UTF-8 bytes
-      contentIdBytes = Array.from(new TextEncoder().encode(contentId));
+
+    for (const contentIdBytes of contentIds) {
+      tx.moveCall({
+        target: `${packageId}::policy::${strategy.policyFunction}`,
+        arguments: [
+          pureArg(tx, contentIdBytes, 'vector<u8>'),
+          ...strategy.buildArguments(tx),
+        ]
+      });
     }
     
-    console.log(chalk.gray(`  Content ID bytes length: ${contentIdBytes.length}`));
-    
-    tx.moveCall({
-      target: `${packageId}::policy::seal_approve_roles`,
-      arguments: [
-        tx.pure.vector('u8', contentIdBytes),
-        tx.object(publicationOwner.publicationId),
-      ]
-    });
-    
-    const txBytes = await tx.build({ 
+    return await tx.build({ 
       client: suiClient.getClient(), 
       onlyTransactionKind: true 
     });
-    
-    console.log(chalk.gray(`  Transaction built successfully, ${txBytes.length} bytes`));
-    
-    // Test if the transaction would succeed by executing it (dry run)
-    try {
-      const dryRunResult = await suiClient.getClient().dryRunTransactionBlock({
-        transactionBlock: txBytes,
-      });
-      console.log(chalk.gray(`  Dry run status: ${dryRunResult.effects.status.status}`));
-      if (dryRunResult.effects.status.status === 'failure') {
-        console.log(chalk.red(`  Dry run failed: ${dryRunResult.effects.status.error}`));
-      }
-    } catch (dryRunError) {
-      console.log(chalk.yellow(`  Could not dry run transaction: ${dryRunError}`));
-    }
-    
-    try {
-      console.log(chalk.gray(`  Calling Seal decrypt...`));
-      console.log(chalk.gray(`  Encrypted data length: ${encryptedData.length} bytes`));
-      console.log(chalk.gray(`  First 16 bytes: ${Array.from(encryptedData.slice(0, 16)).map(b => b.toString(16).padStart(2, '0')).join(' ')}`));
-      
-      const decrypted = await sealClient.decrypt({
-        data: encryptedData,
-        sessionKey,
-        txBytes,
-      });
-      
-      console.log(chalk.green('✅ Decrypted with publication owner access'));
-      return decrypted;
-    } catch (sealError: any) {
-      console.log(chalk.red(`  Seal decrypt error: ${sealError.message}`));
-      console.log(chalk.gray(`  Error details: ${JSON.stringify(sealError, null, 2)}`));
-      throw sealError;
-    }
   }
 
-  private async tryDecryptWithAllowlist(
-    _encryptedData: Uint8Array,
-    _contentId: string | Uint8Array,
-    _allowlist: NonNullable<UserCredentials['allowlist']>,
-    _packageId: string
-  ): Promise<Uint8Array> {
-    // Note: Allowlist functionality not implemented in smart contract
-    // Using roles-based approval as fallback
-    throw new Error('Allowlist access not implemented - use publication roles instead');
-  }
-
-  // === DEMO ENCRYPTION/DECRYPTION (FALLBACK) ===
-
-  private demoEncrypt(data: Uint8Array, contentId: string): Uint8Array {
-    const key = new TextEncoder().encode(contentId.padEnd(32, '0')).slice(0, 32);
-    const encrypted = new Uint8Array(data.length);
-    
-    for (let i = 0; i < data.length; i++) {
-      encrypted[i] = data[i] ^ key[i % key.length];
-    }
-    
-    const header = new TextEncoder().encode(`DEMO_ENCRYPTED_${contentId}_`);
-    const result = new Uint8Array(header.length + encrypted.length);
-    result.set(header, 0);
-    result.set(encrypted, header.length);
-    
-    console.log(chalk.green(`✅ Content encrypted with demo encryption`));
-    console.log(chalk.gray(`  Content ID: ${contentId}`));
-    console.log(chalk.gray(`  Original size: ${data.length} bytes`));
-    console.log(chalk.gray(`  Encrypted size: ${result.length} bytes`));
-    
-    return result;
-  }
-
-  private isDemoEncrypted(encryptedData: Uint8Array): boolean {
-    const headerStart = new TextEncoder().encode('DEMO_ENCRYPTED_');
-    if (encryptedData.length < headerStart.length) return false;
-    
-    for (let i = 0; i < headerStart.length; i++) {
-      if (encryptedData[i] !== headerStart[i]) return false;
-    }
-    return true;
+  private async runWithConcurrency<T>(
+    items: T[],
+    concurrency: number,
+    worker: (item: T) => Promise<void>
+  ): Promise<void> {
+    let next = 0;
+    const runners = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, async () => {
+      while (next < items.length) {
+        await worker(items[next++]);
+      }
+    });
+    await Promise.all(runners);
   }
 
   /**
-   * Validate access control even in demo mode
+   * BCS IdV1 bytes pass through; hex strings are decoded; anything else is treated as UTF-8
    */
-  private async validateAccessControl(credentials: UserCredentials, packageId?: string, requestingClient?: import('./client.js').InkraySuiClient): Promise<void> {
-    // For now, we'll do basic validation
-    // In a full implementation, this would call the smart contract to verify access
-    
-    if (!packageId) {
-      throw new Error('Package ID required for access control validation');
+  private contentIdToBytes(contentId: string | Uint8Array): number[] {
+    if (contentId instanceof Uint8Array) {
+      return Array.from(contentId);
     }
-
-    // Check if user has any valid credentials
-    const hasValidCredentials = !!(
-      credentials.publicationOwner || 
-      credentials.contributor || 
-      credentials.subscription || 
-      credentials.nft || 
-      credentials.allowlist
-    );
-
-    if (!hasValidCredentials) {
-      throw new Error('No valid credentials provided for access control');
+    if (contentId.startsWith('0x')) {
+      return Array.from(contentIdFromHex(contentId));
     }
+    return Array.from(new TextEncoder().encode(contentId));
+  }
 
-    // For publication owner credentials, we should validate that the user actually owns the owner cap
-    if (credentials.publicationOwner) {
-      console.log(chalk.gray('Validating publication owner access...'));
-      
-      // TODO: In a full implementation, we would:
-      // 1. Get the owner cap object from the blockchain
-      // 2. Verify that the current user actually owns that object
-      // 3. Verify that the owner cap belongs to the specified publication
-      
-      // Use the requesting client if provided, otherwise use this instance's client
-      const suiClient = requestingClient || this.suiClient;
-      const currentUserAddress = suiClient.getAddress();
-      
-      console.log(chalk.gray(`Validating access for user: ${currentUserAddress}`));
-      
-      try {
-        // Try to get the owner cap object - this will tell us if it exists and who owns it
-        const ownerCapObject = await suiClient.getObject(credentials.publicationOwner.ownerCapId);
-        
-        if (!ownerCapObject.data) {
-          throw new Error(`Owner cap object ${credentials.publicationOwner.ownerCapId} not found`);
-        }
-
-        // Check if the current user actually owns this object
-        const ownerAddress = (ownerCapObject.data as any).owner?.AddressOwner;
-        if (ownerAddress !== currentUserAddress) {
-          throw new Error(`Access denied: Current user ${currentUserAddress} does not own owner cap ${credentials.publicationOwner.ownerCapId} (owned by ${ownerAddress})`);
-        }
+  // === LOCAL MODE ===
 
-        console.log(chalk.green('✅ Publication owner access validated'));
-        
-      } catch (error) {
-        console.log(chalk.red(`❌ Publication owner validation failed: ${error}`));
-        throw error;
-      }
-    }
-
-    // Similar validation could be added for other credential types
-    if (credentials.contributor) {
-      console.log(chalk.gray('Contributor validation not fully implemented - allowing access'));
+  /**
+   * Offline decryption for blobs sealed by LocalKeyServer
+   *
+   * Only allowed when the client is in local mode, so a local blob that
+   * reaches production fails loudly instead of being read. Credentials are
+   * required but not checked against `policy.move`.
+   */
+  private decryptLocal(
+    encryptedData: Uint8Array,
+    contentId: string | Uint8Array,
+    credentials: UserCredentials,
+    order?: CredentialKind[]
+  ): Uint8Array {
+    if (this.config.mode !== 'local') {
+      throw new Error('Blob was encrypted in local Seal mode and cannot be decrypted by key servers. Set SEAL_MODE=local to read it.');
     }
 
-    if (credentials.subscription) {
-      console.log(chalk.gray('Subscription validation not fully implemented - allowing access'));  
+    const { id } = parseLocalSealObject(encryptedData);
+    if (contentIdToHex(id) !== contentIdToHex(Uint8Array.from(this.contentIdToBytes(contentId)))) {
+      throw new InvalidContentIdError(`Content ID mismatch: blob is sealed for ${contentIdToHex(id)}`);
     }
 
-    if (credentials.nft) {
-      console.log(chalk.gray('NFT validation not fully implemented - allowing access'));
+    const strategy = this.getAccessStrategies(credentials, order)[0];
+    if (!strategy) {
+      throw contractError('policy::E_ACCESS_DENIED', 'No valid access method found for this content');
     }
 
-    if (credentials.allowlist) {
-      console.log(chalk.gray('Allowlist validation not fully implemented - allowing access'));
-    }
-  }
+    console.log(chalk.yellow(`⚠️  Local Seal mode: ${strategy.name} credential accepted without policy evaluation`));
+    const decrypted = this.getLocalKeyServer().decrypt(encryptedData);
+    console.log(chalk.green(`✅ Decrypted locally`));
 
-  private demoDecrypt(encryptedData: Uint8Array, contentId: string): Uint8Array {
-    const headerText = `DEMO_ENCRYPTED_${contentId}_`;
-    const header = new TextEncoder().encode(headerText);
-    
-    if (encryptedData.length < header.length) {
-      throw new Error('Invalid demo encrypted data format');
-    }
-    
-    const encrypted = encryptedData.slice(header.length);
-    const key = new TextEncoder().encode(contentId.padEnd(32, '0')).slice(0, 32);
-    const decrypted = new Uint8Array(encrypted.length);
-    
-    for (let i = 0; i < encrypted.length; i++) {
-      decrypted[i] = encrypted[i] ^ key[i % key.length];
-    }
-    
-    console.log(chalk.green(`✅ Demo decryption successful`));
-    console.log(chalk.gray(`  Content ID: ${contentId}`));
-    console.log(chalk.gray(`  Decrypted size: ${decrypted.length} bytes`));
-    
     return decrypted;
   }
 
@@ -833,24 +650,6 @@ export class InkraySealClient {
     }
   }
 
-  // === LEGACY SUPPORT ===
-
-  /**
-   * @deprecated Use encryptContent instead
-   */
-  async encryptData(data: Uint8Array, options: any): Promise<Uint8Array> {
-    console.log(chalk.yellow('⚠️  Using deprecated encryptData method'));
-    return this.demoEncrypt(data, options.policy || 'legacy');
-  }
-
-  /**
-   * @deprecated Use decryptContent instead  
-   */
-  async decryptData(request: SealDecryptionRequestLegacy): Promise<Uint8Array> {
-    console.log(chalk.yellow('⚠️  Using deprecated decryptData method'));
-    return this.demoDecrypt(request.encryptedData, request.identity);
-  }
-
   // === UTILITY METHODS ===
 
   private arraysEqual(a: Uint8Array, b: Uint8Array): boolean {
@@ -872,11 +671,7 @@ export class InkraySealClient {
       console.log(chalk.blue(`✅ Validating access for content: ${contentId}`));
       
       // Check what credentials are available
-      const availableMethods = [];
-      if (credentials.subscription) availableMethods.push('subscription');
-      if (credentials.nft) availableMethods.push('nft');
-      if (credentials.contributor) availableMethods.push('contributor');
-      if (credentials.allowlist) availableMethods.push('allowlist');
+      const availableMethods = this.getAccessStrategies(credentials).map(strategy => strategy.name);
       
       if (availableMethods.length === 0) {
         console.log(chalk.red('❌ No credentials available'));
@@ -892,6 +687,33 @@ export class InkraySealClient {
   }
 }
 
+/**
+ * Typed error for a key server's verdict that the policy denies access, null for any other failure
+ */
+function accessDenial(error: unknown, packageId: string): InkrayError | null {
+  if (error instanceof NoAccessError) {
+    return contractError('policy::E_ACCESS_DENIED', `Access denied by the policy: ${error.message}`);
+  }
+
+  const abort = parseMoveAbort(error instanceof Error ? error.message : String(error));
+  if (abort && abort.module === 'policy' && abort.address === normalizeSuiAddress(packageId)) {
+    return moveAbortError(abort, undefined, error instanceof Error ? error.message : String(error), packageId);
+  }
+  return null;
+}
+
+/**
+ * Content ID (0x-prefixed hex) an encrypted blob was sealed for, read from its header
+ */
+export function readEncryptedContentId(encryptedData: Uint8Array): string {
+  if (isLocalSealObject(encryptedData)) {
+    return contentIdToHex(parseLocalSealObject(encryptedData).id);
+  }
+
+  const { id } = EncryptedObject.parse(encryptedData);
+  return id.startsWith('0x') ? id : `0x${id}`;
+}
+
 // Singleton instance management
 let defaultSealClient: InkraySealClient | null = null;
 
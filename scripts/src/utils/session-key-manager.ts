@@ -0,0 +1,194 @@
+import { SessionKey, type ExportedSessionKey } from '@mysten/seal';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+
+export const DEFAULT_SESSION_KEY_CACHE = path.join(os.homedir(), '.inkray', 'seal-session-keys.json');
+
+export interface SessionKeyManagerOptions {
+  ttlMin?: number; // Lifetime of new keys (default: 30)
+  refreshMarginMs?: number; // Replace keys expiring sooner than this (default: 2 minutes)
+  cacheFile?: string; // Persist keys here; in-memory only when omitted
+}
+
+/**
+ * Caches Seal session keys per (address, packageId)
+ *
+ * A session key costs one personal-message signature; reusing it lets every
+ * decryption in a CLI session or batch share that signature. Persisted keys
+ * include the ephemeral secret, so the cache file is written owner-only.
+ */
+export class SessionKeyManager {
+  private keys = new Map<string, SessionKey>();
+  private ttlMin: number;
+  private refreshMarginMs: number;
+  private cacheFile: string | null;
+
+  constructor(options?: SessionKeyManagerOptions) {
+    this.ttlMin = options?.ttlMin || 30;
+    this.refreshMarginMs = options?.refreshMarginMs ?? 2 * 60_000;
+    this.cacheFile = options?.cacheFile || null;
+
+    if (this.refreshMarginMs >= this.ttlMin * 60_000) {
+      throw new Error(`Refresh margin (${this.refreshMarginMs}ms) must be shorter than the key TTL (${this.ttlMin} min)`);
+    }
+  }
+
+  /**
+   * Return a cached key with enough lifetime left, or sign a new one
+   */
+  async getSessionKey(
+    packageId: string,
+    suiClient: import('./client.js').InkraySuiClient
+  ): Promise<SessionKey> {
+    const address = suiClient.getAddress();
+    const cacheKey = this.cacheKey(address, packageId);
+
+    const cached = this.keys.get(cacheKey) || this.loadFromDisk(cacheKey, suiClient);
+    if (cached && this.isFresh(cached.export())) {
+      return cached;
+    }
+
+    console.log(chalk.blue(`🔑 Creating Seal session key for ${address} (${this.ttlMin} min)`));
+    const sessionKey = await SessionKey.create({
+      address,
+      packageId,
+      ttlMin: this.ttlMin,
+      suiClient: suiClient.getClient() as any, // Type compatibility fix
+    });
+
+    const message = sessionKey.getPersonalMessage();
+    const { signature } = await suiClient.getKeypair().signPersonalMessage(message);
+    await sessionKey.setPersonalMessageSignature(signature);
+
+    this.keys.set(cacheKey, sessionKey);
+    this.saveToDisk();
+
+    return sessionKey;
+  }
+
+  /**
+   * Milliseconds until the cached key expires, or null when none is cached
+   */
+  getRemainingMs(address: string, packageId: string): number | null {
+    const cached = this.keys.get(this.cacheKey(address, packageId));
+    return cached ? this.expiresAt(cached.export()) - Date.now() : null;
+  }
+
+  invalidate(address: string, packageId: string): void {
+    const cacheKey = this.cacheKey(address, packageId);
+    this.keys.delete(cacheKey);
+    this.saveToDisk([cacheKey]);
+  }
+
+  /**
+   * Drop every key, including the ones persisted for other addresses
+   */
+  clear(): void {
+    const persisted = Object.keys(this.readCacheFile());
+    this.keys.clear();
+    this.saveToDisk(persisted);
+  }
+
+  private cacheKey(address: string, packageId: string): string {
+    return `${address.toLowerCase()}:${packageId.toLowerCase()}`;
+  }
+
+  private expiresAt(exported: ExportedSessionKey): number {
+    return exported.creationTimeMs + exported.ttlMin * 60_000;
+  }
+
+  private isFresh(exported: ExportedSessionKey): boolean {
+    return !!exported.personalMessageSignature &&
+      this.expiresAt(exported) - Date.now() > this.refreshMarginMs;
+  }
+
+  private readCacheFile(): Record<string, ExportedSessionKey> {
+    if (!this.cacheFile || !existsSync(this.cacheFile)) {
+      return {};
+    }
+
+    try {
+      return JSON.parse(readFileSync(this.cacheFile, 'utf8'));
+    } catch (error) {
+      console.warn(chalk.yellow(`Warning: Ignoring unreadable session key cache ${this.cacheFile}: ${error}`));
+      return {};
+    }
+  }
+
+  private loadFromDisk(
+    cacheKey: string,
+    suiClient: import('./client.js').InkraySuiClient
+  ): SessionKey | null {
+    const exported = this.readCacheFile()[cacheKey];
+    if (!exported || !this.isFresh(exported)) {
+      return null;
+    }
+
+    const sessionKey = SessionKey.import(exported, suiClient.getClient() as any);
+    this.keys.set(cacheKey, sessionKey);
+    return sessionKey;
+  }
+
+  /**
+   * Write every unexpired key, keeping entries from the file this process has not touched
+   */
+  private saveToDisk(dropped: string[] = []): void {
+    if (!this.cacheFile) {
+      return;
+    }
+
+    const entries: Record<string, ExportedSessionKey> = {};
+    for (const [cacheKey, exported] of Object.entries(this.readCacheFile())) {
+      if (!dropped.includes(cacheKey) && this.expiresAt(exported) > Date.now()) {
+        entries[cacheKey] = exported;
+      }
+    }
+    for (const [cacheKey, sessionKey] of this.keys) {
+      entries[cacheKey] = this.toPlainObject(sessionKey.export());
+    }
+
+    mkdirSync(path.dirname(this.cacheFile), { recursive: true });
+    writeFileSync(this.cacheFile, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    chmodSync(this.cacheFile, 0o600); // mode only applies when the file is created
+  }
+
+  // The exported key's own toJSON throws, so copy its fields out before serializing
+  private toPlainObject(exported: ExportedSessionKey): ExportedSessionKey {
+    return {
+      address: exported.address,
+      packageId: exported.packageId,
+      mvrName: exported.mvrName,
+      creationTimeMs: exported.creationTimeMs,
+      ttlMin: exported.ttlMin,
+      sessionKey: exported.sessionKey,
+      personalMessageSignature: exported.personalMessageSignature,
+    };
+  }
+}
+
+// Singleton instance
+let defaultManager: SessionKeyManager | null = null;
+
+export function createSessionKeyManager(options?: SessionKeyManagerOptions): SessionKeyManager {
+  return new SessionKeyManager(options);
+}
+
+/**
+ * Default manager; SEAL_SESSION_KEY_CACHE enables disk persistence
+ * ("true" for ~/.inkray/seal-session-keys.json, or a file path)
+ */
+export function getDefaultSessionKeyManager(): SessionKeyManager {
+  if (!defaultManager) {
+    const cacheSetting = process.env.SEAL_SESSION_KEY_CACHE;
+    defaultManager = new SessionKeyManager({
+      cacheFile: cacheSetting === 'true' ? DEFAULT_SESSION_KEY_CACHE : cacheSetting || undefined,
+    });
+  }
+  return defaultManager;
+}
+
+export function setDefaultSessionKeyManager(manager: SessionKeyManager): void {
+  defaultManager = manager;
+}
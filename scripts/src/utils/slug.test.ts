@@ -0,0 +1,41 @@
+import { describe, expect, it } from '@jest/globals';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import {
+  SLUG_GOLDEN_VECTORS,
+  checkSlugVectors,
+  cleanTitleForSlug,
+  generateSlug,
+  parseSlugSuffix,
+  slugSuffix,
+} from './slug.js';
+
+const ARTICLE = normalizeSuiAddress('0x3131abcd' + '00'.repeat(28));
+
+describe('slug', () => {
+  it.each(SLUG_GOLDEN_VECTORS)('cleans the golden vector "$name"', ({ title, cleaned }) => {
+    expect(cleanTitleForSlug(title)).toBe(cleaned);
+  });
+
+  it('reports no failing golden vectors', () => {
+    expect(checkSlugVectors()).toEqual([]);
+  });
+
+  it('appends the first 4 bytes of the article ID', () => {
+    expect(slugSuffix(ARTICLE)).toBe('3131abcd');
+    expect(slugSuffix('0xab')).toBe('00000000');
+    expect(generateSlug('Hello World', ARTICLE)).toBe('hello-world-3131abcd');
+  });
+
+  it('is only the suffix when nothing of the title is left', () => {
+    expect(generateSlug('!!!', ARTICLE)).toBe('3131abcd');
+  });
+
+  it('parses the ID suffix of contract slugs only', () => {
+    expect(parseSlugSuffix('hello-world-3131abcd')).toBe('3131abcd');
+    expect(parseSlugSuffix('3131abcd')).toBe('3131abcd');
+    expect(parseSlugSuffix('hello-world-3131ABCD')).toBeNull();
+    expect(parseSlugSuffix('hello-world3131abcd')).toBeNull();
+    expect(parseSlugSuffix('Hello-3131abcd')).toBeNull();
+    expect(parseSlugSuffix('abcd')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+/**
+ * Article slug algorithm
+ *
+ * Mirrors `articles::generate_slug_from_title` byte for byte: the title is
+ * cleaned as UTF-8 bytes (A-Z lowercased, spaces become hyphens, anything but
+ * a-z, 0-9 and '-' dropped, no doubled hyphens, one leading and one trailing
+ * hyphen trimmed) and the first 4 bytes of the article ID are appended as
+ * lowercase hex. Because of that suffix, slugs are unique and the suffix
+ * narrows a slug down to articles whose ID starts with it.
+ */
+
+export const SLUG_SUFFIX_LENGTH = 8; // Hex characters (4 ID bytes)
+
+const HYPHEN = 0x2d;
+const SPACE = 0x20;
+
+export interface SlugGoldenVector {
+  name: string;
+  title: string;
+  cleaned: string;
+}
+
+/**
+ * Golden vectors shared with tests/articles_tests.move (test_slug_golden_vectors),
+ * which checks them against `preview_slug_from_title`. Update both sides together.
+ */
+export const SLUG_GOLDEN_VECTORS: SlugGoldenVector[] = [
+  { name: 'simple title', title: 'Hello World', cleaned: 'hello-world' },
+  { name: 'surrounding spaces', title: '  Leading and trailing  ', cleaned: 'leading-and-trailing' },
+  { name: 'punctuation', title: 'Sui & Walrus: 2025 Edition!', cleaned: 'sui-walrus-2025-edition' },
+  { name: 'existing hyphens', title: 'already-hyphenated -- title', cleaned: 'already-hyphenated-title' },
+  { name: 'non-ASCII letters', title: 'Café résumé', cleaned: 'caf-rsum' },
+  { name: 'underscores and tabs', title: 'Under_score & Tab\tSeparated', cleaned: 'underscore-tabseparated' },
+  { name: 'nothing left', title: '!!!', cleaned: '' },
+];
+
+/**
+ * `articles::clean_title_string`
+ */
+export function cleanTitleForSlug(title: string): string {
+  const bytes = new TextEncoder().encode(title);
+  const result: number[] = [];
+  let lastWasHyphen = false;
+
+  for (const byte of bytes) {
+    let processed = 0;
+    if (byte >= 0x41 && byte <= 0x5a) {
+      processed = byte + 32; // A-Z -> a-z
+    } else if (byte === SPACE) {
+      processed = HYPHEN;
+    } else if (isValidSlugByte(byte)) {
+      processed = byte;
+    }
+
+    // Dropped bytes leave lastWasHyphen untouched, as in the contract
+    if (processed !== 0) {
+      const isHyphen = processed === HYPHEN;
+      if (!isHyphen || !lastWasHyphen) {
+        result.push(processed);
+      }
+      lastWasHyphen = isHyphen;
+    }
+  }
+
+  if (result[result.length - 1] === HYPHEN) {
+    result.pop();
+  }
+  if (result[0] === HYPHEN) {
+    result.shift();
+  }
+
+  return String.fromCharCode(...result);
+}
+
+/**
+ * `articles::uid_to_short_hex`: the first 4 bytes of the article ID
+ */
+export function slugSuffix(articleId: string): string {
+  return normalizeSuiAddress(articleId).slice(2, 2 + SLUG_SUFFIX_LENGTH);
+}
+
+/**
+ * The slug the contract gives an article with this title and ID
+ */
+export function generateSlug(title: string, articleId: string): string {
+  const cleaned = cleanTitleForSlug(title);
+  const suffix = slugSuffix(articleId);
+  return cleaned ? `${cleaned}-${suffix}` : suffix;
+}
+
+/**
+ * ID suffix of a slug, or null when it cannot have come from the contract
+ */
+export function parseSlugSuffix(slug: string): string | null {
+  const suffix = slug.slice(-SLUG_SUFFIX_LENGTH);
+  const rest = slug.slice(0, -SLUG_SUFFIX_LENGTH);
+
+  if (!/^[0-9a-f]{8}$/.test(suffix) || (rest !== '' && !/^[a-z0-9-]*-$/.test(rest))) {
+    return null;
+  }
+  return suffix;
+}
+
+/**
+ * Re-clean every golden vector and return the names of those that no longer match
+ */
+export function checkSlugVectors(): string[] {
+  return SLUG_GOLDEN_VECTORS
+    .filter(vector => cleanTitleForSlug(vector.title) !== vector.cleaned)
+    .map(vector => vector.name);
+}
+
+function isValidSlugByte(byte: number): boolean {
+  return (byte >= 0x61 && byte <= 0x7a) || (byte >= 0x30 && byte <= 0x39) || byte === HYPHEN;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from '@jest/globals';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { executeTransaction, extractCreatedObjectIds, extractCreatedObjectsByType, parseEvents } from './transactions.js';
+
+const PKG = '0x' + 'ab'.repeat(32);
+
+describe('parseEvents', () => {
+  const events = [
+    { type: `${PKG}::articles::ArticlePosted`, parsedJson: { article: '0x1' } },
+    { type: `${PKG}::publication::ContributorAdded`, parsedJson: { contributor: '0x2' } },
+    { type: `${PKG}::articles::ArticlePosted`, parsedJson: { article: '0x3' } },
+    { parsedJson: { untyped: true } },
+  ];
+
+  it('returns the parsed JSON of every event whose struct has the name', () => {
+    expect(parseEvents(events, 'ArticlePosted')).toEqual([{ article: '0x1' }, { article: '0x3' }]);
+  });
+
+  it('matches on a full event type', () => {
+    expect(parseEvents(events, `${PKG}::publication::ContributorAdded`)).toEqual([{ contributor: '0x2' }]);
+  });
+
+  it('does not match structs that merely end with the name', () => {
+    const subscriptionEvents = [
+      { type: `${PKG}::inkray_events::SubscriptionExtended`, parsedJson: { platform: true } },
+      { type: `${PKG}::inkray_events::PublicationSubscriptionExtended`, parsedJson: { platform: false } },
+    ];
+
+    expect(parseEvents(subscriptionEvents, 'SubscriptionExtended')).toEqual([{ platform: true }]);
+  });
+
+  it('returns an empty list when nothing matches', () => {
+    expect(parseEvents(events, 'TipSent')).toEqual([]);
+    expect(parseEvents([], 'ArticlePosted')).toEqual([]);
+  });
+});
+
+describe('extractCreatedObjectsByType', () => {
+  const changes = [
+    { type: 'created', objectType: `${PKG}::publication::Publication`, objectId: '0xa' },
+    { type: 'created', objectType: `${PKG}::publication::PublicationOwnerCap`, objectId: '0xb' },
+    { type: 'mutated', objectType: `${PKG}::publication::Publication`, objectId: '0xc' },
+    { type: 'created', objectType: '0x2::coin::Coin<0x2::sui::SUI>', objectId: '0xd' },
+    { type: 'deleted', objectId: '0xe' },
+  ];
+
+  it('keeps only created objects whose type contains the name', () => {
+    expect(extractCreatedObjectsByType(changes, 'PublicationOwnerCap').map(change => change.objectId)).toEqual(['0xb']);
+    expect(extractCreatedObjectsByType(changes, '::coin::Coin').map(change => change.objectId)).toEqual(['0xd']);
+  });
+
+  it('matches by substring, so a struct name also matches its longer siblings', () => {
+    expect(extractCreatedObjectsByType(changes, '::publication::Publication').map(change => change.objectId)).toEqual(['0xa', '0xb']);
+  });
+
+  it('lists every created object ID', () => {
+    expect(extractCreatedObjectIds(changes)).toEqual(['0xa', '0xb', '0xd']);
+  });
+});
+
+describe('executeTransaction', () => {
+  it('returns the object changes and events of an executed transaction', async () => {
+    const fake = new FakeSuiClient();
+    const client = fake.createInkrayClient();
+    fake.onExecute(() => ({
+      created: [{ type: `${PKG}::publication::Publication`, owner: 'shared' }],
+      events: [{ type: `${PKG}::publication::PublicationCreated`, parsedJson: { name: 'Inkray' } }],
+    }));
+
+    const result = await executeTransaction(tx => {
+      tx.moveCall({ package: PKG, module: 'publication', function: 'create', arguments: [tx.pureString('Inkray')] });
+    }, client);
+
+    expect(extractCreatedObjectsByType(result.objectChanges, '::publication::Publication')).toHaveLength(1);
+    expect(parseEvents(result.events, 'PublicationCreated')).toEqual([{ name: 'Inkray' }]);
+    expect(fake.lastExecuted().sender).toBe(client.getAddress());
+  });
+
+  it('throws when the transaction aborts', async () => {
+    const fake = new FakeSuiClient();
+    fake.onExecute(() => ({ error: 'MoveAbort(publication, 1)' }));
+
+    await expect(executeTransaction(tx => {
+      tx.moveCall({ package: PKG, module: 'publication', function: 'create' });
+    }, fake.createInkrayClient())).rejects.toThrow('Transaction failed: MoveAbort(publication, 1)');
+  });
+});
@@ -1,6 +1,9 @@
 import { Transaction } from '@mysten/sui/transactions';
 import { getDefaultSuiClient } from './client.js';
-import { GAS_CONFIG } from '../config/constants.js';
+import { encodePureArg, type PureValue } from './pure-args.js';
+import { estimateGas, type GasEstimate, type GasOptions } from './gas.js';
+import { executeWithRetry, type RetryOptions } from './executor.js';
+import { transactionFailure } from './move-errors.js';
 import type { TransactionResult } from './types.js';
 import chalk from 'chalk';
 
@@ -10,8 +13,6 @@ export class TransactionBuilder {
 
   constructor(client?: import('./client.js').InkraySuiClient) {
     this.tx = new Transaction();
-    this.tx.setGasPrice(GAS_CONFIG.GAS_PRICE);
-    this.tx.setGasBudget(GAS_CONFIG.MAX_GAS_BUDGET);
 
     // Use provided client or fall back to default
     this.client = client || getDefaultSuiClient();
@@ -49,39 +50,50 @@ export class TransactionBuilder {
     });
   }
 
-  // Pure arguments
-  pure(value: any, type?: string) {
-    if (type) {
-      return this.tx.pure.string(value);
-    }
-    return this.tx.pure(value);
+  // Pure arguments, checked and BCS-encoded for their Move type (see pure-args.ts)
+  pure<T extends string>(value: PureValue<T>, type: T) {
+    return this.tx.pure(encodePureArg(value, type));
   }
 
   pureString(value: string) {
-    return this.tx.pure.string(value);
+    return this.pure(value, 'string');
+  }
+
+  pureU8(value: number) {
+    return this.pure(value, 'u8');
   }
 
   pureU64(value: number | string | bigint) {
-    return this.tx.pure.u64(value);
+    return this.pure(value, 'u64');
   }
 
   pureU256(value: number | string | bigint) {
-    return this.tx.pure.u256(value);
+    return this.pure(value, 'u256');
   }
 
   pureBool(value: boolean) {
-    return this.tx.pure.bool(value);
+    return this.pure(value, 'bool');
   }
 
   pureAddress(address: string) {
-    return this.tx.pure.address(address);
+    return this.pure(address, 'address');
+  }
+
+  pureId(objectId: string) {
+    return this.pure(objectId, 'ID');
+  }
+
+  pureVector<T extends string>(elementType: T, values: PureValue<`vector<${T}>`>) {
+    return this.pure(values, `vector<${elementType}>`);
   }
 
-  // Note: Vector types should be handled using specific methods or manual construction
+  pureOption<T extends string>(elementType: T, value: PureValue<`Option<${T}>`>) {
+    return this.pure(value, `Option<${elementType}>`);
+  }
 
   // SUI coin handling
   splitCoins(coin: any, amounts: (number | string | bigint)[]) {
-    return this.tx.splitCoins(coin, amounts.map(amount => this.tx.pure.u64(amount)));
+    return this.tx.splitCoins(coin, amounts.map(amount => this.pureU64(amount)));
   }
 
   mergeCoins(destination: any, sources: any[]) {
@@ -90,7 +102,7 @@ export class TransactionBuilder {
 
   // Transfer operations
   transferObjects(objects: any[], recipient: string) {
-    return this.tx.transferObjects(objects, this.tx.pure.address(recipient));
+    return this.tx.transferObjects(objects, this.pureAddress(recipient));
   }
 
   // Gas coin management
@@ -98,22 +110,28 @@ export class TransactionBuilder {
     return this.tx.gas;
   }
 
-  // Transaction execution
+  // Gas estimation: reference gas price and a dry-run budget (see gas.ts)
+  async estimateGas(options?: GasOptions): Promise<GasEstimate> {
+    this.tx.setSenderIfNotSet(this.client.getAddress());
+    return await estimateGas(this.tx, this.client, options);
+  }
+
+  // Transaction execution, retried where that is safe (see executor.ts)
   async execute(options?: {
     showEffects?: boolean;
     showEvents?: boolean;
     showObjectChanges?: boolean;
     showBalanceChanges?: boolean;
+    gas?: GasOptions;
+    retry?: RetryOptions;
   }): Promise<TransactionResult> {
     try {
-      const keypair = this.client.getKeypair();
-
       console.log(chalk.blue(`📤 Executing transaction...`));
 
-      const result = await this.client.getClient().signAndExecuteTransaction({
-        transaction: this.tx,
-        signer: keypair,
-        options: {
+      const result = await executeWithRetry(this.tx, this.client, {
+        gas: options?.gas,
+        retry: options?.retry,
+        response: {
           showEffects: options?.showEffects ?? true,
           showEvents: options?.showEvents ?? true,
           showObjectChanges: options?.showObjectChanges ?? true,
@@ -122,8 +140,7 @@ export class TransactionBuilder {
       });
 
       if (result.effects?.status?.status !== 'success') {
-        const error = result.effects?.status?.error || 'Unknown error';
-        throw new Error(`Transaction failed: ${error}`);
+        throw transactionFailure(result.effects?.status?.error || 'Unknown error', result.digest);
       }
 
       console.log(chalk.green(`✓ Transaction executed successfully`));
@@ -167,6 +184,25 @@ export class TransactionBuilder {
     }
   }
 
+  // Read-only execution for view functions (no signature or gas needed)
+  async devInspect(): Promise<any> {
+    try {
+      const result = await this.client.getClient().devInspectTransactionBlock({
+        transactionBlock: this.tx,
+        sender: this.client.getAddress(),
+      });
+
+      if (result.effects?.status?.status !== 'success') {
+        throw transactionFailure(result.effects?.status?.error || result.error || 'Unknown error', undefined, 'Dev inspect failed');
+      }
+
+      return result;
+    } catch (error) {
+      console.error(chalk.red(`❌ Dev inspect failed: ${error}`));
+      throw error;
+    }
+  }
+
   // Clone this builder
   clone(): TransactionBuilder {
     const newBuilder = new TransactionBuilder(this.client);
@@ -243,9 +279,14 @@ export class CommonTransactions {
 }
 
 // Transaction event parsing utilities
+
+/**
+ * Untyped parsedJson of events matching a full Move type or a struct name
+ * (use `decodeEvents` from events.ts for typed `inkray_events`)
+ */
 export function parseEvents(events: any[], eventType: string): any[] {
   return events.filter(event =>
-    event.type && event.type.includes(eventType)
+    event.type && (event.type === eventType || event.type.endsWith(`::${eventType}`))
   ).map(event => event.parsedJson);
 }
 
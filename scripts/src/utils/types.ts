@@ -9,12 +9,14 @@ export interface MockBlob {
 export interface Article {
   id: string;
   publication_id: string;
+  vault_id: string;
   author: string;
   title: string;
-  summary: string;
-  blob_id: string;
-  is_paid: boolean;
-  created_at: string;
+  slug: string;
+  gated: boolean;
+  body_blob_id: string; // Object ID of the Walrus Blob held in the vault
+  blob_id: string | null; // Walrus blob ID of the body, when known
+  created_at: string | null; // ms
 }
 
 export interface Publication {
@@ -24,6 +26,8 @@ export interface Publication {
   owner: string;
   vault_id: string;
   contributors: string[];
+  subscription_price?: string; // MIST per month, '0' = no subscription required
+  subscription_balance?: string; // MIST
 }
 
 export interface PublicationOwnerCap {
@@ -42,34 +46,45 @@ export interface PublicationVault {
 
 export interface PlatformSubscription {
   id: string;
+  holder: string;
+  plan: number;
+  expires_ms: string;
+  version: number;
+}
+
+export interface PublicationSubscription {
+  id: string;
+  publication_id: string;
   subscriber: string;
-  expires_at: string;
+  expires_at: string; // ms
+  created_at: string; // ms
 }
 
 export interface PlatformService {
   id: string;
-  monthly_fee: string;
-  time_to_live: string;
-  owner: string;
+  monthly_fees: string[]; // MIST, indexed by plan
+  duration_ms: string;
+  admin: string;
 }
 
 export interface ArticleNFT {
   id: string;
   article_id: string;
-  publication_id: string;
-  title: string;
-  author: string;
-  blob_id: string;
-  minted_at: string;
-  royalty_percent: number;
+  minted_at: string; // epoch timestamp ms
 }
 
-export interface CreatorTreasury {
+export interface MintConfig {
   id: string;
+  base_price: string; // MIST
+  platform_fee_percent: number;
+  admin: string;
+}
+
+export interface TreasuryStats {
   publication_id: string;
-  owner: string;
-  total_tips_received: string;
-  total_earnings: string;
+  tip_balance: string; // MIST currently withdrawable
+  total_tips_received: string; // tip count
+  total_amount_received: string; // MIST ever received
 }
 
 // Walrus-related types
@@ -113,26 +128,39 @@ export interface WalrusUploadResponse {
 export interface SealEncryptionOptions {
   contentId: string | Uint8Array; // BCS-encoded IdV1 or legacy string identifier
   packageId?: string;
-  threshold?: number; // Number of key servers required for decryption (default: 2)
+  threshold?: number; // Key server weight required for decryption (default: network seal.threshold)
 }
 
 export interface UserCredentials {
+  // policy::seal_approve_subscription
   subscription?: {
-    id: string;
-    serviceId: string;
+    id: string; // subscription::Subscription
   };
+  // policy::seal_approve_publication_subscription
+  publicationSubscription?: {
+    id: string; // publication_subscription::PublicationSubscription
+    publicationId: string;
+  };
+  // policy::seal_approve_nft
   nft?: {
-    id: string;
+    id: string; // nft::ArticleAccessNft
     articleId: string;
   };
+  // policy::seal_approve_publication_owner
   publicationOwner?: {
     ownerCapId: string;
     publicationId: string;
   };
+  // policy::seal_approve_roles
   contributor?: {
     publicationId: string;
-    contentPolicyId: string;
+    contentPolicyId?: string; // Unused; kept for older callers
   };
+  // policy::seal_approve_free (publications without a subscription price)
+  free?: {
+    publicationId: string;
+  };
+  /** @deprecated No allowlist policy exists on-chain; never grants access */
   allowlist?: {
     contentPolicyId: string;
   };
@@ -144,20 +172,37 @@ export interface SealDecryptionRequest {
   credentials: UserCredentials; // Available user credentials
   packageId?: string;
   requestingClient?: import('./client.js').InkraySuiClient; // The client making the request (for access validation)
+  credentialOrder?: CredentialKind[]; // Attempt order; defaults to owner → contributor → subscriptions → NFT → free
 }
 
-// Legacy interface for backward compatibility
-export interface SealDecryptionRequestLegacy {
-  encryptedData: Uint8Array;
-  policy: string;
-  identity: string;
-  policyPackageId?: string;
-  policyObjectId?: string;
-  subscriptionId?: string;
-  nftId?: string;
-  publicationId?: string;
-  articleId?: string;
-  accessProof?: any;
+export type CredentialKind = Exclude<keyof UserCredentials, 'allowlist'>;
+
+export interface SealBatchDecryptionRequest {
+  items: { encryptedData: Uint8Array; contentId: string | Uint8Array }[]; // All under one publication
+  credentials: UserCredentials;
+  packageId?: string;
+  requestingClient?: import('./client.js').InkraySuiClient;
+  credentialOrder?: CredentialKind[];
+  concurrency?: number; // Parallel local decryptions (default: 4)
+}
+
+export interface SealBatchItemResult {
+  index: number; // Position in SealBatchDecryptionRequest.items
+  success: boolean;
+  contentId: string; // 0x-prefixed hex
+  decryptedContent?: Uint8Array;
+  decryptedSize?: number;
+  error?: string;
+  executionTime: number;
+}
+
+export interface SealBatchDecryptionResult {
+  publicationId: string | null;
+  accessMethod: CredentialKind | null; // Credential whose approval PTB the key servers accepted
+  results: SealBatchItemResult[];
+  succeeded: number;
+  failed: number;
+  executionTime: number;
 }
 
 // Transaction result types
@@ -181,6 +226,8 @@ export interface ClientConfig {
   rpcUrl?: string;
   privateKey?: string;
   mnemonic?: string;
+  transport?: import('@mysten/sui/client').SuiTransport; // Replaces rpcUrl, e.g. MockSuiTransport for offline tests
+  client?: import('@mysten/sui/client').SuiClient; // Wrap an existing client, e.g. FakeSuiClient in tests
 }
 
 export interface WalrusClientConfig {
@@ -192,8 +239,14 @@ export interface WalrusClientConfig {
 export interface SealClientConfig {
   network: string;
   keyServerUrl: string;
+  keyServers: import('../config/networks.js').SealKeyServerConfig[];
+  threshold: number;
+  verifyKeyServers: boolean;
   policyPackageId?: string;
   suiClient?: import('./client.js').InkraySuiClient;
+  sessionKeys?: import('./session-key-manager.js').SessionKeyManager; // Shared session-key cache (default: process-wide)
+  mode?: 'seal' | 'local'; // 'local' = offline AES-GCM with LocalKeyServer (default: SEAL_MODE or 'seal')
+  localKeyServer?: import('./local-seal.js').LocalKeyServer;
 }
 
 // CLI Command types
@@ -218,11 +271,11 @@ export interface SubscriptionOptions {
 
 export interface NFTMintOptions {
   articleId: string;
-  royaltyPercent: number;
+  recipient?: string; // Defaults to the minting wallet
 }
 
 export interface TipOptions {
-  articleId: string;
+  articleId?: string; // Tip an article; the tip goes to its publication
+  publicationId?: string; // Or tip a publication directly
   amount: number; // SUI
-  message?: string;
 }
\ No newline at end of file
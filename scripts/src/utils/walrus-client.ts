@@ -1,18 +1,20 @@
-import { WalrusClient, WalrusFile } from '@mysten/walrus';
+import type { WalrusClient } from '@mysten/walrus';
 import { getNetworkConfig, getCurrentNetwork } from '../config/networks.js';
 import { getDefaultSuiClient } from './client.js';
 import type { WalrusClientConfig, WalrusBlob, WalrusUploadResponse } from './types.js';
+import { getStorageBackendFromEnv, WalrusStorageBackend, type StorageBackend } from '../storage/storage-backend.js';
 import chalk from 'chalk';
-import type { RequestInfo, RequestInit } from 'undici';
-import { Agent, fetch } from 'undici';
 import fs from 'fs/promises';
 
 export class InkrayWalrusClient {
-  private client: WalrusClient;
+  private backend: StorageBackend;
   private config: WalrusClientConfig;
   private suiClient: import('./client.js').InkraySuiClient;
 
-  constructor(config?: Partial<WalrusClientConfig> & { suiClient?: import('./client.js').InkraySuiClient }) {
+  constructor(config?: Partial<WalrusClientConfig> & {
+    suiClient?: import('./client.js').InkraySuiClient;
+    backend?: StorageBackend; // Defaults to WALRUS_BACKEND (the Walrus network unless set)
+  }) {
     const network = getCurrentNetwork();
     const networkConfig = getNetworkConfig(network);
 
@@ -25,26 +27,21 @@ export class InkrayWalrusClient {
     // Use provided Sui client or fall back to default
     this.suiClient = config?.suiClient || getDefaultSuiClient();
 
-    this.client = new WalrusClient({
-      network: this.config.network as 'testnet' | 'mainnet',
-      suiClient: this.suiClient.getClient(),
-      storageNodeClientOptions: {
-        timeout: 60_000 * 2,
-        fetch: (url, init) => {
-          // Some casting may be required because undici types may not exactly match the @node/types types
-          return fetch(url as RequestInfo, {
-            ...(init as RequestInit),
-            dispatcher: new Agent({
-              connectTimeout: 60_000 * 2,
-            }),
-          }) as unknown as Promise<Response>;
-        },
-      },
-    });
+    this.backend = config?.backend || getStorageBackendFromEnv(
+      this.config.network as 'testnet' | 'mainnet',
+      this.suiClient.getClient()
+    );
   }
 
   getClient(): WalrusClient {
-    return this.client;
+    if (!(this.backend instanceof WalrusStorageBackend)) {
+      throw new Error(`No Walrus client available: using the ${this.backend.kind} storage backend`);
+    }
+    return this.backend.getClient();
+  }
+
+  getBackend(): StorageBackend {
+    return this.backend;
   }
 
   getConfig(): WalrusClientConfig {
@@ -66,22 +63,17 @@ export class InkrayWalrusClient {
       const signer = this.suiClient.getKeypair();
 
       // Upload to Walrus
-      const result = await this.client.writeBlob({
-        blob: fileContent,
+      const result = await this.backend.writeBlob(fileContent, {
         epochs: options?.epochs || 5,
         deletable: options?.deletable || false,
         signer,
       });
 
-      if (!result) {
-        throw new Error('Upload failed: No result returned');
-      }
-
       console.log(chalk.green(`✓ File uploaded successfully`));
       console.log(chalk.gray(`  Blob ID: ${result.blobId}`));
       console.log(chalk.gray(`  Size: ${result.blobObject.size} bytes`));
 
-      return result as WalrusUploadResponse;
+      return result;
     } catch (error) {
       console.error(chalk.red(`❌ Upload failed: ${error}`));
       throw error;
@@ -98,22 +90,17 @@ export class InkrayWalrusClient {
       // Try using writeBlob instead of writeFiles
       const signer = this.suiClient.getKeypair();
 
-      const result = await this.client.writeBlob({
-        blob: buffer,
+      const result = await this.backend.writeBlob(buffer, {
         epochs: options?.epochs || 5,
         deletable: options?.deletable || false,
         signer,
       });
 
-      if (!result) {
-        throw new Error('Upload failed: No result returned');
-      }
-
       console.log(chalk.green(`✓ Buffer uploaded successfully`));
       console.log(chalk.gray(`  Blob ID: ${result.blobId}`));
       console.log(chalk.gray(`  Size: ${result.blobObject.size} bytes`));
 
-      return result as WalrusUploadResponse;
+      return result;
     } catch (error) {
       console.error(chalk.red(`❌ Upload failed: ${error}`));
       throw error;
@@ -125,19 +112,7 @@ export class InkrayWalrusClient {
     try {
       console.log(chalk.blue(`📥 Downloading blob from Walrus: ${blobId}`));
 
-      const files = await this.client.getFiles({
-        ids: [blobId],
-      });
-
-      if (!files || files.length === 0) {
-        throw new Error(`Blob not found: ${blobId}`);
-      }
-
-      const file = files[0];
-
-      const content = file instanceof WalrusFile
-        ? await file.bytes()
-        : new Uint8Array(await (file as any).arrayBuffer());
+      const content = await this.backend.readBlob(blobId);
 
       console.log(chalk.green(`✓ Blob downloaded successfully`));
       console.log(chalk.gray(`  Size: ${content.byteLength} bytes`));
@@ -164,21 +139,7 @@ export class InkrayWalrusClient {
   // Utility methods
   async getBlobInfo(blobId: string): Promise<WalrusBlob | null> {
     try {
-      const files = await this.client.getFiles({
-        ids: [blobId],
-      });
-
-      if (!files || files.length === 0) {
-        return null;
-      }
-
-      const file = files[0];
-
-      return {
-        blobId,
-        size: (file as any).size || 0,
-        storageEndEpoch: 0, // This would need to be retrieved from the blob object
-      };
+      return await this.backend.getBlobInfo(blobId);
     } catch (error) {
       console.warn(chalk.yellow(`Warning: Could not get blob info for ${blobId}: ${error}`));
       return null;
@@ -205,22 +166,21 @@ export class InkrayWalrusClient {
       const files = await Promise.all(
         filePaths.map(async (filePath) => {
           const content = await fs.readFile(filePath);
-          const fileName = filePath.split('/').pop() || 'file';
-          return (WalrusFile as any).from(content, fileName);
+          const identifier = filePath.split('/').pop() || 'file';
+          return { contents: new Uint8Array(content), identifier };
         })
       );
 
       const signer = this.suiClient.getKeypair();
 
-      const results = await this.client.writeFiles({
-        files,
+      const results = await this.backend.writeFiles(files, {
         epochs: options?.epochs || 5,
         deletable: options?.deletable || false,
         signer,
       });
 
       console.log(chalk.green(`✓ ${results.length} files uploaded successfully`));
-      return results as WalrusUploadResponse[];
+      return results;
     } catch (error) {
       console.error(chalk.red(`❌ Batch upload failed: ${error}`));
       throw error;
@@ -231,16 +191,12 @@ export class InkrayWalrusClient {
     try {
       console.log(chalk.blue(`📥 Downloading ${blobIds.length} blobs from Walrus`));
 
-      const files = await this.client.getFiles({
-        ids: blobIds,
-      });
+      const contents = await this.backend.readBlobs(blobIds);
 
       const results = new Map<string, Uint8Array>();
 
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        const content = await (file as any).arrayBuffer();
-        results.set(blobIds[i], new Uint8Array(content));
+      for (let i = 0; i < contents.length; i++) {
+        results.set(blobIds[i], contents[i]);
       }
 
       console.log(chalk.green(`✓ ${results.size} blobs downloaded successfully`));
@@ -255,11 +211,11 @@ export class InkrayWalrusClient {
 // Singleton instance management
 let defaultWalrusClient: InkrayWalrusClient | null = null;
 
-export function createWalrusClient(config?: Partial<WalrusClientConfig> & { suiClient?: import('./client.js').InkraySuiClient }): InkrayWalrusClient {
+export function createWalrusClient(config?: Partial<WalrusClientConfig> & { suiClient?: import('./client.js').InkraySuiClient; backend?: StorageBackend }): InkrayWalrusClient {
   return new InkrayWalrusClient(config);
 }
 
-export function getDefaultWalrusClient(config?: Partial<WalrusClientConfig> & { suiClient?: import('./client.js').InkraySuiClient }): InkrayWalrusClient {
+export function getDefaultWalrusClient(config?: Partial<WalrusClientConfig> & { suiClient?: import('./client.js').InkraySuiClient; backend?: StorageBackend }): InkrayWalrusClient {
   if (!defaultWalrusClient) {
     defaultWalrusClient = new InkrayWalrusClient(config);
   }
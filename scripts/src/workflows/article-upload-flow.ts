@@ -2,6 +2,7 @@ import { Transaction } from '@mysten/sui/transactions';
 import { MultiWalletClient } from '../utils/multi-wallet-client.js';
 import { uploadBufferWithClient } from '../storage/walrus-upload.js';
 import { ArticleManager } from '../interactions/article.js';
+import { withRetry } from '../utils/executor.js';
 import chalk from 'chalk';
 import { promises as fs } from 'fs';
 
@@ -158,14 +159,14 @@ export class ArticleUploadFlow {
     console.log(chalk.green('✅ Using creator wallet for Walrus upload'));
     console.log(chalk.gray(`  Creator wallet: ${creatorSuiClient.getAddress()}`));
 
-    const maxRetries = 5;
-    const baseDelay = 2000; // 2 seconds
+    const maxAttempts = 5;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(chalk.blue(`📤 Upload attempt ${attempt}/${maxRetries}...`));
+    try {
+      // Backoff of 2s, 4s, 8s, 16s; a wallet short of WAL will not fix itself
+      const uploadResult = await withRetry(async attempt => {
+        console.log(chalk.blue(`📤 Upload attempt ${attempt}/${maxAttempts}...`));
 
-        const uploadResult = await uploadBufferWithClient(
+        return await uploadBufferWithClient(
           encryptedContent,
           filename,
           creatorSuiClient,
@@ -173,42 +174,24 @@ export class ArticleUploadFlow {
             epochs: 1, // Reduced from 10 to minimize WAL cost
           }
         );
+      }, { maxAttempts, baseDelayMs: 2000, shouldRetry: error => !isWalFundsError(error) });
 
-        console.log(chalk.green('✅ Content uploaded to Walrus'));
-        console.log(chalk.gray(`  Blob ID: ${uploadResult.blobId}`));
-        console.log(chalk.gray(`  Size: ${uploadResult.size} bytes`));
-        console.log(chalk.gray(`  Storage end epoch: ${uploadResult.storageEndEpoch}`));
-
-        return uploadResult;
-      } catch (error) {
-        const errorMsg = error instanceof Error ? error.message : String(error);
-
-        console.error(chalk.red(`❌ Upload attempt ${attempt}/${maxRetries} failed: ${error}`));
+      console.log(chalk.green('✅ Content uploaded to Walrus'));
+      console.log(chalk.gray(`  Blob ID: ${uploadResult.blobId}`));
+      console.log(chalk.gray(`  Size: ${uploadResult.size} bytes`));
+      console.log(chalk.gray(`  Storage end epoch: ${uploadResult.storageEndEpoch}`));
 
-        // Check for specific error types that shouldn't be retried
-        if (errorMsg.includes('WAL') || errorMsg.includes('insufficient') || errorMsg.includes('balance')) {
-          console.error(chalk.red(`💡 WAL Token Issue: The wallet needs WAL tokens to pay for Walrus storage`));
-          console.error(chalk.red(`   Current wallet: ${this.multiWallet.getAddress('creator')}`));
-          console.error(chalk.red(`   Request WAL tokens from: https://docs.walrus.space/walrus/setup.html#getting-some-testnet-wal`));
-          throw error; // Don't retry WAL token issues
-        }
-
-        // If this is the last attempt, throw the error
-        if (attempt === maxRetries) {
-          console.error(chalk.red(`❌ All ${maxRetries} upload attempts failed`));
-          throw error;
-        }
-
-        // Calculate delay with exponential backoff: 2s, 4s, 8s, 16s
-        const delay = baseDelay * Math.pow(2, attempt - 1);
-        console.log(chalk.yellow(`⏳ Waiting ${delay / 1000}s before retry ${attempt + 1}...`));
+      return uploadResult;
+    } catch (error) {
+      console.error(chalk.red(`❌ Upload failed: ${error}`));
 
-        await new Promise(resolve => setTimeout(resolve, delay));
+      if (isWalFundsError(error)) {
+        console.error(chalk.red(`💡 WAL Token Issue: The wallet needs WAL tokens to pay for Walrus storage`));
+        console.error(chalk.red(`   Current wallet: ${this.multiWallet.getAddress('creator')}`));
+        console.error(chalk.red(`   Request WAL tokens from: https://docs.walrus.space/walrus/setup.html#getting-some-testnet-wal`));
       }
+      throw error;
     }
-
-    // This should never be reached, but TypeScript requires it
-    throw new Error('Upload failed after all retry attempts');
   }
 
   /**
@@ -345,4 +328,9 @@ export class ArticleUploadFlow {
     console.log(chalk.white(`Transaction: ${result.transactionDigest}`));
     console.log();
   }
-}
\ No newline at end of file
+}
+
+function isWalFundsError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('WAL') || message.includes('insufficient') || message.includes('balance');
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { FakeSuiClient } from '../testing/fake-sui-client.js';
+import { InvalidArgumentError } from '../utils/errors.js';
+import { ContentPublishFlow } from './content-publish-flow.js';
+
+const PKG = normalizeSuiAddress('0x' + 'ab'.repeat(32));
+const PUBLICATION = normalizeSuiAddress('0x' + '11'.repeat(32));
+
+describe('ContentPublishFlow in local Seal mode', () => {
+  const env = { SEAL_MODE: process.env.SEAL_MODE, WALRUS_BACKEND: process.env.WALRUS_BACKEND };
+  let fake: FakeSuiClient;
+  let flow: ContentPublishFlow;
+
+  beforeEach(() => {
+    process.env.SEAL_MODE = 'local';
+    delete process.env.WALRUS_BACKEND;
+    fake = new FakeSuiClient();
+    flow = new ContentPublishFlow(fake.createInkrayClient(), PKG);
+  });
+
+  afterEach(() => {
+    for (const [name, value] of Object.entries(env)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('refuses to put locally sealed content on Walrus', async () => {
+    await expect(flow.publish('article.md', { publicationId: PUBLICATION, title: 'Paid', isPaid: true }))
+      .rejects.toBeInstanceOf(InvalidArgumentError);
+    expect(fake.executed).toHaveLength(0);
+  });
+
+  it('allows local storage backends or an explicit override', async () => {
+    const paid = { publicationId: PUBLICATION, title: 'Paid', isPaid: true };
+
+    // Both get past the Seal check to the publication lookup
+    await expect(flow.publish('article.md', { ...paid, allowLocalSeal: true })).rejects.toThrow('Publication not found');
+    process.env.WALRUS_BACKEND = 'memory';
+    await expect(flow.publish('article.md', paid)).rejects.toThrow('Publication not found');
+  });
+
+  it('publishes free articles without the check', async () => {
+    // Gets past the Seal check to the publication lookup
+    await expect(flow.publish('article.md', { publicationId: PUBLICATION, title: 'Free', isPaid: false }))
+      .rejects.toThrow('Publication not found');
+  });
+});
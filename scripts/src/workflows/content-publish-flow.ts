@@ -0,0 +1,168 @@
+import { ArticleManager } from '../interactions/article.js';
+import { PublicationManager } from '../interactions/publication.js';
+import { uploadBufferWithClient, type UploadResult } from '../storage/walrus-upload.js';
+import { createSealClient } from '../utils/seal-client.js';
+import { createWalrusClient } from '../utils/walrus-client.js';
+import { InvalidArgumentError, NotFoundError } from '../utils/errors.js';
+import type { SealClientConfig } from '../utils/types.js';
+import { contractError } from '../utils/move-errors.js';
+import { DEFAULTS } from '../config/constants.js';
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface ContentPublishOptions {
+  publicationId: string;
+  title: string;
+  summary?: string;
+  isPaid: boolean;
+  ownerCapId?: string;
+  epochs?: number;
+  allowLocalSeal?: boolean; // Publish locally sealed content to Walrus and the chain anyway
+}
+
+export interface ContentPublishResult {
+  articleId: string;
+  slug: string;
+  blobId: string;
+  blobObjectId: string;
+  contentId: Uint8Array | null; // Seal IdV1 bytes, null for free articles
+  postedAs: 'owner' | 'contributor';
+  originalSize: number;
+  storedSize: number;
+  transactionDigest: string;
+}
+
+/**
+ * Single-wallet publishing workflow used by the CLI
+ *
+ * Mirrors ArticleUploadFlow: read → (Seal encrypt) → Walrus upload → articles::post*
+ */
+export class ContentPublishFlow {
+  private publicationManager: PublicationManager;
+  private articleManager: ArticleManager;
+
+  constructor(
+    private client: import('../utils/client.js').InkraySuiClient,
+    private packageId: string
+  ) {
+    this.publicationManager = new PublicationManager(client);
+    this.articleManager = new ArticleManager(client, packageId);
+  }
+
+  async publish(filePath: string, options: ContentPublishOptions): Promise<ContentPublishResult> {
+    console.log(chalk.blue(`📝 Publishing ${options.isPaid ? 'paid' : 'free'} article: ${options.title}`));
+    console.log(chalk.gray(`  File: ${filePath}`));
+    console.log(chalk.gray(`  Publication: ${options.publicationId}`));
+
+    const sealClient = createSealClient({ suiClient: this.client });
+    if (options.isPaid) {
+      this.assertSealModeMatchesStorage(sealClient.getConfig().mode, options);
+    }
+
+    // Step 1: Resolve vault and posting authority
+    const { vaultId, ownerCapId } = await this.resolvePublishingContext(options);
+
+    // Step 2: Read content
+    const originalContent = new Uint8Array(await fs.readFile(filePath));
+
+    // Step 3: Encrypt paid content with Seal
+    let contentId: Uint8Array | null = null;
+    let payload: Uint8Array = originalContent;
+
+    if (options.isPaid) {
+      contentId = sealClient.generateArticleContentId(options.publicationId, options.title);
+      payload = await sealClient.encryptContent(originalContent, {
+        contentId,
+        packageId: this.packageId,
+      });
+    }
+
+    // Step 4: Upload to Walrus with the publishing wallet (it must own the Blob object)
+    const uploadResult = await this.uploadToWalrus(payload, filePath, options);
+
+    // Step 5: Create the Article on-chain, moving the Blob into the vault
+    const articleResult = await this.articleManager.createArticle({
+      publicationId: options.publicationId,
+      vaultId,
+      ownerCapId: ownerCapId || undefined,
+      title: options.title,
+      walrusBlobObjectId: uploadResult.blobObjectId,
+      sealContentId: contentId || undefined,
+      isGated: options.isPaid,
+    });
+
+    return {
+      articleId: articleResult.articleId,
+      slug: articleResult.slug,
+      blobId: uploadResult.blobId,
+      blobObjectId: uploadResult.blobObjectId,
+      contentId,
+      postedAs: ownerCapId ? 'owner' : 'contributor',
+      originalSize: originalContent.length,
+      storedSize: payload.length,
+      transactionDigest: articleResult.transactionDigest,
+    };
+  }
+
+  /**
+   * Local Seal mode seals under this machine's master key, so nobody else could
+   * ever decrypt what it puts on Walrus; keep it to local storage backends
+   */
+  private assertSealModeMatchesStorage(mode: SealClientConfig['mode'], options: ContentPublishOptions): void {
+    const storage = createWalrusClient({ suiClient: this.client }).getBackend().kind;
+    if (mode !== 'local' || storage !== 'walrus') {
+      return;
+    }
+
+    if (!options.allowLocalSeal) {
+      throw new InvalidArgumentError('Refusing to publish locally sealed content to Walrus: only this machine could decrypt it', {
+        fix: 'Unset SEAL_MODE to encrypt with the Seal key servers, set WALRUS_BACKEND=memory or filesystem, or pass --allow-local-seal',
+      });
+    }
+    console.log(chalk.yellow(`⚠️  Publishing locally sealed content to Walrus: only this machine can decrypt it`));
+  }
+
+  /**
+   * Look up the publication's vault and decide between post_as_owner and post
+   */
+  private async resolvePublishingContext(
+    options: ContentPublishOptions
+  ): Promise<{ vaultId: string; ownerCapId: string | null }> {
+    const publication = await this.publicationManager.getPublication(options.publicationId);
+    if (!publication) {
+      throw new NotFoundError(`Publication not found: ${options.publicationId}`);
+    }
+
+    if (!publication.vault_id) {
+      throw new NotFoundError(`Publication ${options.publicationId} has no vault`);
+    }
+
+    const ownerCapId = options.ownerCapId || await this.publicationManager.findOwnerCap(options.publicationId);
+    if (ownerCapId) {
+      console.log(chalk.gray(`  Posting as owner (cap: ${ownerCapId})`));
+      return { vaultId: publication.vault_id, ownerCapId };
+    }
+
+    const address = this.client.getAddress();
+    if (!publication.contributors.includes(address)) {
+      throw contractError('articles::E_NOT_AUTHORIZED', `${address} is neither the owner nor a contributor of publication ${options.publicationId}`);
+    }
+
+    console.log(chalk.gray(`  Posting as contributor: ${address}`));
+    return { vaultId: publication.vault_id, ownerCapId: null };
+  }
+
+  private async uploadToWalrus(
+    payload: Uint8Array,
+    filePath: string,
+    options: ContentPublishOptions
+  ): Promise<UploadResult> {
+    const baseName = path.basename(filePath);
+    const fileName = options.isPaid ? `encrypted_${baseName}.dat` : baseName;
+
+    return await uploadBufferWithClient(payload, fileName, this.client, {
+      epochs: options.epochs || DEFAULTS.STORAGE_EPOCHS,
+    });
+  }
+}
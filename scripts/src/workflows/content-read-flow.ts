@@ -0,0 +1,267 @@
+import { ArticleManager } from '../interactions/article.js';
+import { createWalrusClient } from '../utils/walrus-client.js';
+import { createSealClient, readEncryptedContentId } from '../utils/seal-client.js';
+import { CredentialResolver } from '../utils/credential-resolver.js';
+import { decodeContentId } from '../utils/content-id.js';
+import { InvalidContentIdError, NotFoundError } from '../utils/errors.js';
+import { contractError } from '../utils/move-errors.js';
+import type { CredentialKind } from '../utils/types.js';
+import { blobIdFromInt } from '@mysten/walrus';
+import chalk from 'chalk';
+
+export interface ContentReadResult {
+  articleId: string;
+  title: string;
+  slug: string;
+  publicationId: string;
+  blobId: string;
+  blobObjectId: string;
+  isGated: boolean;
+  contentId: string | null; // Hex IdV1 read from the encrypted blob, null for free articles
+  credentialsTried: CredentialKind[];
+  content: Uint8Array;
+}
+
+export interface ContentReadManyResult {
+  articles: ContentReadResult[];
+  failures: { articleId: string; error: string }[];
+}
+
+interface DownloadedArticle {
+  article: any;
+  isGated: boolean;
+  blobId: string;
+  payload: Uint8Array;
+}
+
+/**
+ * Reader-side counterpart of ContentPublishFlow
+ *
+ * Article → vault Blob → Walrus download → (Seal decrypt) → Markdown bytes
+ */
+export class ContentReadFlow {
+  private articleManager: ArticleManager;
+  private credentialResolver: CredentialResolver;
+
+  constructor(
+    private client: import('../utils/client.js').InkraySuiClient,
+    private packageId: string
+  ) {
+    this.articleManager = new ArticleManager(client, packageId);
+    this.credentialResolver = new CredentialResolver(client, packageId);
+  }
+
+  async read(articleId: string): Promise<ContentReadResult> {
+    const { article, isGated, blobId, payload } = await this.download(articleId);
+
+    // Decrypt gated content; free articles are stored in plaintext
+    let content = payload;
+    let contentId: string | null = null;
+    let credentialsTried: CredentialKind[] = [];
+
+    if (isGated) {
+      contentId = this.readContentId(payload, article.publication_id);
+      ({ content, credentialsTried } = await this.decryptArticle(articleId, payload, contentId));
+    }
+
+    return this.toResult(articleId, article, blobId, isGated, contentId, credentialsTried, content);
+  }
+
+  /**
+   * Read many articles, decrypting each publication's gated ones in a single Seal batch
+   */
+  async readMany(articleIds: string[]): Promise<ContentReadManyResult> {
+    const articles: ContentReadResult[] = [];
+    const failures: { articleId: string; error: string }[] = [];
+    const gatedByPublication = new Map<string, { articleId: string; downloaded: DownloadedArticle; contentId: string }[]>();
+
+    for (const articleId of articleIds) {
+      try {
+        const downloaded = await this.download(articleId);
+        const { article, isGated, blobId, payload } = downloaded;
+
+        if (!isGated) {
+          articles.push(this.toResult(articleId, article, blobId, false, null, [], payload));
+          continue;
+        }
+
+        const contentId = this.readContentId(payload, article.publication_id);
+        const group = gatedByPublication.get(article.publication_id) || [];
+        group.push({ articleId, downloaded, contentId });
+        gatedByPublication.set(article.publication_id, group);
+      } catch (error: any) {
+        failures.push({ articleId, error: error?.message || String(error) });
+      }
+    }
+
+    const sealClient = createSealClient({ suiClient: this.client });
+
+    for (const [publicationId, group] of gatedByPublication) {
+      const batchFailures: { entry: typeof group[number]; error: string }[] = [];
+
+      try {
+        // Publication-level credentials are shared; an NFT only counts for a single-article batch
+        const resolved = await this.resolveCredentials(group[0].articleId);
+        console.log(chalk.blue(`📚 Decrypting ${group.length} articles from ${publicationId}`));
+
+        const batch = await sealClient.decryptMany({
+          items: group.map(entry => ({ encryptedData: entry.downloaded.payload, contentId: entry.contentId })),
+          credentials: resolved.credentials,
+          packageId: this.packageId,
+          requestingClient: this.client,
+          credentialOrder: resolved.order,
+        });
+
+        for (const result of batch.results) {
+          const { articleId, downloaded, contentId } = group[result.index];
+          if (result.success && result.decryptedContent) {
+            articles.push(this.toResult(articleId, downloaded.article, downloaded.blobId, true, contentId, resolved.order, result.decryptedContent));
+          } else {
+            batchFailures.push({ entry: group[result.index], error: result.error || 'Decryption failed' });
+          }
+        }
+      } catch (error: any) {
+        group.forEach(entry => batchFailures.push({ entry, error: error?.message || String(error) }));
+      }
+
+      // The batch shares one approval: an article NFT cannot approve it, and one denied item fails the rest
+      for (const { entry, error } of batchFailures) {
+        const { articleId, downloaded, contentId } = entry;
+        if (group.length === 1) {
+          failures.push({ articleId, error });
+          continue;
+        }
+
+        try {
+          console.log(chalk.blue(`🔁 Retrying ${articleId} on its own`));
+          const { content, credentialsTried } = await this.decryptArticle(articleId, downloaded.payload, contentId);
+          articles.push(this.toResult(articleId, downloaded.article, downloaded.blobId, true, contentId, credentialsTried, content));
+        } catch (retryError: any) {
+          failures.push({ articleId, error: retryError?.message || String(retryError) });
+        }
+      }
+    }
+
+    return { articles, failures };
+  }
+
+  /**
+   * Decrypt one gated article with the credentials the reader holds for it, article NFT included
+   */
+  private async decryptArticle(
+    articleId: string,
+    payload: Uint8Array,
+    contentId: string
+  ): Promise<{ content: Uint8Array; credentialsTried: CredentialKind[] }> {
+    const resolved = await this.resolveCredentials(articleId);
+
+    const sealClient = createSealClient({ suiClient: this.client });
+    const content = await sealClient.decryptContent({
+      encryptedData: payload,
+      contentId,
+      credentials: resolved.credentials,
+      packageId: this.packageId,
+      requestingClient: this.client,
+      credentialOrder: resolved.order,
+    });
+
+    return { content, credentialsTried: resolved.order };
+  }
+
+  /**
+   * Article → vault Blob → Walrus bytes (still encrypted when gated)
+   */
+  private async download(articleId: string): Promise<DownloadedArticle> {
+    const article = await this.articleManager.getArticle(articleId);
+    if (!article) {
+      throw new NotFoundError(`Article not found: ${articleId}`);
+    }
+
+    const isGated = article.gating?.variant === 'Gated';
+
+    const blobId = await this.resolveBodyBlobId(article.vault_id, article.body_blob_id);
+    console.log(chalk.gray(`  Blob ID: ${blobId}`));
+
+    const walrusClient = createWalrusClient({ suiClient: this.client });
+    const payload = await walrusClient.downloadBlob(blobId);
+
+    return { article, isGated, blobId, payload };
+  }
+
+  private async resolveCredentials(articleId: string) {
+    const resolved = await this.credentialResolver.resolveForArticle(articleId);
+
+    if (resolved.order.length === 0) {
+      throw contractError('policy::E_ACCESS_DENIED', `No credentials grant access to article ${articleId}. Subscribe to the publication or mint an article NFT.`);
+    }
+
+    return resolved;
+  }
+
+  private toResult(
+    articleId: string,
+    article: any,
+    blobId: string,
+    isGated: boolean,
+    contentId: string | null,
+    credentialsTried: CredentialKind[],
+    content: Uint8Array
+  ): ContentReadResult {
+    return {
+      articleId,
+      title: article.title,
+      slug: article.slug,
+      publicationId: article.publication_id,
+      blobId,
+      blobObjectId: article.body_blob_id,
+      isGated,
+      contentId,
+      credentialsTried,
+      content,
+    };
+  }
+
+  /**
+   * Look up `vault.blobs[blobObjectId]` and convert its u256 blob_id to the Walrus string form
+   */
+  private async resolveBodyBlobId(vaultId: string, blobObjectId: string): Promise<string> {
+    const vaultData = await this.client.getObject(vaultId);
+    const tableId = (vaultData.data as any)?.content?.fields?.blobs?.fields?.id?.id;
+    if (!tableId) {
+      throw new NotFoundError(`Vault not found: ${vaultId}`);
+    }
+
+    const entry = await this.client.getDynamicFieldObject(tableId, {
+      type: '0x2::object::ID',
+      value: blobObjectId,
+    });
+
+    const blobFields = (entry.data as any)?.content?.fields?.value?.fields;
+    if (!blobFields?.blob_id) {
+      throw contractError('vault::E_ASSET_NOT_FOUND', `Blob ${blobObjectId} is not stored in vault ${vaultId}`);
+    }
+
+    return blobIdFromInt(String(blobFields.blob_id));
+  }
+
+  /**
+   * The IdV1 used at encryption time is carried in the Seal header; check it
+   * belongs to the article's publication before asking key servers for shares
+   */
+  private readContentId(encryptedData: Uint8Array, publicationId: string): string {
+    let contentId: string;
+    try {
+      contentId = readEncryptedContentId(encryptedData);
+    } catch (error) {
+      throw new InvalidContentIdError(`Article body is not a Seal encrypted object: ${error}`, { cause: error });
+    }
+
+    const decoded = decodeContentId(contentId);
+
+    if (decoded.publication !== publicationId) {
+      throw contractError('policy::E_BAD_ID', `Content ID belongs to publication ${decoded.publication}, expected ${publicationId}`);
+    }
+
+    return contentId;
+  }
+}
@@ -1,5 +1,6 @@
-import { Transaction } from '@mysten/sui/transactions';
 import { MultiWalletClient, type UserRole } from '../utils/multi-wallet-client.js';
+import { createTransaction } from '../utils/transactions.js';
+import * as publicationMove from '../generated/publication.js';
 import chalk from 'chalk';
 
 export interface PublicationResult {
@@ -41,15 +42,12 @@ export class PublicationFlow {
     await this.multiWallet.ensureSufficientBalance('creator', 1.0);
 
     // Build transaction
-    const tx = new Transaction();
+    const builder = createTransaction(creatorClient);
     
-    // Call the publication creation entry function
-    tx.moveCall({
-      target: `${this.packageId}::publication::create_publication`,
-      arguments: [
-        tx.pure.string(publicationName),
-      ],
-    });
+    // The contract shares the publication and vault; keep the returned owner cap
+    const ownerCap = publicationMove.create(builder, this.packageId, [publicationName]);
+    builder.transferObjects([ownerCap], creatorClient.getAddress());
+    const tx = builder.getTransaction();
 
     console.log(chalk.gray('  Building transaction...'));
 
@@ -163,17 +161,9 @@ export class PublicationFlow {
     await this.multiWallet.ensureSufficientBalance('creator', 0.5);
 
     // Build transaction
-    const tx = new Transaction();
-    
-    // Call the add contributor entry function
-    tx.moveCall({
-      target: `${this.packageId}::publication::add_contributor_entry`,
-      arguments: [
-        tx.object(ownerCapId),
-        tx.object(publicationId),
-        tx.pure.address(contributorAddress),
-      ],
-    });
+    const builder = createTransaction(creatorClient);
+    publicationMove.addContributor(builder, this.packageId, [ownerCapId, publicationId, contributorAddress]);
+    const tx = builder.getTransaction();
 
     console.log(chalk.gray('  Building transaction...'));
 
@@ -18,7 +18,6 @@ module contracts::policy_tests {
             let tag = 0u8;        // TAG_ARTICLE_CONTENT
             let version = 1u16;   // ID_VERSION_V1
             let publication = @0x123;
-            let article = @0x456;
             let nonce = 789u64;
             
             // Encode using BCS
@@ -28,26 +27,23 @@ module contracts::policy_tests {
             let mut tag_bytes = bcs::to_bytes(&tag);
             let mut version_bytes = bcs::to_bytes(&version);
             let mut publication_bytes = bcs::to_bytes(&publication);
-            let mut article_bytes = bcs::to_bytes(&article);
             let mut nonce_bytes = bcs::to_bytes(&nonce);
             
             // Concatenate bytes
             vector::append(&mut encoded, tag_bytes);
             vector::append(&mut encoded, version_bytes);
             vector::append(&mut encoded, publication_bytes);
-            vector::append(&mut encoded, article_bytes);
             vector::append(&mut encoded, nonce_bytes);
             
             // Parse the encoded data
             let parsed = policy::parse_id_v1(&encoded);
-            let (parsed_tag, parsed_version, parsed_publication, parsed_article, parsed_nonce) = 
+            let (parsed_tag, parsed_version, parsed_publication, parsed_nonce) = 
                 policy::get_id_v1_fields(&parsed);
             
             // Verify parsed values match original
             assert!(parsed_tag == tag, 0);
             assert!(parsed_version == version, 0);
             assert!(parsed_publication == publication, 0);
-            assert!(parsed_article == article, 0);
             assert!(parsed_nonce == nonce, 0);
         };
         
@@ -66,20 +62,17 @@ module contracts::policy_tests {
             let wrong_tag = 99u8;  // Invalid tag
             let version = 1u16;
             let publication = @0x123;
-            let article = @0x456;
             let nonce = 789u64;
             
             let mut encoded = vector::empty<u8>();
             let mut tag_bytes = bcs::to_bytes(&wrong_tag);
             let mut version_bytes = bcs::to_bytes(&version);
             let mut publication_bytes = bcs::to_bytes(&publication);
-            let mut article_bytes = bcs::to_bytes(&article);
             let mut nonce_bytes = bcs::to_bytes(&nonce);
             
             vector::append(&mut encoded, tag_bytes);
             vector::append(&mut encoded, version_bytes);
             vector::append(&mut encoded, publication_bytes);
-            vector::append(&mut encoded, article_bytes);
             vector::append(&mut encoded, nonce_bytes);
             
             // This should fail with E_WRONG_TAG
@@ -100,20 +93,17 @@ module contracts::policy_tests {
             let tag = 0u8;
             let wrong_version = 2u16;  // Invalid version
             let publication = @0x123;
-            let article = @0x456;
             let nonce = 789u64;
             
             let mut encoded = vector::empty<u8>();
             let mut tag_bytes = bcs::to_bytes(&tag);
             let mut version_bytes = bcs::to_bytes(&wrong_version);
             let mut publication_bytes = bcs::to_bytes(&publication);
-            let mut article_bytes = bcs::to_bytes(&article);
             let mut nonce_bytes = bcs::to_bytes(&nonce);
             
             vector::append(&mut encoded, tag_bytes);
             vector::append(&mut encoded, version_bytes);
             vector::append(&mut encoded, publication_bytes);
-            vector::append(&mut encoded, article_bytes);
             vector::append(&mut encoded, nonce_bytes);
             
             // This should fail with E_WRONG_VERSION
@@ -134,20 +124,17 @@ module contracts::policy_tests {
             let tag = 0u8;
             let version = 1u16;
             let publication = @0x123;
-            let article = @0x456;
             let nonce = 789u64;
             
             let mut encoded = vector::empty<u8>();
             let mut tag_bytes = bcs::to_bytes(&tag);
             let mut version_bytes = bcs::to_bytes(&version);
             let mut publication_bytes = bcs::to_bytes(&publication);
-            let mut article_bytes = bcs::to_bytes(&article);
             let mut nonce_bytes = bcs::to_bytes(&nonce);
             
             vector::append(&mut encoded, tag_bytes);
             vector::append(&mut encoded, version_bytes);
             vector::append(&mut encoded, publication_bytes);
-            vector::append(&mut encoded, article_bytes);
             vector::append(&mut encoded, nonce_bytes);
             
             // Add trailing bytes
@@ -163,6 +150,47 @@ module contracts::policy_tests {
         test_utils::end_scenario(scenario);
     }
 
+    // === Golden Vectors ===
+    // Shared with scripts/src/utils/content-id.ts (ID_V1_GOLDEN_VECTORS); update both together.
+
+    #[test]
+    fun test_id_v1_golden_vectors() {
+        let encoded_ids = vector[
+            x"00010000000000000000000000000000000000000000000000000000000000000001231503000000000000",
+            x"000100ffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff",
+            x"0001004f2c1b8e9d7a6c5b3e2f1a0d9c8b7a6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b0a0068e5cf8b010000",
+        ];
+        let publications = vector[
+            @0x123,
+            @0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF,
+            @0x4f2c1b8e9d7a6c5b3e2f1a0d9c8b7a6e5d4c3b2a1f0e9d8c7b6a5f4e3d2c1b0a,
+        ];
+        let nonces = vector[789u64, 18446744073709551615u64, 1700000000000u64];
+
+        let mut i = 0;
+        while (i < vector::length(&encoded_ids)) {
+            let encoded = *vector::borrow(&encoded_ids, i);
+            let publication = *vector::borrow(&publications, i);
+            let nonce = *vector::borrow(&nonces, i);
+
+            // Contract-side encoding must produce the same bytes
+            let mut expected = bcs::to_bytes(&0u8);
+            vector::append(&mut expected, bcs::to_bytes(&1u16));
+            vector::append(&mut expected, bcs::to_bytes(&publication));
+            vector::append(&mut expected, bcs::to_bytes(&nonce));
+            assert!(expected == encoded, i);
+
+            let parsed = policy::parse_id_v1(&encoded);
+            let (tag, version, parsed_publication, parsed_nonce) = policy::get_id_v1_fields(&parsed);
+            assert!(tag == 0, i);
+            assert!(version == 1, i);
+            assert!(parsed_publication == publication, i);
+            assert!(parsed_nonce == nonce, i);
+
+            i = i + 1;
+        };
+    }
+
     // === Policy Function Logic Tests ===
 
     #[test]
@@ -236,32 +264,28 @@ module contracts::policy_tests {
             let tag = 0u8;
             let version = 1u16;
             let publication = @0xABC;
-            let article = @0xDEF;
             let nonce = 12345u64;
             
             let mut encoded = vector::empty<u8>();
             let mut tag_bytes = bcs::to_bytes(&tag);
             let mut version_bytes = bcs::to_bytes(&version);
             let mut publication_bytes = bcs::to_bytes(&publication);
-            let mut article_bytes = bcs::to_bytes(&article);
             let mut nonce_bytes = bcs::to_bytes(&nonce);
             
             vector::append(&mut encoded, tag_bytes);
             vector::append(&mut encoded, version_bytes);
             vector::append(&mut encoded, publication_bytes);
-            vector::append(&mut encoded, article_bytes);
             vector::append(&mut encoded, nonce_bytes);
             
             let parsed = policy::parse_id_v1(&encoded);
             
             // Test field access functions
-            let (field_tag, field_version, field_publication, field_article, field_nonce) = 
+            let (field_tag, field_version, field_publication, field_nonce) = 
                 policy::get_id_v1_fields(&parsed);
             
             assert!(field_tag == tag, 0);
             assert!(field_version == version, 0);
             assert!(field_publication == publication, 0);
-            assert!(field_article == article, 0);
             assert!(field_nonce == nonce, 0);
         };
         
@@ -333,22 +357,19 @@ module contracts::policy_tests {
                 let mut tag_bytes = bcs::to_bytes(&tag);
                 let mut version_bytes = bcs::to_bytes(&version);
                 let mut pub_bytes = bcs::to_bytes(&addr);
-                let mut art_bytes = bcs::to_bytes(&addr);
                 let mut nonce_bytes = bcs::to_bytes(&nonce);
                 
                 vector::append(&mut encoded, tag_bytes);
                 vector::append(&mut encoded, version_bytes);
                 vector::append(&mut encoded, pub_bytes);
-                vector::append(&mut encoded, art_bytes);
                 vector::append(&mut encoded, nonce_bytes);
                 
                 // Should parse successfully
                 let parsed = policy::parse_id_v1(&encoded);
-                let (_, _, parsed_publication, parsed_article, parsed_nonce) = 
+                let (_, _, parsed_publication, parsed_nonce) = 
                     policy::get_id_v1_fields(&parsed);
                 
                 assert!(parsed_publication == addr, 0);
-                assert!(parsed_article == addr, 0);
                 assert!(parsed_nonce == (i as u64), 0);
                 
                 i = i + 1;